@@ -5,31 +5,24 @@
  */
 
 const express = require('express');
-const { createMollieClient } = require('@mollie/api-client');
+const { createMollieClient, createExpressWebhookHandler, WebhookHandler } = require('@mollie/api-client');
 
 const app = express();
 const mollieClient = createMollieClient({ apiKey: 'test_dHar4XY7LxsDOtmnkVtjNVWXLSlXsM' });
 
 /**
- * Your webhook will be called with a single POST-parameter named id, which for example will
- * contain the value tr_7r4n54c710n. You should use that id to actively fetch the payment to
- * find out about its status.
+ * Your webhook will be called with a single POST-parameter named id, which for example will contain the value
+ * tr_7r4n54c710n. The webhook handler uses that id to actively fetch the payment, and emits events based on its status.
+ * The response is 200 once the listeners have completed, or 500 if one of them throws (so Mollie tries again later).
  */
-app.post('/webhook', (req, res) => {
-  mollieClient.payments
-    .get(req.body.id)
-    .then(payment => {
-      if (payment.isPaid()) {
-        // Hooray, you've received a payment! You can start shipping to the consumer.
-      } else if (!payment.isOpen()) {
-        // The payment isn't paid and has expired. We can assume it was aborted.
-      }
-      res.send(payment.status);
-    })
-    .catch(error => {
-      // Do some proper error handling.
-      res.send(error);
-    });
-});
+const webhookHandler = new WebhookHandler(mollieClient)
+  .on('payment.paid', payment => {
+    // Hooray, you've received a payment! You can start shipping to the consumer.
+  })
+  .on('payment.expired', payment => {
+    // The payment isn't paid and has expired. We can assume it was aborted.
+  });
+
+app.post('/webhook', createExpressWebhookHandler(webhookHandler, { onError: console.error }));
 
 app.listen(8000, () => console.log('Example app listening on port 8000.'));
@@ -4,14 +4,22 @@ import resolve from 'rollup-plugin-node-resolve';
 import babel from 'rollup-plugin-babel';
 
 export default {
-  input: join('src', 'createMollieClient.ts'),
+  // The testing utilities have an entry point of their own, so they are not part of the main bundles. Code shared by
+  // both entry points ends up in a separate chunk.
+  input: {
+    mollie: join('src', 'createMollieClient.ts'),
+    testing: join('src', 'testing', 'index.ts'),
+  },
   external: [
     // These Node.js interenals are external to our bundles…
-    'https', 'querystring', 'url', 'util',
+    'crypto', 'fs', 'http', 'https', 'net', 'querystring', 'url', 'util',
     // …as are the dependencies listed in our package.json.
     ...Object.keys(require('./package.json').dependencies),
   ],
-  output: [{ file: join('dist', 'mollie.cjs.js'), format: 'cjs' }, { file: join('dist', 'mollie.esm.js'), format: 'es' }],
+  output: [
+    { dir: 'dist', entryFileNames: '[name].cjs.js', chunkFileNames: '[name]-[hash].cjs.js', format: 'cjs' },
+    { dir: 'dist', entryFileNames: '[name].esm.js', chunkFileNames: '[name]-[hash].esm.js', format: 'es' },
+  ],
   plugins: [
     json(),
     resolve({
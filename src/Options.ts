@@ -1,5 +1,12 @@
 import { AxiosRequestConfig } from 'axios';
 
+import CircuitBreaker, { CircuitBreakerOptions } from './communication/CircuitBreaker';
+import Hooks from './communication/Hooks';
+import { Limiter, RateLimiterOptions } from './communication/RateLimiter';
+import ResponseCache, { ResponseCacheOptions } from './communication/ResponseCache';
+import { RecorderOptions } from './communication/RecordingTransport';
+import { RetryOptions } from './communication/RetryPolicy';
+import Transport from './communication/Transport';
 import Xor from './types/Xor';
 
 type Options = Xor<
@@ -29,6 +36,63 @@ type Options = Xor<
    * The URL of the root of the Mollie API. Default: `'https://api.mollie.com:443/v2/'`.
    */
   apiEndpoint?: string;
+  /**
+   * Whether failed requests are retried with exponential backoff (`true`), or not (`false`). Pass an object to
+   * configure the retry policy. `GET` and `DELETE` requests are retried safely; other requests are only retried if they
+   * carry an idempotency key. Default: `false`.
+   */
+  retry?: boolean | RetryOptions;
+  /**
+   * Whether an idempotency key is generated for every `POST`, `PATCH`, and `DELETE` request for which none was
+   * provided (`true`), or not (`false`). The generated key is reused when the request is retried, which makes those
+   * requests safe to retry as well. Default: `false`.
+   */
+  generateIdempotencyKeys?: boolean;
+  /**
+   * One or an array of sets of hooks, which are called before every request and after every response, retry, and
+   * failure. Hooks may alter outgoing requests, or answer them with a response of their own. Multiple sets of hooks are
+   * called in the order in which they are passed.
+   */
+  hooks?: Hooks | Hooks[];
+  /**
+   * Limits the rate at which requests are sent to the Mollie API. Pass an object to configure the number of requests
+   * per second and the number of concurrent requests; requests which exceed these limits are queued. After a `429 Too
+   * Many Requests` response, all requests are paused for the time dictated by its `Retry-After` header, and the request
+   * which received the response is queued again (up to the `maxRateLimitRetries` of the retry policy). Pass a
+   * `RateLimiter` (or another implementation of `Limiter`) to share limits between multiple clients. Default: no
+   * limits.
+   */
+  rateLimiter?: RateLimiterOptions | Limiter;
+  /**
+   * The transport which sends the requests over the network, such as a `FetchTransport`. Default: an `AxiosTransport`
+   * configured with the `adapter`, `proxy`, `socketPath`, and `timeout` options (which have no effect if a transport is
+   * passed).
+   */
+  transport?: Transport;
+  /**
+   * Caches the responses to `GET` requests for the configured pathnames, such as `methods` or `profiles/me`. Pass an
+   * object to configure the time-to-live per pathname and (optionally) the store. Pass a `ResponseCache` to share the
+   * cache between multiple clients, or to invalidate cached responses. Default: no caching.
+   */
+  cache?: ResponseCacheOptions | ResponseCache;
+  /**
+   * Whether identical `GET` requests which are in flight at the same time share a single request and response
+   * (`true`), or not (`false`). `POST`, `PATCH`, and `DELETE` requests are never shared. Default: `true`.
+   */
+  deduplicateRequests?: boolean;
+  /**
+   * Stops requests from being sent after too many have failed in a row, to fail fast while the Mollie API (or the
+   * network) is degraded. While the circuit is open, requests are rejected with a `CircuitOpenError`. Pass an object to
+   * configure the failure threshold and cool-down, and to observe state changes. Pass a `CircuitBreaker` to share the
+   * circuit between multiple clients. Default: no circuit breaker.
+   */
+  circuitBreaker?: CircuitBreakerOptions | CircuitBreaker;
+  /**
+   * Records the interactions with the Mollie API into a cassette (a JSON file), or replays them from one. This allows
+   * tests to run against recorded responses. The `Authorization` header is redacted from the recorded requests.
+   * Default: no recording.
+   */
+  recorder?: RecorderOptions;
 } & Pick<AxiosRequestConfig, 'adapter' | 'proxy' | 'socketPath' | 'timeout'>;
 
 export default Options;
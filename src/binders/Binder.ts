@@ -1,6 +1,7 @@
 import breakUrl from '../communication/breakUrl';
 import List from '../data/list/List';
 import Maybe from '../types/Maybe';
+import { RequestOptions } from '../types/parameters';
 
 /**
  * A binder is the interface for a certain type of information. There is a binder for orders, and one for customers, et
@@ -8,28 +9,42 @@ import Maybe from '../types/Maybe';
  */
 export default class Binder<R, T extends Omit<R, '_links' | '_embedded'>> {
   /**
-   * Injects `nextPage`, `nextPageCursor`, `previousPage`, and `previousPageCursor` into the passed list.
+   * Injects `nextPage`, `nextPageCursor`, `previousPage`, and `previousPageCursor` into the passed list. The pages are
+   * requested with the passed options.
    */
-  protected injectPaginationHelpers<P>(input: Array<T> & Pick<List<T>, 'count' | 'links'>, list: (parameters: P) => Promise<List<T>>, selfParameters: P = {} as P): List<T> {
+  protected injectPaginationHelpers<P>(
+    input: Array<T> & Pick<List<T>, 'count' | 'links'>,
+    list: (parameters: P, options?: RequestOptions) => Promise<List<T>>,
+    selfParameters: P = {} as P,
+    options?: RequestOptions,
+  ): List<T> {
     const { links } = input;
     let nextPage: Maybe<() => Promise<List<T>>>;
     let nextPageCursor: Maybe<string>;
     if (links.next != null) {
       const [, query] = breakUrl(links.next.href);
-      nextPage = list.bind(this, {
-        ...selfParameters,
-        ...query,
-      });
+      nextPage = list.bind(
+        this,
+        {
+          ...selfParameters,
+          ...query,
+        },
+        options,
+      );
       nextPageCursor = query.from;
     }
     let previousPage: Maybe<() => Promise<List<T>>>;
     let previousPageCursor: Maybe<string>;
     if (links.previous != null) {
       const [, query] = breakUrl(links.previous.href);
-      previousPage = list.bind(this, {
-        ...selfParameters,
-        ...query,
-      });
+      previousPage = list.bind(
+        this,
+        {
+          ...selfParameters,
+          ...query,
+        },
+        options,
+      );
       previousPageCursor = query.from;
     }
     return Object.assign(input, {
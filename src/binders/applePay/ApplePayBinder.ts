@@ -1,7 +1,9 @@
 import NetworkClient from '../../communication/NetworkClient';
 import ApplePaySession from '../../data/applePaySession/ApplePaySession';
+import getRequestOptions from '../../plumbing/getRequestOptions';
 import renege from '../../plumbing/renege';
 import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
 import { RequestPaymentSessionParameters } from './parameters';
 
 const pathSegments = 'wallets/applepay/sessions';
@@ -32,10 +34,10 @@ export default class ApplePayBinder {
    * @since 3.5.0
    * @see https://docs.mollie.com/reference/v2/wallets-api/request-apple-pay-payment-session
    */
-  public requestPaymentSession(parameters: RequestPaymentSessionParameters): Promise<ApplePaySession>;
+  public requestPaymentSession(parameters: RequestPaymentSessionParameters, options?: RequestOptions): Promise<ApplePaySession>;
   public requestPaymentSession(parameters: RequestPaymentSessionParameters, callback: Callback<ApplePaySession>): void;
-  public requestPaymentSession(parameters: RequestPaymentSessionParameters) {
+  public requestPaymentSession(parameters: RequestPaymentSessionParameters, options?: RequestOptions | Callback<ApplePaySession>) {
     if (renege(this, this.requestPaymentSession, ...arguments)) return;
-    return this.networkClient.post<ApplePaySession>(pathSegments, parameters);
+    return this.networkClient.post<ApplePaySession>(pathSegments, parameters, undefined, undefined, getRequestOptions(options));
   }
 }
@@ -0,0 +1,102 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import Balance from '../../data/balances/Balance';
+import { BalanceData } from '../../data/balances/data';
+import BalanceReport from '../../data/balances/report/BalanceReport';
+import { BalanceReportData } from '../../data/balances/report/data';
+import List from '../../data/list/List';
+import { InvalidIdError } from '../../errors/ApiError';
+import checkId from '../../plumbing/checkId';
+import getRequestOptions from '../../plumbing/getRequestOptions';
+import renege from '../../plumbing/renege';
+import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
+import Binder from '../Binder';
+import { GetReportParameters, IterateParameters, ListParameters } from './parameters';
+
+const pathSegment = 'balances';
+
+export default class BalancesBinder extends Binder<BalanceData, Balance> {
+  constructor(protected readonly networkClient: TransformingNetworkClient) {
+    super();
+  }
+
+  /**
+   * When processing payments with Mollie, we put all pending funds ‒ usually minus Mollie fees ‒ on a balance. Once you have linked a bank account to your Mollie account, we can pay out your balance
+   * towards this bank account.
+   *
+   * With the Balances API you can retrieve your current balance. The response includes two amounts: the pending amount, and the available amount.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance
+   */
+  public get(id: string, options?: RequestOptions): Promise<Balance>;
+  public get(id: string, callback: Callback<Balance>): void;
+  public get(id: string, options?: RequestOptions | Callback<Balance>) {
+    if (renege(this, this.get, ...arguments)) return;
+    if (!checkId(id, 'balance')) {
+      throw new InvalidIdError('The balance id is invalid');
+    }
+    return this.networkClient.get<BalanceData, Balance>(`${pathSegment}/${id}`, undefined, getRequestOptions(options));
+  }
+
+  /**
+   * Retrieve the primary balance. This is the balance of your account's primary currency, where all payments are settled to by default.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-primary-balance
+   */
+  public getPrimary(options?: RequestOptions): Promise<Balance>;
+  public getPrimary(callback: Callback<Balance>): void;
+  public getPrimary(options?: RequestOptions | Callback<Balance>) {
+    if (renege(this, this.getPrimary, ...arguments)) return;
+    return this.networkClient.get<BalanceData, Balance>(`${pathSegment}/primary`, undefined, getRequestOptions(options));
+  }
+
+  /**
+   * Retrieve a list of the organization's balances, including the primary balance, ordered from newest to oldest.
+   *
+   * The results are paginated. See pagination for more information.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/balances-api/list-balances
+   */
+  public page(parameters?: ListParameters, options?: RequestOptions): Promise<List<Balance>>;
+  public page(parameters: ListParameters, callback: Callback<List<Balance>>): void;
+  public page(parameters: ListParameters = {}, options?: RequestOptions | Callback<List<Balance>>) {
+    if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
+    return this.networkClient
+      .list<BalanceData, Balance>(pathSegment, 'balances', parameters, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
+  }
+
+  /**
+   * Retrieve a list of the organization's balances, including the primary balance, ordered from newest to oldest.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/balances-api/list-balances
+   */
+  public iterate(parameters?: IterateParameters, options?: RequestOptions) {
+    const { valuesPerMinute, ...query } = parameters ?? {};
+    return this.networkClient.iterate<BalanceData, Balance>(pathSegment, 'balances', query, valuesPerMinute, options);
+  }
+
+  /**
+   * With the Get balance report endpoint you can retrieve a summarized report for all movements on a given balance within a given timeframe. The report includes the opening and closing balance,
+   * and the totals per category (or per status).
+   *
+   * Pass `'primary'` as the balance id to retrieve the report of the primary balance.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance-report
+   */
+  public getReport(balanceId: string, parameters: GetReportParameters, options?: RequestOptions): Promise<BalanceReport>;
+  public getReport(balanceId: string, parameters: GetReportParameters, callback: Callback<BalanceReport>): void;
+  public getReport(balanceId: string, parameters: GetReportParameters, options?: RequestOptions | Callback<BalanceReport>) {
+    if (renege(this, this.getReport, ...arguments)) return;
+    if (balanceId != 'primary' && !checkId(balanceId, 'balance')) {
+      throw new InvalidIdError('The balance id is invalid');
+    }
+    return this.networkClient.get<BalanceReportData, BalanceReport>(`${pathSegment}/${balanceId}/report`, parameters, getRequestOptions(options));
+  }
+}
@@ -0,0 +1,26 @@
+import { BalanceReportGrouping } from '../../data/balances/report/data';
+import { PaginationParameters, ThrottlingParameters } from '../../types/parameters';
+
+export type ListParameters = PaginationParameters & {
+  /**
+   * Filters the balances by currency, such as `'EUR'`.
+   */
+  currency?: string;
+};
+
+export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
+
+export interface GetReportParameters {
+  /**
+   * The start date of the report, in `YYYY-MM-DD` format. The from date is 'inclusive', and in Central European Time.
+   */
+  from: string;
+  /**
+   * The end date of the report, in `YYYY-MM-DD` format. The until date is 'exclusive', and in Central European Time.
+   */
+  until: string;
+  /**
+   * The format of the report. Default: `status-balances`.
+   */
+  grouping?: BalanceReportGrouping;
+}
@@ -0,0 +1,70 @@
+import TransformingNetworkClient from '../../../communication/TransformingNetworkClient';
+import BalanceTransaction from '../../../data/balances/transactions/BalanceTransaction';
+import { BalanceTransactionData } from '../../../data/balances/transactions/data';
+import List from '../../../data/list/List';
+import { InvalidIdError } from '../../../errors/ApiError';
+import checkId from '../../../plumbing/checkId';
+import getRequestOptions from '../../../plumbing/getRequestOptions';
+import renege from '../../../plumbing/renege';
+import Callback from '../../../types/Callback';
+import Maybe from '../../../types/Maybe';
+import { RequestOptions } from '../../../types/parameters';
+import InnerBinder from '../../InnerBinder';
+import { IterateParameters, ListParameters } from './parameters';
+
+function getPathSegments(balanceId: string) {
+  return `balances/${balanceId}/transactions`;
+}
+
+/**
+ * Returns whether the passed identifier is `'primary'` or a plausible balance identifier.
+ */
+function checkBalanceId(value: Maybe<string>): value is string {
+  return value == 'primary' || checkId(value, 'balance');
+}
+
+export default class BalanceTransactionsBinder extends InnerBinder<BalanceTransactionData, BalanceTransaction> {
+  constructor(protected readonly networkClient: TransformingNetworkClient) {
+    super();
+  }
+
+  /**
+   * With the List balance transactions endpoint you can retrieve a list of all the movements on your balance. This includes payments, refunds, chargebacks, and settlements.
+   *
+   * The results are paginated. See pagination for more information.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/balances-api/list-balance-transactions
+   */
+  public page(parameters: ListParameters, options?: RequestOptions): Promise<List<BalanceTransaction>>;
+  public page(parameters: ListParameters, callback: Callback<List<BalanceTransaction>>): void;
+  public page(parameters: ListParameters, options?: RequestOptions | Callback<List<BalanceTransaction>>) {
+    if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
+    // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
+    const balanceId = this.getParentId((parameters ?? {}).balanceId);
+    if (!checkBalanceId(balanceId)) {
+      throw new InvalidIdError('The balance id is invalid');
+    }
+    const { balanceId: _, ...query } = parameters ?? {};
+    return this.networkClient
+      .list<BalanceTransactionData, BalanceTransaction>(getPathSegments(balanceId), 'balance_transactions', query, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters ?? {}, requestOptions));
+  }
+
+  /**
+   * With the List balance transactions endpoint you can retrieve a list of all the movements on your balance. This includes payments, refunds, chargebacks, and settlements.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/balances-api/list-balance-transactions
+   */
+  public iterate(parameters: IterateParameters, options?: RequestOptions) {
+    // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
+    const balanceId = this.getParentId((parameters ?? {}).balanceId);
+    if (!checkBalanceId(balanceId)) {
+      throw new InvalidIdError('The balance id is invalid');
+    }
+    const { valuesPerMinute, balanceId: _, ...query } = parameters ?? {};
+    return this.networkClient.iterate<BalanceTransactionData, BalanceTransaction>(getPathSegments(balanceId), 'balance_transactions', query, valuesPerMinute, options);
+  }
+}
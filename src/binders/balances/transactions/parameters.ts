@@ -0,0 +1,12 @@
+import { PaginationParameters, ThrottlingParameters } from '../../../types/parameters';
+
+interface ContextParameters {
+  /**
+   * The ID of the balance, or `'primary'` for the primary balance.
+   */
+  balanceId: string;
+}
+
+export type ListParameters = ContextParameters & PaginationParameters;
+
+export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
@@ -1,8 +1,10 @@
 import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
 import Chargeback, { ChargebackData } from '../../data/chargebacks/Chargeback';
 import List from '../../data/list/List';
+import getRequestOptions from '../../plumbing/getRequestOptions';
 import renege from '../../plumbing/renege';
 import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
 import InnerBinder from '../InnerBinder';
 import { IterateParameters, ListParameters } from './parameters';
 
@@ -42,11 +44,14 @@ export default class ChargebacksBinder extends InnerBinder<ChargebackData, Charg
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/chargebacks-api/list-chargebacks
    */
-  public page(parameters?: ListParameters): Promise<List<Chargeback>>;
+  public page(parameters?: ListParameters, options?: RequestOptions): Promise<List<Chargeback>>;
   public page(parameters: ListParameters, callback: Callback<List<Chargeback>>): void;
-  public page(parameters: ListParameters = {}) {
+  public page(parameters: ListParameters = {}, options?: RequestOptions | Callback<List<Chargeback>>) {
     if (renege(this, this.page, ...arguments)) return;
-    return this.networkClient.list<ChargebackData, Chargeback>(pathSegment, 'chargebacks', parameters).then(result => this.injectPaginationHelpers(result, this.page, parameters));
+    const requestOptions = getRequestOptions(options);
+    return this.networkClient
+      .list<ChargebackData, Chargeback>(pathSegment, 'chargebacks', parameters, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
   }
 
   /**
@@ -57,8 +62,8 @@ export default class ChargebacksBinder extends InnerBinder<ChargebackData, Charg
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/chargebacks-api/list-chargebacks
    */
-  public iterate(parameters?: IterateParameters) {
+  public iterate(parameters?: IterateParameters, options?: RequestOptions) {
     const { valuesPerMinute, ...query } = parameters ?? {};
-    return this.networkClient.iterate<ChargebackData, Chargeback>(pathSegment, 'chargebacks', query, valuesPerMinute);
+    return this.networkClient.iterate<ChargebackData, Chargeback>(pathSegment, 'chargebacks', query, valuesPerMinute, options);
   }
 }
@@ -0,0 +1,33 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import ClientLink from '../../data/clientLinks/ClientLink';
+import { ClientLinkData } from '../../data/clientLinks/data';
+import getRequestOptions from '../../plumbing/getRequestOptions';
+import renege from '../../plumbing/renege';
+import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
+import Binder from '../Binder';
+import { CreateParameters } from './parameters';
+
+const pathSegment = 'client-links';
+
+export default class ClientLinksBinder extends Binder<ClientLinkData, ClientLink> {
+  constructor(protected readonly networkClient: TransformingNetworkClient) {
+    super();
+  }
+
+  /**
+   * Link a new organization to your OAuth application, in effect creating a new client. The organization's owner and organization data is prefilled in the sign-up form.
+   *
+   * Send your customer to the link returned by `getClientLink` of the created client link.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/client-links-api/create-client-link
+   */
+  public create(parameters: CreateParameters, options?: RequestOptions): Promise<ClientLink>;
+  public create(parameters: CreateParameters, callback: Callback<ClientLink>): void;
+  public create(parameters: CreateParameters, options?: RequestOptions | Callback<ClientLink>) {
+    if (renege(this, this.create, ...arguments)) return;
+    const { idempotencyKey, ...data } = parameters;
+    return this.networkClient.post<ClientLinkData, ClientLink>(pathSegment, data, undefined, idempotencyKey, getRequestOptions(options));
+  }
+}
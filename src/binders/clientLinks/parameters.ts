@@ -0,0 +1,58 @@
+import { Address, Locale } from '../../data/global';
+import { IdempotencyParameter } from '../../types/parameters';
+
+export type CreateParameters = IdempotencyParameter & {
+  /**
+   * Personal data of your customer, which is prefilled in the sign-up form.
+   *
+   * @see https://docs.mollie.com/reference/v2/client-links-api/create-client-link?path=owner#parameters
+   */
+  owner: {
+    email: string;
+    givenName: string;
+    familyName: string;
+    locale?: Locale;
+  };
+  /**
+   * Name of the organization.
+   *
+   * @see https://docs.mollie.com/reference/v2/client-links-api/create-client-link?path=name#parameters
+   */
+  name: string;
+  /**
+   * Address of the organization. Only the country is required.
+   *
+   * @see https://docs.mollie.com/reference/v2/client-links-api/create-client-link?path=address#parameters
+   */
+  address: Partial<Address> & Pick<Address, 'country'>;
+  /**
+   * The Chamber of Commerce (or local equivalent) registration number of the organization.
+   *
+   * @see https://docs.mollie.com/reference/v2/client-links-api/create-client-link?path=registrationNumber#parameters
+   */
+  registrationNumber?: string;
+  /**
+   * The VAT number of the organization, if based in the European Union or the United Kingdom.
+   *
+   * @see https://docs.mollie.com/reference/v2/client-links-api/create-client-link?path=vatNumber#parameters
+   */
+  vatNumber?: string;
+  /**
+   * The legal entity of the organization, such as `'limited-company'`.
+   *
+   * @see https://docs.mollie.com/reference/v2/client-links-api/create-client-link?path=legalEntity#parameters
+   */
+  legalEntity?: string;
+  /**
+   * The registration office of the organization (for organizations in France).
+   *
+   * @see https://docs.mollie.com/reference/v2/client-links-api/create-client-link?path=registrationOffice#parameters
+   */
+  registrationOffice?: string;
+  /**
+   * The incorporation date of the organization, in `YYYY-MM-DD` format.
+   *
+   * @see https://docs.mollie.com/reference/v2/client-links-api/create-client-link?path=incorporationDate#parameters
+   */
+  incorporationDate?: string;
+};
@@ -0,0 +1,63 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import Client from '../../data/clients/Client';
+import { ClientData } from '../../data/clients/data';
+import List from '../../data/list/List';
+import { InvalidIdError } from '../../errors/ApiError';
+import checkId from '../../plumbing/checkId';
+import getRequestOptions from '../../plumbing/getRequestOptions';
+import renege from '../../plumbing/renege';
+import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
+import Binder from '../Binder';
+import { GetParameters, IterateParameters, ListParameters } from './parameters';
+
+const pathSegment = 'clients';
+
+export default class ClientsBinder extends Binder<ClientData, Client> {
+  constructor(protected readonly networkClient: TransformingNetworkClient) {
+    super();
+  }
+
+  /**
+   * Retrieve a single client, linked to your partner account, by its ID (which is the ID of the client's organization).
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/partners-api/get-client
+   */
+  public get(id: string, parameters?: GetParameters, options?: RequestOptions): Promise<Client>;
+  public get(id: string, parameters: GetParameters, callback: Callback<Client>): void;
+  public get(id: string, parameters?: GetParameters, options?: RequestOptions | Callback<Client>) {
+    if (renege(this, this.get, ...arguments)) return;
+    if (!checkId(id, 'organization')) {
+      throw new InvalidIdError('The client id is invalid');
+    }
+    return this.networkClient.get<ClientData, Client>(`${pathSegment}/${id}`, parameters, getRequestOptions(options));
+  }
+
+  /**
+   * Retrieve a list of all clients linked to your partner account.
+   *
+   * The results are paginated. See pagination for more information.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/partners-api/list-clients
+   */
+  public page(parameters?: ListParameters, options?: RequestOptions): Promise<List<Client>>;
+  public page(parameters: ListParameters, callback: Callback<List<Client>>): void;
+  public page(parameters: ListParameters = {}, options?: RequestOptions | Callback<List<Client>>) {
+    if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
+    return this.networkClient.list<ClientData, Client>(pathSegment, 'clients', parameters, requestOptions).then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
+  }
+
+  /**
+   * Retrieve a list of all clients linked to your partner account.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/partners-api/list-clients
+   */
+  public iterate(parameters?: IterateParameters, options?: RequestOptions) {
+    const { valuesPerMinute, ...query } = parameters ?? {};
+    return this.networkClient.iterate<ClientData, Client>(pathSegment, 'clients', query, valuesPerMinute, options);
+  }
+}
@@ -0,0 +1,12 @@
+import { ClientEmbed } from '../../data/clients/data';
+import { PaginationParameters, ThrottlingParameters } from '../../types/parameters';
+
+export interface GetParameters {
+  embed?: ClientEmbed[];
+}
+
+export type ListParameters = PaginationParameters & {
+  embed?: ClientEmbed[];
+};
+
+export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
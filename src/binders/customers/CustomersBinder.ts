@@ -1,10 +1,12 @@
 import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
 import Customer, { CustomerData } from '../../data/customers/Customer';
 import List from '../../data/list/List';
-import ApiError from '../../errors/ApiError';
+import { InvalidIdError } from '../../errors/ApiError';
 import checkId from '../../plumbing/checkId';
+import getRequestOptions from '../../plumbing/getRequestOptions';
 import renege from '../../plumbing/renege';
 import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
 import Binder from '../Binder';
 import { CreateParameters, DeleteParameters, GetParameters, IterateParameters, ListParameters, UpdateParameters } from './parameters';
 
@@ -51,11 +53,12 @@ export default class CustomersBinder extends Binder<CustomerData, Customer> {
    * @since 2.0.0
    * @see https://docs.mollie.com/reference/v2/customers-api/create-customer
    */
-  public create(parameters: CreateParameters): Promise<Customer>;
+  public create(parameters: CreateParameters, options?: RequestOptions): Promise<Customer>;
   public create(parameters: CreateParameters, callback: Callback<Customer>): void;
-  public create(parameters: CreateParameters) {
+  public create(parameters: CreateParameters, options?: RequestOptions | Callback<Customer>) {
     if (renege(this, this.create, ...arguments)) return;
-    return this.networkClient.post<CustomerData, Customer>(pathSegment, parameters);
+    const { idempotencyKey, ...data } = parameters;
+    return this.networkClient.post<CustomerData, Customer>(pathSegment, data, undefined, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -64,14 +67,14 @@ export default class CustomersBinder extends Binder<CustomerData, Customer> {
    * @since 2.0.0
    * @see https://docs.mollie.com/reference/v2/customers-api/get-customer
    */
-  public get(id: string, parameters?: GetParameters): Promise<Customer>;
+  public get(id: string, parameters?: GetParameters, options?: RequestOptions): Promise<Customer>;
   public get(id: string, parameters: GetParameters, callback: Callback<Customer>): void;
-  public get(id: string, parameters?: GetParameters) {
+  public get(id: string, parameters?: GetParameters, options?: RequestOptions | Callback<Customer>) {
     if (renege(this, this.get, ...arguments)) return;
     if (!checkId(id, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
-    return this.networkClient.get<CustomerData, Customer>(`${pathSegment}/${id}`, parameters);
+    return this.networkClient.get<CustomerData, Customer>(`${pathSegment}/${id}`, parameters, getRequestOptions(options));
   }
 
   /**
@@ -82,11 +85,14 @@ export default class CustomersBinder extends Binder<CustomerData, Customer> {
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/customers-api/list-customers
    */
-  public page(parameters?: ListParameters): Promise<List<Customer>>;
+  public page(parameters?: ListParameters, options?: RequestOptions): Promise<List<Customer>>;
   public page(parameters: ListParameters, callback: Callback<List<Customer>>): void;
-  public page(parameters?: ListParameters) {
+  public page(parameters?: ListParameters, options?: RequestOptions | Callback<List<Customer>>) {
     if (renege(this, this.page, ...arguments)) return;
-    return this.networkClient.list<CustomerData, Customer>(pathSegment, 'customers', parameters).then(result => this.injectPaginationHelpers(result, this.page, parameters));
+    const requestOptions = getRequestOptions(options);
+    return this.networkClient
+      .list<CustomerData, Customer>(pathSegment, 'customers', parameters, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
   }
 
   /**
@@ -97,9 +103,9 @@ export default class CustomersBinder extends Binder<CustomerData, Customer> {
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/customers-api/list-customers
    */
-  public iterate(parameters?: IterateParameters) {
+  public iterate(parameters?: IterateParameters, options?: RequestOptions) {
     const { valuesPerMinute, ...query } = parameters ?? {};
-    return this.networkClient.iterate<CustomerData, Customer>(pathSegment, 'customers', query, valuesPerMinute);
+    return this.networkClient.iterate<CustomerData, Customer>(pathSegment, 'customers', query, valuesPerMinute, options);
   }
 
   /**
@@ -108,14 +114,15 @@ export default class CustomersBinder extends Binder<CustomerData, Customer> {
    * @since 2.0.0
    * @see https://docs.mollie.com/reference/v2/customers-api/update-customer
    */
-  public update(id: string, parameters: UpdateParameters): Promise<Customer>;
+  public update(id: string, parameters: UpdateParameters, options?: RequestOptions): Promise<Customer>;
   public update(id: string, parameters: UpdateParameters, callback: Callback<Customer>): void;
-  public update(id: string, parameters: UpdateParameters) {
+  public update(id: string, parameters: UpdateParameters, options?: RequestOptions | Callback<Customer>) {
     if (renege(this, this.update, ...arguments)) return;
     if (!checkId(id, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
-    return this.networkClient.patch<CustomerData, Customer>(`${pathSegment}/${id}`, parameters);
+    const { idempotencyKey, ...data } = parameters;
+    return this.networkClient.patch<CustomerData, Customer>(`${pathSegment}/${id}`, data, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -124,13 +131,14 @@ export default class CustomersBinder extends Binder<CustomerData, Customer> {
    * @since 2.0.0
    * @see https://docs.mollie.com/reference/v2/customers-api/delete-customer
    */
-  public delete(id: string, parameters?: DeleteParameters): Promise<true>;
+  public delete(id: string, parameters?: DeleteParameters, options?: RequestOptions): Promise<true>;
   public delete(id: string, parameters: DeleteParameters, callback: Callback<true>): void;
-  public delete(id: string, parameters?: DeleteParameters) {
+  public delete(id: string, parameters?: DeleteParameters, options?: RequestOptions | Callback<true>) {
     if (renege(this, this.delete, ...arguments)) return;
     if (!checkId(id, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
-    return this.networkClient.delete<CustomerData, true>(`${pathSegment}/${id}`, parameters);
+    const { idempotencyKey, ...context } = parameters ?? {};
+    return this.networkClient.delete<CustomerData, true>(`${pathSegment}/${id}`, context, idempotencyKey, getRequestOptions(options));
   }
 }
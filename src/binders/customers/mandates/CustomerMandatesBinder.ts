@@ -2,10 +2,12 @@ import TransformingNetworkClient from '../../../communication/TransformingNetwor
 import { MandateData } from '../../../data/customers/mandates/data';
 import Mandate from '../../../data/customers/mandates/Mandate';
 import List from '../../../data/list/List';
-import ApiError from '../../../errors/ApiError';
+import { InvalidIdError } from '../../../errors/ApiError';
 import checkId from '../../../plumbing/checkId';
+import getRequestOptions from '../../../plumbing/getRequestOptions';
 import renege from '../../../plumbing/renege';
 import Callback from '../../../types/Callback';
+import { RequestOptions } from '../../../types/parameters';
 import InnerBinder from '../../InnerBinder';
 import { CreateParameters, GetParameters, IterateParameters, ListParameters, RevokeParameters } from './parameters';
 
@@ -64,16 +66,16 @@ export default class CustomerMandatesBinder extends InnerBinder<MandateData, Man
    * @since 1.2.0
    * @see https://docs.mollie.com/reference/v2/mandates-api/create-mandate
    */
-  public create(parameters: CreateParameters): Promise<Mandate>;
+  public create(parameters: CreateParameters, options?: RequestOptions): Promise<Mandate>;
   public create(parameters: CreateParameters, callback: Callback<Mandate>): void;
-  public create(parameters: CreateParameters) {
+  public create(parameters: CreateParameters, options?: RequestOptions | Callback<Mandate>) {
     if (renege(this, this.create, ...arguments)) return;
     const customerId = this.getParentId(parameters.customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
-    const { customerId: _, ...data } = parameters;
-    return this.networkClient.post<MandateData, Mandate>(getPathSegments(customerId), data);
+    const { customerId: _, idempotencyKey, ...data } = parameters;
+    return this.networkClient.post<MandateData, Mandate>(getPathSegments(customerId), data, undefined, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -82,20 +84,20 @@ export default class CustomerMandatesBinder extends InnerBinder<MandateData, Man
    * @since 1.2.0
    * @see https://docs.mollie.com/reference/v2/mandates-api/get-mandate
    */
-  public get(id: string, parameters: GetParameters): Promise<Mandate>;
+  public get(id: string, parameters: GetParameters, options?: RequestOptions): Promise<Mandate>;
   public get(id: string, parameters: GetParameters, callback: Callback<Mandate>): void;
-  public get(id: string, parameters: GetParameters) {
+  public get(id: string, parameters: GetParameters, options?: RequestOptions | Callback<Mandate>) {
     if (renege(this, this.get, ...arguments)) return;
     if (!checkId(id, 'mandate')) {
-      throw new ApiError('The customers_mandate id is invalid');
+      throw new InvalidIdError('The customers_mandate id is invalid');
     }
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const customerId = this.getParentId((parameters ?? {}).customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
     const { customerId: _, ...query } = parameters ?? {};
-    return this.networkClient.get<MandateData, Mandate>(`${getPathSegments(customerId)}/${id}`, query);
+    return this.networkClient.get<MandateData, Mandate>(`${getPathSegments(customerId)}/${id}`, query, getRequestOptions(options));
   }
 
   /**
@@ -106,17 +108,20 @@ export default class CustomerMandatesBinder extends InnerBinder<MandateData, Man
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/mandates-api/list-mandates
    */
-  public page(parameters: ListParameters): Promise<List<Mandate>>;
+  public page(parameters: ListParameters, options?: RequestOptions): Promise<List<Mandate>>;
   public page(parameters: ListParameters, callback: Callback<List<Mandate>>): void;
-  public page(parameters: ListParameters) {
+  public page(parameters: ListParameters, options?: RequestOptions | Callback<List<Mandate>>) {
     if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const customerId = this.getParentId((parameters ?? {}).customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
     const { customerId: _, ...query } = parameters ?? {};
-    return this.networkClient.list<MandateData, Mandate>(getPathSegments(customerId), 'mandates', query).then(result => this.injectPaginationHelpers(result, this.page, parameters ?? {}));
+    return this.networkClient
+      .list<MandateData, Mandate>(getPathSegments(customerId), 'mandates', query, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters ?? {}, requestOptions));
   }
 
   /**
@@ -127,14 +132,14 @@ export default class CustomerMandatesBinder extends InnerBinder<MandateData, Man
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/mandates-api/list-mandates
    */
-  public iterate(parameters: IterateParameters) {
+  public iterate(parameters: IterateParameters, options?: RequestOptions) {
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const customerId = this.getParentId((parameters ?? {}).customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
     const { valuesPerMinute, customerId: _, ...query } = parameters ?? {};
-    return this.networkClient.iterate<MandateData, Mandate>(getPathSegments(customerId), 'mandates', query, valuesPerMinute);
+    return this.networkClient.iterate<MandateData, Mandate>(getPathSegments(customerId), 'mandates', query, valuesPerMinute, options);
   }
 
   /**
@@ -143,19 +148,19 @@ export default class CustomerMandatesBinder extends InnerBinder<MandateData, Man
    * @since 2.0.0
    * @see https://docs.mollie.com/reference/v2/mandates-api/revoke-mandate
    */
-  public revoke(id: string, parameters: RevokeParameters): Promise<true>;
+  public revoke(id: string, parameters: RevokeParameters, options?: RequestOptions): Promise<true>;
   public revoke(id: string, parameters: RevokeParameters, callback: Callback<true>): void;
-  public revoke(id: string, parameters: RevokeParameters) {
+  public revoke(id: string, parameters: RevokeParameters, options?: RequestOptions | Callback<true>) {
     if (renege(this, this.revoke, ...arguments)) return;
     if (!checkId(id, 'mandate')) {
-      throw new ApiError('The customers_mandate id is invalid');
+      throw new InvalidIdError('The customers_mandate id is invalid');
     }
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const customerId = this.getParentId((parameters ?? {}).customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer is invalid');
+      throw new InvalidIdError('The customer is invalid');
     }
-    const { customerId: _, ...context } = parameters ?? {};
-    return this.networkClient.delete<MandateData, true>(`${getPathSegments(customerId)}/${id}`, context);
+    const { customerId: _, idempotencyKey, ...context } = parameters ?? {};
+    return this.networkClient.delete<MandateData, true>(`${getPathSegments(customerId)}/${id}`, context, idempotencyKey, getRequestOptions(options));
   }
 }
@@ -1,5 +1,5 @@
 import { MandateData } from '../../../data/customers/mandates/data';
-import { PaginationParameters, ThrottlingParameters } from '../../../types/parameters';
+import { IdempotencyParameter, PaginationParameters, ThrottlingParameters } from '../../../types/parameters';
 
 interface ContextParameters {
   customerId: string;
@@ -7,6 +7,7 @@ interface ContextParameters {
 }
 
 export type CreateParameters = ContextParameters &
+  IdempotencyParameter &
   Pick<MandateData, 'method'> & {
     /**
      * The consumer's name.
@@ -58,4 +59,4 @@ export type ListParameters = ContextParameters & PaginationParameters;
 
 export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
 
-export type RevokeParameters = ContextParameters;
+export type RevokeParameters = ContextParameters & IdempotencyParameter;
@@ -1,12 +1,12 @@
 import { CustomerData } from '../../data/customers/Customer';
-import { PaginationParameters, ThrottlingParameters } from '../../types/parameters';
+import { IdempotencyParameter, PaginationParameters, ThrottlingParameters } from '../../types/parameters';
 import PickOptional from '../../types/PickOptional';
 
 interface ContextParameters {
   testmode?: boolean;
 }
 
-export type CreateParameters = ContextParameters & PickOptional<CustomerData, 'name' | 'email' | 'locale' | 'metadata'>;
+export type CreateParameters = ContextParameters & IdempotencyParameter & PickOptional<CustomerData, 'name' | 'email' | 'locale' | 'metadata'>;
 
 export type GetParameters = ContextParameters;
 
@@ -14,6 +14,6 @@ export type ListParameters = ContextParameters & PaginationParameters;
 
 export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
 
-export type UpdateParameters = ContextParameters & PickOptional<CustomerData, 'name' | 'email' | 'locale' | 'metadata'>;
+export type UpdateParameters = ContextParameters & IdempotencyParameter & PickOptional<CustomerData, 'name' | 'email' | 'locale' | 'metadata'>;
 
-export type DeleteParameters = ContextParameters;
+export type DeleteParameters = ContextParameters & IdempotencyParameter;
@@ -2,10 +2,12 @@ import TransformingNetworkClient from '../../../communication/TransformingNetwor
 import List from '../../../data/list/List';
 import { PaymentData } from '../../../data/payments/data';
 import Payment from '../../../data/payments/Payment';
-import ApiError from '../../../errors/ApiError';
+import { InvalidIdError } from '../../../errors/ApiError';
 import checkId from '../../../plumbing/checkId';
+import getRequestOptions from '../../../plumbing/getRequestOptions';
 import renege from '../../../plumbing/renege';
 import Callback from '../../../types/Callback';
+import { RequestOptions } from '../../../types/parameters';
 import InnerBinder from '../../InnerBinder';
 import { CreateParameters, IterateParameters, ListParameters } from './parameters';
 
@@ -48,16 +50,16 @@ export default class CustomerPaymentsBinder extends InnerBinder<PaymentData, Pay
    * @since 1.1.1
    * @see https://docs.mollie.com/reference/v2/customers-api/create-customer-payment
    */
-  public create(parameters: CreateParameters): Promise<Payment>;
+  public create(parameters: CreateParameters, options?: RequestOptions): Promise<Payment>;
   public create(parameters: CreateParameters, callback: Callback<Payment>): void;
-  public create(parameters: CreateParameters) {
+  public create(parameters: CreateParameters, options?: RequestOptions | Callback<Payment>) {
     if (renege(this, this.create, ...arguments)) return;
     const customerId = this.getParentId(parameters.customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
-    const { customerId: _, ...data } = parameters;
-    return this.networkClient.post<PaymentData, Payment>(getPathSegments(customerId), data);
+    const { customerId: _, idempotencyKey, ...data } = parameters;
+    return this.networkClient.post<PaymentData, Payment>(getPathSegments(customerId), data, undefined, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -66,17 +68,20 @@ export default class CustomerPaymentsBinder extends InnerBinder<PaymentData, Pay
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/customers-api/list-customer-payments
    */
-  public page(parameters: ListParameters): Promise<List<Payment>>;
+  public page(parameters: ListParameters, options?: RequestOptions): Promise<List<Payment>>;
   public page(parameters: ListParameters, callback: Callback<List<Payment>>): void;
-  public page(parameters: ListParameters) {
+  public page(parameters: ListParameters, options?: RequestOptions | Callback<List<Payment>>) {
     if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const customerId = this.getParentId((parameters ?? {}).customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
     const { customerId: _, ...query } = parameters ?? {};
-    return this.networkClient.list<PaymentData, Payment>(getPathSegments(customerId), 'payments', query).then(result => this.injectPaginationHelpers(result, this.page, parameters ?? {}));
+    return this.networkClient
+      .list<PaymentData, Payment>(getPathSegments(customerId), 'payments', query, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters ?? {}, requestOptions));
   }
 
   /**
@@ -85,13 +90,13 @@ export default class CustomerPaymentsBinder extends InnerBinder<PaymentData, Pay
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/customers-api/list-customer-payments
    */
-  public iterate(parameters: IterateParameters) {
+  public iterate(parameters: IterateParameters, options?: RequestOptions) {
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const customerId = this.getParentId((parameters ?? {}).customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
     const { valuesPerMinute, customerId: _, ...query } = parameters ?? {};
-    return this.networkClient.iterate<PaymentData, Payment>(getPathSegments(customerId), 'payments', query, valuesPerMinute);
+    return this.networkClient.iterate<PaymentData, Payment>(getPathSegments(customerId), 'payments', query, valuesPerMinute, options);
   }
 }
@@ -1,6 +1,6 @@
 import { PaymentMethod } from '../../../data/global';
 import { PaymentData } from '../../../data/payments/data';
-import { PaginationParameters, ThrottlingParameters } from '../../../types/parameters';
+import { IdempotencyParameter, PaginationParameters, ThrottlingParameters } from '../../../types/parameters';
 import PickOptional from '../../../types/PickOptional';
 
 interface ContextParameters {
@@ -8,6 +8,7 @@ interface ContextParameters {
 }
 
 export type CreateParameters = ContextParameters &
+  IdempotencyParameter &
   Pick<PaymentData, 'amount' | 'description'> &
   PickOptional<PaymentData, 'locale' | 'mandateId' | 'metadata' | 'sequenceType' | 'webhookUrl' | 'redirectUrl'> & {
     /**
@@ -2,10 +2,12 @@ import TransformingNetworkClient from '../../../communication/TransformingNetwor
 import List from '../../../data/list/List';
 import { SubscriptionData } from '../../../data/subscriptions/data';
 import Subscription from '../../../data/subscriptions/Subscription';
-import ApiError from '../../../errors/ApiError';
+import { InvalidIdError } from '../../../errors/ApiError';
 import checkId from '../../../plumbing/checkId';
+import getRequestOptions from '../../../plumbing/getRequestOptions';
 import renege from '../../../plumbing/renege';
 import Callback from '../../../types/Callback';
+import { RequestOptions } from '../../../types/parameters';
 import InnerBinder from '../../InnerBinder';
 import { CancelParameters, CreateParameters, GetParameters, IterateParameters, ListParameters, UpdateParameters } from './parameters';
 
@@ -59,16 +61,16 @@ export default class CustomerSubscriptionsBinder extends InnerBinder<Subscriptio
    * @since 1.3.2
    * @see https://docs.mollie.com/reference/v2/subscriptions-api/create-subscription
    */
-  public create(parameters: CreateParameters): Promise<Subscription>;
+  public create(parameters: CreateParameters, options?: RequestOptions): Promise<Subscription>;
   public create(parameters: CreateParameters, callback: Callback<Subscription>): void;
-  public create(parameters: CreateParameters) {
+  public create(parameters: CreateParameters, options?: RequestOptions | Callback<Subscription>) {
     if (renege(this, this.create, ...arguments)) return;
     const customerId = this.getParentId(parameters.customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
-    const { customerId: _, ...data } = parameters;
-    return this.networkClient.post<SubscriptionData, Subscription>(getPathSegments(customerId), data);
+    const { customerId: _, idempotencyKey, ...data } = parameters;
+    return this.networkClient.post<SubscriptionData, Subscription>(getPathSegments(customerId), data, undefined, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -77,20 +79,20 @@ export default class CustomerSubscriptionsBinder extends InnerBinder<Subscriptio
    * @since 1.3.2
    * @see https://docs.mollie.com/reference/v2/subscriptions-api/get-subscription
    */
-  public get(id: string, parameters: GetParameters): Promise<Subscription>;
+  public get(id: string, parameters: GetParameters, options?: RequestOptions): Promise<Subscription>;
   public get(id: string, parameters: GetParameters, callback: Callback<Subscription>): void;
-  public get(id: string, parameters: GetParameters) {
+  public get(id: string, parameters: GetParameters, options?: RequestOptions | Callback<Subscription>) {
     if (renege(this, this.get, ...arguments)) return;
     if (!checkId(id, 'subscription')) {
-      throw new ApiError('The subscription id is invalid');
+      throw new InvalidIdError('The subscription id is invalid');
     }
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const customerId = this.getParentId((parameters ?? {}).customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
     const { customerId: _, ...query } = parameters ?? {};
-    return this.networkClient.get<SubscriptionData, Subscription>(`${getPathSegments(customerId)}/${id}`, query);
+    return this.networkClient.get<SubscriptionData, Subscription>(`${getPathSegments(customerId)}/${id}`, query, getRequestOptions(options));
   }
 
   /**
@@ -99,19 +101,20 @@ export default class CustomerSubscriptionsBinder extends InnerBinder<Subscriptio
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/subscriptions-api/list-subscriptions
    */
-  public page(parameters: ListParameters): Promise<List<Subscription>>;
+  public page(parameters: ListParameters, options?: RequestOptions): Promise<List<Subscription>>;
   public page(parameters: ListParameters, callback: Callback<List<Subscription>>): void;
-  public page(parameters: ListParameters) {
+  public page(parameters: ListParameters, options?: RequestOptions | Callback<List<Subscription>>) {
     if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const customerId = this.getParentId((parameters ?? {}).customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
     const { customerId: _, ...query } = parameters ?? {};
     return this.networkClient
-      .list<SubscriptionData, Subscription>(getPathSegments(customerId), 'subscriptions', query)
-      .then(result => this.injectPaginationHelpers(result, this.page, parameters ?? {}));
+      .list<SubscriptionData, Subscription>(getPathSegments(customerId), 'subscriptions', query, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters ?? {}, requestOptions));
   }
 
   /**
@@ -120,14 +123,14 @@ export default class CustomerSubscriptionsBinder extends InnerBinder<Subscriptio
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/subscriptions-api/list-subscriptions
    */
-  public iterate(parameters: IterateParameters) {
+  public iterate(parameters: IterateParameters, options?: RequestOptions) {
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const customerId = this.getParentId((parameters ?? {}).customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
     const { valuesPerMinute, customerId: _, ...query } = parameters ?? {};
-    return this.networkClient.iterate<SubscriptionData, Subscription>(getPathSegments(customerId), 'subscriptions', query, valuesPerMinute);
+    return this.networkClient.iterate<SubscriptionData, Subscription>(getPathSegments(customerId), 'subscriptions', query, valuesPerMinute, options);
   }
 
   /**
@@ -138,19 +141,19 @@ export default class CustomerSubscriptionsBinder extends InnerBinder<Subscriptio
    * @since 2.0.0
    * @see https://docs.mollie.com/reference/v2/subscriptions-api/update-subscription
    */
-  public update(id: string, parameters: UpdateParameters): Promise<Subscription>;
+  public update(id: string, parameters: UpdateParameters, options?: RequestOptions): Promise<Subscription>;
   public update(id: string, parameters: UpdateParameters, callback: Callback<Subscription>): void;
-  public update(id: string, parameters: UpdateParameters) {
+  public update(id: string, parameters: UpdateParameters, options?: RequestOptions | Callback<Subscription>) {
     if (renege(this, this.update, ...arguments)) return;
     if (!checkId(id, 'subscription')) {
-      throw new ApiError('The subscription id is invalid');
+      throw new InvalidIdError('The subscription id is invalid');
     }
     const customerId = this.getParentId(parameters.customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer is invalid');
+      throw new InvalidIdError('The customer is invalid');
     }
-    const { customerId: _, ...data } = parameters;
-    return this.networkClient.patch<SubscriptionData, Subscription>(`${getPathSegments(customerId)}/${id}`, data);
+    const { customerId: _, idempotencyKey, ...data } = parameters;
+    return this.networkClient.patch<SubscriptionData, Subscription>(`${getPathSegments(customerId)}/${id}`, data, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -159,19 +162,19 @@ export default class CustomerSubscriptionsBinder extends InnerBinder<Subscriptio
    * @since 1.3.2
    * @see https://docs.mollie.com/reference/v2/subscriptions-api/cancel-subscription
    */
-  public cancel(id: string, parameters: CancelParameters): Promise<Subscription>;
+  public cancel(id: string, parameters: CancelParameters, options?: RequestOptions): Promise<Subscription>;
   public cancel(id: string, parameters: CancelParameters, callback: Callback<Subscription>): void;
-  public cancel(id: string, parameters: CancelParameters) {
+  public cancel(id: string, parameters: CancelParameters, options?: RequestOptions | Callback<Subscription>) {
     if (renege(this, this.cancel, ...arguments)) return;
     if (!checkId(id, 'subscription')) {
-      throw new ApiError('The subscription id is invalid');
+      throw new InvalidIdError('The subscription id is invalid');
     }
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const customerId = this.getParentId((parameters ?? {}).customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer is invalid');
+      throw new InvalidIdError('The customer is invalid');
     }
-    const { customerId: _, ...context } = parameters ?? {};
-    return this.networkClient.delete<SubscriptionData, Subscription>(`${getPathSegments(customerId)}/${id}`, context);
+    const { customerId: _, idempotencyKey, ...context } = parameters ?? {};
+    return this.networkClient.delete<SubscriptionData, Subscription>(`${getPathSegments(customerId)}/${id}`, context, idempotencyKey, getRequestOptions(options));
   }
 }
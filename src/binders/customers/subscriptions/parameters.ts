@@ -1,5 +1,5 @@
 import { SubscriptionData } from '../../../data/subscriptions/data';
-import { PaginationParameters, ThrottlingParameters } from '../../../types/parameters';
+import { IdempotencyParameter, PaginationParameters, ThrottlingParameters } from '../../../types/parameters';
 import PickOptional from '../../../types/PickOptional';
 
 interface ContextParameters {
@@ -8,6 +8,7 @@ interface ContextParameters {
 }
 
 export type CreateParameters = ContextParameters &
+  IdempotencyParameter &
   Pick<SubscriptionData, 'amount' | 'interval' | 'description' | 'mandateId'> &
   PickOptional<SubscriptionData, 'times' | 'startDate' | 'method' | 'webhookUrl' | 'metadata'>;
 
@@ -18,7 +19,8 @@ export type ListParameters = ContextParameters & PaginationParameters;
 export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
 
 export type UpdateParameters = ContextParameters &
+  IdempotencyParameter &
   Pick<SubscriptionData, 'mandateId'> &
   PickOptional<SubscriptionData, 'amount' | 'description' | 'interval' | 'metadata' | 'startDate' | 'times' | 'webhookUrl'>;
 
-export type CancelParameters = ContextParameters;
+export type CancelParameters = ContextParameters & IdempotencyParameter;
@@ -0,0 +1,67 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import { InvoiceData } from '../../data/invoices/data';
+import Invoice from '../../data/invoices/Invoice';
+import List from '../../data/list/List';
+import { InvalidIdError } from '../../errors/ApiError';
+import checkId from '../../plumbing/checkId';
+import getRequestOptions from '../../plumbing/getRequestOptions';
+import renege from '../../plumbing/renege';
+import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
+import Binder from '../Binder';
+import { IterateParameters, ListParameters } from './parameters';
+
+const pathSegment = 'invoices';
+
+export default class InvoicesBinder extends Binder<InvoiceData, Invoice> {
+  constructor(protected readonly networkClient: TransformingNetworkClient) {
+    super();
+  }
+
+  /**
+   * Retrieve details of an invoice, using the invoice's identifier.
+   *
+   * If you want to retrieve the details of an invoice by its invoice number, use the `reference` filter of the `page` or `iterate` methods.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice
+   */
+  public get(id: string, options?: RequestOptions): Promise<Invoice>;
+  public get(id: string, callback: Callback<Invoice>): void;
+  public get(id: string, options?: RequestOptions | Callback<Invoice>) {
+    if (renege(this, this.get, ...arguments)) return;
+    if (!checkId(id, 'invoice')) {
+      throw new InvalidIdError('The invoice id is invalid');
+    }
+    return this.networkClient.get<InvoiceData, Invoice>(`${pathSegment}/${id}`, undefined, getRequestOptions(options));
+  }
+
+  /**
+   * Retrieve all invoices on the account. Optionally filter on year or invoice number.
+   *
+   * The results are paginated. See pagination for more information.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/invoices-api/list-invoices
+   */
+  public page(parameters?: ListParameters, options?: RequestOptions): Promise<List<Invoice>>;
+  public page(parameters: ListParameters, callback: Callback<List<Invoice>>): void;
+  public page(parameters: ListParameters = {}, options?: RequestOptions | Callback<List<Invoice>>) {
+    if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
+    return this.networkClient
+      .list<InvoiceData, Invoice>(pathSegment, 'invoices', parameters, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
+  }
+
+  /**
+   * Retrieve all invoices on the account. Optionally filter on year or invoice number.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/invoices-api/list-invoices
+   */
+  public iterate(parameters?: IterateParameters, options?: RequestOptions) {
+    const { valuesPerMinute, ...query } = parameters ?? {};
+    return this.networkClient.iterate<InvoiceData, Invoice>(pathSegment, 'invoices', query, valuesPerMinute, options);
+  }
+}
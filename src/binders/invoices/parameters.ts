@@ -0,0 +1,14 @@
+import { PaginationParameters, ThrottlingParameters } from '../../types/parameters';
+
+export type ListParameters = PaginationParameters & {
+  /**
+   * Filters the invoices by their reference, such as `'2018.10000'`.
+   */
+  reference?: string;
+  /**
+   * Filters the invoices by the year they were issued in, such as `'2018'`.
+   */
+  year?: string;
+};
+
+export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
@@ -2,8 +2,10 @@ import TransformingNetworkClient from '../../communication/TransformingNetworkCl
 import List from '../../data/list/List';
 import { MethodData } from '../../data/methods/data';
 import Method from '../../data/methods/Method';
+import getRequestOptions from '../../plumbing/getRequestOptions';
 import renege from '../../plumbing/renege';
 import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
 import Binder from '../Binder';
 import { GetParameters, ListParameters } from './parameters';
 
@@ -62,11 +64,11 @@ export default class MethodsBinder extends Binder<MethodData, Method> {
    * @since 2.0.0
    * @see https://docs.mollie.com/reference/v2/methods-api/get-method
    */
-  public get(id: string, parameters?: GetParameters): Promise<Method>;
+  public get(id: string, parameters?: GetParameters, options?: RequestOptions): Promise<Method>;
   public get(id: string, parameters: GetParameters, callback: Callback<Method>): void;
-  public get(id: string, parameters?: GetParameters) {
+  public get(id: string, parameters?: GetParameters, options?: RequestOptions | Callback<Method>) {
     if (renege(this, this.get, ...arguments)) return;
-    return this.networkClient.get(`${pathSegment}/${id}`, parameters);
+    return this.networkClient.get(`${pathSegment}/${id}`, parameters, getRequestOptions(options));
   }
 
   /**
@@ -85,10 +87,11 @@ export default class MethodsBinder extends Binder<MethodData, Method> {
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/methods-api/list-methods
    */
-  public list(parameters?: ListParameters): Promise<List<Method>>;
+  public list(parameters?: ListParameters, options?: RequestOptions): Promise<List<Method>>;
   public list(parameters: ListParameters, callback: Callback<List<Method>>): void;
-  public list(parameters: ListParameters = {}) {
+  public list(parameters: ListParameters = {}, options?: RequestOptions | Callback<List<Method>>) {
     if (renege(this, this.list, ...arguments)) return;
-    return this.networkClient.list<MethodData, Method>(pathSegment, 'methods', parameters).then(result => this.injectPaginationHelpers(result, this.list, parameters));
+    const requestOptions = getRequestOptions(options);
+    return this.networkClient.list<MethodData, Method>(pathSegment, 'methods', parameters, requestOptions).then(result => this.injectPaginationHelpers(result, this.list, parameters, requestOptions));
   }
 }
@@ -1,8 +1,10 @@
 import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
 import { OnboardingData } from '../../data/onboarding/data';
 import Onboarding from '../../data/onboarding/Onboarding';
+import getRequestOptions from '../../plumbing/getRequestOptions';
 import renege from '../../plumbing/renege';
 import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
 import Binder from '../Binder';
 import { SubmitParameters } from './parameters';
 
@@ -19,11 +21,11 @@ export default class OnboardingBinder extends Binder<OnboardingData, Onboarding>
    * @since 3.2.0
    * @see https://docs.mollie.com/reference/v2/onboarding-api/get-onboarding-status
    */
-  public get(): Promise<Onboarding>;
+  public get(options?: RequestOptions): Promise<Onboarding>;
   public get(callback: Callback<Onboarding>): void;
-  public get() {
+  public get(options?: RequestOptions | Callback<Onboarding>) {
     if (renege(this, this.get, ...arguments)) return;
-    return this.networkClient.get<OnboardingData, Onboarding>(pathSegments);
+    return this.networkClient.get<OnboardingData, Onboarding>(pathSegments, undefined, getRequestOptions(options));
   }
 
   /**
@@ -32,10 +34,10 @@ export default class OnboardingBinder extends Binder<OnboardingData, Onboarding>
    * @since 3.2.0
    * @see https://docs.mollie.com/reference/v2/onboarding-api/submit-onboarding-data
    */
-  public submit(parameters?: SubmitParameters): Promise<true>;
+  public submit(parameters?: SubmitParameters, options?: RequestOptions): Promise<true>;
   public submit(parameters: SubmitParameters, callback: Callback<true>): void;
-  public submit(parameters: SubmitParameters) {
+  public submit(parameters: SubmitParameters, options?: RequestOptions | Callback<true>) {
     if (renege(this, this.submit, ...arguments)) return;
-    return this.networkClient.post<OnboardingData, true>(pathSegments, parameters);
+    return this.networkClient.post<OnboardingData, true>(pathSegments, parameters, undefined, undefined, getRequestOptions(options));
   }
 }
@@ -2,10 +2,12 @@ import TransformingNetworkClient from '../../communication/TransformingNetworkCl
 import List from '../../data/list/List';
 import { OrderData } from '../../data/orders/data';
 import Order from '../../data/orders/Order';
-import ApiError from '../../errors/ApiError';
+import { InvalidIdError } from '../../errors/ApiError';
 import checkId from '../../plumbing/checkId';
+import getRequestOptions from '../../plumbing/getRequestOptions';
 import renege from '../../plumbing/renege';
 import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
 import Binder from '../Binder';
 import { CancelParameters, CreateParameters, GetParameters, IterateParameters, ListParameters, UpdateParameters } from './parameters';
 
@@ -93,13 +95,13 @@ export default class OrdersBinder extends Binder<OrderData, Order> {
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/orders-api/create-order
    */
-  public create(parameters: CreateParameters): Promise<Order>;
+  public create(parameters: CreateParameters, options?: RequestOptions): Promise<Order>;
   public create(parameters: CreateParameters, callback: Callback<Order>): void;
-  public create(parameters: CreateParameters) {
+  public create(parameters: CreateParameters, options?: RequestOptions | Callback<Order>) {
     if (renege(this, this.create, ...arguments)) return;
-    const { embed, ...data } = parameters;
+    const { embed, idempotencyKey, ...data } = parameters;
     const query = embed != undefined ? { embed } : undefined;
-    return this.networkClient.post<OrderData, Order>(pathSegment, data, query);
+    return this.networkClient.post<OrderData, Order>(pathSegment, data, query, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -108,14 +110,14 @@ export default class OrdersBinder extends Binder<OrderData, Order> {
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/orders-api/get-order
    */
-  public get(id: string, parameters?: GetParameters): Promise<Order>;
+  public get(id: string, parameters?: GetParameters, options?: RequestOptions): Promise<Order>;
   public get(id: string, parameters: GetParameters, callback: Callback<Order>): void;
-  public get(id: string, parameters?: GetParameters) {
+  public get(id: string, parameters?: GetParameters, options?: RequestOptions | Callback<Order>) {
     if (renege(this, this.get, ...arguments)) return;
     if (!checkId(id, 'order')) {
-      throw new ApiError('The order id is invalid');
+      throw new InvalidIdError('The order id is invalid');
     }
-    return this.networkClient.get<OrderData, Order>(`${pathSegment}/${id}`, parameters);
+    return this.networkClient.get<OrderData, Order>(`${pathSegment}/${id}`, parameters, getRequestOptions(options));
   }
 
   /**
@@ -126,11 +128,12 @@ export default class OrdersBinder extends Binder<OrderData, Order> {
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/orders-api/list-orders
    */
-  public page(parameters?: ListParameters): Promise<List<Order>>;
+  public page(parameters?: ListParameters, options?: RequestOptions): Promise<List<Order>>;
   public page(parameters: ListParameters, callback: Callback<List<Order>>): void;
-  public page(parameters?: ListParameters) {
+  public page(parameters?: ListParameters, options?: RequestOptions | Callback<List<Order>>) {
     if (renege(this, this.page, ...arguments)) return;
-    return this.networkClient.list<OrderData, Order>(pathSegment, 'orders', parameters).then(result => this.injectPaginationHelpers(result, this.page, parameters));
+    const requestOptions = getRequestOptions(options);
+    return this.networkClient.list<OrderData, Order>(pathSegment, 'orders', parameters, requestOptions).then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
   }
 
   /**
@@ -141,9 +144,9 @@ export default class OrdersBinder extends Binder<OrderData, Order> {
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/orders-api/list-orders
    */
-  public iterate(parameters?: IterateParameters) {
+  public iterate(parameters?: IterateParameters, options?: RequestOptions) {
     const { valuesPerMinute, ...query } = parameters ?? {};
-    return this.networkClient.iterate<OrderData, Order>(pathSegment, 'orders', query, valuesPerMinute);
+    return this.networkClient.iterate<OrderData, Order>(pathSegment, 'orders', query, valuesPerMinute, options);
   }
 
   /**
@@ -155,14 +158,15 @@ export default class OrdersBinder extends Binder<OrderData, Order> {
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/orders-api/update-order
    */
-  public update(id: string, parameters: UpdateParameters): Promise<Order>;
+  public update(id: string, parameters: UpdateParameters, options?: RequestOptions): Promise<Order>;
   public update(id: string, parameters: UpdateParameters, callback: Callback<Order>): void;
-  public update(id: string, parameters: UpdateParameters) {
+  public update(id: string, parameters: UpdateParameters, options?: RequestOptions | Callback<Order>) {
     if (renege(this, this.update, ...arguments)) return;
     if (!checkId(id, 'order')) {
-      throw new ApiError('The order id is invalid');
+      throw new InvalidIdError('The order id is invalid');
     }
-    return this.networkClient.patch<OrderData, Order>(`${pathSegment}/${id}`, parameters);
+    const { idempotencyKey, ...data } = parameters;
+    return this.networkClient.patch<OrderData, Order>(`${pathSegment}/${id}`, data, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -183,13 +187,14 @@ export default class OrdersBinder extends Binder<OrderData, Order> {
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/orders-api/cancel-order
    */
-  public cancel(id: string, parameters?: CancelParameters): Promise<Order>;
+  public cancel(id: string, parameters?: CancelParameters, options?: RequestOptions): Promise<Order>;
   public cancel(id: string, parameters: CancelParameters, callback: Callback<Order>): void;
-  public cancel(id: string, parameters?: CancelParameters) {
+  public cancel(id: string, parameters?: CancelParameters, options?: RequestOptions | Callback<Order>) {
     if (renege(this, this.cancel, ...arguments)) return;
     if (!checkId(id, 'order')) {
-      throw new ApiError('The order id is invalid');
+      throw new InvalidIdError('The order id is invalid');
     }
-    return this.networkClient.delete<OrderData, Order>(`${pathSegment}/${id}`, parameters);
+    const { idempotencyKey, ...context } = parameters ?? {};
+    return this.networkClient.delete<OrderData, Order>(`${pathSegment}/${id}`, context, idempotencyKey, getRequestOptions(options));
   }
 }
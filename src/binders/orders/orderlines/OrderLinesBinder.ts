@@ -1,10 +1,12 @@
 import TransformingNetworkClient from '../../../communication/TransformingNetworkClient';
 import { OrderData } from '../../../data/orders/data';
 import Order from '../../../data/orders/Order';
-import ApiError from '../../../errors/ApiError';
+import { InvalidIdError } from '../../../errors/ApiError';
 import checkId from '../../../plumbing/checkId';
+import getRequestOptions from '../../../plumbing/getRequestOptions';
 import renege from '../../../plumbing/renege';
 import Callback from '../../../types/Callback';
+import { RequestOptions } from '../../../types/parameters';
 import InnerBinder from '../../InnerBinder';
 import { CancelParameters, UpdateParameters } from './parameters';
 
@@ -55,19 +57,19 @@ export default class OrderLinesBinder extends InnerBinder<OrderData, Order> {
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/orders-api/update-order-line
    */
-  public update(id: string, parameters: UpdateParameters): Promise<Order>;
+  public update(id: string, parameters: UpdateParameters, options?: RequestOptions): Promise<Order>;
   public update(id: string, parameters: UpdateParameters, callback: Callback<Order>): void;
-  public update(id: string, parameters: UpdateParameters) {
+  public update(id: string, parameters: UpdateParameters, options?: RequestOptions | Callback<Order>) {
     if (renege(this, this.update, ...arguments)) return;
     if (!checkId(id, 'orderline')) {
-      throw new ApiError('The orders_lines id is invalid');
+      throw new InvalidIdError('The orders_lines id is invalid');
     }
     const orderId = this.getParentId(parameters.orderId);
     if (!checkId(orderId, 'order')) {
-      throw new ApiError('The order id is invalid');
+      throw new InvalidIdError('The order id is invalid');
     }
-    const { orderId: _, ...data } = parameters;
-    return this.networkClient.patch<OrderData, Order>(`${getPathSegments(orderId)}/${id}`, data);
+    const { orderId: _, idempotencyKey, ...data } = parameters;
+    return this.networkClient.patch<OrderData, Order>(`${getPathSegments(orderId)}/${id}`, data, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -89,15 +91,15 @@ export default class OrderLinesBinder extends InnerBinder<OrderData, Order> {
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/orders-api/cancel-order-lines
    */
-  public cancel(parameters: CancelParameters): Promise<true>;
+  public cancel(parameters: CancelParameters, options?: RequestOptions): Promise<true>;
   public cancel(parameters: CancelParameters, callback: Callback<true>): void;
-  public cancel(parameters: CancelParameters) {
+  public cancel(parameters: CancelParameters, options?: RequestOptions | Callback<true>) {
     if (renege(this, this.cancel, ...arguments)) return;
     const orderId = this.getParentId(parameters.orderId);
     if (!checkId(orderId, 'order')) {
-      throw new ApiError('The order id is invalid');
+      throw new InvalidIdError('The order id is invalid');
     }
-    const { orderId: _, ...data } = parameters;
-    return this.networkClient.delete<OrderData, true>(getPathSegments(orderId), data);
+    const { orderId: _, idempotencyKey, ...data } = parameters;
+    return this.networkClient.delete<OrderData, true>(getPathSegments(orderId), data, idempotencyKey, getRequestOptions(options));
   }
 }
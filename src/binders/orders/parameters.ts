@@ -1,12 +1,13 @@
 import { PaymentMethod } from '../../data/global';
 import { OrderAddress, OrderData, OrderEmbed } from '../../data/orders/data';
 import { OrderLineData } from '../../data/orders/orderlines/OrderLine';
-import { PaginationParameters, ThrottlingParameters } from '../../types/parameters';
+import { IdempotencyParameter, PaginationParameters, ThrottlingParameters } from '../../types/parameters';
 import { CreateParameters as PaymentCreateParameters } from '../payments/parameters';
 import PickOptional from '../../types/PickOptional';
 
 export type CreateParameters = Pick<OrderData, 'amount' | 'orderNumber' | 'consumerDateOfBirth' | 'webhookUrl' | 'locale' | 'metadata' | 'expiresAt'> &
-  PickOptional<OrderData, 'billingAddress' | 'shippingAddress' | 'redirectUrl'> & {
+  PickOptional<OrderData, 'billingAddress' | 'shippingAddress' | 'redirectUrl'> &
+  IdempotencyParameter & {
     /**
      * All order lines must have the same currency as the order. You cannot mix currencies within a single order.
      *
@@ -89,10 +90,11 @@ export interface GetParameters {
   embed?: OrderEmbed[];
 }
 
-export type UpdateParameters = PickOptional<OrderData, 'billingAddress' | 'shippingAddress' | 'redirectUrl' | 'webhookUrl'> & {
-  orderNumber?: string;
-  testmode?: boolean;
-};
+export type UpdateParameters = PickOptional<OrderData, 'billingAddress' | 'shippingAddress' | 'redirectUrl' | 'webhookUrl'> &
+  IdempotencyParameter & {
+    orderNumber?: string;
+    testmode?: boolean;
+  };
 
 export type ListParameters = PaginationParameters & {
   profileId?: string;
@@ -101,6 +103,6 @@ export type ListParameters = PaginationParameters & {
 
 export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
 
-export interface CancelParameters {
+export interface CancelParameters extends IdempotencyParameter {
   testmode?: boolean;
 }
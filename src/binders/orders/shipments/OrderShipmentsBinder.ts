@@ -1,10 +1,12 @@
 import TransformingNetworkClient from '../../../communication/TransformingNetworkClient';
 import List from '../../../data/list/List';
 import Shipment, { ShipmentData } from '../../../data/orders/shipments/Shipment';
-import ApiError from '../../../errors/ApiError';
+import { InvalidIdError } from '../../../errors/ApiError';
 import checkId from '../../../plumbing/checkId';
+import getRequestOptions from '../../../plumbing/getRequestOptions';
 import renege from '../../../plumbing/renege';
 import Callback from '../../../types/Callback';
+import { RequestOptions } from '../../../types/parameters';
 import InnerBinder from '../../InnerBinder';
 import { CreateParameters, GetParameters, ListParameters, UpdateParameters } from './parameters';
 
@@ -45,16 +47,16 @@ export default class OrderShipmentsBinder extends InnerBinder<ShipmentData, Ship
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/shipments-api/create-shipment
    */
-  public create(parameters: CreateParameters): Promise<Shipment>;
+  public create(parameters: CreateParameters, options?: RequestOptions): Promise<Shipment>;
   public create(parameters: CreateParameters, callback: Callback<Shipment>): void;
-  public create(parameters: CreateParameters) {
+  public create(parameters: CreateParameters, options?: RequestOptions | Callback<Shipment>) {
     if (renege(this, this.create, ...arguments)) return;
     const orderId = this.getParentId(parameters.orderId);
     if (!checkId(orderId, 'order')) {
-      throw new ApiError('The order id is invalid');
+      throw new InvalidIdError('The order id is invalid');
     }
-    const { orderId: _, ...data } = parameters;
-    return this.networkClient.post<ShipmentData, Shipment>(getPathSegments(orderId), data);
+    const { orderId: _, idempotencyKey, ...data } = parameters;
+    return this.networkClient.post<ShipmentData, Shipment>(getPathSegments(orderId), data, undefined, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -63,20 +65,20 @@ export default class OrderShipmentsBinder extends InnerBinder<ShipmentData, Ship
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/shipments-api/get-shipment
    */
-  public get(id: string, parameters: GetParameters): Promise<Shipment>;
+  public get(id: string, parameters: GetParameters, options?: RequestOptions): Promise<Shipment>;
   public get(id: string, parameters: GetParameters, callback: Callback<Shipment>): void;
-  public get(id: string, parameters: GetParameters) {
+  public get(id: string, parameters: GetParameters, options?: RequestOptions | Callback<Shipment>) {
     if (renege(this, this.get, ...arguments)) return;
     if (!checkId(id, 'shipment')) {
-      throw new ApiError('The orders_shipments id is invalid');
+      throw new InvalidIdError('The orders_shipments id is invalid');
     }
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const orderId = this.getParentId((parameters ?? {}).orderId);
     if (!checkId(orderId, 'order')) {
-      throw new ApiError('The order id is invalid');
+      throw new InvalidIdError('The order id is invalid');
     }
     const { orderId: _, ...query } = parameters ?? {};
-    return this.networkClient.get<ShipmentData, Shipment>(`${getPathSegments(orderId)}/${id}`, query);
+    return this.networkClient.get<ShipmentData, Shipment>(`${getPathSegments(orderId)}/${id}`, query, getRequestOptions(options));
   }
 
   /**
@@ -85,17 +87,20 @@ export default class OrderShipmentsBinder extends InnerBinder<ShipmentData, Ship
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/shipments-api/list-shipments
    */
-  public list(parameters: ListParameters): Promise<List<Shipment>>;
+  public list(parameters: ListParameters, options?: RequestOptions): Promise<List<Shipment>>;
   public list(parameters: ListParameters, callback: Callback<List<Shipment>>): void;
-  public list(parameters: ListParameters) {
+  public list(parameters: ListParameters, options?: RequestOptions | Callback<List<Shipment>>) {
     if (renege(this, this.list, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const orderId = this.getParentId((parameters ?? {}).orderId);
     if (!checkId(orderId, 'order')) {
-      throw new ApiError('The order id is invalid');
+      throw new InvalidIdError('The order id is invalid');
     }
     const { orderId: _, ...query } = parameters ?? {};
-    return this.networkClient.list<ShipmentData, Shipment>(getPathSegments(orderId), 'shipments', query).then(result => this.injectPaginationHelpers(result, this.list, parameters));
+    return this.networkClient
+      .list<ShipmentData, Shipment>(getPathSegments(orderId), 'shipments', query, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.list, parameters, requestOptions));
   }
 
   /**
@@ -104,18 +109,18 @@ export default class OrderShipmentsBinder extends InnerBinder<ShipmentData, Ship
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/shipments-api/update-shipment
    */
-  public update(id: string, parameters: UpdateParameters): Promise<Shipment>;
+  public update(id: string, parameters: UpdateParameters, options?: RequestOptions): Promise<Shipment>;
   public update(id: string, parameters: UpdateParameters, callback: Callback<Shipment>): void;
-  public update(id: string, parameters: UpdateParameters) {
+  public update(id: string, parameters: UpdateParameters, options?: RequestOptions | Callback<Shipment>) {
     if (renege(this, this.update, ...arguments)) return;
     if (!checkId(id, 'shipment')) {
-      throw new ApiError('The orders_shipments id is invalid');
+      throw new InvalidIdError('The orders_shipments id is invalid');
     }
     const orderId = this.getParentId(parameters.orderId);
     if (!checkId(orderId, 'order')) {
-      throw new ApiError('The order id is invalid');
+      throw new InvalidIdError('The order id is invalid');
     }
-    const { orderId: _, ...data } = parameters;
-    return this.networkClient.patch<ShipmentData, Shipment>(`${getPathSegments(orderId)}/${id}`, data);
+    const { orderId: _, idempotencyKey, ...data } = parameters;
+    return this.networkClient.patch<ShipmentData, Shipment>(`${getPathSegments(orderId)}/${id}`, data, idempotencyKey, getRequestOptions(options));
   }
 }
@@ -1,6 +1,7 @@
 import { Amount } from '../../../data/global';
 import { ShipmentData } from '../../../data/orders/shipments/Shipment';
 import PickRequired from '../../../types/PickRequired';
+import { IdempotencyParameter } from '../../../types/parameters';
 
 interface ContextParameters {
   orderId: string;
@@ -8,6 +9,7 @@ interface ContextParameters {
 }
 
 export type CreateParameters = ContextParameters &
+  IdempotencyParameter &
   Pick<ShipmentData, 'tracking'> & {
     /**
      * An array of objects containing the order line details you want to create a shipment for. If you leave out this parameter, the entire order will be shipped. If the order is already partially
@@ -52,4 +54,4 @@ export type GetParameters = ContextParameters;
 
 export type ListParameters = ContextParameters;
 
-export type UpdateParameters = ContextParameters & PickRequired<ShipmentData, 'tracking'>;
+export type UpdateParameters = ContextParameters & IdempotencyParameter & PickRequired<ShipmentData, 'tracking'>;
@@ -1,9 +1,11 @@
 import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
 import Organization, { OrganizationData } from '../../data/organizations/Organizations';
-import ApiError from '../../errors/ApiError';
+import { InvalidIdError } from '../../errors/ApiError';
 import checkId from '../../plumbing/checkId';
+import getRequestOptions from '../../plumbing/getRequestOptions';
 import renege from '../../plumbing/renege';
 import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
 import Binder from '../Binder';
 
 const pathSegment = 'organizations';
@@ -19,14 +21,14 @@ export default class OrganizationsBinder extends Binder<OrganizationData, Organi
    * @since 3.2.0
    * @see https://docs.mollie.com/reference/v2/organizations-api/get-organization
    */
-  public get(id: string): Promise<Organization>;
+  public get(id: string, options?: RequestOptions): Promise<Organization>;
   public get(id: string, callback: Callback<Organization>): void;
-  public get(id: string) {
+  public get(id: string, options?: RequestOptions | Callback<Organization>) {
     if (renege(this, this.get, ...arguments)) return;
     if (!checkId(id, 'organization')) {
-      throw new ApiError('The organization id is invalid');
+      throw new InvalidIdError('The organization id is invalid');
     }
-    return this.networkClient.get<OrganizationData, Organization>(`${pathSegment}/${id}`);
+    return this.networkClient.get<OrganizationData, Organization>(`${pathSegment}/${id}`, undefined, getRequestOptions(options));
   }
 
   /**
@@ -35,10 +37,10 @@ export default class OrganizationsBinder extends Binder<OrganizationData, Organi
    * @since 3.2.0
    * @see https://docs.mollie.com/reference/v2/organizations-api/current-organization
    */
-  public getCurrent(): Promise<Organization>;
+  public getCurrent(options?: RequestOptions): Promise<Organization>;
   public getCurrent(callback: Callback<Organization>): void;
-  public getCurrent() {
+  public getCurrent(options?: RequestOptions | Callback<Organization>) {
     if (renege(this, this.getCurrent, ...arguments)) return;
-    return this.networkClient.get<OrganizationData, Organization>(`${pathSegment}/me`);
+    return this.networkClient.get<OrganizationData, Organization>(`${pathSegment}/me`, undefined, getRequestOptions(options));
   }
 }
@@ -2,10 +2,12 @@ import TransformingNetworkClient from '../../communication/TransformingNetworkCl
 import List from '../../data/list/List';
 import { PaymentLinkData } from '../../data/paymentLinks/data';
 import PaymentLink from '../../data/paymentLinks/PaymentLink';
-import ApiError from '../../errors/ApiError';
+import { InvalidIdError } from '../../errors/ApiError';
 import checkId from '../../plumbing/checkId';
+import getRequestOptions from '../../plumbing/getRequestOptions';
 import renege from '../../plumbing/renege';
 import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
 import Binder from '../Binder';
 import { CreateParameters, GetParameters, IterateParameters, ListParameters } from './parameters';
 
@@ -23,11 +25,12 @@ export default class PaymentsLinksBinder extends Binder<PaymentLinkData, Payment
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/payment-links-api/create-payment-link
    */
-  public create(parameters: CreateParameters): Promise<PaymentLink>;
+  public create(parameters: CreateParameters, options?: RequestOptions): Promise<PaymentLink>;
   public create(parameters: CreateParameters, callback: Callback<PaymentLink>): void;
-  public create(parameters: CreateParameters) {
+  public create(parameters: CreateParameters, options?: RequestOptions | Callback<PaymentLink>) {
     if (renege(this, this.create, ...arguments)) return;
-    return this.networkClient.post<PaymentLinkData, PaymentLink>(pathSegment, parameters);
+    const { idempotencyKey, ...data } = parameters;
+    return this.networkClient.post<PaymentLinkData, PaymentLink>(pathSegment, data, undefined, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -36,14 +39,14 @@ export default class PaymentsLinksBinder extends Binder<PaymentLinkData, Payment
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/payments-api/get-payment
    */
-  public get(id: string, parameters?: GetParameters): Promise<PaymentLink>;
+  public get(id: string, parameters?: GetParameters, options?: RequestOptions): Promise<PaymentLink>;
   public get(id: string, parameters: GetParameters, callback: Callback<PaymentLink>): void;
-  public get(id: string, parameters?: GetParameters) {
+  public get(id: string, parameters?: GetParameters, options?: RequestOptions | Callback<PaymentLink>) {
     if (renege(this, this.get, ...arguments)) return;
     if (!checkId(id, 'payment-link')) {
-      throw new ApiError('The payment link id is invalid');
+      throw new InvalidIdError('The payment link id is invalid');
     }
-    return this.networkClient.get<PaymentLinkData, PaymentLink>(`${pathSegment}/${id}`, parameters);
+    return this.networkClient.get<PaymentLinkData, PaymentLink>(`${pathSegment}/${id}`, parameters, getRequestOptions(options));
   }
 
   /**
@@ -54,11 +57,14 @@ export default class PaymentsLinksBinder extends Binder<PaymentLinkData, Payment
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/payment-links-api/list-payment-links
    */
-  public page(parameters?: ListParameters): Promise<List<PaymentLink>>;
+  public page(parameters?: ListParameters, options?: RequestOptions): Promise<List<PaymentLink>>;
   public page(parameters: ListParameters, callback: Callback<List<PaymentLink>>): void;
-  public page(parameters: ListParameters = {}) {
+  public page(parameters: ListParameters = {}, options?: RequestOptions | Callback<List<PaymentLink>>) {
     if (renege(this, this.page, ...arguments)) return;
-    return this.networkClient.list<PaymentLinkData, PaymentLink>(pathSegment, 'payment_links', parameters).then(result => this.injectPaginationHelpers(result, this.page, parameters));
+    const requestOptions = getRequestOptions(options);
+    return this.networkClient
+      .list<PaymentLinkData, PaymentLink>(pathSegment, 'payment_links', parameters, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
   }
 
   /**
@@ -67,8 +73,8 @@ export default class PaymentsLinksBinder extends Binder<PaymentLinkData, Payment
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/payment-links-api/get-payment-link
    */
-  public iterate(parameters?: IterateParameters) {
+  public iterate(parameters?: IterateParameters, options?: RequestOptions) {
     const { valuesPerMinute, ...query } = parameters ?? {};
-    return this.networkClient.iterate<PaymentLinkData, PaymentLink>(pathSegment, 'payment_links', query, valuesPerMinute);
+    return this.networkClient.iterate<PaymentLinkData, PaymentLink>(pathSegment, 'payment_links', query, valuesPerMinute, options);
   }
 }
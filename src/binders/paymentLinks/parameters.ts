@@ -1,10 +1,11 @@
 import { PaymentLinkData } from '../../data/paymentLinks/data';
-import { PaginationParameters, ThrottlingParameters } from '../../types/parameters';
+import { IdempotencyParameter, PaginationParameters, ThrottlingParameters } from '../../types/parameters';
 
-export type CreateParameters = Pick<PaymentLinkData, 'description' | 'amount' | 'redirectUrl' | 'webhookUrl' | 'expiresAt'> & {
-  profileId?: string;
-  testmode?: boolean;
-};
+export type CreateParameters = Pick<PaymentLinkData, 'description' | 'amount' | 'redirectUrl' | 'webhookUrl' | 'expiresAt'> &
+  IdempotencyParameter & {
+    profileId?: string;
+    testmode?: boolean;
+  };
 
 export interface GetParameters {
   testmode?: boolean;
@@ -2,10 +2,12 @@ import TransformingNetworkClient from '../../communication/TransformingNetworkCl
 import List from '../../data/list/List';
 import { PaymentData } from '../../data/payments/data';
 import Payment from '../../data/payments/Payment';
-import ApiError from '../../errors/ApiError';
+import { InvalidIdError } from '../../errors/ApiError';
 import checkId from '../../plumbing/checkId';
+import getRequestOptions from '../../plumbing/getRequestOptions';
 import renege from '../../plumbing/renege';
 import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
 import Binder from '../Binder';
 import { CancelParameters, CreateParameters, GetParameters, IterateParameters, ListParameters, UpdateParameters } from './parameters';
 
@@ -58,13 +60,13 @@ export default class PaymentsBinder extends Binder<PaymentData, Payment> {
    * @since 2.0.0
    * @see https://docs.mollie.com/reference/v2/payments-api/create-payment
    */
-  public create(parameters: CreateParameters): Promise<Payment>;
+  public create(parameters: CreateParameters, options?: RequestOptions): Promise<Payment>;
   public create(parameters: CreateParameters, callback: Callback<Payment>): void;
-  public create(parameters: CreateParameters) {
+  public create(parameters: CreateParameters, options?: RequestOptions | Callback<Payment>) {
     if (renege(this, this.create, ...arguments)) return;
-    const { include, ...data } = parameters;
+    const { include, idempotencyKey, ...data } = parameters;
     const query = include != undefined ? { include } : undefined;
-    return this.networkClient.post<PaymentData, Payment>(pathSegment, data, query);
+    return this.networkClient.post<PaymentData, Payment>(pathSegment, data, query, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -73,14 +75,14 @@ export default class PaymentsBinder extends Binder<PaymentData, Payment> {
    * @since 2.0.0
    * @see https://docs.mollie.com/reference/v2/payments-api/get-payment
    */
-  public get(id: string, parameters?: GetParameters): Promise<Payment>;
+  public get(id: string, parameters?: GetParameters, options?: RequestOptions): Promise<Payment>;
   public get(id: string, parameters: GetParameters, callback: Callback<Payment>): void;
-  public get(id: string, parameters?: GetParameters) {
+  public get(id: string, parameters?: GetParameters, options?: RequestOptions | Callback<Payment>) {
     if (renege(this, this.get, ...arguments)) return;
     if (!checkId(id, 'payment')) {
-      throw new ApiError('The payment id is invalid');
+      throw new InvalidIdError('The payment id is invalid');
     }
-    return this.networkClient.get<PaymentData, Payment>(`${pathSegment}/${id}`, parameters);
+    return this.networkClient.get<PaymentData, Payment>(`${pathSegment}/${id}`, parameters, getRequestOptions(options));
   }
 
   /**
@@ -91,11 +93,14 @@ export default class PaymentsBinder extends Binder<PaymentData, Payment> {
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/payments-api/list-payments
    */
-  public page(parameters?: ListParameters): Promise<List<Payment>>;
+  public page(parameters?: ListParameters, options?: RequestOptions): Promise<List<Payment>>;
   public page(parameters: ListParameters, callback: Callback<List<Payment>>): void;
-  public page(parameters: ListParameters = {}) {
+  public page(parameters: ListParameters = {}, options?: RequestOptions | Callback<List<Payment>>) {
     if (renege(this, this.page, ...arguments)) return;
-    return this.networkClient.list<PaymentData, Payment>(pathSegment, 'payments', parameters).then(result => this.injectPaginationHelpers(result, this.page, parameters));
+    const requestOptions = getRequestOptions(options);
+    return this.networkClient
+      .list<PaymentData, Payment>(pathSegment, 'payments', parameters, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
   }
 
   /**
@@ -106,9 +111,9 @@ export default class PaymentsBinder extends Binder<PaymentData, Payment> {
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/payments-api/list-payments
    */
-  public iterate(parameters?: IterateParameters) {
+  public iterate(parameters?: IterateParameters, options?: RequestOptions) {
     const { valuesPerMinute, ...query } = parameters ?? {};
-    return this.networkClient.iterate<PaymentData, Payment>(pathSegment, 'payments', query, valuesPerMinute);
+    return this.networkClient.iterate<PaymentData, Payment>(pathSegment, 'payments', query, valuesPerMinute, options);
   }
 
   /**
@@ -117,14 +122,15 @@ export default class PaymentsBinder extends Binder<PaymentData, Payment> {
    * @since 3.2.0
    * @see https://docs.mollie.com/reference/v2/payments-api/update-payment
    */
-  public update(id: string, parameters: UpdateParameters): Promise<Payment>;
+  public update(id: string, parameters: UpdateParameters, options?: RequestOptions): Promise<Payment>;
   public update(id: string, parameters: UpdateParameters, callback: Callback<Payment>): void;
-  public update(id: string, parameters: UpdateParameters) {
+  public update(id: string, parameters: UpdateParameters, options?: RequestOptions | Callback<Payment>) {
     if (renege(this, this.update, ...arguments)) return;
     if (!checkId(id, 'payment')) {
-      throw new ApiError('The payment id is invalid');
+      throw new InvalidIdError('The payment id is invalid');
     }
-    return this.networkClient.patch<PaymentData, Payment>(`${pathSegment}/${id}`, parameters);
+    const { idempotencyKey, ...data } = parameters;
+    return this.networkClient.patch<PaymentData, Payment>(`${pathSegment}/${id}`, data, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -136,13 +142,14 @@ export default class PaymentsBinder extends Binder<PaymentData, Payment> {
    * @since 2.0.0
    * @see https://docs.mollie.com/reference/v2/payments-api/cancel-payment
    */
-  public cancel(id: string, parameters?: CancelParameters): Promise<Payment>;
+  public cancel(id: string, parameters?: CancelParameters, options?: RequestOptions): Promise<Payment>;
   public cancel(id: string, parameters: CancelParameters, callback: Callback<List<Payment>>): void;
-  public cancel(id: string, parameters?: CancelParameters) {
+  public cancel(id: string, parameters?: CancelParameters, options?: RequestOptions | Callback<List<Payment>>) {
     if (renege(this, this.cancel, ...arguments)) return;
     if (!checkId(id, 'payment')) {
-      throw new ApiError('The payment id is invalid');
+      throw new InvalidIdError('The payment id is invalid');
     }
-    return this.networkClient.delete<PaymentData, Payment>(`${pathSegment}/${id}`, parameters);
+    const { idempotencyKey, ...context } = parameters ?? {};
+    return this.networkClient.delete<PaymentData, Payment>(`${pathSegment}/${id}`, context, idempotencyKey, getRequestOptions(options));
   }
 }
@@ -2,10 +2,12 @@ import TransformingNetworkClient from '../../../communication/TransformingNetwor
 import List from '../../../data/list/List';
 import Capture from '../../../data/payments/captures/Capture';
 import { CaptureData } from '../../../data/payments/captures/data';
-import ApiError from '../../../errors/ApiError';
+import { InvalidIdError } from '../../../errors/ApiError';
 import checkId from '../../../plumbing/checkId';
+import getRequestOptions from '../../../plumbing/getRequestOptions';
 import renege from '../../../plumbing/renege';
 import Callback from '../../../types/Callback';
+import { RequestOptions } from '../../../types/parameters';
 import InnerBinder from '../../InnerBinder';
 import { GetParameters, IterateParameters, ListParameters } from './parameters';
 
@@ -50,20 +52,20 @@ export default class PaymentCapturesBinder extends InnerBinder<CaptureData, Capt
    * @since 1.1.1
    * @see https://docs.mollie.com/reference/v2/captures-api/get-capture
    */
-  public get(id: string, parameters: GetParameters): Promise<Capture>;
+  public get(id: string, parameters: GetParameters, options?: RequestOptions): Promise<Capture>;
   public get(id: string, parameters: GetParameters, callback: Callback<Capture>): void;
-  public get(id: string, parameters: GetParameters) {
+  public get(id: string, parameters: GetParameters, options?: RequestOptions | Callback<Capture>) {
     if (renege(this, this.get, ...arguments)) return;
     if (!checkId(id, 'capture')) {
-      throw new ApiError('The capture id is invalid');
+      throw new InvalidIdError('The capture id is invalid');
     }
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const paymentId = this.getParentId((parameters ?? {}).paymentId);
     if (!checkId(paymentId, 'payment')) {
-      throw new ApiError('The payment id is invalid');
+      throw new InvalidIdError('The payment id is invalid');
     }
     const { paymentId: _, ...query } = parameters;
-    return this.networkClient.get<CaptureData, Capture>(`${getPathSegments(paymentId)}/${id}`, query);
+    return this.networkClient.get<CaptureData, Capture>(`${getPathSegments(paymentId)}/${id}`, query, getRequestOptions(options));
   }
 
   /**
@@ -75,17 +77,20 @@ export default class PaymentCapturesBinder extends InnerBinder<CaptureData, Capt
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/captures-api/list-captures
    */
-  public page(parameters: ListParameters): Promise<List<Capture>>;
+  public page(parameters: ListParameters, options?: RequestOptions): Promise<List<Capture>>;
   public page(parameters: ListParameters, callback: Callback<List<Capture>>): void;
-  public page(parameters: ListParameters) {
+  public page(parameters: ListParameters, options?: RequestOptions | Callback<List<Capture>>) {
     if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const paymentId = this.getParentId((parameters ?? {}).paymentId);
     if (!checkId(paymentId, 'payment')) {
-      throw new ApiError('The payment id is invalid');
+      throw new InvalidIdError('The payment id is invalid');
     }
     const { paymentId: _, ...query } = parameters;
-    return this.networkClient.list<CaptureData, Capture>(getPathSegments(paymentId), 'captures', query).then(result => this.injectPaginationHelpers(result, this.page, parameters));
+    return this.networkClient
+      .list<CaptureData, Capture>(getPathSegments(paymentId), 'captures', query, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
   }
 
   /**
@@ -97,13 +102,13 @@ export default class PaymentCapturesBinder extends InnerBinder<CaptureData, Capt
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/captures-api/list-captures
    */
-  public iterate(parameters: IterateParameters) {
+  public iterate(parameters: IterateParameters, options?: RequestOptions) {
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const paymentId = this.getParentId((parameters ?? {}).paymentId);
     if (!checkId(paymentId, 'payment')) {
-      throw new ApiError('The payment id is invalid');
+      throw new InvalidIdError('The payment id is invalid');
     }
     const { valuesPerMinute, paymentId: _, ...query } = parameters ?? {};
-    return this.networkClient.iterate<CaptureData, Capture>(getPathSegments(paymentId), 'captures', query, valuesPerMinute);
+    return this.networkClient.iterate<CaptureData, Capture>(getPathSegments(paymentId), 'captures', query, valuesPerMinute, options);
   }
 }
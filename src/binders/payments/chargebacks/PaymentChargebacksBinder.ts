@@ -1,10 +1,12 @@
 import TransformingNetworkClient from '../../../communication/TransformingNetworkClient';
 import Chargeback, { ChargebackData } from '../../../data/chargebacks/Chargeback';
 import List from '../../../data/list/List';
-import ApiError from '../../../errors/ApiError';
+import { InvalidIdError } from '../../../errors/ApiError';
 import checkId from '../../../plumbing/checkId';
+import getRequestOptions from '../../../plumbing/getRequestOptions';
 import renege from '../../../plumbing/renege';
 import Callback from '../../../types/Callback';
+import { RequestOptions } from '../../../types/parameters';
 import InnerBinder from '../../InnerBinder';
 import { GetParameters, IterateParameters, ListParameters } from './parameters';
 
@@ -46,20 +48,20 @@ export default class PaymentChargebacksBinder extends InnerBinder<ChargebackData
    * @since 1.1.1
    * @see https://docs.mollie.com/reference/v2/chargebacks-api/get-payment-chargeback
    */
-  public get(id: string, parameters: GetParameters): Promise<Chargeback>;
+  public get(id: string, parameters: GetParameters, options?: RequestOptions): Promise<Chargeback>;
   public get(id: string, parameters: GetParameters, callback: Callback<Chargeback>): void;
-  public get(id: string, parameters: GetParameters) {
+  public get(id: string, parameters: GetParameters, options?: RequestOptions | Callback<Chargeback>) {
     if (renege(this, this.get, ...arguments)) return;
     if (!checkId(id, 'refund')) {
-      throw new ApiError('The payments_refund id is invalid');
+      throw new InvalidIdError('The payments_refund id is invalid');
     }
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const paymentId = this.getParentId((parameters ?? {}).paymentId);
     if (!checkId(paymentId, 'payment')) {
-      throw new ApiError('The payment id is invalid');
+      throw new InvalidIdError('The payment id is invalid');
     }
     const { paymentId: _, ...query } = parameters;
-    return this.networkClient.get<ChargebackData, Chargeback>(`${getPathSegments(paymentId)}/${id}`, query);
+    return this.networkClient.get<ChargebackData, Chargeback>(`${getPathSegments(paymentId)}/${id}`, query, getRequestOptions(options));
   }
 
   /**
@@ -70,17 +72,20 @@ export default class PaymentChargebacksBinder extends InnerBinder<ChargebackData
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/chargebacks-api/list-chargebacks
    */
-  public page(parameters: ListParameters): Promise<List<Chargeback>>;
+  public page(parameters: ListParameters, options?: RequestOptions): Promise<List<Chargeback>>;
   public page(parameters: ListParameters, callback: Callback<List<Chargeback>>): void;
-  public page(parameters: ListParameters) {
+  public page(parameters: ListParameters, options?: RequestOptions | Callback<List<Chargeback>>) {
     if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const paymentId = this.getParentId((parameters ?? {}).paymentId);
     if (!checkId(paymentId, 'payment')) {
-      throw new ApiError('The payment id is invalid');
+      throw new InvalidIdError('The payment id is invalid');
     }
     const { paymentId: _, ...query } = parameters;
-    return this.networkClient.list<ChargebackData, Chargeback>(getPathSegments(paymentId), 'chargebacks', query).then(result => this.injectPaginationHelpers(result, this.page, parameters));
+    return this.networkClient
+      .list<ChargebackData, Chargeback>(getPathSegments(paymentId), 'chargebacks', query, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
   }
 
   /**
@@ -91,13 +96,13 @@ export default class PaymentChargebacksBinder extends InnerBinder<ChargebackData
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/chargebacks-api/list-chargebacks
    */
-  public iterate(parameters: IterateParameters) {
+  public iterate(parameters: IterateParameters, options?: RequestOptions) {
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const paymentId = this.getParentId((parameters ?? {}).paymentId);
     if (!checkId(paymentId, 'payment')) {
-      throw new ApiError('The payment id is invalid');
+      throw new InvalidIdError('The payment id is invalid');
     }
     const { valuesPerMinute, paymentId: _, ...query } = parameters ?? {};
-    return this.networkClient.iterate<ChargebackData, Chargeback>(getPathSegments(paymentId), 'chargebacks', query, valuesPerMinute);
+    return this.networkClient.iterate<ChargebackData, Chargeback>(getPathSegments(paymentId), 'chargebacks', query, valuesPerMinute, options);
   }
 }
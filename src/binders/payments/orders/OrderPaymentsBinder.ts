@@ -1,10 +1,12 @@
 import TransformingNetworkClient from '../../../communication/TransformingNetworkClient';
 import { PaymentData } from '../../../data/payments/data';
 import Payment from '../../../data/payments/Payment';
-import ApiError from '../../../errors/ApiError';
+import { InvalidIdError } from '../../../errors/ApiError';
 import checkId from '../../../plumbing/checkId';
+import getRequestOptions from '../../../plumbing/getRequestOptions';
 import renege from '../../../plumbing/renege';
 import Callback from '../../../types/Callback';
+import { RequestOptions } from '../../../types/parameters';
 import InnerBinder from '../../InnerBinder';
 import { CreateParameters } from './parameters';
 
@@ -28,15 +30,15 @@ export default class OrderPaymentsBinder extends InnerBinder<PaymentData, Paymen
    * @since 3.1.0
    * @see https://docs.mollie.com/reference/v2/orders-api/create-order-payment
    */
-  public create(parameters: CreateParameters): Promise<Payment>;
+  public create(parameters: CreateParameters, options?: RequestOptions): Promise<Payment>;
   public create(parameters: CreateParameters, callback: Callback<Payment>): void;
-  public create(parameters: CreateParameters) {
+  public create(parameters: CreateParameters, options?: RequestOptions | Callback<Payment>) {
     if (renege(this, this.create, ...arguments)) return;
     const orderId = this.getParentId(parameters.orderId);
     if (!checkId(orderId, 'order')) {
-      throw new ApiError('The order id is invalid');
+      throw new InvalidIdError('The order id is invalid');
     }
-    const { orderId: _, ...data } = parameters;
-    return this.networkClient.post<PaymentData, Payment>(getPathSegments(orderId), data);
+    const { orderId: _, idempotencyKey, ...data } = parameters;
+    return this.networkClient.post<PaymentData, Payment>(getPathSegments(orderId), data, undefined, idempotencyKey, getRequestOptions(options));
   }
 }
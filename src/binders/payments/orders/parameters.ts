@@ -1,5 +1,6 @@
 import { PaymentMethod } from '../../../data/global';
 import { PaymentData } from '../../../data/payments/data';
+import { IdempotencyParameter } from '../../../types/parameters';
 
 interface ContextParameters {
   orderId: string;
@@ -7,6 +8,7 @@ interface ContextParameters {
 }
 
 export type CreateParameters = ContextParameters &
+  IdempotencyParameter &
   Pick<PaymentData, 'mandateId' | 'applicationFee'> & {
     /**
      * Normally, a payment method screen is shown. However, when using this parameter, you can choose a specific payment method and your customer will skip the selection screen and is sent directly to
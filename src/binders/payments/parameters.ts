@@ -1,11 +1,12 @@
 import { Address, Amount, PaymentMethod } from '../../data/global';
 import { Issuer } from '../../data/Issuer';
 import { PaymentData, PaymentEmbed, PaymentInclude } from '../../data/payments/data';
-import { PaginationParameters, ThrottlingParameters } from '../../types/parameters';
+import { IdempotencyParameter, PaginationParameters, ThrottlingParameters } from '../../types/parameters';
 import PickOptional from '../../types/PickOptional';
 
 export type CreateParameters = Pick<PaymentData, 'amount' | 'description' | 'redirectUrl' | 'webhookUrl' | 'customerId' | 'mandateId'> &
-  PickOptional<PaymentData, 'locale' | 'metadata' | 'sequenceType'> & {
+  PickOptional<PaymentData, 'locale' | 'metadata' | 'sequenceType'> &
+  IdempotencyParameter & {
     /**
      * Normally, a payment method screen is shown. However, when using this parameter, you can choose a specific payment method and your customer will skip the selection screen and is sent directly to
      * the chosen payment method. The parameter enables you to fully integrate the payment method selection into your website.
@@ -13,7 +14,7 @@ export type CreateParameters = Pick<PaymentData, 'amount' | 'description' | 'red
      * You can also specify the methods in an array. By doing so we will still show the payment method selection screen but will only show the methods specified in the array. For example, you can use
      * this functionality to only show payment methods from a specific country to your customer `['bancontact', 'belfius']`.
      *
-     * Possible values: `applepay` `bancontact` `banktransfer` `belfius` `creditcard` `directdebit` `eps` `giftcard` `giropay` `ideal` `kbc` `mybank` `paypal` `paysafecard` `przelewy24` `sofort`
+     * Possible values: `applepay` `bancontact` `banktransfer` `belfius` `creditcard` `directdebit` `eps` `giftcard` `giropay` `ideal` `kbc` `mybank` `paypal` `paysafecard` `pointofsale` `przelewy24` `sofort`
      *
      * @see https://docs.mollie.com/reference/v2/payments-api/create-payment?path=method#parameters
      */
@@ -130,6 +131,12 @@ export type CreateParameters = Pick<PaymentData, 'amount' | 'description' | 'red
      * @see https://docs.mollie.com/reference/v2/payments-api/create-payment?path=consumerAccount#sepa-direct-debit
      */
     consumerAccount?: string;
+    /**
+     * The identifier referring to the terminal this payment should be sent to, such as `'term_utGtYu756h'`. Required when creating a point-of-sale payment.
+     *
+     * @see https://docs.mollie.com/reference/v2/payments-api/create-payment?path=terminalId#point-of-sale
+     */
+    terminalId?: string;
     include?: PaymentInclude[] | PaymentInclude;
     profileId?: string;
     testmode?: boolean;
@@ -173,7 +180,8 @@ export type ListParameters = PaginationParameters & {
 export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
 
 export type UpdateParameters = Pick<PaymentData, 'redirectUrl' | 'webhookUrl'> &
-  PickOptional<PaymentData, 'description' | 'metadata'> & {
+  PickOptional<PaymentData, 'description' | 'metadata'> &
+  IdempotencyParameter & {
     /**
      * For digital goods in most jurisdictions, you must apply the VAT rate from your customer's country. Choose the VAT rates you have used for the order to ensure your customer's country matches the
      * VAT country.
@@ -187,6 +195,6 @@ export type UpdateParameters = Pick<PaymentData, 'redirectUrl' | 'webhookUrl'> &
     restrictPaymentMethodsToCountry?: string;
   };
 
-export interface CancelParameters {
+export interface CancelParameters extends IdempotencyParameter {
   testmode?: boolean;
 }
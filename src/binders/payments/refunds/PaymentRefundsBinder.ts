@@ -2,10 +2,12 @@ import TransformingNetworkClient from '../../../communication/TransformingNetwor
 import List from '../../../data/list/List';
 import { RefundData } from '../../../data/refunds/data';
 import Refund from '../../../data/refunds/Refund';
-import ApiError from '../../../errors/ApiError';
+import { InvalidIdError } from '../../../errors/ApiError';
 import checkId from '../../../plumbing/checkId';
+import getRequestOptions from '../../../plumbing/getRequestOptions';
 import renege from '../../../plumbing/renege';
 import Callback from '../../../types/Callback';
+import { RequestOptions } from '../../../types/parameters';
 import InnerBinder from '../../InnerBinder';
 import { CancelParameters, CreateParameters, GetParameters, IterateParameters, ListParameters } from './parameters';
 
@@ -55,16 +57,16 @@ export default class PaymentRefundsBinder extends InnerBinder<RefundData, Refund
    * @since 1.1.1
    * @see https://docs.mollie.com/reference/v2/refunds-api/create-payment-refund
    */
-  public create(parameters: CreateParameters): Promise<Refund>;
+  public create(parameters: CreateParameters, options?: RequestOptions): Promise<Refund>;
   public create(parameters: CreateParameters, callback: Callback<Refund>): void;
-  public create(parameters: CreateParameters) {
+  public create(parameters: CreateParameters, options?: RequestOptions | Callback<Refund>) {
     if (renege(this, this.create, ...arguments)) return;
     const paymentId = this.getParentId(parameters.paymentId);
     if (!checkId(paymentId, 'payment')) {
-      throw new ApiError('The payment id is invalid');
+      throw new InvalidIdError('The payment id is invalid');
     }
-    const { paymentId: _, ...data } = parameters;
-    return this.networkClient.post<RefundData, Refund>(getPathSegments(paymentId), data);
+    const { paymentId: _, idempotencyKey, ...data } = parameters;
+    return this.networkClient.post<RefundData, Refund>(getPathSegments(paymentId), data, undefined, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -75,20 +77,20 @@ export default class PaymentRefundsBinder extends InnerBinder<RefundData, Refund
    * @since 1.1.1
    * @see https://docs.mollie.com/reference/v2/refunds-api/get-payment-refund
    */
-  public get(id: string, parameters: GetParameters): Promise<Refund>;
+  public get(id: string, parameters: GetParameters, options?: RequestOptions): Promise<Refund>;
   public get(id: string, parameters: GetParameters, callback: Callback<Refund>): void;
-  public get(id: string, parameters: GetParameters) {
+  public get(id: string, parameters: GetParameters, options?: RequestOptions | Callback<Refund>) {
     if (renege(this, this.get, ...arguments)) return;
     if (!checkId(id, 'refund')) {
-      throw new ApiError('The payments_refund id is invalid');
+      throw new InvalidIdError('The payments_refund id is invalid');
     }
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const paymentId = this.getParentId((parameters ?? {}).paymentId);
     if (!checkId(paymentId, 'payment')) {
-      throw new ApiError('The payment id is invalid');
+      throw new InvalidIdError('The payment id is invalid');
     }
     const { paymentId: _, ...query } = parameters;
-    return this.networkClient.get<RefundData, Refund>(`${getPathSegments(paymentId)}/${id}`, query);
+    return this.networkClient.get<RefundData, Refund>(`${getPathSegments(paymentId)}/${id}`, query, getRequestOptions(options));
   }
 
   /**
@@ -99,17 +101,20 @@ export default class PaymentRefundsBinder extends InnerBinder<RefundData, Refund
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/refunds-api/list-refunds
    */
-  public page(parameters: ListParameters): Promise<List<Refund>>;
+  public page(parameters: ListParameters, options?: RequestOptions): Promise<List<Refund>>;
   public page(parameters: ListParameters, callback: Callback<List<Refund>>): void;
-  public page(parameters: ListParameters) {
+  public page(parameters: ListParameters, options?: RequestOptions | Callback<List<Refund>>) {
     if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const paymentId = this.getParentId((parameters ?? {}).paymentId);
     if (!checkId(paymentId, 'payment')) {
-      throw new ApiError('The payment id is invalid');
+      throw new InvalidIdError('The payment id is invalid');
     }
     const { paymentId: _, ...query } = parameters;
-    return this.networkClient.list<RefundData, Refund>(getPathSegments(paymentId), 'refunds', query).then(result => this.injectPaginationHelpers(result, this.page, parameters));
+    return this.networkClient
+      .list<RefundData, Refund>(getPathSegments(paymentId), 'refunds', query, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
   }
 
   /**
@@ -120,14 +125,14 @@ export default class PaymentRefundsBinder extends InnerBinder<RefundData, Refund
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/refunds-api/list-refunds
    */
-  public iterate(parameters: IterateParameters) {
+  public iterate(parameters: IterateParameters, options?: RequestOptions) {
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const paymentId = this.getParentId((parameters ?? {}).paymentId);
     if (!checkId(paymentId, 'payment')) {
-      throw new ApiError('The payment id is invalid');
+      throw new InvalidIdError('The payment id is invalid');
     }
     const { valuesPerMinute, paymentId: _, ...query } = parameters ?? {};
-    return this.networkClient.iterate<RefundData, Refund>(getPathSegments(paymentId), 'refunds', query, valuesPerMinute);
+    return this.networkClient.iterate<RefundData, Refund>(getPathSegments(paymentId), 'refunds', query, valuesPerMinute, options);
   }
 
   /**
@@ -139,19 +144,19 @@ export default class PaymentRefundsBinder extends InnerBinder<RefundData, Refund
    * @since 1.1.1
    * @see https://docs.mollie.com/reference/v2/refunds-api/cancel-payment-refund
    */
-  public cancel(id: string, parameters: CancelParameters): Promise<true>;
+  public cancel(id: string, parameters: CancelParameters, options?: RequestOptions): Promise<true>;
   public cancel(id: string, parameters: CancelParameters, callback: Callback<Promise<true>>): void;
-  public cancel(id: string, parameters: CancelParameters) {
+  public cancel(id: string, parameters: CancelParameters, options?: RequestOptions | Callback<Promise<true>>) {
     if (renege(this, this.cancel, ...arguments)) return;
     if (!checkId(id, 'refund')) {
-      throw new ApiError('The payments_refund id is invalid');
+      throw new InvalidIdError('The payments_refund id is invalid');
     }
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const paymentId = this.getParentId((parameters ?? {}).paymentId);
     if (!checkId(paymentId, 'payment')) {
-      throw new ApiError('The payment id is invalid');
+      throw new InvalidIdError('The payment id is invalid');
     }
-    const { paymentId: _, ...context } = parameters;
-    return this.networkClient.delete<RefundData, true>(`${getPathSegments(paymentId)}/${id}`, context);
+    const { paymentId: _, idempotencyKey, ...context } = parameters;
+    return this.networkClient.delete<RefundData, true>(`${getPathSegments(paymentId)}/${id}`, context, idempotencyKey, getRequestOptions(options));
   }
 }
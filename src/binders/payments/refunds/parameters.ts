@@ -1,5 +1,5 @@
 import { RefundData, RefundEmbed } from '../../../data/refunds/data';
-import { PaginationParameters, ThrottlingParameters } from '../../../types/parameters';
+import { IdempotencyParameter, PaginationParameters, ThrottlingParameters } from '../../../types/parameters';
 import PickOptional from '../../../types/PickOptional';
 
 interface ContextParameters {
@@ -7,7 +7,7 @@ interface ContextParameters {
   testmode?: boolean;
 }
 
-export type CreateParameters = ContextParameters & Pick<RefundData, 'amount' | 'metadata'> & PickOptional<RefundData, 'description'>;
+export type CreateParameters = ContextParameters & IdempotencyParameter & Pick<RefundData, 'amount' | 'metadata'> & PickOptional<RefundData, 'description'>;
 
 export type GetParameters = ContextParameters & {
   embed?: RefundEmbed[];
@@ -20,4 +20,4 @@ export type ListParameters = ContextParameters &
 
 export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
 
-export type CancelParameters = ContextParameters;
+export type CancelParameters = ContextParameters & IdempotencyParameter;
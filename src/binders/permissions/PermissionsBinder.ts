@@ -1,8 +1,10 @@
 import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
 import List from '../../data/list/List';
 import Permission, { PermissionData } from '../../data/permissions/Permission';
+import getRequestOptions from '../../plumbing/getRequestOptions';
 import renege from '../../plumbing/renege';
 import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
 import Binder from '../Binder';
 
 const pathSegment = 'permissions';
@@ -27,11 +29,11 @@ export default class PermissionsBinder extends Binder<PermissionData, Permission
    * @since 3.2.0
    * @see https://docs.mollie.com/reference/v2/permissions-api/get-permission
    */
-  public get(id: string): Promise<Permission>;
+  public get(id: string, options?: RequestOptions): Promise<Permission>;
   public get(id: string, callback: Callback<Permission>): void;
-  public get(id: string) {
+  public get(id: string, options?: RequestOptions | Callback<Permission>) {
     if (renege(this, this.get, ...arguments)) return;
-    return this.networkClient.get<PermissionData, Permission>(`${pathSegment}/${id}`);
+    return this.networkClient.get<PermissionData, Permission>(`${pathSegment}/${id}`, undefined, getRequestOptions(options));
   }
 
   /**
@@ -40,10 +42,13 @@ export default class PermissionsBinder extends Binder<PermissionData, Permission
    * @since 3.2.0
    * @see https://docs.mollie.com/reference/v2/permissions-api/list-permissions
    */
-  public list(): Promise<List<Permission>>;
+  public list(options?: RequestOptions): Promise<List<Permission>>;
   public list(callback: Callback<List<Permission>>): void;
-  public list() {
+  public list(options?: RequestOptions | Callback<List<Permission>>) {
     if (renege(this, this.list, ...arguments)) return;
-    return this.networkClient.list<PermissionData, Permission>(pathSegment, 'permissions', {}).then(result => this.injectPaginationHelpers<undefined>(result, this.list, undefined));
+    const requestOptions = getRequestOptions(options);
+    return this.networkClient
+      .list<PermissionData, Permission>(pathSegment, 'permissions', {}, requestOptions)
+      .then(result => this.injectPaginationHelpers<undefined>(result, this.list, undefined, requestOptions));
   }
 }
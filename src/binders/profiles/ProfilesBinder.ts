@@ -2,10 +2,12 @@ import TransformingNetworkClient from '../../communication/TransformingNetworkCl
 import List from '../../data/list/List';
 import { ProfileData } from '../../data/profiles/data';
 import Profile from '../../data/profiles/Profile';
-import ApiError from '../../errors/ApiError';
+import { InvalidIdError } from '../../errors/ApiError';
 import checkId from '../../plumbing/checkId';
+import getRequestOptions from '../../plumbing/getRequestOptions';
 import renege from '../../plumbing/renege';
 import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
 import Binder from '../Binder';
 import { CreateParameters, IterateParameters, ListParameters, UpdateParameters } from './parameters';
 
@@ -34,11 +36,12 @@ export default class ProfilesBinder extends Binder<ProfileData, Profile> {
    * @since 3.2.0
    * @see https://docs.mollie.com/reference/v2/profiles-api/create-profile
    */
-  public create(parameters: CreateParameters): Promise<Profile>;
+  public create(parameters: CreateParameters, options?: RequestOptions): Promise<Profile>;
   public create(parameters: CreateParameters, callback: Callback<Profile>): void;
-  public create(parameters: CreateParameters) {
+  public create(parameters: CreateParameters, options?: RequestOptions | Callback<Profile>) {
     if (renege(this, this.create, ...arguments)) return;
-    return this.networkClient.post<ProfileData, Profile>(pathSegment, parameters);
+    const { idempotencyKey, ...data } = parameters;
+    return this.networkClient.post<ProfileData, Profile>(pathSegment, data, undefined, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -47,14 +50,14 @@ export default class ProfilesBinder extends Binder<ProfileData, Profile> {
    * @since 3.2.0
    * @see https://docs.mollie.com/reference/v2/profiles-api/get-profile
    */
-  public get(id: string): Promise<Profile>;
+  public get(id: string, options?: RequestOptions): Promise<Profile>;
   public get(id: string, callback: Callback<Profile>): void;
-  public get(id: string) {
+  public get(id: string, options?: RequestOptions | Callback<Profile>) {
     if (renege(this, this.get, ...arguments)) return;
     if (!checkId(id, 'profile')) {
-      throw new ApiError('The profile id is invalid');
+      throw new InvalidIdError('The profile id is invalid');
     }
-    return this.networkClient.get<ProfileData, Profile>(`${pathSegment}/${id}`);
+    return this.networkClient.get<ProfileData, Profile>(`${pathSegment}/${id}`, undefined, getRequestOptions(options));
   }
 
   /**
@@ -66,11 +69,11 @@ export default class ProfilesBinder extends Binder<ProfileData, Profile> {
    * @since 3.2.0
    * @see https://docs.mollie.com/reference/v2/profiles-api/get-profile-me
    */
-  public getCurrent(): Promise<Profile>;
+  public getCurrent(options?: RequestOptions): Promise<Profile>;
   public getCurrent(callback: Callback<Profile>): void;
-  public getCurrent() {
+  public getCurrent(options?: RequestOptions | Callback<Profile>) {
     if (renege(this, this.getCurrent, ...arguments)) return;
-    return this.networkClient.get<ProfileData, Profile>(`${pathSegment}/me`);
+    return this.networkClient.get<ProfileData, Profile>(`${pathSegment}/me`, undefined, getRequestOptions(options));
   }
 
   /**
@@ -81,11 +84,14 @@ export default class ProfilesBinder extends Binder<ProfileData, Profile> {
    * @since 3.2.0 (as `list`)
    * @see https://docs.mollie.com/reference/v2/profiles-api/list-profiles
    */
-  public page(parameters?: ListParameters): Promise<List<Profile>>;
+  public page(parameters?: ListParameters, options?: RequestOptions): Promise<List<Profile>>;
   public page(parameters: ListParameters, callback: Callback<List<Profile>>): void;
-  public page(parameters?: ListParameters) {
+  public page(parameters?: ListParameters, options?: RequestOptions | Callback<List<Profile>>) {
     if (renege(this, this.page, ...arguments)) return;
-    return this.networkClient.list<ProfileData, Profile>(pathSegment, 'profiles', parameters).then(result => this.injectPaginationHelpers(result, this.page, parameters));
+    const requestOptions = getRequestOptions(options);
+    return this.networkClient
+      .list<ProfileData, Profile>(pathSegment, 'profiles', parameters, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
   }
 
   /**
@@ -96,9 +102,9 @@ export default class ProfilesBinder extends Binder<ProfileData, Profile> {
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/profiles-api/list-profiles
    */
-  public iterate(parameters?: IterateParameters) {
+  public iterate(parameters?: IterateParameters, options?: RequestOptions) {
     const { valuesPerMinute, ...query } = parameters ?? {};
-    return this.networkClient.iterate<ProfileData, Profile>(pathSegment, 'profiles', query, valuesPerMinute);
+    return this.networkClient.iterate<ProfileData, Profile>(pathSegment, 'profiles', query, valuesPerMinute, options);
   }
 
   /**
@@ -108,14 +114,15 @@ export default class ProfilesBinder extends Binder<ProfileData, Profile> {
    * @since 3.2.0
    * @see https://docs.mollie.com/reference/v2/profiles-api/update-profile
    */
-  public update(id: string, parameters: UpdateParameters): Promise<Profile>;
+  public update(id: string, parameters: UpdateParameters, options?: RequestOptions): Promise<Profile>;
   public update(id: string, parameters: UpdateParameters, callback: Callback<Profile>): void;
-  public update(id: string, parameters: UpdateParameters) {
+  public update(id: string, parameters: UpdateParameters, options?: RequestOptions | Callback<Profile>) {
     if (renege(this, this.update, ...arguments)) return;
     if (!checkId(id, 'profile')) {
-      throw new ApiError('The profile id is invalid');
+      throw new InvalidIdError('The profile id is invalid');
     }
-    return this.networkClient.patch<ProfileData, Profile>(`${pathSegment}/${id}`, parameters);
+    const { idempotencyKey, ...data } = parameters;
+    return this.networkClient.patch<ProfileData, Profile>(`${pathSegment}/${id}`, data, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -124,13 +131,13 @@ export default class ProfilesBinder extends Binder<ProfileData, Profile> {
    * @since 3.2.0
    * @see https://docs.mollie.com/reference/v2/profiles-api/delete-profile
    */
-  public delete(id: string): Promise<true>;
+  public delete(id: string, options?: RequestOptions): Promise<true>;
   public delete(id: string, callback: Callback<List<true>>): void;
-  public delete(id: string) {
+  public delete(id: string, options?: RequestOptions | Callback<List<true>>) {
     if (renege(this, this.delete, ...arguments)) return;
     if (!checkId(id, 'profile')) {
-      throw new ApiError('The profile id is invalid');
+      throw new InvalidIdError('The profile id is invalid');
     }
-    return this.networkClient.delete<ProfileData, true>(`${pathSegment}/${id}`);
+    return this.networkClient.delete<ProfileData, true>(`${pathSegment}/${id}`, undefined, undefined, getRequestOptions(options));
   }
 }
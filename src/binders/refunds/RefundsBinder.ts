@@ -2,8 +2,10 @@ import TransformingNetworkClient from '../../communication/TransformingNetworkCl
 import List from '../../data/list/List';
 import { RefundData } from '../../data/refunds/data';
 import Refund from '../../data/refunds/Refund';
+import getRequestOptions from '../../plumbing/getRequestOptions';
 import renege from '../../plumbing/renege';
 import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
 import Binder from '../Binder';
 import { IterateParameters, ListParameters } from './parameters';
 
@@ -43,11 +45,12 @@ export default class RefundsBinder extends Binder<RefundData, Refund> {
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/refunds-api/list-refunds
    */
-  public page(parameters?: ListParameters): Promise<List<Refund>>;
+  public page(parameters?: ListParameters, options?: RequestOptions): Promise<List<Refund>>;
   public page(parameters: ListParameters, callback: Callback<List<Refund>>): void;
-  public page(parameters: ListParameters = {}) {
+  public page(parameters: ListParameters = {}, options?: RequestOptions | Callback<List<Refund>>) {
     if (renege(this, this.page, ...arguments)) return;
-    return this.networkClient.list<RefundData, Refund>(pathSegment, 'refunds', parameters).then(result => this.injectPaginationHelpers(result, this.page, parameters));
+    const requestOptions = getRequestOptions(options);
+    return this.networkClient.list<RefundData, Refund>(pathSegment, 'refunds', parameters, requestOptions).then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
   }
 
   /**
@@ -58,8 +61,8 @@ export default class RefundsBinder extends Binder<RefundData, Refund> {
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/refunds-api/list-refunds
    */
-  public iterate(parameters?: IterateParameters) {
+  public iterate(parameters?: IterateParameters, options?: RequestOptions) {
     const { valuesPerMinute, ...query } = parameters ?? {};
-    return this.networkClient.iterate<RefundData, Refund>(pathSegment, 'refunds', query, valuesPerMinute);
+    return this.networkClient.iterate<RefundData, Refund>(pathSegment, 'refunds', query, valuesPerMinute, options);
   }
 }
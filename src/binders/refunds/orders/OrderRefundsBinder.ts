@@ -2,10 +2,12 @@ import TransformingNetworkClient from '../../../communication/TransformingNetwor
 import List from '../../../data/list/List';
 import { RefundData } from '../../../data/refunds/data';
 import Refund from '../../../data/refunds/Refund';
-import ApiError from '../../../errors/ApiError';
+import { InvalidIdError } from '../../../errors/ApiError';
 import checkId from '../../../plumbing/checkId';
+import getRequestOptions from '../../../plumbing/getRequestOptions';
 import renege from '../../../plumbing/renege';
 import Callback from '../../../types/Callback';
+import { RequestOptions } from '../../../types/parameters';
 import InnerBinder from '../../InnerBinder';
 import { CreateParameters, ListParameters } from './parameters';
 
@@ -51,16 +53,16 @@ export default class OrderRefundsBinder extends InnerBinder<RefundData, Refund>
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/refunds-api/create-order-refund
    */
-  public create(parameters: CreateParameters): Promise<Refund>;
+  public create(parameters: CreateParameters, options?: RequestOptions): Promise<Refund>;
   public create(parameters: CreateParameters, callback: Callback<Refund>): void;
-  public create(parameters: CreateParameters) {
+  public create(parameters: CreateParameters, options?: RequestOptions | Callback<Refund>) {
     if (renege(this, this.create, ...arguments)) return;
     const orderId = this.getParentId(parameters.orderId);
     if (!checkId(orderId, 'order')) {
-      throw new ApiError('The order id is invalid');
+      throw new InvalidIdError('The order id is invalid');
     }
-    const { orderId: _, ...data } = parameters;
-    return this.networkClient.post<RefundData, Refund>(getPathSegments(orderId), data);
+    const { orderId: _, idempotencyKey, ...data } = parameters;
+    return this.networkClient.post<RefundData, Refund>(getPathSegments(orderId), data, undefined, idempotencyKey, getRequestOptions(options));
   }
 
   /**
@@ -71,17 +73,20 @@ export default class OrderRefundsBinder extends InnerBinder<RefundData, Refund>
    * @since 3.0.0
    * @see https://docs.mollie.com/reference/v2/refunds-api/list-order-refunds
    */
-  public page(parameters: ListParameters): Promise<List<Refund>>;
+  public page(parameters: ListParameters, options?: RequestOptions): Promise<List<Refund>>;
   public page(parameters: ListParameters, callback: Callback<List<Refund>>): void;
-  public page(parameters: ListParameters) {
+  public page(parameters: ListParameters, options?: RequestOptions | Callback<List<Refund>>) {
     if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const orderId = this.getParentId((parameters ?? {}).orderId);
     if (!checkId(orderId, 'order')) {
-      throw new ApiError('The order id is invalid');
+      throw new InvalidIdError('The order id is invalid');
     }
     const { orderId: _, ...query } = parameters ?? {};
-    return this.networkClient.list<RefundData, Refund>(getPathSegments(orderId), 'refunds', query).then(result => this.injectPaginationHelpers(result, this.page, parameters ?? {}));
+    return this.networkClient
+      .list<RefundData, Refund>(getPathSegments(orderId), 'refunds', query, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters ?? {}, requestOptions));
   }
 
   /**
@@ -92,13 +97,13 @@ export default class OrderRefundsBinder extends InnerBinder<RefundData, Refund>
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/refunds-api/list-order-refunds
    */
-  public iterate(parameters: Omit<ListParameters, 'limit'>) {
+  public iterate(parameters: Omit<ListParameters, 'limit'>, options?: RequestOptions) {
     // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
     const orderId = this.getParentId((parameters ?? {}).orderId);
     if (!checkId(orderId, 'order')) {
-      throw new ApiError('The order id is invalid');
+      throw new InvalidIdError('The order id is invalid');
     }
     const { orderId: _, ...query } = parameters ?? {};
-    return this.networkClient.iterate<RefundData, Refund>(getPathSegments(orderId), 'refunds', query);
+    return this.networkClient.iterate<RefundData, Refund>(getPathSegments(orderId), 'refunds', query, undefined, options);
   }
 }
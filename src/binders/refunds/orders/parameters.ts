@@ -1,6 +1,6 @@
 import { Amount } from '../../../data/global';
 import { RefundData } from '../../../data/refunds/data';
-import { PaginationParameters, ThrottlingParameters } from '../../../types/parameters';
+import { IdempotencyParameter, PaginationParameters, ThrottlingParameters } from '../../../types/parameters';
 
 interface ContextParameters {
   orderId: string;
@@ -8,6 +8,7 @@ interface ContextParameters {
 }
 
 export type CreateParameters = ContextParameters &
+  IdempotencyParameter &
   Pick<RefundData, 'description'> & {
     /**
      * An array of objects containing the order line details you want to create a refund for. If you send an empty array, the entire order will be refunded.
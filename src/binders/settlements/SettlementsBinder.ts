@@ -0,0 +1,99 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import List from '../../data/list/List';
+import { SettlementData } from '../../data/settlements/data';
+import Settlement from '../../data/settlements/Settlement';
+import { InvalidIdError } from '../../errors/ApiError';
+import checkId from '../../plumbing/checkId';
+import getRequestOptions from '../../plumbing/getRequestOptions';
+import renege from '../../plumbing/renege';
+import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
+import Binder from '../Binder';
+import { IterateParameters, ListParameters } from './parameters';
+
+const pathSegment = 'settlements';
+
+/**
+ * The format of the bank reference of a settlement, such as `'1234567.1804.03'`.
+ */
+const bankReferencePattern = /^\d+\.\d{4}\.\d{2}$/;
+
+export default class SettlementsBinder extends Binder<SettlementData, Settlement> {
+  constructor(protected readonly networkClient: TransformingNetworkClient) {
+    super();
+  }
+
+  /**
+   * Successful payments, together with refunds, captures and chargebacks are collected into settlements, which are then paid out according to your organization's payout schedule. By retrieving a
+   * single settlement, you can check which payments, refunds, captures and chargebacks were included, and how the amount was calculated.
+   *
+   * Pass either the ID of the settlement (such as `'stl_jDk30akdN'`) or its bank reference (such as `'1234567.1804.03'`).
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement
+   */
+  public get(id: string, options?: RequestOptions): Promise<Settlement>;
+  public get(id: string, callback: Callback<Settlement>): void;
+  public get(id: string, options?: RequestOptions | Callback<Settlement>) {
+    if (renege(this, this.get, ...arguments)) return;
+    if (!checkId(id, 'settlement') && !bankReferencePattern.test(id)) {
+      throw new InvalidIdError('The settlement id is invalid');
+    }
+    return this.networkClient.get<SettlementData, Settlement>(`${pathSegment}/${id}`, undefined, getRequestOptions(options));
+  }
+
+  /**
+   * Retrieve the details of the current settlement that has not yet been paid out.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-next-settlement
+   */
+  public next(options?: RequestOptions): Promise<Settlement>;
+  public next(callback: Callback<Settlement>): void;
+  public next(options?: RequestOptions | Callback<Settlement>) {
+    if (renege(this, this.next, ...arguments)) return;
+    return this.networkClient.get<SettlementData, Settlement>(`${pathSegment}/next`, undefined, getRequestOptions(options));
+  }
+
+  /**
+   * Retrieve the details of the open balance of the organization. This will return a settlement object representing your organization's balance.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-open-settlement
+   */
+  public open(options?: RequestOptions): Promise<Settlement>;
+  public open(callback: Callback<Settlement>): void;
+  public open(options?: RequestOptions | Callback<Settlement>) {
+    if (renege(this, this.open, ...arguments)) return;
+    return this.networkClient.get<SettlementData, Settlement>(`${pathSegment}/open`, undefined, getRequestOptions(options));
+  }
+
+  /**
+   * Retrieve all settlements, ordered from new to old.
+   *
+   * The results are paginated. See pagination for more information.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/settlements-api/list-settlements
+   */
+  public page(parameters?: ListParameters, options?: RequestOptions): Promise<List<Settlement>>;
+  public page(parameters: ListParameters, callback: Callback<List<Settlement>>): void;
+  public page(parameters: ListParameters = {}, options?: RequestOptions | Callback<List<Settlement>>) {
+    if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
+    return this.networkClient
+      .list<SettlementData, Settlement>(pathSegment, 'settlements', parameters, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
+  }
+
+  /**
+   * Retrieve all settlements, ordered from new to old.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/settlements-api/list-settlements
+   */
+  public iterate(parameters?: IterateParameters, options?: RequestOptions) {
+    const { valuesPerMinute, ...query } = parameters ?? {};
+    return this.networkClient.iterate<SettlementData, Settlement>(pathSegment, 'settlements', query, valuesPerMinute, options);
+  }
+}
@@ -0,0 +1,62 @@
+import TransformingNetworkClient from '../../../communication/TransformingNetworkClient';
+import List from '../../../data/list/List';
+import Capture from '../../../data/payments/captures/Capture';
+import { CaptureData } from '../../../data/payments/captures/data';
+import { InvalidIdError } from '../../../errors/ApiError';
+import checkId from '../../../plumbing/checkId';
+import getRequestOptions from '../../../plumbing/getRequestOptions';
+import renege from '../../../plumbing/renege';
+import Callback from '../../../types/Callback';
+import { RequestOptions } from '../../../types/parameters';
+import InnerBinder from '../../InnerBinder';
+import { IterateParameters, ListParameters } from './parameters';
+
+function getPathSegments(settlementId: string) {
+  return `settlements/${settlementId}/captures`;
+}
+
+export default class SettlementCapturesBinder extends InnerBinder<CaptureData, Capture> {
+  constructor(protected readonly networkClient: TransformingNetworkClient) {
+    super();
+  }
+
+  /**
+   * Retrieve all captures included in a settlement.
+   *
+   * The results are paginated. See pagination for more information.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/settlements-api/list-settlement-captures
+   */
+  public page(parameters: ListParameters, options?: RequestOptions): Promise<List<Capture>>;
+  public page(parameters: ListParameters, callback: Callback<List<Capture>>): void;
+  public page(parameters: ListParameters, options?: RequestOptions | Callback<List<Capture>>) {
+    if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
+    // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
+    const settlementId = this.getParentId((parameters ?? {}).settlementId);
+    if (!checkId(settlementId, 'settlement')) {
+      throw new InvalidIdError('The settlement id is invalid');
+    }
+    const { settlementId: _, ...query } = parameters ?? {};
+    return this.networkClient
+      .list<CaptureData, Capture>(getPathSegments(settlementId), 'captures', query, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters ?? {}, requestOptions));
+  }
+
+  /**
+   * Retrieve all captures included in a settlement.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/settlements-api/list-settlement-captures
+   */
+  public iterate(parameters: IterateParameters, options?: RequestOptions) {
+    // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
+    const settlementId = this.getParentId((parameters ?? {}).settlementId);
+    if (!checkId(settlementId, 'settlement')) {
+      throw new InvalidIdError('The settlement id is invalid');
+    }
+    const { valuesPerMinute, settlementId: _, ...query } = parameters ?? {};
+    return this.networkClient.iterate<CaptureData, Capture>(getPathSegments(settlementId), 'captures', query, valuesPerMinute, options);
+  }
+}
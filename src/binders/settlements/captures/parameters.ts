@@ -0,0 +1,13 @@
+import { CaptureEmbed } from '../../../data/payments/captures/data';
+import { PaginationParameters, ThrottlingParameters } from '../../../types/parameters';
+
+interface ContextParameters {
+  settlementId: string;
+}
+
+export type ListParameters = ContextParameters &
+  PaginationParameters & {
+    embed?: CaptureEmbed[];
+  };
+
+export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
@@ -0,0 +1,61 @@
+import TransformingNetworkClient from '../../../communication/TransformingNetworkClient';
+import Chargeback, { ChargebackData } from '../../../data/chargebacks/Chargeback';
+import List from '../../../data/list/List';
+import { InvalidIdError } from '../../../errors/ApiError';
+import checkId from '../../../plumbing/checkId';
+import getRequestOptions from '../../../plumbing/getRequestOptions';
+import renege from '../../../plumbing/renege';
+import Callback from '../../../types/Callback';
+import { RequestOptions } from '../../../types/parameters';
+import InnerBinder from '../../InnerBinder';
+import { IterateParameters, ListParameters } from './parameters';
+
+function getPathSegments(settlementId: string) {
+  return `settlements/${settlementId}/chargebacks`;
+}
+
+export default class SettlementChargebacksBinder extends InnerBinder<ChargebackData, Chargeback> {
+  constructor(protected readonly networkClient: TransformingNetworkClient) {
+    super();
+  }
+
+  /**
+   * Retrieve all chargebacks deducted from a settlement.
+   *
+   * The results are paginated. See pagination for more information.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/settlements-api/list-settlement-chargebacks
+   */
+  public page(parameters: ListParameters, options?: RequestOptions): Promise<List<Chargeback>>;
+  public page(parameters: ListParameters, callback: Callback<List<Chargeback>>): void;
+  public page(parameters: ListParameters, options?: RequestOptions | Callback<List<Chargeback>>) {
+    if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
+    // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
+    const settlementId = this.getParentId((parameters ?? {}).settlementId);
+    if (!checkId(settlementId, 'settlement')) {
+      throw new InvalidIdError('The settlement id is invalid');
+    }
+    const { settlementId: _, ...query } = parameters ?? {};
+    return this.networkClient
+      .list<ChargebackData, Chargeback>(getPathSegments(settlementId), 'chargebacks', query, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters ?? {}, requestOptions));
+  }
+
+  /**
+   * Retrieve all chargebacks deducted from a settlement.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/settlements-api/list-settlement-chargebacks
+   */
+  public iterate(parameters: IterateParameters, options?: RequestOptions) {
+    // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
+    const settlementId = this.getParentId((parameters ?? {}).settlementId);
+    if (!checkId(settlementId, 'settlement')) {
+      throw new InvalidIdError('The settlement id is invalid');
+    }
+    const { valuesPerMinute, settlementId: _, ...query } = parameters ?? {};
+    return this.networkClient.iterate<ChargebackData, Chargeback>(getPathSegments(settlementId), 'chargebacks', query, valuesPerMinute, options);
+  }
+}
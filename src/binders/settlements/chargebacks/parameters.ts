@@ -0,0 +1,13 @@
+import { ChargebackEmbed } from '../../../data/chargebacks/Chargeback';
+import { PaginationParameters, ThrottlingParameters } from '../../../types/parameters';
+
+interface ContextParameters {
+  settlementId: string;
+}
+
+export type ListParameters = ContextParameters &
+  PaginationParameters & {
+    embed?: ChargebackEmbed[];
+  };
+
+export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
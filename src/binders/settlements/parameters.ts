@@ -0,0 +1,10 @@
+import { PaginationParameters, ThrottlingParameters } from '../../types/parameters';
+
+export type ListParameters = PaginationParameters & {
+  /**
+   * Filters the settlements by their bank reference, such as `'1234567.1804.03'`.
+   */
+  reference?: string;
+};
+
+export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
@@ -0,0 +1,62 @@
+import TransformingNetworkClient from '../../../communication/TransformingNetworkClient';
+import List from '../../../data/list/List';
+import { PaymentData } from '../../../data/payments/data';
+import Payment from '../../../data/payments/Payment';
+import { InvalidIdError } from '../../../errors/ApiError';
+import checkId from '../../../plumbing/checkId';
+import getRequestOptions from '../../../plumbing/getRequestOptions';
+import renege from '../../../plumbing/renege';
+import Callback from '../../../types/Callback';
+import { RequestOptions } from '../../../types/parameters';
+import InnerBinder from '../../InnerBinder';
+import { IterateParameters, ListParameters } from './parameters';
+
+function getPathSegments(settlementId: string) {
+  return `settlements/${settlementId}/payments`;
+}
+
+export default class SettlementPaymentsBinder extends InnerBinder<PaymentData, Payment> {
+  constructor(protected readonly networkClient: TransformingNetworkClient) {
+    super();
+  }
+
+  /**
+   * Retrieve all payments included in a settlement.
+   *
+   * The results are paginated. See pagination for more information.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/settlements-api/list-settlement-payments
+   */
+  public page(parameters: ListParameters, options?: RequestOptions): Promise<List<Payment>>;
+  public page(parameters: ListParameters, callback: Callback<List<Payment>>): void;
+  public page(parameters: ListParameters, options?: RequestOptions | Callback<List<Payment>>) {
+    if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
+    // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
+    const settlementId = this.getParentId((parameters ?? {}).settlementId);
+    if (!checkId(settlementId, 'settlement')) {
+      throw new InvalidIdError('The settlement id is invalid');
+    }
+    const { settlementId: _, ...query } = parameters ?? {};
+    return this.networkClient
+      .list<PaymentData, Payment>(getPathSegments(settlementId), 'payments', query, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters ?? {}, requestOptions));
+  }
+
+  /**
+   * Retrieve all payments included in a settlement.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/settlements-api/list-settlement-payments
+   */
+  public iterate(parameters: IterateParameters, options?: RequestOptions) {
+    // parameters ?? {} is used here, because in case withParent is used, parameters could be omitted.
+    const settlementId = this.getParentId((parameters ?? {}).settlementId);
+    if (!checkId(settlementId, 'settlement')) {
+      throw new InvalidIdError('The settlement id is invalid');
+    }
+    const { valuesPerMinute, settlementId: _, ...query } = parameters ?? {};
+    return this.networkClient.iterate<PaymentData, Payment>(getPathSegments(settlementId), 'payments', query, valuesPerMinute, options);
+  }
+}
@@ -0,0 +1,9 @@
+import { PaginationParameters, ThrottlingParameters } from '../../../types/parameters';
+
+interface ContextParameters {
+  settlementId: string;
+}
+
+export type ListParameters = ContextParameters & PaginationParameters;
+
+export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
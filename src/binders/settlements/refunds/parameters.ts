@@ -0,0 +1,13 @@
+import { RefundEmbed } from '../../../data/refunds/data';
+import { PaginationParameters, ThrottlingParameters } from '../../../types/parameters';
+
+interface ContextParameters {
+  settlementId: string;
+}
+
+export type ListParameters = ContextParameters &
+  PaginationParameters & {
+    embed?: RefundEmbed[];
+  };
+
+export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
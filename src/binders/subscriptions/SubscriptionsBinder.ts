@@ -2,8 +2,10 @@ import TransformingNetworkClient from '../../communication/TransformingNetworkCl
 import List from '../../data/list/List';
 import { SubscriptionData } from '../../data/subscriptions/data';
 import Subscription from '../../data/subscriptions/Subscription';
+import getRequestOptions from '../../plumbing/getRequestOptions';
 import renege from '../../plumbing/renege';
 import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
 import InnerBinder from '../InnerBinder';
 import { IterateParameters, ListParameters } from './parameters';
 
@@ -31,11 +33,14 @@ export default class SubscriptionsBinder extends InnerBinder<SubscriptionData, S
    * @since 3.2.0 (as `list`)
    * @see https://docs.mollie.com/reference/v2/subscriptions-api/list-all-subscriptions
    */
-  public page(parameters?: ListParameters): Promise<List<Subscription>>;
+  public page(parameters?: ListParameters, options?: RequestOptions): Promise<List<Subscription>>;
   public page(parameters: ListParameters, callback: Callback<List<Subscription>>): void;
-  public page(parameters?: ListParameters) {
+  public page(parameters?: ListParameters, options?: RequestOptions | Callback<List<Subscription>>) {
     if (renege(this, this.page, ...arguments)) return;
-    return this.networkClient.list<SubscriptionData, Subscription>(pathSegment, 'subscriptions', parameters).then(result => this.injectPaginationHelpers(result, this.page, parameters));
+    const requestOptions = getRequestOptions(options);
+    return this.networkClient
+      .list<SubscriptionData, Subscription>(pathSegment, 'subscriptions', parameters, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
   }
 
   /**
@@ -44,8 +49,8 @@ export default class SubscriptionsBinder extends InnerBinder<SubscriptionData, S
    *
    * @since 3.6.0
    */
-  public iterate(parameters?: IterateParameters) {
+  public iterate(parameters?: IterateParameters, options?: RequestOptions) {
     const { valuesPerMinute, ...query } = parameters ?? {};
-    return this.networkClient.iterate<SubscriptionData, Subscription>(pathSegment, 'subscriptions', query, valuesPerMinute);
+    return this.networkClient.iterate<SubscriptionData, Subscription>(pathSegment, 'subscriptions', query, valuesPerMinute, options);
   }
 }
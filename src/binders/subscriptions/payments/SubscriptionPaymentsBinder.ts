@@ -2,10 +2,12 @@ import TransformingNetworkClient from '../../../communication/TransformingNetwor
 import List from '../../../data/list/List';
 import { PaymentData } from '../../../data/payments/data';
 import Payment from '../../../data/payments/Payment';
-import ApiError from '../../../errors/ApiError';
+import { InvalidIdError } from '../../../errors/ApiError';
 import checkId from '../../../plumbing/checkId';
+import getRequestOptions from '../../../plumbing/getRequestOptions';
 import renege from '../../../plumbing/renege';
 import Callback from '../../../types/Callback';
+import { RequestOptions } from '../../../types/parameters';
 import InnerBinder from '../../InnerBinder';
 import { IterateParameters, ListParameters } from './parameters';
 
@@ -33,20 +35,23 @@ export default class SubscriptionPaymentsBinder extends InnerBinder<PaymentData,
    * @since 3.3.0 (as `list`)
    * @see https://docs.mollie.com/reference/v2/subscriptions-api/list-subscription-payments
    */
-  public page(parameters: ListParameters): Promise<List<Payment>>;
+  public page(parameters: ListParameters, options?: RequestOptions): Promise<List<Payment>>;
   public page(parameters: ListParameters, callback: Callback<List<Payment>>): void;
-  public page(parameters: ListParameters) {
+  public page(parameters: ListParameters, options?: RequestOptions | Callback<List<Payment>>) {
     if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
     const customerId = this.getParentId(parameters.customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
     const { subscriptionId } = parameters;
     if (!checkId(subscriptionId, 'subscription')) {
-      throw new ApiError('The subscription id is invalid');
+      throw new InvalidIdError('The subscription id is invalid');
     }
     const { customerId: _, subscriptionId: __, ...query } = parameters;
-    return this.networkClient.list<PaymentData, Payment>(getPathSegments(customerId, subscriptionId), 'payments', query).then(result => this.injectPaginationHelpers(result, this.page, parameters));
+    return this.networkClient
+      .list<PaymentData, Payment>(getPathSegments(customerId, subscriptionId), 'payments', query, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
   }
 
   /**
@@ -55,16 +60,16 @@ export default class SubscriptionPaymentsBinder extends InnerBinder<PaymentData,
    * @since 3.6.0
    * @see https://docs.mollie.com/reference/v2/subscriptions-api/list-subscription-payments
    */
-  public iterate(parameters: IterateParameters) {
+  public iterate(parameters: IterateParameters, options?: RequestOptions) {
     const customerId = this.getParentId(parameters.customerId);
     if (!checkId(customerId, 'customer')) {
-      throw new ApiError('The customer id is invalid');
+      throw new InvalidIdError('The customer id is invalid');
     }
     const { subscriptionId } = parameters;
     if (!checkId(subscriptionId, 'subscription')) {
-      throw new ApiError('The subscription id is invalid');
+      throw new InvalidIdError('The subscription id is invalid');
     }
     const { valuesPerMinute, customerId: _, subscriptionId: __, ...query } = parameters ?? {};
-    return this.networkClient.iterate<PaymentData, Payment>(getPathSegments(customerId, subscriptionId), 'payments', query, valuesPerMinute);
+    return this.networkClient.iterate<PaymentData, Payment>(getPathSegments(customerId, subscriptionId), 'payments', query, valuesPerMinute, options);
   }
 }
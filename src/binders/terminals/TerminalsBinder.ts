@@ -0,0 +1,65 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import { TerminalData } from '../../data/terminals/data';
+import Terminal from '../../data/terminals/Terminal';
+import List from '../../data/list/List';
+import { InvalidIdError } from '../../errors/ApiError';
+import checkId from '../../plumbing/checkId';
+import getRequestOptions from '../../plumbing/getRequestOptions';
+import renege from '../../plumbing/renege';
+import Callback from '../../types/Callback';
+import { RequestOptions } from '../../types/parameters';
+import Binder from '../Binder';
+import { IterateParameters, ListParameters } from './parameters';
+
+const pathSegment = 'terminals';
+
+export default class TerminalsBinder extends Binder<TerminalData, Terminal> {
+  constructor(protected readonly networkClient: TransformingNetworkClient) {
+    super();
+  }
+
+  /**
+   * Retrieve a single terminal object by its terminal ID. This terminal object symbolizes the physical device that you have received from us.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/terminals-api/get-terminal
+   */
+  public get(id: string, options?: RequestOptions): Promise<Terminal>;
+  public get(id: string, callback: Callback<Terminal>): void;
+  public get(id: string, options?: RequestOptions | Callback<Terminal>) {
+    if (renege(this, this.get, ...arguments)) return;
+    if (!checkId(id, 'terminal')) {
+      throw new InvalidIdError('The terminal id is invalid');
+    }
+    return this.networkClient.get<TerminalData, Terminal>(`${pathSegment}/${id}`, undefined, getRequestOptions(options));
+  }
+
+  /**
+   * Retrieve a list of all of the terminals linked to your account or, when using an OAuth or organization access token, to the passed profile.
+   *
+   * The results are paginated. See pagination for more information.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/terminals-api/list-terminals
+   */
+  public page(parameters?: ListParameters, options?: RequestOptions): Promise<List<Terminal>>;
+  public page(parameters: ListParameters, callback: Callback<List<Terminal>>): void;
+  public page(parameters: ListParameters = {}, options?: RequestOptions | Callback<List<Terminal>>) {
+    if (renege(this, this.page, ...arguments)) return;
+    const requestOptions = getRequestOptions(options);
+    return this.networkClient
+      .list<TerminalData, Terminal>(pathSegment, 'terminals', parameters, requestOptions)
+      .then(result => this.injectPaginationHelpers(result, this.page, parameters, requestOptions));
+  }
+
+  /**
+   * Retrieve a list of all of the terminals linked to your account or, when using an OAuth or organization access token, to the passed profile.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/terminals-api/list-terminals
+   */
+  public iterate(parameters?: IterateParameters, options?: RequestOptions) {
+    const { valuesPerMinute, ...query } = parameters ?? {};
+    return this.networkClient.iterate<TerminalData, Terminal>(pathSegment, 'terminals', query, valuesPerMinute, options);
+  }
+}
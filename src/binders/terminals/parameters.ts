@@ -0,0 +1,11 @@
+import { PaginationParameters, ThrottlingParameters } from '../../types/parameters';
+
+export type ListParameters = PaginationParameters & {
+  /**
+   * The identifier of the profile to list the terminals of, such as `'pfl_QkEhN94Ba'`. Only available when using OAuth or organization access tokens.
+   */
+  profileId?: string;
+  testmode?: boolean;
+};
+
+export type IterateParameters = Omit<ListParameters, 'limit'> & ThrottlingParameters;
@@ -0,0 +1,38 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import { WebhookPayloadData } from '../../data/webhooks/data';
+import WebhookPayload from '../../data/webhooks/WebhookPayload';
+import ApiError, { InvalidSignatureError } from '../../errors/ApiError';
+import findProperty from '../../plumbing/findProperty';
+import Maybe from '../../types/Maybe';
+import verifyWebhookSignature from '../../webhooks/verifyWebhookSignature';
+import Binder from '../Binder';
+
+export default class WebhooksBinder extends Binder<WebhookPayloadData, WebhookPayload> {
+  constructor(protected readonly networkClient: TransformingNetworkClient) {
+    super();
+  }
+
+  /**
+   * Verifies the signature of the passed webhook payload, and parses it. The resource the event is about is included
+   * with its helper methods, as if it had been fetched through the client.
+   *
+   * Pass the body exactly as received, the value of the `X-Mollie-Signature` header, and the signing secret of the
+   * webhook (or multiple secrets during a rotation). Throws an `InvalidSignatureError` if the signature is missing or
+   * does not match any of the secrets.
+   */
+  public parsePayload(rawBody: string | Buffer, signatureHeader: Maybe<string>, secret: string | string[]): WebhookPayload {
+    if (!verifyWebhookSignature(rawBody, signatureHeader, secret)) {
+      throw new InvalidSignatureError('The signature of the webhook payload is missing or invalid');
+    }
+    let data: unknown;
+    try {
+      data = JSON.parse(rawBody.toString());
+    } catch (error) {
+      throw new ApiError('The webhook payload is not valid JSON');
+    }
+    if (!findProperty(data, 'resource') || data.resource != 'event') {
+      throw new ApiError('The webhook payload is not an event');
+    }
+    return this.networkClient.transform(data as WebhookPayloadData);
+  }
+}
@@ -0,0 +1,38 @@
+import https from 'https';
+import { SecureContextOptions } from 'tls';
+
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+
+import Transport, { TransportRequest, TransportResponse } from './Transport';
+
+export type AxiosTransportOptions = Pick<AxiosRequestConfig, 'adapter' | 'baseURL' | 'proxy' | 'socketPath' | 'timeout'> & {
+  caCertificates?: SecureContextOptions['ca'];
+};
+
+/**
+ * A transport which sends requests through axios. This is the default transport.
+ */
+export default class AxiosTransport implements Transport {
+  protected readonly axiosInstance: AxiosInstance;
+  constructor({ caCertificates, ...axiosOptions }: AxiosTransportOptions = {}) {
+    this.axiosInstance = axios.create({
+      ...axiosOptions,
+      httpsAgent: new https.Agent({
+        ca: caCertificates,
+      }),
+      // Resolve the promise for every response, as the network client handles error status codes itself.
+      validateStatus: () => true,
+    });
+  }
+
+  async send({ method, url, headers, body, signal, timeout, binary }: TransportRequest): Promise<TransportResponse> {
+    // Pass URLs within the base URL as relative URLs, which makes for the same request configurations as before
+    // transports were introduced (which custom axios adapters may rely on).
+    const { baseURL } = this.axiosInstance.defaults;
+    if (baseURL != undefined && url.startsWith(baseURL)) {
+      url = url.substring(baseURL.length);
+    }
+    const response = await this.axiosInstance.request({ method: method as AxiosRequestConfig['method'], url, headers, data: body, signal, timeout, responseType: binary ? 'arraybuffer' : undefined });
+    return { status: response.status, headers: response.headers, body: binary ? Buffer.from(response.data) : response.data };
+  }
+}
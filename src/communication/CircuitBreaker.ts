@@ -0,0 +1,122 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /**
+   * The number of consecutive failed requests after which the circuit opens. A request fails if it does not receive a
+   * response (such as when it times out), or if it receives a response with a status code of `500` or higher. Default:
+   * `5`.
+   */
+  failureThreshold?: number;
+  /**
+   * The number of milliseconds the circuit stays open before a single trial request is let through. Default: `30000`.
+   */
+  coolDown?: number;
+  /**
+   * Called whenever the state of the circuit changes.
+   */
+  onStateChange?: (state: CircuitState, previousState: CircuitState) => void;
+}
+
+/**
+ * Keeps track of failed requests, and stops requests from being sent once too many have failed in a row.
+ *
+ * The circuit starts out closed: requests are sent as usual. Once the failure threshold is reached, the circuit opens:
+ * requests fail immediately without being sent. After the cool-down, the circuit becomes half-open: a single trial
+ * request is sent. If it succeeds, the circuit closes again. If it fails, the circuit opens for another cool-down.
+ *
+ * A single instance can be shared by multiple clients, which then share their circuit.
+ */
+export default class CircuitBreaker {
+  protected readonly failureThreshold: number;
+  protected readonly coolDown: number;
+  protected readonly onStateChange?: CircuitBreakerOptions['onStateChange'];
+  protected currentState: CircuitState;
+  protected failureCount: number;
+  protected openedAt: number;
+  protected trialInFlight: boolean;
+  constructor({ failureThreshold = 5, coolDown = 30e3, onStateChange }: CircuitBreakerOptions = {}) {
+    this.failureThreshold = failureThreshold;
+    this.coolDown = coolDown;
+    this.onStateChange = onStateChange;
+    this.currentState = 'closed';
+    this.failureCount = 0;
+    this.openedAt = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * The current state of the circuit.
+   */
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /**
+   * The number of milliseconds until the circuit becomes half-open, or `0` if it is not open.
+   */
+  get remainingCoolDown() {
+    if (this.currentState != 'open') {
+      return 0;
+    }
+    return Math.max(0, this.openedAt + this.coolDown - Date.now());
+  }
+
+  /**
+   * Returns whether a request may be sent. If `true` is returned, the outcome of the request must be reported through
+   * `recordSuccess`, `recordFailure`, or `recordAbort`.
+   */
+  tryPass() {
+    if (this.currentState == 'open') {
+      if (this.remainingCoolDown != 0) {
+        return false;
+      }
+      this.transition('half-open');
+    }
+    if (this.currentState == 'half-open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  /**
+   * Informs the circuit breaker that a request succeeded, which closes the circuit.
+   */
+  recordSuccess() {
+    this.trialInFlight = false;
+    this.failureCount = 0;
+    this.transition('closed');
+  }
+
+  /**
+   * Informs the circuit breaker that a request failed, which opens the circuit if the failure threshold is reached or
+   * if the request was the trial request.
+   */
+  recordFailure() {
+    this.trialInFlight = false;
+    ++this.failureCount;
+    if (this.currentState == 'half-open' || this.failureCount >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Informs the circuit breaker that a request was aborted before its outcome was known. If it was the trial request,
+   * another trial request may be sent.
+   */
+  recordAbort() {
+    this.trialInFlight = false;
+  }
+
+  protected transition(state: CircuitState) {
+    const previousState = this.currentState;
+    if (state == previousState) {
+      return;
+    }
+    this.currentState = state;
+    this.onStateChange?.(state, previousState);
+  }
+}
@@ -0,0 +1,131 @@
+import findProperty from '../plumbing/findProperty';
+import Maybe from '../types/Maybe';
+import Transport, { TransportRequest, TransportResponse } from './Transport';
+
+/**
+ * The subset of the `fetch` function (as provided by Node.js 18 and up, and by undici) used by `FetchTransport`. The
+ * `arrayBuffer` method of the response is only used for binary requests.
+ */
+type Fetch = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: string; signal?: any },
+) => Promise<{ status: number; headers: { forEach(callback: (value: string, name: string) => void): void }; text(): Promise<string>; arrayBuffer?(): Promise<ArrayBuffer> }>;
+
+export interface FetchTransportOptions {
+  /**
+   * The `fetch` function used to send requests. Default: the global `fetch` function.
+   */
+  fetch?: Fetch;
+  /**
+   * The number of milliseconds after which requests are aborted. Default: no time-out.
+   */
+  timeout?: number;
+  /**
+   * Additional options passed to every `fetch` call. Use this to pass an undici `dispatcher`, for instance, to configure
+   * connection pooling and keep-alive.
+   */
+  init?: Record<string, unknown>;
+}
+
+/**
+ * Creates an error which describes a request which failed without a response, with a `code` property such as
+ * `'ECONNRESET'` if the passed cause (or its own cause) has one.
+ */
+function createError(cause: unknown) {
+  const message = findProperty(cause, 'message') ? String(cause.message) : 'An unknown error has occurred';
+  const innerCause = findProperty(cause, 'cause') ? cause.cause : undefined;
+  let code: unknown;
+  if (findProperty(innerCause, 'code')) {
+    code = innerCause.code;
+  } /* if (findProperty(innerCause, 'code') == false) */ else if (findProperty(cause, 'code')) {
+    code = cause.code;
+  }
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Decodes the passed response body from JSON. If the body is empty, `undefined` is returned; if it is not valid JSON,
+ * the body is returned as is.
+ */
+function parseBody(text: string) {
+  if (text.length == 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    return text;
+  }
+}
+
+/**
+ * A transport which sends requests through `fetch`, either the one built into Node.js (version 18 and up) or the one
+ * passed in the options (such as undici's).
+ *
+ * Note that this transport does not use the CA certificates bundled with this library. Use the `init` option to pass a
+ * dispatcher if custom certificates are required.
+ */
+export default class FetchTransport implements Transport {
+  protected readonly fetch: Fetch;
+  protected readonly timeout?: number;
+  protected readonly init?: Record<string, unknown>;
+  constructor({ fetch = (globalThis as { fetch?: Fetch }).fetch, timeout, init }: FetchTransportOptions = {}) {
+    if (fetch == undefined) {
+      throw new TypeError('No fetch function is available. Pass one in the options, or use a version of Node.js which provides one.');
+    }
+    this.fetch = fetch;
+    this.timeout = timeout;
+    this.init = init;
+  }
+
+  async send({ method, url, headers, body, signal, timeout = this.timeout, binary = false }: TransportRequest): Promise<TransportResponse> {
+    if (timeout == undefined) {
+      return this.perform(url, { method, headers, body, signal }, binary);
+    }
+    // Abort the request after the time-out (if the runtime supports it), and reject regardless of whether the fetch
+    // function respects the signal.
+    const controller = typeof AbortController == 'undefined' ? undefined : new AbortController();
+    const abort = () => controller?.abort();
+    signal?.addEventListener('abort', abort);
+    let timer: Maybe<ReturnType<typeof setTimeout>>;
+    try {
+      return await Promise.race([
+        this.perform(url, { method, headers, body, signal: controller?.signal ?? signal }, binary),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            abort();
+            reject(Object.assign(new Error(`timeout of ${timeout}ms exceeded`), { code: 'ECONNABORTED' }));
+          }, timeout);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer as ReturnType<typeof setTimeout>);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Sends the request described by the passed arguments through the fetch function, and reads the response. If binary
+   * is `true`, the body of the response is read into a `Buffer` as is.
+   */
+  protected async perform(url: string, init: Parameters<Fetch>[1], binary: boolean): Promise<TransportResponse> {
+    let response: Awaited<ReturnType<Fetch>>;
+    let body: unknown;
+    try {
+      response = await this.fetch(url, { ...this.init, ...init });
+      if (binary) {
+        if (response.arrayBuffer == undefined) {
+          throw new TypeError('The fetch function does not support binary responses, as its responses have no arrayBuffer method');
+        }
+        body = Buffer.from(await response.arrayBuffer());
+      } /* if (binary == false) */ else {
+        body = parseBody(await response.text());
+      }
+    } catch (error) {
+      throw createError(error);
+    }
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => (headers[name.toLowerCase()] = value));
+    return { status: response.status, headers, body };
+  }
+}
@@ -0,0 +1,90 @@
+import ApiError from '../errors/ApiError';
+
+type MaybePromise<T> = T | Promise<T>;
+
+export interface RequestContext {
+  /**
+   * The HTTP method of the request, such as `'GET'` or `'POST'`.
+   */
+  readonly method: string;
+  /**
+   * The (absolute) URL of the request. An `onRequest` hook may alter this URL.
+   */
+  url: string;
+  /**
+   * The headers specific to this request, such as `Idempotency-Key`. Headers set for all requests (such as
+   * `Authorization` and `User-Agent`) are not included. An `onRequest` hook may add, alter, or remove headers.
+   */
+  headers: Record<string, string>;
+  /**
+   * The body of the request (if any). An `onRequest` hook may alter this body.
+   */
+  body?: any;
+}
+
+export interface ShortCircuitResponse {
+  /**
+   * The HTTP status code of the response. If this is `400` or higher, the request fails with an `ApiError`.
+   */
+  status: number;
+  headers?: Record<string, string>;
+  body?: any;
+}
+
+export interface ResponseContext {
+  readonly request: Readonly<RequestContext>;
+  readonly status: number;
+  readonly headers: Record<string, string>;
+  readonly body: any;
+  /**
+   * The time between sending the request and receiving the response, in milliseconds.
+   */
+  readonly duration: number;
+}
+
+export interface RetryContext {
+  readonly request: Readonly<RequestContext>;
+  /**
+   * The number of the attempt which failed, starting at `1` for the initial attempt.
+   */
+  readonly attempt: number;
+  /**
+   * The number of milliseconds the client will wait before the next attempt.
+   */
+  readonly delay: number;
+  readonly error: ApiError;
+}
+
+export interface ErrorContext {
+  readonly request: Readonly<RequestContext>;
+  readonly error: ApiError;
+  /**
+   * The time between sending the (final attempt of the) request and the failure, in milliseconds.
+   */
+  readonly duration: number;
+}
+
+/**
+ * Functions which are called at certain moments in the life cycle of every request sent to the Mollie API. Each
+ * function may return a promise, in which case the request waits for that promise to settle. If a hook throws, the
+ * request fails with the thrown error.
+ */
+export default interface Hooks {
+  /**
+   * Called before a request is sent. The hook may alter the URL, headers, and body of the passed request. If the hook
+   * returns a response, the request is not sent to the Mollie API at all; the returned response is used instead.
+   */
+  onRequest?: (request: RequestContext) => MaybePromise<ShortCircuitResponse | void>;
+  /**
+   * Called after a successful response is received.
+   */
+  onResponse?: (context: ResponseContext) => MaybePromise<void>;
+  /**
+   * Called after an attempt has failed and before the request is attempted again.
+   */
+  onRetry?: (context: RetryContext) => MaybePromise<void>;
+  /**
+   * Called after the request has failed definitively, before the error is thrown.
+   */
+  onError?: (context: ErrorContext) => MaybePromise<void>;
+}
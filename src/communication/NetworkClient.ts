@@ -1,18 +1,27 @@
-import https from 'https';
+import { randomBytes } from 'crypto';
 import { SecureContextOptions } from 'tls';
-
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { URL } from 'url';
 
 import List from '../data/list/List';
-import ApiError from '../errors/ApiError';
+import ApiError, { AbortError, CircuitOpenError, NetworkError, RateLimitError, ServerError } from '../errors/ApiError';
 import Options from '../Options';
+import findProperty from '../plumbing/findProperty';
 import DemandingIterator from '../plumbing/iteration/DemandingIterator';
 import HelpfulIterator from '../plumbing/iteration/HelpfulIterator';
 import Throttler from '../plumbing/Throttler';
 import Maybe from '../types/Maybe';
+import { RequestOptions } from '../types/parameters';
 import buildUrl, { SearchParameters } from './buildUrl';
+import AxiosTransport from './AxiosTransport';
 import breakUrl from './breakUrl';
+import CircuitBreaker from './CircuitBreaker';
 import dromedaryCase from './dromedaryCase';
+import Hooks, { RequestContext } from './Hooks';
+import RateLimiter, { Limiter, RateLimiterOptions } from './RateLimiter';
+import RecordingTransport from './RecordingTransport';
+import resolveUrl from './resolveUrl';
+import RetryPolicy from './RetryPolicy';
+import Transport, { TransportRequest, TransportResponse } from './Transport';
 
 /**
  * Like `[].map` but with support for non-array inputs, in which case this function behaves as if an array was passed
@@ -53,78 +62,336 @@ function composeUserAgent(nodeVersion: string, libraryVersion: string, versionSt
 }
 
 /**
- * Throws an API error based on the passed cause.
+ * Returns a random idempotency key in the format of a version 4 UUID, such as
+ * `'6e2ec6a3-3d5c-4b8e-9a8a-4f3e3a0c1f7b'`.
  */
-const throwApiError = (() => {
-  /**
-   * Returns whether the passed value is an object with a property with the passed name (`true`) or not (`false`).
-   */
-  function findProperty<K extends string>(value: unknown, name: K): value is Record<K, unknown> {
-    return typeof value == 'object' && value != null && name in value;
+function generateIdempotencyKey() {
+  const bytes = randomBytes(16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = bytes.toString('hex');
+  return [hex.substring(0, 8), hex.substring(8, 12), hex.substring(12, 16), hex.substring(16, 20), hex.substring(20)].join('-');
+}
+
+/**
+ * Returns the headers which carry the passed idempotency key, or `undefined` if no idempotency key is passed.
+ */
+function composeIdempotencyHeaders(idempotencyKey: Maybe<string>) {
+  if (idempotencyKey == undefined) {
+    return undefined;
   }
-  return function throwApiError(cause: unknown) {
-    if (findProperty(cause, 'response') && cause.response != undefined) {
-      throw ApiError.createFromResponse(cause.response as AxiosResponse<any>);
+  return { 'Idempotency-Key': idempotencyKey };
+}
+
+/**
+ * The origins ‒ besides the one of the API endpoint ‒ to which downloads carry the API key or access token.
+ */
+const credentialedOrigins = ['https://api.mollie.com'];
+
+/**
+ * Returns a copy of the passed headers without the `Authorization` header.
+ */
+function omitAuthorization(headers: Record<string, string>) {
+  const result = { ...headers };
+  delete result['Authorization'];
+  return result;
+}
+
+/**
+ * Creates a `NetworkError` for the request described by the passed context, which failed without a response for the
+ * passed cause.
+ */
+function createNetworkError(cause: unknown, { method, url }: RequestContext) {
+  return new NetworkError(findProperty(cause, 'message') ? String(cause.message) : 'An unknown error has occurred', findProperty(cause, 'code') ? String(cause.code) : undefined, { method, url });
+}
+
+/**
+ * Creates an `AbortError` for the request described by the passed context.
+ */
+function createAbortError({ method, url }: Pick<RequestContext, 'method' | 'url'>) {
+  return new AbortError('The request was aborted', { method, url });
+}
+
+/**
+ * Creates a `CircuitOpenError` for the request described by the passed context, which was not sent as the circuit
+ * breaker is open for the passed number of milliseconds.
+ */
+function createCircuitOpenError({ method, url }: Pick<RequestContext, 'method' | 'url'>, remainingCoolDown: number) {
+  return new CircuitOpenError('The request was not sent, as too many requests to the Mollie API have failed recently', { method, url }, Math.ceil(remainingCoolDown / 1e3));
+}
+
+/**
+ * Returns a promise which is resolved after the passed number of milliseconds, or as soon as the passed signal (if any)
+ * aborts.
+ */
+function wait(delay: number, signal: Maybe<AbortSignal>) {
+  return new Promise<void>(resolve => {
+    const timeout = setTimeout(finish, delay);
+    signal?.addEventListener('abort', finish);
+    function finish() {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', finish);
+      resolve();
     }
-    throw new ApiError(findProperty(cause, 'message') ? String(cause.message) : 'An unknown error has occurred');
-  };
-})();
+  });
+}
 
 /**
- * This class is essentially a wrapper around axios. It simplifies communication with the Mollie API over the network.
+ * Creates an `ApiError` for the request described by the passed context, which received the passed (error) response.
+ */
+function createResponseError({ status, headers, body }: TransportResponse, { method, url }: RequestContext) {
+  // (The body of an error response to a binary request is a buffer, which likely holds the error as JSON.)
+  if (Buffer.isBuffer(body)) {
+    try {
+      body = JSON.parse(body.toString('utf8'));
+    } catch (error) {
+      body = body.toString('utf8');
+    }
+  }
+  return ApiError.createFromResponse({ status, headers, data: body, config: { method, url } });
+}
+
+/**
+ * This class simplifies communication with the Mollie API over the network. The requests themselves are sent by the
+ * transport.
  */
 export default class NetworkClient {
-  protected readonly axiosInstance: AxiosInstance;
+  protected readonly transport: Transport;
+  protected readonly apiEndpoint: string;
+  protected readonly headers: Record<string, string>;
+  protected readonly retryPolicy: RetryPolicy;
+  protected readonly generateIdempotencyKeys: boolean;
+  protected readonly hooks: Hooks[];
+  protected readonly rateLimiter?: Limiter;
+  protected readonly pendingRequests?: Map<string, Promise<TransportResponse>>;
+  protected readonly circuitBreaker?: CircuitBreaker;
   constructor({
     apiKey,
     accessToken,
     versionStrings,
+    headers,
     apiEndpoint = 'https://api.mollie.com:443/v2/',
+    retry = false,
+    generateIdempotencyKeys = false,
+    hooks,
+    rateLimiter,
+    transport,
+    deduplicateRequests = true,
+    circuitBreaker,
+    recorder,
     caCertificates,
     libraryVersion,
     nodeVersion,
     ...axiosOptions
   }: Options & { caCertificates?: SecureContextOptions['ca']; libraryVersion: string; nodeVersion: string }) {
-    axiosOptions.headers = { ...axiosOptions.headers };
     // Compose the headers set in the sent requests.
-    axiosOptions.headers['User-Agent'] = composeUserAgent(nodeVersion, libraryVersion, versionStrings);
+    this.headers = { ...headers };
+    this.headers['User-Agent'] = composeUserAgent(nodeVersion, libraryVersion, versionStrings);
     if (apiKey != undefined) {
-      axiosOptions.headers['Authorization'] = `Bearer ${apiKey}`;
+      this.headers['Authorization'] = `Bearer ${apiKey}`;
     } /* if (accessToken != undefined) */ else {
-      axiosOptions.headers['Authorization'] = `Bearer ${accessToken}`;
-      axiosOptions.headers['User-Agent'] += ' OAuth/2.0';
-    }
-    axiosOptions.headers['Accept'] = 'application/hal+json';
-    axiosOptions.headers['Accept-Encoding'] = 'gzip';
-    axiosOptions.headers['Content-Type'] = 'application/json';
-    // Create the axios instance.
-    this.axiosInstance = axios.create({
-      ...axiosOptions,
-      baseURL: apiEndpoint,
-      httpsAgent: new https.Agent({
-        ca: caCertificates,
-      }),
-    });
+      this.headers['Authorization'] = `Bearer ${accessToken}`;
+      this.headers['User-Agent'] += ' OAuth/2.0';
+    }
+    this.headers['Accept'] = 'application/hal+json';
+    this.headers['Accept-Encoding'] = 'gzip';
+    this.headers['Content-Type'] = 'application/json';
+    // Use the passed transport, or create the (default) axios one.
+    this.transport = transport ?? new AxiosTransport({ ...axiosOptions, baseURL: apiEndpoint, caCertificates });
+    // Wrap the transport in one which records or replays the interactions, if requested.
+    if (recorder != undefined) {
+      this.transport = new RecordingTransport(this.transport, recorder);
+    }
+    this.apiEndpoint = apiEndpoint;
+    // Create the retry policy. If retrying is disabled, a policy which allows a single attempt is used.
+    this.retryPolicy = new RetryPolicy(retry == false ? { maxAttempts: 1 } : retry == true ? undefined : retry);
+    this.generateIdempotencyKeys = generateIdempotencyKeys;
+    this.hooks = map(hooks, hooks => hooks);
+    // Create the rate limiter, unless an existing one was provided.
+    if (rateLimiter != undefined) {
+      this.rateLimiter = findProperty(rateLimiter, 'acquire') ? (rateLimiter as Limiter) : new RateLimiter(rateLimiter as RateLimiterOptions);
+    }
+    if (deduplicateRequests) {
+      this.pendingRequests = new Map();
+    }
+    // Create the circuit breaker, unless an existing one was provided.
+    if (circuitBreaker != undefined) {
+      this.circuitBreaker = circuitBreaker instanceof CircuitBreaker ? circuitBreaker : new CircuitBreaker(circuitBreaker);
+    }
+  }
+
+  /**
+   * Calls the passed function for every set of hooks, one after the other.
+   */
+  protected async runHooks(call: (hooks: Hooks) => unknown) {
+    for (const hooks of this.hooks) {
+      await call(hooks);
+    }
+  }
+
+  /**
+   * Sends the request described by the passed transport request through the transport once. If the request fails ‒
+   * either without a response or with an error response ‒ an `ApiError` is thrown.
+   */
+  protected async attempt(transportRequest: TransportRequest, request: RequestContext) {
+    if (transportRequest.signal?.aborted) {
+      throw createAbortError(request);
+    }
+    let response: TransportResponse;
+    try {
+      response = await this.transport.send(transportRequest);
+    } catch (cause) {
+      if (transportRequest.signal?.aborted) {
+        throw createAbortError(request);
+      }
+      throw createNetworkError(cause, request);
+    }
+    if (response.status >= 400) {
+      throw createResponseError(response, request);
+    }
+    return response;
   }
 
-  async post<R>(pathname: string, data: any, query?: SearchParameters): Promise<R | true> {
-    const response = await this.axiosInstance.post(buildUrl(pathname, query), data).catch(throwApiError);
+  /**
+   * Sends the request described by the passed arguments, retrying it as dictated by the retry policy. If the request
+   * ultimately fails, an `ApiError` is thrown. The hooks are called along the way.
+   */
+  protected async request(
+    method: string,
+    url: string,
+    body?: any,
+    headers?: Record<string, string>,
+    { signal, timeout }: RequestOptions = {},
+    binary = false,
+    authenticated = true,
+  ): Promise<TransportResponse> {
+    // Generate an idempotency key if enabled and none was provided. As this happens before the first attempt, any
+    // retries carry the same key.
+    if (this.generateIdempotencyKeys && method != 'GET' && headers?.['Idempotency-Key'] == undefined) {
+      headers = { ...headers, 'Idempotency-Key': generateIdempotencyKey() };
+    }
+    // Allow the onRequest hooks to alter the request, or to answer it with a response of their own.
+    const request: RequestContext = { method, url: resolveUrl(this.apiEndpoint, url), headers: { ...headers }, body };
+    for (const { onRequest } of this.hooks) {
+      const shortCircuit = await onRequest?.(request);
+      if (shortCircuit != undefined) {
+        const response = { status: shortCircuit.status, headers: shortCircuit.headers ?? {}, body: shortCircuit.body };
+        if (response.status >= 400) {
+          const error = createResponseError(response, request);
+          await this.runHooks(hooks => hooks.onError?.({ request, error, duration: 0 }));
+          throw error;
+        }
+        return response;
+      }
+    }
+    const transportRequest: TransportRequest = {
+      method,
+      url: request.url,
+      headers: { ...(authenticated ? this.headers : omitAuthorization(this.headers)), ...request.headers },
+      body: request.body == undefined ? undefined : JSON.stringify(request.body),
+      signal,
+      timeout,
+      binary: binary || undefined,
+    };
+    let rateLimitRetries = 0;
+    for (let attempt = 1; ; ++attempt) {
+      // Fail fast if the circuit breaker is open.
+      if (this.circuitBreaker?.tryPass() == false) {
+        const error = createCircuitOpenError(request, this.circuitBreaker.remainingCoolDown);
+        await this.runHooks(hooks => hooks.onError?.({ request, error, duration: 0 }));
+        throw error;
+      }
+      let release: Maybe<() => void>;
+      let start = Date.now();
+      let response: TransportResponse;
+      try {
+        if (this.rateLimiter != undefined) {
+          release = await this.rateLimiter.acquire(signal).catch(cause => {
+            throw signal?.aborted ? createAbortError(request) : cause;
+          });
+          start = Date.now();
+        }
+        response = await this.attempt(transportRequest, request);
+      } catch (cause) {
+        const error = cause as ApiError;
+        // Inform the circuit breaker of the outcome. Only failures which indicate trouble on the side of the Mollie API
+        // (or the network in between) count as failures.
+        if (error instanceof AbortError) {
+          this.circuitBreaker?.recordAbort();
+        } else if (error instanceof NetworkError || error instanceof ServerError) {
+          this.circuitBreaker?.recordFailure();
+        } /* if (error is any other ApiError) */ else {
+          this.circuitBreaker?.recordSuccess();
+        }
+        release?.();
+        // Inform the rate limiter of the 429, so it can pause all requests. This request is then queued again, and sent
+        // once the pause is over. (As the Mollie API did not process the request, this does not count as an attempt.
+        // The number of times the request is queued again is capped separately.)
+        if (error instanceof RateLimitError && this.rateLimiter != undefined) {
+          this.rateLimiter.backOff(error.retryAfter == undefined ? undefined : error.retryAfter * 1e3);
+          if (this.retryPolicy.shouldRetryRateLimited(rateLimitRetries)) {
+            ++rateLimitRetries;
+            --attempt;
+            continue;
+          }
+          await this.runHooks(hooks => hooks.onError?.({ request, error, duration: Date.now() - start }));
+          throw error;
+        }
+        if (this.retryPolicy.shouldRetry(transportRequest, attempt, error) == false) {
+          await this.runHooks(hooks => hooks.onError?.({ request, error, duration: Date.now() - start }));
+          throw error;
+        }
+        const delay = this.retryPolicy.getDelay(attempt);
+        await this.runHooks(hooks => hooks.onRetry?.({ request, attempt, delay, error }));
+        await wait(delay, signal);
+        continue;
+      }
+      this.circuitBreaker?.recordSuccess();
+      release?.();
+      const { status, headers, body } = response;
+      await this.runHooks(hooks => hooks.onResponse?.({ request, status, headers, body, duration: Date.now() - start }));
+      return response;
+    }
+  }
+
+  /**
+   * Sends a `GET` request for the passed URL. If an identical request is already in flight, no new request is sent;
+   * the response to the request in flight is shared instead. Requests with a signal or a time-out are never shared, as
+   * aborting one of them should not affect the others.
+   */
+  protected requestShared(url: string, options: RequestOptions = {}) {
+    if (this.pendingRequests == undefined || options.signal != undefined || options.timeout != undefined) {
+      return this.request('GET', url, undefined, undefined, options);
+    }
+    const { pendingRequests } = this;
+    let pending = pendingRequests.get(url);
+    if (pending == undefined) {
+      pending = this.request('GET', url);
+      pendingRequests.set(url, pending);
+      const remove = () => void pendingRequests.delete(url);
+      pending.then(remove, remove);
+    }
+    return pending;
+  }
+
+  async post<R>(pathname: string, data: any, query?: SearchParameters, idempotencyKey?: string, options?: RequestOptions): Promise<R | true> {
+    const response = await this.request('POST', buildUrl(pathname, query), data, composeIdempotencyHeaders(idempotencyKey), options);
     if (response.status == 204) {
       return true;
     }
-    return response.data;
+    return response.body;
   }
 
-  async get<R>(pathname: string, query?: SearchParameters): Promise<R> {
-    const response = await this.axiosInstance.get(buildUrl(pathname, query)).catch(throwApiError);
-    return response.data;
+  async get<R>(pathname: string, query?: SearchParameters, options?: RequestOptions): Promise<R> {
+    const response = await this.requestShared(buildUrl(pathname, query), options);
+    return response.body;
   }
 
-  async list<R>(pathname: string, binderName: string, query?: SearchParameters): Promise<R[] & Pick<List<R>, 'links' | 'count'>> {
-    const response = await this.axiosInstance.get(buildUrl(pathname, query)).catch(throwApiError);
+  async list<R>(pathname: string, binderName: string, query?: SearchParameters, options?: RequestOptions): Promise<R[] & Pick<List<R>, 'links' | 'count'>> {
+    const response = await this.requestShared(buildUrl(pathname, query), options);
     try {
       /* eslint-disable-next-line no-var */
-      var { _embedded: embedded, _links: links, count } = response.data;
+      var { _embedded: embedded, _links: links, count } = response.body;
     } catch (error) {
       throw new ApiError('Received unexpected response from the server');
     }
@@ -134,18 +401,18 @@ export default class NetworkClient {
     });
   }
 
-  async listPlain<R>(pathname: string, binderName: string, query?: SearchParameters): Promise<R[]> {
-    const response = await this.axiosInstance.get(buildUrl(pathname, query)).catch(throwApiError);
+  async listPlain<R>(pathname: string, binderName: string, query?: SearchParameters, options?: RequestOptions): Promise<R[]> {
+    const response = await this.requestShared(buildUrl(pathname, query), options);
     try {
       /* eslint-disable-next-line no-var */
-      var { _embedded: embedded } = response.data;
+      var { _embedded: embedded } = response.body;
     } catch (error) {
       throw new ApiError('Received unexpected response from the server');
     }
     return embedded[binderName] as R[];
   }
 
-  iterate<R>(pathname: string, binderName: string, query: Maybe<SearchParameters>, valuesPerMinute = 5000): HelpfulIterator<R> {
+  iterate<R>(pathname: string, binderName: string, query: Maybe<SearchParameters>, valuesPerMinute = 5000, options: RequestOptions = {}): HelpfulIterator<R> {
     return new DemandingIterator(demand => {
       // Pick the page sizes (limits) based on the guessed demand.
       let popLimit: () => number;
@@ -175,22 +442,29 @@ export default class NetworkClient {
       // and valuesPerMinute is set to 100, all 250 values received values will be yielded before the (two-minute)
       // break.
       const throttler = new Throttler(valuesPerMinute);
-      const { axiosInstance } = this;
+      const request = this.request.bind(this);
+      const { apiEndpoint } = this;
+      const { signal } = options;
       return new HelpfulIterator<R>(
         (async function* iterate<R>() {
           let url = buildUrl(pathname, { ...query, limit: popLimit() });
           while (true) {
             // Request and parse the page from the Mollie API.
-            const response = await axiosInstance.get(url).catch(throwApiError);
+            const response = await request('GET', url, undefined, undefined, options);
             try {
               /* eslint-disable-next-line no-var */
-              var { _embedded: embedded, _links: links } = response.data;
+              var { _embedded: embedded, _links: links } = response.body;
             } catch (error) {
               throw new ApiError('Received unexpected response from the server');
             }
-            // Yield the values on the page.
+            // Yield the values on the page. If the signal aborts in the meantime, stop yielding values.
             const values = embedded[binderName] as R[];
-            yield* values;
+            for (const value of values) {
+              if (signal?.aborted) {
+                throw createAbortError({ method: 'GET', url: resolveUrl(apiEndpoint, url) });
+              }
+              yield value;
+            }
             // Inform the throttler of the yielded values.
             throttler.tally(values.length);
             // If the end of the sequence was reached ‒ in other words: this was the last page ‒ break out of the loop.
@@ -208,16 +482,31 @@ export default class NetworkClient {
     });
   }
 
-  async patch<R>(pathname: string, data: any): Promise<R> {
-    const response = await this.axiosInstance.patch(pathname, data).catch(throwApiError);
-    return response.data;
+  async patch<R>(pathname: string, data: any, idempotencyKey?: string, options?: RequestOptions): Promise<R> {
+    const response = await this.request('PATCH', pathname, data, composeIdempotencyHeaders(idempotencyKey), options);
+    return response.body;
   }
 
-  async delete<R>(pathname: string, context?: any): Promise<R | true> {
-    const response = await this.axiosInstance.delete(pathname, { data: context }).catch(throwApiError);
+  async delete<R>(pathname: string, context?: any, idempotencyKey?: string, options?: RequestOptions): Promise<R | true> {
+    const response = await this.request('DELETE', pathname, context, composeIdempotencyHeaders(idempotencyKey), options);
     if (response.status == 204) {
       return true;
     }
-    return response.data as R;
+    return response.body as R;
+  }
+
+  /**
+   * Sends a `GET` request for the passed URL ‒ which may lie outside the API endpoint, such as the link to the PDF of
+   * an invoice ‒ and returns the body of the response as a buffer. The request only carries the API key or access token
+   * if the URL lies on the origin of the API endpoint or on that of the Mollie API; a URL on any other host (such as
+   * the short-lived link to the PDF of an invoice) is requested without credentials.
+   */
+  async download(url: string, accept: string, options?: RequestOptions): Promise<Buffer> {
+    const { origin } = new URL(resolveUrl(this.apiEndpoint, url));
+    const authenticated = origin == new URL(this.apiEndpoint).origin || credentialedOrigins.includes(origin);
+    const response = await this.request('GET', url, undefined, { Accept: accept }, options, true, authenticated);
+    // (Transports resolve with a buffer for binary requests, but the body of a response passed by an onRequest hook
+    // might not be one.)
+    return Buffer.isBuffer(response.body) ? response.body : Buffer.from(response.body);
   }
 }
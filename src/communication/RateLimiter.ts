@@ -0,0 +1,140 @@
+export interface RateLimiterOptions {
+  /**
+   * The maximum number of requests sent per second. Default: no maximum.
+   */
+  requestsPerSecond?: number;
+  /**
+   * The maximum number of requests in flight at any given moment. Default: no maximum.
+   */
+  maxConcurrency?: number;
+  /**
+   * The delay after a `429 Too Many Requests` response without a `Retry-After` header (or with a `Retry-After` of
+   * zero), in milliseconds. If such responses keep coming in, the delay doubles every time. Default: `1000`.
+   */
+  initialBackOff?: number;
+  /**
+   * The maximum delay after a `429 Too Many Requests` response without a `Retry-After` header, in milliseconds.
+   * Default: `30000`.
+   */
+  maxBackOff?: number;
+}
+
+/**
+ * Decides when requests may be sent to the Mollie API. Implement this interface to plug in a custom limiter, for
+ * instance one which coordinates multiple processes.
+ */
+export interface Limiter {
+  /**
+   * Returns a promise which is resolved as soon as a request may be sent. The promise resolves to a function which
+   * must be called once the request has completed (successfully or not). If the passed signal aborts before then, the
+   * request should be taken out of the queue and the promise should be rejected.
+   */
+  acquire(signal?: AbortSignal): Promise<() => void>;
+  /**
+   * Informs the limiter that the Mollie API responded with `429 Too Many Requests`. The passed delay is the number of
+   * milliseconds dictated by the `Retry-After` header of the response, or `undefined` if the response had no such
+   * header.
+   */
+  backOff(delay?: number): void;
+}
+
+/**
+ * Queues requests so no more than the configured number are sent per second or are in flight at the same time, and
+ * pauses all requests (including the one which received it) after a `429 Too Many Requests` response. A single
+ * instance can be shared by multiple clients, which then share their limits.
+ */
+export default class RateLimiter implements Limiter {
+  protected readonly interval: number;
+  protected readonly maxConcurrency: number;
+  protected readonly initialBackOff: number;
+  protected readonly maxBackOff: number;
+  protected readonly queue: Array<(release: () => void) => void>;
+  protected activeCount: number;
+  protected nextSlot: number;
+  protected pausedUntil: number;
+  protected lastBackOff: number;
+  protected timeout?: ReturnType<typeof setTimeout>;
+  constructor({ requestsPerSecond = Number.POSITIVE_INFINITY, maxConcurrency = Number.POSITIVE_INFINITY, initialBackOff = 1e3, maxBackOff = 30e3 }: RateLimiterOptions = {}) {
+    this.interval = 1e3 / requestsPerSecond;
+    this.maxConcurrency = maxConcurrency;
+    this.initialBackOff = initialBackOff;
+    this.maxBackOff = maxBackOff;
+    this.queue = [];
+    this.activeCount = 0;
+    this.nextSlot = 0;
+    this.pausedUntil = 0;
+    this.lastBackOff = 0;
+  }
+
+  acquire(signal?: AbortSignal) {
+    return new Promise<() => void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('The request was aborted'));
+        return;
+      }
+      const grant = (release: () => void) => {
+        signal?.removeEventListener('abort', abort);
+        resolve(release);
+      };
+      // If the signal aborts while the request is still queued, take it out of the queue.
+      const abort = () => {
+        signal?.removeEventListener('abort', abort);
+        const index = this.queue.indexOf(grant);
+        if (index != -1) {
+          this.queue.splice(index, 1);
+        }
+        reject(new Error('The request was aborted'));
+      };
+      signal?.addEventListener('abort', abort);
+      this.queue.push(grant);
+      this.dequeue();
+    });
+  }
+
+  backOff(delay?: number) {
+    const now = Date.now();
+    // A Retry-After of zero is treated as if there were no such header, so the delay grows if 429s keep coming in.
+    if (delay == undefined || delay <= 0) {
+      // If the previous back-off ended only recently, double its delay. Otherwise, start over.
+      if (this.lastBackOff != 0 && now < this.pausedUntil + this.lastBackOff) {
+        delay = Math.min(this.maxBackOff, this.lastBackOff * 2);
+      } /* if (this.lastBackOff == 0 || now >= this.pausedUntil + this.lastBackOff) */ else {
+        delay = this.initialBackOff;
+      }
+    }
+    this.lastBackOff = delay;
+    this.pausedUntil = Math.max(this.pausedUntil, now + delay);
+  }
+
+  /**
+   * Lets as many queued requests through as the limits allow. If a request is held back only by time (rather than by
+   * the number of requests in flight), a timeout is set to try again later.
+   */
+  protected dequeue() {
+    while (this.queue.length != 0 && this.activeCount < this.maxConcurrency) {
+      const now = Date.now();
+      const next = Math.max(this.nextSlot, this.pausedUntil);
+      if (next > now) {
+        if (this.timeout == undefined) {
+          this.timeout = setTimeout(() => {
+            this.timeout = undefined;
+            this.dequeue();
+          }, next - now);
+        }
+        return;
+      }
+      const grant = this.queue.shift() as (release: () => void) => void;
+      this.nextSlot = now + this.interval;
+      ++this.activeCount;
+      let released = false;
+      grant(() => {
+        if (released) {
+          return;
+        }
+        released = true;
+        --this.activeCount;
+        this.dequeue();
+      });
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { readFileSync, writeFileSync } from 'fs';
+// If support for Node.js < 10.0.0 is ever dropped, this import can be removed.
+import { URL } from 'url';
+
+import getEntries from '../plumbing/getEntries';
+import Transport, { TransportRequest, TransportResponse } from './Transport';
+
+export type RecorderMode = 'record' | 'replay' | 'passthrough';
+
+export type RecorderMatch = 'method' | 'path' | 'query' | 'body';
+
+export interface RecorderOptions {
+  /**
+   * Whether requests are sent and recorded into the cassette (`'record'`), answered from the cassette without being
+   * sent (`'replay'`), or sent without being recorded (`'passthrough'`).
+   */
+  mode: RecorderMode;
+  /**
+   * The path of the cassette: the JSON file the interactions are recorded into and replayed from. In `'record'` mode,
+   * an existing cassette is overwritten.
+   */
+  cassette: string;
+  /**
+   * The parts of a request which must be equal to those of a recorded request for the recorded response to be
+   * replayed. Default: `['method', 'path', 'query', 'body']`.
+   */
+  match?: RecorderMatch[];
+}
+
+export interface Interaction {
+  request: Pick<TransportRequest, 'method' | 'url' | 'headers' | 'body'>;
+  response: TransportResponse;
+}
+
+export interface Cassette {
+  interactions: Interaction[];
+}
+
+/**
+ * Serializes the passed value like `JSON.stringify`, but with the keys of objects sorted. This makes for equal results
+ * for objects which only differ in the order of their keys.
+ */
+function stringifyCanonically(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stringifyCanonically).join(',')}]`;
+  }
+  if (typeof value == 'object' && value != null) {
+    return `{${getEntries(value)
+      .sort(([left], [right]) => (left < right ? -1 : 1))
+      .map(([key, value]) => `${JSON.stringify(key)}:${stringifyCanonically(value)}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Returns the parts of the passed request which are used to match it to recorded requests.
+ */
+function composeMatchParts({ method, url, body }: Pick<TransportRequest, 'method' | 'url' | 'body'>): Record<RecorderMatch, string> {
+  const { pathname, searchParams } = new URL(url);
+  searchParams.sort();
+  return {
+    method: method.toUpperCase(),
+    path: pathname,
+    query: searchParams.toString(),
+    body: body == undefined ? '' : stringifyCanonically(JSON.parse(body)),
+  };
+}
+
+/**
+ * Returns a copy of the passed headers, with the value of the `Authorization` header (which holds the API key or access
+ * token) redacted.
+ */
+function redactHeaders(headers: Record<string, string>) {
+  const result: Record<string, string> = {};
+  getEntries(headers).forEach(([name, value]) => (result[name] = name.toLowerCase() == 'authorization' ? 'REDACTED' : value));
+  return result;
+}
+
+/**
+ * A transport which wraps around another transport, and records the interactions with the Mollie API into a cassette
+ * or replays them from one. This allows tests to run against recorded responses, without network access and without
+ * an API key.
+ */
+export default class RecordingTransport implements Transport {
+  protected readonly mode: RecorderMode;
+  protected readonly cassette: string;
+  protected readonly match: RecorderMatch[];
+  protected interactions?: Interaction[];
+  // The indices of the interactions which have been replayed, so a request which was recorded multiple times (such as
+  // a payment which is retrieved before and after it is paid) is answered with each recorded response in turn.
+  protected readonly replayed: Set<number>;
+  constructor(protected readonly transport: Transport, { mode, cassette, match = ['method', 'path', 'query', 'body'] }: RecorderOptions) {
+    this.mode = mode;
+    this.cassette = cassette;
+    this.match = match;
+    this.replayed = new Set();
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    switch (this.mode) {
+      case 'record':
+        return this.record(request);
+      case 'replay':
+        return this.replay(request);
+      default:
+        return this.transport.send(request);
+    }
+  }
+
+  protected async record(request: TransportRequest) {
+    const response = await this.transport.send(request);
+    if (this.interactions == undefined) {
+      this.interactions = [];
+    }
+    const { method, url, headers, body } = request;
+    this.interactions.push({ request: { method, url, headers: redactHeaders(headers), body }, response });
+    writeFileSync(this.cassette, JSON.stringify({ interactions: this.interactions } as Cassette, undefined, 2));
+    return response;
+  }
+
+  protected async replay(request: TransportRequest) {
+    if (this.interactions == undefined) {
+      this.interactions = (JSON.parse(readFileSync(this.cassette, 'utf8')) as Cassette).interactions;
+    }
+    const expected = composeMatchParts(request);
+    const index = this.interactions.findIndex((interaction, index) => {
+      if (this.replayed.has(index)) {
+        return false;
+      }
+      const actual = composeMatchParts(interaction.request);
+      return this.match.every(part => actual[part] == expected[part]);
+    });
+    if (index == -1) {
+      throw Object.assign(new Error(`The cassette ${this.cassette} holds no (unreplayed) interaction which matches ${request.method} ${request.url}`), {
+        code: 'ERR_NO_RECORDED_INTERACTION',
+      });
+    }
+    this.replayed.add(index);
+    return this.interactions[index].response;
+  }
+}
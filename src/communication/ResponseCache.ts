@@ -0,0 +1,170 @@
+// If support for Node.js < 10.0.0 is ever dropped, this import can be removed.
+import { URLSearchParams } from 'url';
+
+import Maybe from '../types/Maybe';
+import buildUrl, { SearchParameters } from './buildUrl';
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Stores cached responses. Implement this interface to plug in a custom store, for instance one which is shared by
+ * multiple processes.
+ */
+export interface CacheStore {
+  /**
+   * Returns the value stored under the passed key, or `undefined` if no (unexpired) value is stored under that key.
+   */
+  get(key: string): MaybePromise<Maybe<string>>;
+  /**
+   * Stores the passed value under the passed key, for the passed number of milliseconds.
+   */
+  set(key: string, value: string, ttl: number): MaybePromise<void>;
+  /**
+   * Removes the values stored under keys which start with the passed prefix, or all values if no prefix is passed.
+   */
+  clear(prefix?: string): MaybePromise<void>;
+}
+
+export interface MemoryCacheStoreOptions {
+  /**
+   * The maximum number of values stored. Once this number is reached, the least recently used value is removed to make
+   * room for a new one. Default: `500`.
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Stores cached responses in memory. This is the default store.
+ */
+export class MemoryCacheStore implements CacheStore {
+  protected readonly maxEntries: number;
+  // (A map iterates its entries in insertion order. By re-inserting an entry whenever it is used, the first entry is
+  // always the least recently used one.)
+  protected readonly entries: Map<string, { value: string; expiresAt: number }>;
+  constructor({ maxEntries = 500 }: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = maxEntries;
+    this.entries = new Map();
+  }
+
+  get(key: string) {
+    const entry = this.entries.get(key);
+    if (entry == undefined) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: string, ttl: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  clear(prefix?: string) {
+    if (prefix == undefined) {
+      this.entries.clear();
+      return;
+    }
+    Array.from(this.entries.keys()).forEach(key => {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    });
+  }
+}
+
+export interface ResponseCacheOptions {
+  /**
+   * The number of milliseconds responses are cached for, per pathname (relative to the API endpoint). A pathname also
+   * applies to the pathnames below it: `{ methods: 3600000 }` caches the responses of `methods.list` and `methods.get`
+   * for an hour, while `{ 'profiles/me': 86400000 }` only caches the responses of `profiles.getCurrent` (for a day).
+   * Responses for pathnames which are not listed are not cached.
+   */
+  ttl: Record<string, number>;
+  /**
+   * The store in which the responses are cached. Default: a `MemoryCacheStore` of 500 entries.
+   */
+  store?: CacheStore;
+}
+
+/**
+ * Caches the responses to `GET` requests for slowly changing resources, such as payment methods and profiles. The
+ * responses are cached as plain data, which is transformed into models whenever it is read from the cache.
+ *
+ * A single instance can be shared by multiple clients, as long as they use the same credentials. Keep a reference to
+ * the instance to invalidate cached responses.
+ */
+export default class ResponseCache {
+  protected readonly ttl: Record<string, number>;
+  protected readonly store: CacheStore;
+  constructor({ ttl, store = new MemoryCacheStore() }: ResponseCacheOptions) {
+    this.ttl = ttl;
+    this.store = store;
+  }
+
+  /**
+   * Returns the number of milliseconds the responses for the passed pathname are cached for, or `undefined` if they are
+   * not cached. The most specific configured pathname wins: for `'profiles/me'`, `'profiles/me'` is tried before
+   * `'profiles'`.
+   */
+  protected getTtl(pathname: string): Maybe<number> {
+    const segments = pathname.split('/');
+    for (let length = segments.length; length != 0; --length) {
+      const key = segments.slice(0, length).join('/');
+      if (Object.prototype.hasOwnProperty.call(this.ttl, key)) {
+        return this.ttl[key];
+      }
+    }
+  }
+
+  /**
+   * Returns the key under which the response for the passed pathname and query is cached. The search parameters are
+   * sorted, so `{ amount, locale }` and `{ locale, amount }` result in the same key.
+   */
+  protected composeKey(pathname: string, query: Maybe<SearchParameters>) {
+    const url = buildUrl(pathname, query);
+    const searchParameters = new URLSearchParams(url.substring(pathname.length + 1));
+    searchParameters.sort();
+    return `${pathname}?${searchParameters}`;
+  }
+
+  /**
+   * Returns the cached response for the passed pathname and query. If no response is cached, the passed function is
+   * called to load it, and the result is cached (if the pathname is configured to be cached at all).
+   */
+  async wrap<T>(pathname: string, query: Maybe<SearchParameters>, load: () => Promise<T>): Promise<T> {
+    const ttl = this.getTtl(pathname);
+    if (ttl == undefined) {
+      return load();
+    }
+    const key = this.composeKey(pathname, query);
+    const cached = await this.store.get(key);
+    if (cached != undefined) {
+      return JSON.parse(cached);
+    }
+    const result = await load();
+    await this.store.set(key, JSON.stringify(result), ttl);
+    return result;
+  }
+
+  /**
+   * Removes the cached responses for the passed pathname and the pathnames below it, or all cached responses if no
+   * pathname is passed. For example: `invalidate('methods')` removes the cached responses of `methods.list` (for every
+   * query) as well as those of `methods.get`.
+   */
+  async invalidate(pathname?: string) {
+    if (pathname == undefined) {
+      await this.store.clear();
+      return;
+    }
+    await this.store.clear(`${pathname}?`);
+    await this.store.clear(`${pathname}/`);
+  }
+}
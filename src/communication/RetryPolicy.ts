@@ -0,0 +1,116 @@
+import ApiError, { NetworkError } from '../errors/ApiError';
+import { TransportRequest } from './Transport';
+
+export interface RetryOptions {
+  /**
+   * The maximum number of attempts made for a single request, including the initial one. Default: `3`.
+   */
+  maxAttempts?: number;
+  /**
+   * The (maximum) delay before the first retry, in milliseconds. Default: `500`.
+   */
+  initialDelay?: number;
+  /**
+   * The maximum delay before any retry, in milliseconds. Default: `10000`.
+   */
+  maxDelay?: number;
+  /**
+   * The factor by which the (maximum) delay grows with every attempt. Default: `2`.
+   */
+  factor?: number;
+  /**
+   * Whether the delay is randomised between zero and the computed backoff ("full jitter"), which prevents clients
+   * which failed simultaneously from retrying simultaneously. Default: `true`.
+   */
+  jitter?: boolean;
+  /**
+   * The HTTP status codes which cause a request to be retried. Default: `[408, 500, 502, 503, 504]`.
+   */
+  retryableStatusCodes?: number[];
+  /**
+   * The error codes of failures without a response (network errors and time-outs) which cause a request to be retried.
+   * Default: `['ECONNABORTED', 'ECONNREFUSED', 'ECONNRESET', 'EAI_AGAIN', 'EPIPE', 'ETIMEDOUT']`.
+   */
+  retryableErrorCodes?: string[];
+  /**
+   * The maximum number of times a request which received a `429 Too Many Requests` response is queued again, if a rate
+   * limiter is configured. Once exceeded, the request fails with the `RateLimitError`. Default: `3`.
+   */
+  maxRateLimitRetries?: number;
+}
+
+/**
+ * Methods which can safely be sent more than once. Other methods are only retried if the request carries an
+ * idempotency key.
+ */
+const idempotentMethods = new Set(['get', 'delete']);
+
+/**
+ * Decides whether a failed request is attempted again, and how long to wait before doing so. Delays grow
+ * exponentially with the number of attempts.
+ */
+export default class RetryPolicy {
+  protected readonly maxAttempts: number;
+  protected readonly initialDelay: number;
+  protected readonly maxDelay: number;
+  protected readonly factor: number;
+  protected readonly jitter: boolean;
+  protected readonly retryableStatusCodes: Set<number>;
+  protected readonly retryableErrorCodes: Set<string>;
+  protected readonly maxRateLimitRetries: number;
+  constructor({
+    maxAttempts = 3,
+    initialDelay = 500,
+    maxDelay = 10e3,
+    factor = 2,
+    jitter = true,
+    retryableStatusCodes = [408, 500, 502, 503, 504],
+    retryableErrorCodes = ['ECONNABORTED', 'ECONNREFUSED', 'ECONNRESET', 'EAI_AGAIN', 'EPIPE', 'ETIMEDOUT'],
+    maxRateLimitRetries = 3,
+  }: RetryOptions = {}) {
+    this.maxAttempts = maxAttempts;
+    this.initialDelay = initialDelay;
+    this.maxDelay = maxDelay;
+    this.factor = factor;
+    this.jitter = jitter;
+    this.retryableStatusCodes = new Set(retryableStatusCodes);
+    this.retryableErrorCodes = new Set(retryableErrorCodes);
+    this.maxRateLimitRetries = maxRateLimitRetries;
+  }
+
+  /**
+   * Returns whether the passed request ‒ which has been attempted the passed number of times ‒ should be attempted
+   * again after failing with the passed error (`true`) or not (`false`).
+   */
+  shouldRetry({ method, headers }: Pick<TransportRequest, 'method' | 'headers'>, attempt: number, error: ApiError): boolean {
+    if (attempt >= this.maxAttempts) {
+      return false;
+    }
+    if (idempotentMethods.has(method.toLowerCase()) == false && headers['Idempotency-Key'] == undefined) {
+      return false;
+    }
+    if (error instanceof NetworkError) {
+      return error.code != undefined && this.retryableErrorCodes.has(error.code);
+    }
+    return error.statusCode != undefined && this.retryableStatusCodes.has(error.statusCode);
+  }
+
+  /**
+   * Returns whether a request which received a `429 Too Many Requests` response ‒ and has already been queued again
+   * after such a response the passed number of times ‒ should be queued again (`true`) or not (`false`).
+   */
+  shouldRetryRateLimited(retries: number): boolean {
+    return retries < this.maxRateLimitRetries;
+  }
+
+  /**
+   * Returns the number of milliseconds to wait before the retry which follows the passed (failed) attempt.
+   */
+  getDelay(attempt: number): number {
+    const backoff = Math.min(this.maxDelay, this.initialDelay * Math.pow(this.factor, attempt - 1));
+    if (this.jitter) {
+      return Math.random() * backoff;
+    }
+    return backoff;
+  }
+}
@@ -1,7 +1,9 @@
 import Model from '../data/Model';
 import fling from '../plumbing/fling';
 import Maybe from '../types/Maybe';
+import { SearchParameters } from './buildUrl';
 import NetworkClient from './NetworkClient';
+import ResponseCache from './ResponseCache';
 
 export class Transformers {
   readonly add: <R extends string, T extends Model<R, any>>(resource: R, transformer: (networkClient: TransformingNetworkClient, input: T) => any) => Transformers;
@@ -18,11 +20,12 @@ export class Transformers {
 
 /**
  * This class wraps around a `NetworkClient`, and transforms plain objects returned by the Mollie API into more
- * convenient JavaScript objects.
+ * convenient JavaScript objects. If a response cache is passed, the plain objects returned for `GET` requests are cached
+ * (and transformed again whenever they are read from the cache).
  */
 export default class TransformingNetworkClient {
-  protected readonly transform: (input: Model<any, Maybe<string>>) => any;
-  constructor(protected readonly networkClient: NetworkClient, transformers: Transformers) {
+  readonly transform: (input: Model<any, Maybe<string>>) => any;
+  constructor(protected readonly networkClient: NetworkClient, transformers: Transformers, protected readonly cache?: ResponseCache) {
     /**
      * Transforms the passed plain object returned by the Mollie API into a more convenient JavaScript object.
      */
@@ -31,6 +34,17 @@ export default class TransformingNetworkClient {
     }.bind(this);
   }
 
+  /**
+   * Returns the result of the passed function, or ‒ if a response cache is set ‒ the cached result for the passed
+   * pathname and query.
+   */
+  protected cached<T>(pathname: string, query: Maybe<SearchParameters>, load: () => Promise<T>) {
+    if (this.cache == undefined) {
+      return load();
+    }
+    return this.cache.wrap(pathname, query, load);
+  }
+
   async post<R extends Model<any, any>, U>(...passingArguments: Parameters<NetworkClient['post']>) {
     const response = await this.networkClient.post<R>(...passingArguments);
     if (response == true) {
@@ -41,17 +55,22 @@ export default class TransformingNetworkClient {
   }
 
   get<R extends Model<any, any>, U>(...passingArguments: Parameters<NetworkClient['get']>) {
-    return this.networkClient.get<R>(...passingArguments).then(this.transform) as Promise<U>;
+    const [pathname, query] = passingArguments;
+    return this.cached(pathname, query, () => this.networkClient.get<R>(...passingArguments)).then(this.transform) as Promise<U>;
   }
 
   async list<R extends Model<any, any>, U>(...passingArguments: Parameters<NetworkClient['list']>) {
-    const response = await this.networkClient.list<R>(...passingArguments);
-    const { count, links } = response;
-    return Object.assign(response.map(this.transform) as U[], { count, links });
+    const [pathname, , query] = passingArguments;
+    // (The count and links are copied into a plain object, as they would otherwise be lost when the array is cached.)
+    const { values, count, links } = await this.cached(pathname, query, () =>
+      this.networkClient.list<R>(...passingArguments).then(response => ({ values: Array.from(response), count: response.count, links: response.links })),
+    );
+    return Object.assign(values.map(this.transform) as U[], { count, links });
   }
 
   listPlain<R extends Model<any, any>, U>(...passingArguments: Parameters<NetworkClient['listPlain']>) {
-    return this.networkClient.listPlain<R>(...passingArguments).then(response => response.map(this.transform) as U[]);
+    const [pathname, , query] = passingArguments;
+    return this.cached(pathname, query, () => this.networkClient.listPlain<R>(...passingArguments)).then(response => response.map(this.transform) as U[]);
   }
 
   iterate<R extends Model<any, any>, U>(...passingArguments: Parameters<NetworkClient['iterate']>) {
@@ -70,4 +89,8 @@ export default class TransformingNetworkClient {
     }
     return this.transform(response) as U;
   }
+
+  download(...passingArguments: Parameters<NetworkClient['download']>) {
+    return this.networkClient.download(...passingArguments);
+  }
 }
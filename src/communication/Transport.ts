@@ -0,0 +1,57 @@
+export interface TransportRequest {
+  /**
+   * The HTTP method of the request, such as `'GET'` or `'POST'`.
+   */
+  method: string;
+  /**
+   * The absolute URL of the request.
+   */
+  url: string;
+  /**
+   * All headers of the request, including `Authorization`.
+   */
+  headers: Record<string, string>;
+  /**
+   * The body of the request, encoded as JSON (if any).
+   */
+  body?: string;
+  /**
+   * A signal which ‒ when aborted ‒ aborts the request (if any).
+   */
+  signal?: AbortSignal;
+  /**
+   * The number of milliseconds after which the request is aborted (if any). This overrides any time-out configured in
+   * the transport itself.
+   */
+  timeout?: number;
+  /**
+   * Whether the body of the response should be passed as a `Buffer` as is, rather than decoded from JSON. Used to
+   * download files such as invoices.
+   */
+  binary?: boolean;
+}
+
+export interface TransportResponse {
+  status: number;
+  /**
+   * The headers of the response, with lowercase names.
+   */
+  headers: Record<string, string>;
+  /**
+   * The body of the response, decoded from JSON (if it was JSON), or a `Buffer` if the request was binary.
+   */
+  body: any;
+}
+
+/**
+ * Sends requests over the network on behalf of the `NetworkClient`. Implement this interface to plug in a custom HTTP
+ * client, or a fake one in tests.
+ *
+ * The returned promise should be resolved for every response the server sends, including those with error status
+ * codes such as `404`. It should be rejected only if no response was received at all (for instance because the
+ * connection was reset, or the request timed out). In that case, the error should preferably have a `code` property
+ * such as `'ECONNRESET'`, which is used to decide whether the request is retried.
+ */
+export default interface Transport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
@@ -0,0 +1,16 @@
+import Maybe from '../types/Maybe';
+
+/**
+ * Returns the absolute URL for the passed URL, which is either absolute already or relative to the passed base URL.
+ * This mirrors the way axios combines these URLs. For example: `resolveUrl('https://api.mollie.com/v2/', 'payments')`
+ * returns `'https://api.mollie.com/v2/payments'`.
+ */
+export default function resolveUrl(baseUrl: Maybe<string>, url: Maybe<string>) {
+  if (url == undefined) {
+    return baseUrl ?? '';
+  }
+  if (baseUrl == undefined || /^([a-z][a-z\d+\-.]*:)?\/\//i.test(url)) {
+    return url;
+  }
+  return `${baseUrl.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
@@ -2,34 +2,24 @@
 import { version as libraryVersion } from '../package.json';
 import caCertificates from './cacert.pem';
 import NetworkClient from './communication/NetworkClient';
-import TransformingNetworkClient, { Transformers } from './communication/TransformingNetworkClient';
+import ResponseCache from './communication/ResponseCache';
+import TransformingNetworkClient from './communication/TransformingNetworkClient';
+import createTransformers from './data/createTransformers';
 import Options from './Options';
 import buildFromEntries from './plumbing/buildFromEntries';
 
-// Transformers
-import { transform as transformPayment } from './data/payments/Payment';
-import { transform as transformMethod } from './data/methods/Method';
-import { transform as transformRefund } from './data/refunds/Refund';
-import { transform as transformChargeback } from './data/chargebacks/Chargeback';
-import { transform as transformCapture } from './data/payments/captures/Capture';
-import { transform as transformCustomer } from './data/customers/Customer';
-import { transform as transformMandate } from './data/customers/mandates/Mandate';
-import { transform as transformSubscription } from './data/subscriptions/Subscription';
-import { transform as transformOrder } from './data/orders/Order';
-import { transform as transformShipment } from './data/orders/shipments/Shipment';
-import { transform as transformPermission } from './data/permissions/Permission';
-import { transform as transformOrganization } from './data/organizations/Organizations';
-import { transform as transformProfile } from './data/profiles/Profile';
-import { transform as transformOnboarding } from './data/onboarding/Onboarding';
-import { transform as transformPaymentLink } from './data/paymentLinks/PaymentLink';
-
 // Binders
 import ApplePayBinder from './binders/applePay/ApplePayBinder';
+import BalancesBinder from './binders/balances/BalancesBinder';
+import BalanceTransactionsBinder from './binders/balances/transactions/BalanceTransactionsBinder';
 import ChargebacksBinder from './binders/chargebacks/ChargebacksBinder';
+import ClientLinksBinder from './binders/clientLinks/ClientLinksBinder';
+import ClientsBinder from './binders/clients/ClientsBinder';
 import CustomerMandatesBinder from './binders/customers/mandates/CustomerMandatesBinder';
 import CustomerPaymentsBinder from './binders/customers/payments/CustomerPaymentsBinder';
 import CustomersBinder from './binders/customers/CustomersBinder';
 import CustomerSubscriptionsBinder from './binders/customers/subscriptions/CustomerSubscriptionsBinder';
+import InvoicesBinder from './binders/invoices/InvoicesBinder';
 import MethodsBinder from './binders/methods/MethodsBinder';
 import OnboardingBinder from './binders/onboarding/OnboardingBinder';
 import OrderLinesBinder from './binders/orders/orderlines/OrderLinesBinder';
@@ -46,8 +36,15 @@ import PaymentsBinder from './binders/payments/PaymentsBinder';
 import PermissionsBinder from './binders/permissions/PermissionsBinder';
 import ProfilesBinder from './binders/profiles/ProfilesBinder';
 import RefundsBinder from './binders/refunds/RefundsBinder';
+import SettlementCapturesBinder from './binders/settlements/captures/SettlementCapturesBinder';
+import SettlementChargebacksBinder from './binders/settlements/chargebacks/SettlementChargebacksBinder';
+import SettlementPaymentsBinder from './binders/settlements/payments/SettlementPaymentsBinder';
+import SettlementRefundsBinder from './binders/settlements/refunds/SettlementRefundsBinder';
+import SettlementsBinder from './binders/settlements/SettlementsBinder';
 import SubscriptionsBinder from './binders/subscriptions/SubscriptionsBinder';
 import SubscriptionPaymentsBinder from './binders/subscriptions/payments/SubscriptionPaymentsBinder';
+import TerminalsBinder from './binders/terminals/TerminalsBinder';
+import WebhooksBinder from './binders/webhooks/WebhooksBinder';
 
 /**
  * Returns an object which has a property for each passed key, which share the same (passed) value.
@@ -76,22 +73,9 @@ export default function createMollieClient(options: Options) {
 
   const transformingNetworkClient = new TransformingNetworkClient(
     networkClient,
-    new Transformers()
-      .add('payment', transformPayment)
-      .add('method', transformMethod)
-      .add('refund', transformRefund)
-      .add('chargeback', transformChargeback)
-      .add('capture', transformCapture)
-      .add('customer', transformCustomer)
-      .add('mandate', transformMandate)
-      .add('subscription', transformSubscription)
-      .add('order', transformOrder)
-      .add('shipment', transformShipment)
-      .add('permission', transformPermission)
-      .add('organization', transformOrganization)
-      .add('profile', transformProfile)
-      .add('onboarding', transformOnboarding)
-      .add('payment-link', transformPaymentLink),
+    createTransformers(),
+    // Create the response cache, unless an existing one was provided.
+    options.cache == undefined || options.cache instanceof ResponseCache ? options.cache : new ResponseCache(options.cache),
   );
 
   return {
@@ -150,20 +134,78 @@ export default function createMollieClient(options: Options) {
 
     // Payment links.
     paymentLinks: new PaymentLinksBinder(transformingNetworkClient),
+
+    // Settlements.
+    settlements: new SettlementsBinder(transformingNetworkClient),
+    ...alias(new SettlementPaymentsBinder(transformingNetworkClient), 'settlementPayments', 'settlements_payments'),
+    ...alias(new SettlementRefundsBinder(transformingNetworkClient), 'settlementRefunds', 'settlements_refunds'),
+    ...alias(new SettlementChargebacksBinder(transformingNetworkClient), 'settlementChargebacks', 'settlements_chargebacks'),
+    ...alias(new SettlementCapturesBinder(transformingNetworkClient), 'settlementCaptures', 'settlements_captures'),
+
+    // Balances.
+    balances: new BalancesBinder(transformingNetworkClient),
+    ...alias(new BalanceTransactionsBinder(transformingNetworkClient), 'balanceTransactions', 'balances_transactions'),
+
+    // Invoices.
+    invoices: new InvoicesBinder(transformingNetworkClient),
+
+    // Clients.
+    clients: new ClientsBinder(transformingNetworkClient),
+
+    // Client links.
+    clientLinks: new ClientLinksBinder(transformingNetworkClient),
+
+    // Terminals.
+    terminals: new TerminalsBinder(transformingNetworkClient),
+
+    // Webhooks.
+    webhooks: new WebhooksBinder(transformingNetworkClient),
   };
 }
 
 export { createMollieClient };
 
 export { ApiMode, Locale, PaymentMethod, HistoricPaymentMethod, SequenceType } from './data/global';
+export { BalanceStatus, TransferFrequency } from './data/balances/data';
+export { BalanceReportGrouping } from './data/balances/report/data';
+export { BalanceTransactionType } from './data/balances/transactions/data';
+export { ApprovalPrompt } from './data/clientLinks/data';
+export { ClientEmbed } from './data/clients/data';
+export { TerminalStatus } from './data/terminals/data';
 export { CaptureEmbed } from './data/payments/captures/data';
+export { InvoiceStatus } from './data/invoices/data';
 export { MandateMethod, MandateStatus } from './data/customers/mandates/data';
 export { MethodImageSize, MethodInclude } from './data/methods/data';
 export { OrderEmbed, OrderStatus } from './data/orders/data';
 export { OrderLineType } from './data/orders/orderlines/OrderLine';
 export { PaymentEmbed, PaymentStatus } from './data/payments/data';
 export { RefundEmbed, RefundStatus } from './data/refunds/data';
+export { SettlementStatus } from './data/settlements/data';
 export { SubscriptionStatus } from './data/subscriptions/data';
 export { ProfileStatus } from './data/profiles/data';
 export { OnboardingStatus } from './data/onboarding/data';
-export { default as ApiError } from './errors/ApiError';
+export { default as RateLimiter } from './communication/RateLimiter';
+export { default as ResponseCache, MemoryCacheStore } from './communication/ResponseCache';
+export { default as CircuitBreaker } from './communication/CircuitBreaker';
+export { default as AxiosTransport } from './communication/AxiosTransport';
+export { default as FetchTransport } from './communication/FetchTransport';
+export { default as RecordingTransport } from './communication/RecordingTransport';
+export { default as WebhookHandler } from './webhooks/WebhookHandler';
+export { default as parseWebhookBody } from './webhooks/parseWebhookBody';
+export { default as verifyWebhookSignature } from './webhooks/verifyWebhookSignature';
+export { MemoryWebhookStateStore, FileWebhookStateStore } from './webhooks/WebhookStateStore';
+export { createExpressWebhookHandler, createKoaWebhookMiddleware, createFastifyWebhookPlugin, createNodeWebhookListener } from './webhooks/adapters';
+export {
+  default as ApiError,
+  AuthenticationError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+  RateLimitError,
+  ServerError,
+  NetworkError,
+  AbortError,
+  CircuitOpenError,
+  InvalidIdError,
+  InvalidSignatureError,
+} from './errors/ApiError';
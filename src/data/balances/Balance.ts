@@ -0,0 +1,12 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import Seal from '../../types/Seal';
+import Helper from '../Helper';
+import { BalanceData } from './data';
+
+type Balance = Seal<BalanceData, Helper<BalanceData, Balance>>;
+
+export default Balance;
+
+export function transform(networkClient: TransformingNetworkClient, input: BalanceData): Balance {
+  return Object.assign(Object.create(new Helper<BalanceData, Balance>(networkClient, input._links)), input);
+}
@@ -0,0 +1,113 @@
+import { Amount, ApiMode, Links } from '../global';
+import Model from '../Model';
+
+export interface BalanceData extends Model<'balance'> {
+  /**
+   * Whether this entity was created in live mode or in test mode.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance?path=mode#response
+   */
+  mode: ApiMode;
+  /**
+   * The balance's date and time of creation, in [ISO 8601](https://en.wikipedia.org/wiki/ISO_8601) format.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance?path=createdAt#response
+   */
+  createdAt: string;
+  /**
+   * The balance's [ISO 4217](https://en.wikipedia.org/wiki/ISO_4217) currency code.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance?path=currency#response
+   */
+  currency: string;
+  /**
+   * The description or name of the balance. Can be used to denote the purpose of the balance.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance?path=description#response
+   */
+  description: string;
+  /**
+   * The status of the balance.
+   *
+   * Possible values:
+   *
+   * -   `active` The balance is operational and ready to be used.
+   * -   `inactive` The account is being validated by our team, or the balance has been blocked.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance?path=status#response
+   */
+  status: BalanceStatus;
+  /**
+   * The frequency at which the available amount on the balance will be settled to the configured transfer destination.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance?path=transferFrequency#response
+   */
+  transferFrequency: TransferFrequency;
+  /**
+   * The minimum amount configured for scheduled automatic settlements. As soon as the amount on the balance exceeds this threshold, the complete balance will be paid out to the transfer destination
+   * according to the configured frequency.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance?path=transferThreshold#response
+   */
+  transferThreshold: Amount;
+  /**
+   * The reference to be included on all transfers for this balance.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance?path=transferReference#response
+   */
+  transferReference?: string;
+  /**
+   * The destination where the available amount will be automatically transferred to according to the configured transfer frequency.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance?path=transferDestination#response
+   */
+  transferDestination: {
+    /**
+     * The default destination of automatic scheduled transfers. Currently only `bank-account` is supported.
+     */
+    type: 'bank-account';
+    /**
+     * The configured bank account number of the beneficiary the balance amount is to be transferred to.
+     */
+    bankAccount: string;
+    /**
+     * The full name of the beneficiary the balance amount is to be transferred to.
+     */
+    beneficiaryName: string;
+  };
+  /**
+   * The amount directly available on the balance, e.g. `{"currency":"EUR", "value":"100.00"}`.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance?path=availableAmount#response
+   */
+  availableAmount: Amount;
+  /**
+   * The total amount that is queued to be transferred to your balance. For example, a credit card payment can take a few days to clear.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance?path=pendingAmount#response
+   */
+  pendingAmount: Amount;
+  /**
+   * An object with several URL objects relevant to the balance. Every URL object will contain an `href` and a `type` field.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance?path=_links#response
+   */
+  _links: Links;
+}
+
+export enum BalanceStatus {
+  active = 'active',
+  inactive = 'inactive',
+}
+
+export enum TransferFrequency {
+  daily = 'daily',
+  everyMonday = 'every-monday',
+  everyTuesday = 'every-tuesday',
+  everyWednesday = 'every-wednesday',
+  everyThursday = 'every-thursday',
+  everyFriday = 'every-friday',
+  twiceAMonth = 'twice-a-month',
+  monthly = 'monthly',
+  never = 'never',
+}
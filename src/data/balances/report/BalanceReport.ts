@@ -0,0 +1,12 @@
+import TransformingNetworkClient from '../../../communication/TransformingNetworkClient';
+import Seal from '../../../types/Seal';
+import Helper from '../../Helper';
+import { BalanceReportData } from './data';
+
+type BalanceReport = Seal<BalanceReportData, Helper<BalanceReportData, BalanceReport>>;
+
+export default BalanceReport;
+
+export function transform(networkClient: TransformingNetworkClient, input: BalanceReportData): BalanceReport {
+  return Object.assign(Object.create(new Helper<BalanceReportData, BalanceReport>(networkClient, input._links)), input);
+}
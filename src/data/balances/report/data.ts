@@ -0,0 +1,77 @@
+import { Amount, Links } from '../../global';
+import Model from '../../Model';
+
+export interface BalanceReportData extends Model<'balance-report', undefined> {
+  /**
+   * The ID of the balance this report is generated for.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance-report?path=balanceId#response
+   */
+  balanceId: string;
+  /**
+   * The time zone used for the `from` and `until` parameters. Currently only time zone `Europe/Amsterdam` is supported.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance-report?path=timeZone#response
+   */
+  timeZone: string;
+  /**
+   * The start date of the report, in `YYYY-MM-DD` format. The from date is 'inclusive', and in Central European Time. This means a report with for example `from: 2020-01-01` will include movements
+   * of `2020-01-01 0:00:00 CET` and onwards.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance-report?path=from#response
+   */
+  from: string;
+  /**
+   * The end date of the report, in `YYYY-MM-DD` format. The until date is 'exclusive', and in Central European Time. This means a report with for example `until: 2020-02-01` will include movements
+   * up until `2020-01-31 23:59:59 CET`.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance-report?path=until#response
+   */
+  until: string;
+  /**
+   * You can retrieve reports in two different formats: the `status-balances` format and the `transaction-categories` format.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance-report?path=grouping#response
+   */
+  grouping: BalanceReportGrouping;
+  /**
+   * The totals of the report, per category and then per sub-category. With the `status-balances` grouping, the categories are `pendingBalance` and `availableBalance`; with the
+   * `transaction-categories` grouping, they are `open`, `payments`, `refunds`, `chargebacks`, `capital`, `transfers`, `fee-prepayments`, `corrections`, and `close`.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance-report?path=totals#response
+   */
+  totals: Record<string, Record<string, BalanceReportTotal>>;
+  /**
+   * An object with several URL objects relevant to the balance report. Every URL object will contain an `href` and a `type` field.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/get-balance-report?path=_links#response
+   */
+  _links: Links;
+}
+
+export interface BalanceReportTotal {
+  /**
+   * The total amount of the (sub-)category.
+   */
+  amount: Amount;
+  /**
+   * The break-down of the amount, for instance per transaction type or per payment method.
+   */
+  subtotals?: BalanceReportSubtotal[];
+}
+
+export interface BalanceReportSubtotal extends BalanceReportTotal {
+  /**
+   * The number of transactions in this subtotal.
+   */
+  count: number;
+  transactionType?: string;
+  method?: string;
+  prepaymentPartType?: string;
+  feeType?: string;
+}
+
+export enum BalanceReportGrouping {
+  statusBalances = 'status-balances',
+  transactionCategories = 'transaction-categories',
+}
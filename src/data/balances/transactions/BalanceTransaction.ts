@@ -0,0 +1,12 @@
+import TransformingNetworkClient from '../../../communication/TransformingNetworkClient';
+import Seal from '../../../types/Seal';
+import BalanceTransactionHelper from './BalanceTransactionHelper';
+import { BalanceTransactionData } from './data';
+
+type BalanceTransaction = Seal<BalanceTransactionData, BalanceTransactionHelper>;
+
+export default BalanceTransaction;
+
+export function transform(networkClient: TransformingNetworkClient, input: BalanceTransactionData): BalanceTransaction {
+  return Object.assign(Object.create(new BalanceTransactionHelper(networkClient, input.context)), input);
+}
@@ -0,0 +1,39 @@
+import TransformingNetworkClient from '../../../communication/TransformingNetworkClient';
+import ApiError from '../../../errors/ApiError';
+import renege from '../../../plumbing/renege';
+import Callback from '../../../types/Callback';
+import { PaymentData } from '../../payments/data';
+import Payment from '../../payments/Payment';
+import { BalanceTransactionData } from './data';
+
+/**
+ * Balance transactions have no links of their own (not even to themselves), which is why this helper does not extend
+ * `Helper`.
+ */
+export default class BalanceTransactionHelper {
+  constructor(protected readonly networkClient: TransformingNetworkClient, protected readonly transactionContext: BalanceTransactionData['context']) {}
+
+  /**
+   * Converts this object to a plain one.
+   */
+  public toPlainObject(this: BalanceTransactionData): any {
+    return Object.assign({}, this);
+  }
+
+  /**
+   * Returns the payment this transaction relates to. Fails if the transaction does not relate to a payment (such as
+   * outgoing transfers, or transactions without a context).
+   *
+   * @since 3.7.0
+   */
+  public getPayment(): Promise<Payment>;
+  public getPayment(callback: Callback<Payment>): void;
+  public getPayment() {
+    if (renege(this, this.getPayment, ...arguments)) return;
+    // (The context is checked at runtime, as transactions of types this library does not know yet might lack it.)
+    if (this.transactionContext == undefined || !('paymentId' in this.transactionContext)) {
+      return Promise.reject(new ApiError('This balance transaction does not relate to a payment'));
+    }
+    return this.networkClient.get<PaymentData, Payment>(`payments/${this.transactionContext.paymentId}`);
+  }
+}
@@ -0,0 +1,97 @@
+import Nullable from '../../../types/Nullable';
+import { Amount } from '../../global';
+import Model from '../../Model';
+
+interface BaseBalanceTransactionData extends Model<'balance_transaction'> {
+  /**
+   * The final amount that was moved to or from the balance, e.g. `{"currency":"EUR", "value":"100.00"}`. If the transaction moves funds away from the balance, for example when it concerns a refund,
+   * the amount will be negative.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/list-balance-transactions?path=_embedded/balance_transactions/resultAmount#response
+   */
+  resultAmount: Amount;
+  /**
+   * The amount that was to be moved to or from the balance, excluding deductions. If the transaction moves funds away from the balance, for example when it concerns a refund, the amount will be
+   * negative.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/list-balance-transactions?path=_embedded/balance_transactions/initiatedAmount#response
+   */
+  initiatedAmount: Amount;
+  /**
+   * The total amount of deductions withheld from the movement. For example, if a €10,00 payment comes in with a €0,29 fee, the `deductions` amount will be `{"currency":"EUR", "value":"-0.29"}`.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/list-balance-transactions?path=_embedded/balance_transactions/deductions#response
+   */
+  deductions?: Nullable<Amount>;
+  /**
+   * The date and time of the movement, in [ISO 8601](https://en.wikipedia.org/wiki/ISO_8601) format.
+   *
+   * @see https://docs.mollie.com/reference/v2/balances-api/list-balance-transactions?path=_embedded/balance_transactions/createdAt#response
+   */
+  createdAt: string;
+}
+
+/**
+ * The type of a balance transaction, and the context it carries: the identifiers of the resources the transaction
+ * relates to. Narrow on `type` to access the context of a specific type:
+ *
+ * ```ts
+ * if (transaction.type == BalanceTransactionType.refund) {
+ *   console.log(transaction.context.refundId);
+ * }
+ * ```
+ *
+ * @see https://docs.mollie.com/reference/v2/balances-api/list-balance-transactions?path=_embedded/balance_transactions/context#response
+ */
+type BalanceTransactionContext =
+  | {
+      type: BalanceTransactionType.payment | BalanceTransactionType.failedPaymentFee | BalanceTransactionType.unauthorizedDirectDebit;
+      context: { paymentId: string };
+    }
+  | {
+      type: BalanceTransactionType.capture;
+      context: { paymentId: string; captureId: string };
+    }
+  | {
+      type: BalanceTransactionType.refund | BalanceTransactionType.returnedRefund;
+      context: { paymentId: string; refundId: string };
+    }
+  | {
+      type: BalanceTransactionType.chargeback | BalanceTransactionType.chargebackReversal;
+      context: { paymentId: string; chargebackId: string };
+    }
+  | {
+      type: BalanceTransactionType.applicationFee;
+      context: { paymentId: string; paymentDescription: string; payingOwner: { organizationId: string; organizationName: string } };
+    }
+  | {
+      type: BalanceTransactionType.outgoingTransfer | BalanceTransactionType.canceledOutgoingTransfer | BalanceTransactionType.returnedTransfer;
+      context: { settlementId: string; transferId: string };
+    }
+  | {
+      type: BalanceTransactionType.invoiceCompensation;
+      context: { invoiceId: string };
+    }
+  | {
+      type: BalanceTransactionType.balanceCorrection;
+      context: Record<string, never>;
+    };
+
+export type BalanceTransactionData = BaseBalanceTransactionData & BalanceTransactionContext;
+
+export enum BalanceTransactionType {
+  payment = 'payment',
+  capture = 'capture',
+  unauthorizedDirectDebit = 'unauthorized-direct-debit',
+  failedPaymentFee = 'failed-payment-fee',
+  refund = 'refund',
+  returnedRefund = 'returned-refund',
+  chargeback = 'chargeback',
+  chargebackReversal = 'chargeback-reversal',
+  applicationFee = 'application-fee',
+  outgoingTransfer = 'outgoing-transfer',
+  canceledOutgoingTransfer = 'canceled-outgoing-transfer',
+  returnedTransfer = 'returned-transfer',
+  invoiceCompensation = 'invoice-compensation',
+  balanceCorrection = 'balance-correction',
+}
@@ -1,4 +1,5 @@
 import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import Nullable from '../../types/Nullable';
 import Seal from '../../types/Seal';
 import { Amount, Links, Url } from '../global';
 import Helper from '../Helper';
@@ -50,11 +51,11 @@ export interface ChargebackData extends Model<'chargeback'> {
     description: string;
   };
   /**
-   * The date and time the chargeback was reversed if applicable, in [ISO 8601](https://en.wikipedia.org/wiki/ISO_8601) format.
+   * The date and time the chargeback was reversed if applicable, in [ISO 8601](https://en.wikipedia.org/wiki/ISO_8601) format. This is `null` if the chargeback has not been reversed.
    *
    * @see https://docs.mollie.com/reference/v2/chargebacks-api/get-payment-chargeback?path=reversedAt#response
    */
-  reversedAt: string;
+  reversedAt: Nullable<string>;
   /**
    * The unique identifier of the payment this chargeback was issued for. For example: `tr_7UhSN1zuXS`. The full payment object can be retrieved via the `payment` URL in the `_links` object.
    *
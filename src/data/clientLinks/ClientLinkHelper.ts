@@ -0,0 +1,46 @@
+import buildUrl from '../../communication/buildUrl';
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import Helper from '../Helper';
+import ClientLink from './ClientLink';
+import { ApprovalPrompt, ClientLinkData } from './data';
+
+export interface AuthorizeParameters {
+  /**
+   * The client ID of your OAuth app, such as `'app_abc123qwerty'`.
+   */
+  clientId: string;
+  /**
+   * A random string generated by your app to prevent CSRF attacks. It is passed back to your redirect URL, where it
+   * should be compared to the one you generated.
+   */
+  state: string;
+  /**
+   * The permissions your app requests, such as `['onboarding.read', 'onboarding.write']`.
+   *
+   * @see https://docs.mollie.com/connect/permissions
+   */
+  scope: string[];
+  /**
+   * Whether the customer should be asked for consent again even if they have previously authorized your app. Default:
+   * `auto`.
+   */
+  approvalPrompt?: ApprovalPrompt;
+}
+
+export default class ClientLinkHelper extends Helper<ClientLinkData, ClientLink> {
+  constructor(networkClient: TransformingNetworkClient, protected readonly links: ClientLinkData['_links']) {
+    super(networkClient, links);
+  }
+
+  /**
+   * Returns the link you can send your customer to, with the parameters of the OAuth authorization request appended.
+   * Once the customer has logged in or signed up, they are asked to authorize your app, and then redirected to the
+   * redirect URL of your app.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/client-links-api/create-client-link#redirecting-the-customer
+   */
+  public getClientLink({ clientId, state, scope, approvalPrompt }: AuthorizeParameters): string {
+    return buildUrl(this.links.clientLink.href, { client_id: clientId, state, scope: scope.join(' '), approval_prompt: approvalPrompt });
+  }
+}
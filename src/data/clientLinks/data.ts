@@ -0,0 +1,26 @@
+import { Links, Url } from '../global';
+import Model from '../Model';
+
+export interface ClientLinkData extends Model<'client-link'> {
+  /**
+   * An object with several URL objects relevant to the client link. Every URL object will contain an `href` and a `type` field.
+   *
+   * @see https://docs.mollie.com/reference/v2/client-links-api/create-client-link?path=_links#response
+   */
+  _links: ClientLinkLinks;
+}
+
+export interface ClientLinkLinks extends Links {
+  /**
+   * The link you can send your customer to, where they can either log in or sign up for a Mollie account. Before sending the customer there, append the parameters of the OAuth authorization
+   * request to it (see `getClientLink`).
+   *
+   * @see https://docs.mollie.com/reference/v2/client-links-api/create-client-link?path=_links/clientLink#response
+   */
+  clientLink: Url;
+}
+
+export enum ApprovalPrompt {
+  auto = 'auto',
+  force = 'force',
+}
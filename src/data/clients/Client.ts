@@ -0,0 +1,36 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import Seal from '../../types/Seal';
+import Onboarding, { transform as transformOnboarding } from '../onboarding/Onboarding';
+import Organization, { transform as transformOrganization } from '../organizations/Organizations';
+import ClientHelper from './ClientHelper';
+import { ClientCapability, ClientData } from './data';
+
+type Client = Seal<
+  Omit<ClientData, '_embedded'> & {
+    _embedded?: {
+      organization?: Organization;
+      onboarding?: Onboarding;
+      capabilities?: ClientCapability[];
+    };
+  },
+  ClientHelper
+>;
+
+export default Client;
+
+export function transform(networkClient: TransformingNetworkClient, input: ClientData): Client {
+  let _embedded: Client['_embedded'];
+  if (input._embedded != undefined) {
+    _embedded = {};
+    if (input._embedded.organization != undefined) {
+      _embedded.organization = transformOrganization(networkClient, input._embedded.organization);
+    }
+    if (input._embedded.onboarding != undefined) {
+      _embedded.onboarding = transformOnboarding(networkClient, input._embedded.onboarding);
+    }
+    if (input._embedded.capabilities != undefined) {
+      _embedded.capabilities = input._embedded.capabilities;
+    }
+  }
+  return Object.assign(Object.create(new ClientHelper(networkClient, input._links, _embedded)), input, { _embedded });
+}
@@ -0,0 +1,40 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import renege from '../../plumbing/renege';
+import resolveIf from '../../plumbing/resolveIf';
+import Callback from '../../types/Callback';
+import Helper from '../Helper';
+import { OnboardingData } from '../onboarding/data';
+import Onboarding from '../onboarding/Onboarding';
+import Organization, { OrganizationData } from '../organizations/Organizations';
+import Client from './Client';
+import { ClientData } from './data';
+
+export default class ClientHelper extends Helper<ClientData, Client> {
+  constructor(networkClient: TransformingNetworkClient, protected readonly links: ClientData['_links'], protected readonly embedded: Client['_embedded']) {
+    super(networkClient, links);
+  }
+
+  /**
+   * Returns the organization of the client.
+   *
+   * @since 3.7.0
+   */
+  public getOrganization(): Promise<Organization>;
+  public getOrganization(callback: Callback<Organization>): void;
+  public getOrganization() {
+    if (renege(this, this.getOrganization, ...arguments)) return;
+    return resolveIf(this.embedded?.organization) ?? this.networkClient.get<OrganizationData, Organization>(this.links.organization.href);
+  }
+
+  /**
+   * Returns the onboarding status of the client.
+   *
+   * @since 3.7.0
+   */
+  public getOnboarding(): Promise<Onboarding>;
+  public getOnboarding(callback: Callback<Onboarding>): void;
+  public getOnboarding() {
+    if (renege(this, this.getOnboarding, ...arguments)) return;
+    return resolveIf(this.embedded?.onboarding) ?? this.networkClient.get<OnboardingData, Onboarding>(this.links.onboarding.href);
+  }
+}
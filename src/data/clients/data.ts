@@ -0,0 +1,83 @@
+import { Amount, Links, Url } from '../global';
+import { OnboardingData } from '../onboarding/data';
+import Model from '../Model';
+import { OrganizationData } from '../organizations/Organizations';
+
+export interface ClientData extends Model<'client'> {
+  /**
+   * The date and time the client organization was created, in [ISO 8601](https://en.wikipedia.org/wiki/ISO_8601) format.
+   *
+   * @see https://docs.mollie.com/reference/v2/partners-api/get-client?path=organizationCreatedAt#response
+   */
+  organizationCreatedAt: string;
+  /**
+   * The commission object, if the partner is a commission partner.
+   *
+   * @see https://docs.mollie.com/reference/v2/partners-api/get-client?path=commission#response
+   */
+  commission?: {
+    /**
+     * The commission count.
+     */
+    count: number;
+    /**
+     * The total commission amount.
+     */
+    totalAmount?: Amount;
+  };
+  _embedded?: {
+    organization?: OrganizationData;
+    onboarding?: OnboardingData;
+    capabilities?: ClientCapability[];
+  };
+  /**
+   * An object with several URL objects relevant to the client. Every URL object will contain an `href` and a `type` field.
+   *
+   * @see https://docs.mollie.com/reference/v2/partners-api/get-client?path=_links#response
+   */
+  _links: ClientLinks;
+}
+
+export interface ClientCapability {
+  /**
+   * The name of the capability, such as `'payments'` or `'settlements'`.
+   */
+  name: string;
+  /**
+   * The status of the capability, such as `'enabled'`, `'pending'`, or `'disabled'`.
+   */
+  status: string;
+  /**
+   * The reason the capability has its status (if any), such as `'onboarding-information-needed'`.
+   */
+  statusReason?: string;
+  /**
+   * The requirements which need to be met for the capability to be enabled.
+   */
+  requirements: Array<{
+    id: string;
+    status: string;
+    dueDate?: string;
+  }>;
+}
+
+export interface ClientLinks extends Links {
+  /**
+   * The API resource URL of the client's organization.
+   *
+   * @see https://docs.mollie.com/reference/v2/partners-api/get-client?path=_links/organization#response
+   */
+  organization: Url;
+  /**
+   * The API resource URL of the client's onboarding status.
+   *
+   * @see https://docs.mollie.com/reference/v2/partners-api/get-client?path=_links/onboarding#response
+   */
+  onboarding: Url;
+}
+
+export enum ClientEmbed {
+  organization = 'organization',
+  onboarding = 'onboarding',
+  capabilities = 'capabilities',
+}
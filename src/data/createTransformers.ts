@@ -0,0 +1,58 @@
+import { Transformers } from '../communication/TransformingNetworkClient';
+
+import { transform as transformPayment } from './payments/Payment';
+import { transform as transformMethod } from './methods/Method';
+import { transform as transformRefund } from './refunds/Refund';
+import { transform as transformChargeback } from './chargebacks/Chargeback';
+import { transform as transformCapture } from './payments/captures/Capture';
+import { transform as transformCustomer } from './customers/Customer';
+import { transform as transformMandate } from './customers/mandates/Mandate';
+import { transform as transformSubscription } from './subscriptions/Subscription';
+import { transform as transformOrder } from './orders/Order';
+import { transform as transformShipment } from './orders/shipments/Shipment';
+import { transform as transformPermission } from './permissions/Permission';
+import { transform as transformOrganization } from './organizations/Organizations';
+import { transform as transformProfile } from './profiles/Profile';
+import { transform as transformOnboarding } from './onboarding/Onboarding';
+import { transform as transformPaymentLink } from './paymentLinks/PaymentLink';
+import { transform as transformSettlement } from './settlements/Settlement';
+import { transform as transformBalance } from './balances/Balance';
+import { transform as transformBalanceReport } from './balances/report/BalanceReport';
+import { transform as transformBalanceTransaction } from './balances/transactions/BalanceTransaction';
+import { transform as transformInvoice } from './invoices/Invoice';
+import { transform as transformClient } from './clients/Client';
+import { transform as transformClientLink } from './clientLinks/ClientLink';
+import { transform as transformTerminal } from './terminals/Terminal';
+import { transform as transformWebhookPayload } from './webhooks/WebhookPayload';
+
+/**
+ * Returns the transformers which turn the plain objects returned by the Mollie API into more convenient JavaScript
+ * objects, per resource.
+ */
+export default function createTransformers() {
+  return new Transformers()
+    .add('payment', transformPayment)
+    .add('method', transformMethod)
+    .add('refund', transformRefund)
+    .add('chargeback', transformChargeback)
+    .add('capture', transformCapture)
+    .add('customer', transformCustomer)
+    .add('mandate', transformMandate)
+    .add('subscription', transformSubscription)
+    .add('order', transformOrder)
+    .add('shipment', transformShipment)
+    .add('permission', transformPermission)
+    .add('organization', transformOrganization)
+    .add('profile', transformProfile)
+    .add('onboarding', transformOnboarding)
+    .add('payment-link', transformPaymentLink)
+    .add('settlement', transformSettlement)
+    .add('balance', transformBalance)
+    .add('balance-report', transformBalanceReport)
+    .add('balance_transaction', transformBalanceTransaction)
+    .add('invoice', transformInvoice)
+    .add('client', transformClient)
+    .add('client-link', transformClientLink)
+    .add('terminal', transformTerminal)
+    .add('event', transformWebhookPayload);
+}
@@ -41,6 +41,7 @@ export enum PaymentMethod {
   mybank = 'mybank',
   paypal = 'paypal',
   paysafecard = 'paysafecard',
+  pointofsale = 'pointofsale',
   przelewy24 = 'przelewy24',
   sofort = 'sofort',
   voucher = 'voucher',
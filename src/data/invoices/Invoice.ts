@@ -0,0 +1,12 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import Seal from '../../types/Seal';
+import { InvoiceData } from './data';
+import InvoiceHelper from './InvoiceHelper';
+
+type Invoice = Seal<InvoiceData, InvoiceHelper>;
+
+export default Invoice;
+
+export function transform(networkClient: TransformingNetworkClient, input: InvoiceData): Invoice {
+  return Object.assign(Object.create(new InvoiceHelper(networkClient, input._links)), input);
+}
@@ -0,0 +1,44 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import ApiError from '../../errors/ApiError';
+import getRequestOptions from '../../plumbing/getRequestOptions';
+import renege from '../../plumbing/renege';
+import Callback from '../../types/Callback';
+import Maybe from '../../types/Maybe';
+import { RequestOptions } from '../../types/parameters';
+import Helper from '../Helper';
+import { InvoiceData } from './data';
+import Invoice from './Invoice';
+
+export default class InvoiceHelper extends Helper<InvoiceData, Invoice> {
+  constructor(networkClient: TransformingNetworkClient, protected readonly links: InvoiceData['_links']) {
+    super(networkClient, links);
+  }
+
+  /**
+   * Returns the URL to a downloadable PDF of the invoice, or `undefined` if the invoice is open. Note that the URL is
+   * only valid for a short period of time.
+   *
+   * @since 3.7.0
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=_links/pdf#response
+   */
+  public getPdfUrl(): Maybe<string> {
+    return this.links.pdf?.href;
+  }
+
+  /**
+   * Downloads the PDF of the invoice, and returns it as a buffer. Fails if the invoice is open, as open invoices have no
+   * PDF.
+   *
+   * @since 3.7.0
+   */
+  public downloadPdf(options?: RequestOptions): Promise<Buffer>;
+  public downloadPdf(callback: Callback<Buffer>): void;
+  public downloadPdf(options?: RequestOptions | Callback<Buffer>) {
+    if (renege(this, this.downloadPdf, ...arguments)) return;
+    const url = this.getPdfUrl();
+    if (url == undefined) {
+      return Promise.reject(new ApiError('This invoice has no PDF, as it is still open'));
+    }
+    return this.networkClient.download(url, 'application/pdf', getRequestOptions(options));
+  }
+}
@@ -0,0 +1,127 @@
+import Nullable from '../../types/Nullable';
+import { Amount, Links, Url } from '../global';
+import Model from '../Model';
+
+export interface InvoiceData extends Model<'invoice'> {
+  /**
+   * The reference number of the invoice. An example value would be: `2018.10000`.
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=reference#response
+   */
+  reference: string;
+  /**
+   * The VAT number to which the invoice was issued to (if applicable).
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=vatNumber#response
+   */
+  vatNumber: Nullable<string>;
+  /**
+   * Status of the invoice.
+   *
+   * Possible values:
+   *
+   * -   `open` The invoice is not paid yet.
+   * -   `paid` The invoice is paid.
+   * -   `overdue` Payment of the invoice is overdue.
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=status#response
+   */
+  status: InvoiceStatus;
+  /**
+   * The invoice date in `YYYY-MM-DD` format.
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=issuedAt#response
+   */
+  issuedAt: string;
+  /**
+   * The date on which the invoice was paid, in `YYYY-MM-DD` format. Only for paid invoices.
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=paidAt#response
+   */
+  paidAt?: string;
+  /**
+   * The date on which the invoice is due, in `YYYY-MM-DD` format. Only for due invoices.
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=dueAt#response
+   */
+  dueAt?: string;
+  /**
+   * Total amount of the invoice excluding VAT, e.g. `{"currency":"EUR", "value":"100.00"}`.
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=netAmount#response
+   */
+  netAmount: Amount;
+  /**
+   * VAT amount of the invoice. Only for merchants registered in the Netherlands. For EU merchants, VAT will be shifted to recipient; article 44 and 196 EU VAT Directive 2006/112. For merchants
+   * outside the EU, no VAT will be charged.
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=vatAmount#response
+   */
+  vatAmount: Amount;
+  /**
+   * Total amount of the invoice including VAT.
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=grossAmount#response
+   */
+  grossAmount: Amount;
+  /**
+   * The collection of products which make up the invoice.
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=lines#response
+   */
+  lines: InvoiceLine[];
+  /**
+   * An object with several URL objects relevant to the invoice. Every URL object will contain an `href` and a `type` field.
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=_links#response
+   */
+  _links: InvoiceLinks;
+}
+
+export interface InvoiceLine {
+  /**
+   * The administrative period (`YYYY-MM`) on which the line should be booked.
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=lines/period#response
+   */
+  period: string;
+  /**
+   * Description of the product.
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=lines/description#response
+   */
+  description: string;
+  /**
+   * Number of products invoiced (usually number of payments).
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=lines/count#response
+   */
+  count: number;
+  /**
+   * VAT percentage rate that applies to this product.
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=lines/vatPercentage#response
+   */
+  vatPercentage: number;
+  /**
+   * Amount excluding VAT.
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=lines/amount#response
+   */
+  amount: Amount;
+}
+
+export interface InvoiceLinks extends Links {
+  /**
+   * URL to a downloadable PDF of the invoice. The PDF is only available for invoices which are not open. The URL is only available for a short period of time.
+   *
+   * @see https://docs.mollie.com/reference/v2/invoices-api/get-invoice?path=_links/pdf#response
+   */
+  pdf?: Url;
+}
+
+export enum InvoiceStatus {
+  open = 'open',
+  paid = 'paid',
+  overdue = 'overdue',
+}
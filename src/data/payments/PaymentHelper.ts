@@ -11,6 +11,8 @@ import { OrderData } from '../orders/data';
 import Order from '../orders/Order';
 import { RefundData } from '../refunds/data';
 import Refund from '../refunds/Refund';
+import { SettlementData } from '../settlements/data';
+import Settlement from '../settlements/Settlement';
 import Capture from './captures/Capture';
 import { CaptureData } from './captures/data';
 import { BankTransferLinks, PaymentData, PaymentStatus } from './data';
@@ -296,4 +298,19 @@ export default class PaymentHelper extends Helper<PaymentData, Payment> {
     }
     return this.networkClient.get<OrderData, Order>(this.links.order.href);
   }
+
+  /**
+   * Returns the settlement this payment has been settled with, or `undefined` if it has not been settled (yet).
+   *
+   * @since 3.7.0
+   */
+  public getSettlement(): Promise<Settlement> | Promise<undefined>;
+  public getSettlement(callback: Callback<Maybe<Settlement>>): void;
+  public getSettlement() {
+    if (renege(this, this.getSettlement, ...arguments)) return;
+    if (this.links.settlement == undefined) {
+      return undefinedPromise;
+    }
+    return this.networkClient.get<SettlementData, Settlement>(this.links.settlement.href);
+  }
 }
@@ -236,6 +236,7 @@ export interface PaymentData extends Model<'payment'> {
     | KlarnaDetails
     | PayPalDetails
     | PaysafecardDetails
+    | PointOfSaleDetails
     | SepaDirectDebitDetails
     | SofortBankingDetails
     | VoucherDetails;
@@ -674,6 +675,57 @@ export interface PaysafecardDetails {
   customerReference: string;
 }
 
+export interface PointOfSaleDetails {
+  /**
+   * The identifier referring to the terminal this payment was created for, for example `term_utGtYu756h`.
+   *
+   * @see https://docs.mollie.com/reference/v2/payments-api/get-payment?path=details/terminalId#point-of-sale
+   */
+  terminalId: string;
+  /**
+   * Only available if the payment has been completed – The last four digits of the card number.
+   *
+   * @see https://docs.mollie.com/reference/v2/payments-api/get-payment?path=details/cardNumber#point-of-sale
+   */
+  cardNumber?: string;
+  /**
+   * Only available if the payment has been completed – The masked card number, such as `'**** **** **** 1234'`.
+   *
+   * @see https://docs.mollie.com/reference/v2/payments-api/get-payment?path=details/maskedNumber#point-of-sale
+   */
+  maskedNumber?: string;
+  /**
+   * Only available if the payment has been completed – Unique alphanumeric representation of the card, usable for identifying returning customers.
+   *
+   * @see https://docs.mollie.com/reference/v2/payments-api/get-payment?path=details/cardFingerprint#point-of-sale
+   */
+  cardFingerprint?: string;
+  /**
+   * Only available if the payment has been completed and if the data is available – The card's label, such as `'Maestro'` or `'Visa'`.
+   *
+   * @see https://docs.mollie.com/reference/v2/payments-api/get-payment?path=details/cardLabel#point-of-sale
+   */
+  cardLabel?: string;
+  /**
+   * Only available if the payment has been completed and if the data is available – The [ISO 3166-1 alpha-2](https://en.wikipedia.org/wiki/ISO_3166-1_alpha-2) country code of the country the card was
+   * issued in, such as `'NL'`.
+   *
+   * @see https://docs.mollie.com/reference/v2/payments-api/get-payment?path=details/cardCountryCode#point-of-sale
+   */
+  cardCountryCode?: string;
+  /**
+   * Only available if the payment has been completed and if the data is available – The receipt data returned by the terminal.
+   *
+   * @see https://docs.mollie.com/reference/v2/payments-api/get-payment?path=details/receipt#point-of-sale
+   */
+  receipt?: {
+    authorizationCode?: string;
+    applicationIdentifier?: string;
+    cardReadMethod?: string;
+    cardVerificationMethod?: string;
+  };
+}
+
 export interface SepaDirectDebitDetails {
   /**
    * Transfer reference used by Mollie to identify this payment.
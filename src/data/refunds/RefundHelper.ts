@@ -9,6 +9,8 @@ import { OrderData } from '../orders/data';
 import Order from '../orders/Order';
 import { PaymentData } from '../payments/data';
 import Payment from '../payments/Payment';
+import { SettlementData } from '../settlements/data';
+import Settlement from '../settlements/Settlement';
 import { RefundData, RefundStatus } from './data';
 import Refund from './Refund';
 
@@ -88,4 +90,19 @@ export default class RefundHelper extends Helper<RefundData, Refund> {
     }
     return this.networkClient.get<OrderData, Order>(this.links.order.href);
   }
+
+  /**
+   * Returns the settlement this refund has been settled with, or `undefined` if it has not been settled (yet).
+   *
+   * @since 3.7.0
+   */
+  public getSettlement(): Promise<Settlement> | Promise<undefined>;
+  public getSettlement(callback: Callback<Maybe<Settlement>>): void;
+  public getSettlement() {
+    if (renege(this, this.getSettlement, ...arguments)) return;
+    if (this.links.settlement == undefined) {
+      return undefinedPromise;
+    }
+    return this.networkClient.get<SettlementData, Settlement>(this.links.settlement.href);
+  }
 }
@@ -0,0 +1,12 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import Seal from '../../types/Seal';
+import { SettlementData } from './data';
+import SettlementHelper from './SettlementHelper';
+
+type Settlement = Seal<SettlementData, SettlementHelper>;
+
+export default Settlement;
+
+export function transform(networkClient: TransformingNetworkClient, input: SettlementData): Settlement {
+  return Object.assign(Object.create(new SettlementHelper(networkClient, input._links)), input);
+}
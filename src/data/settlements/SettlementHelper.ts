@@ -0,0 +1,103 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import renege from '../../plumbing/renege';
+import Callback from '../../types/Callback';
+import Chargeback, { ChargebackData } from '../chargebacks/Chargeback';
+import Helper from '../Helper';
+import Capture from '../payments/captures/Capture';
+import { CaptureData } from '../payments/captures/data';
+import { PaymentData } from '../payments/data';
+import Payment from '../payments/Payment';
+import { RefundData } from '../refunds/data';
+import Refund from '../refunds/Refund';
+import { SettlementData, SettlementStatus } from './data';
+import Settlement from './Settlement';
+
+export default class SettlementHelper extends Helper<SettlementData, Settlement> {
+  constructor(networkClient: TransformingNetworkClient, protected readonly links: SettlementData['_links']) {
+    super(networkClient, links);
+  }
+
+  /**
+   * Returns whether the settlement has not been closed yet.
+   *
+   * @since 3.7.0
+   */
+  public isOpen(this: SettlementData): boolean {
+    return this.status == SettlementStatus.open;
+  }
+
+  /**
+   * Returns whether the settlement has been closed and is being processed.
+   *
+   * @since 3.7.0
+   */
+  public isPending(this: SettlementData): boolean {
+    return this.status == SettlementStatus.pending;
+  }
+
+  /**
+   * Returns whether the settlement has been paid out.
+   *
+   * @since 3.7.0
+   */
+  public isPaidout(this: SettlementData): boolean {
+    return this.status == SettlementStatus.paidout;
+  }
+
+  /**
+   * Returns whether the settlement could not be paid out.
+   *
+   * @since 3.7.0
+   */
+  public isFailed(this: SettlementData): boolean {
+    return this.status == SettlementStatus.failed;
+  }
+
+  /**
+   * Returns the payments that are included in this settlement.
+   *
+   * @since 3.7.0
+   */
+  public getPayments(): Promise<Array<Payment>>;
+  public getPayments(callback: Callback<Array<Payment>>): void;
+  public getPayments() {
+    if (renege(this, this.getPayments, ...arguments)) return;
+    return this.networkClient.listPlain<PaymentData, Payment>(this.links.payments.href, 'payments');
+  }
+
+  /**
+   * Returns the refunds that are deducted from this settlement.
+   *
+   * @since 3.7.0
+   */
+  public getRefunds(): Promise<Array<Refund>>;
+  public getRefunds(callback: Callback<Array<Refund>>): void;
+  public getRefunds() {
+    if (renege(this, this.getRefunds, ...arguments)) return;
+    return this.networkClient.listPlain<RefundData, Refund>(this.links.refunds.href, 'refunds');
+  }
+
+  /**
+   * Returns the chargebacks that are deducted from this settlement.
+   *
+   * @since 3.7.0
+   */
+  public getChargebacks(): Promise<Array<Chargeback>>;
+  public getChargebacks(callback: Callback<Array<Chargeback>>): void;
+  public getChargebacks() {
+    if (renege(this, this.getChargebacks, ...arguments)) return;
+    return this.networkClient.listPlain<ChargebackData, Chargeback>(this.links.chargebacks.href, 'chargebacks');
+  }
+
+  /**
+   * Returns the captures that are included in this settlement.
+   *
+   * @since 3.7.0
+   */
+  public getCaptures(): Promise<Array<Capture>>;
+  public getCaptures(callback: Callback<Array<Capture>>): void;
+  public getCaptures() {
+    if (renege(this, this.getCaptures, ...arguments)) return;
+    return this.networkClient.listPlain<CaptureData, Capture>(this.links.captures.href, 'captures');
+  }
+}
@@ -0,0 +1,181 @@
+import Nullable from '../../types/Nullable';
+import { Amount, Links, Url } from '../global';
+import Model from '../Model';
+
+export interface SettlementData extends Model<'settlement'> {
+  /**
+   * The settlement's bank reference, as found on your invoice and in your Mollie account.
+   *
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement?path=reference#response
+   */
+  reference: string;
+  /**
+   * The date on which the settlement was created, in [ISO 8601](https://en.wikipedia.org/wiki/ISO_8601) format.
+   *
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement?path=createdAt#response
+   */
+  createdAt: string;
+  /**
+   * The date on which the settlement was settled, in [ISO 8601](https://en.wikipedia.org/wiki/ISO_8601) format. When requesting the open settlement or next settlement the return value is `null`.
+   *
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement?path=settledAt#response
+   */
+  settledAt: Nullable<string>;
+  /**
+   * The status of the settlement.
+   *
+   * Possible values:
+   *
+   * -   `open` The settlement has not been closed yet.
+   * -   `pending` The settlement has been closed and is being processed.
+   * -   `paidout` The settlement has been paid out.
+   * -   `failed` The settlement could not be paid out.
+   *
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement?path=status#response
+   */
+  status: SettlementStatus;
+  /**
+   * The total amount paid out with this settlement.
+   *
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement?path=amount#response
+   */
+  amount: Amount;
+  /**
+   * This object is a collection of Period objects, which describe the settlement by month in full detail. The keys are the years, their values are objects with the months (`'01'` through `'12'`) as
+   * keys.
+   *
+   * Please note that the periods are only available for settlements created via the dashboard, or for the open and next settlement.
+   *
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement?path=periods#response
+   */
+  periods: Record<string, Record<string, SettlementPeriod>>;
+  /**
+   * The ID of the invoice on which this settlement is invoiced, if it has been invoiced.
+   *
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement?path=invoiceId#response
+   */
+  invoiceId?: string;
+  _links: SettlementLinks;
+}
+
+export interface SettlementPeriod {
+  /**
+   * An array of revenue objects containing the total revenue for each payment method during this period.
+   *
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement?path=periods#response
+   */
+  revenue: SettlementRevenue[];
+  /**
+   * An array of cost objects, describing the fees withheld for each payment method during this period.
+   *
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement?path=periods#response
+   */
+  costs: SettlementCost[];
+  /**
+   * The ID of the invoice on which the costs of this period are invoiced, if it has been invoiced.
+   *
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement?path=periods#response
+   */
+  invoiceId?: string;
+}
+
+export interface SettlementRevenue {
+  /**
+   * A description of the revenue subtotal.
+   */
+  description: string;
+  /**
+   * The net total of received funds for this payment method (excludes VAT).
+   */
+  amountNet: Amount;
+  /**
+   * The VAT amount, if applicable.
+   */
+  amountVat: Nullable<Amount>;
+  /**
+   * The gross total of received funds for this payment method (includes VAT).
+   */
+  amountGross: Amount;
+  /**
+   * The number of payments received for this payment method.
+   */
+  count: number;
+  /**
+   * The payment method ID, if applicable.
+   */
+  method: Nullable<string>;
+}
+
+export interface SettlementCost {
+  /**
+   * A description of the subtotal.
+   */
+  description: string;
+  /**
+   * The net total cost, i.e. excluding VAT.
+   */
+  amountNet: Amount;
+  /**
+   * The VAT cost, if applicable.
+   */
+  amountVat: Nullable<Amount>;
+  /**
+   * The gross total cost, i.e. including VAT.
+   */
+  amountGross: Amount;
+  /**
+   * The number of fees.
+   */
+  count: number;
+  /**
+   * The service rates, further divided into `fixed` and `variable` costs.
+   */
+  rate: {
+    fixed?: Amount;
+    variable?: string;
+  };
+  /**
+   * The payment method ID, if applicable.
+   */
+  method: Nullable<string>;
+}
+
+export interface SettlementLinks extends Links {
+  /**
+   * The API resource URL of the payments that are included in this settlement.
+   *
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement?path=_links/payments#response
+   */
+  payments: Url;
+  /**
+   * The API resource URL of the refunds that are deducted from this settlement.
+   *
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement?path=_links/refunds#response
+   */
+  refunds: Url;
+  /**
+   * The API resource URL of the chargebacks that are deducted from this settlement.
+   *
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement?path=_links/chargebacks#response
+   */
+  chargebacks: Url;
+  /**
+   * The API resource URL of the captures that are included in this settlement.
+   *
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement?path=_links/captures#response
+   */
+  captures: Url;
+  /**
+   * The API resource URL of the invoice, if the settlement has been invoiced.
+   *
+   * @see https://docs.mollie.com/reference/v2/settlements-api/get-settlement?path=_links/invoice#response
+   */
+  invoice?: Url;
+}
+
+export enum SettlementStatus {
+  open = 'open',
+  pending = 'pending',
+  paidout = 'paidout',
+  failed = 'failed',
+}
@@ -87,7 +87,7 @@ export interface SubscriptionData extends Model<'subscription'> {
    *
    * @see https://docs.mollie.com/reference/v2/subscriptions-api/get-subscription?path=canceledAt#response
    */
-  canceledAt: string;
+  canceledAt?: string;
   /**
    * The URL Mollie will call as soon a payment status change takes place.
    *
@@ -0,0 +1,12 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import Seal from '../../types/Seal';
+import { TerminalData } from './data';
+import TerminalHelper from './TerminalHelper';
+
+type Terminal = Seal<TerminalData, TerminalHelper>;
+
+export default Terminal;
+
+export function transform(networkClient: TransformingNetworkClient, input: TerminalData): Terminal {
+  return Object.assign(Object.create(new TerminalHelper(networkClient, input._links)), input);
+}
@@ -0,0 +1,32 @@
+import Helper from '../Helper';
+import { TerminalData, TerminalStatus } from './data';
+import Terminal from './Terminal';
+
+export default class TerminalHelper extends Helper<TerminalData, Terminal> {
+  /**
+   * Returns whether the terminal has been linked to the account, but has not yet been activated.
+   *
+   * @since 3.7.0
+   */
+  public isPending(this: TerminalData): boolean {
+    return this.status == TerminalStatus.pending;
+  }
+
+  /**
+   * Returns whether the terminal is fully configured and ready to accept payments.
+   *
+   * @since 3.7.0
+   */
+  public isActive(this: TerminalData): boolean {
+    return this.status == TerminalStatus.active;
+  }
+
+  /**
+   * Returns whether the terminal has been deactivated. This is a final state.
+   *
+   * @since 3.7.0
+   */
+  public isInactive(this: TerminalData): boolean {
+    return this.status == TerminalStatus.inactive;
+  }
+}
@@ -0,0 +1,78 @@
+import { Links } from '../global';
+import Model from '../Model';
+
+export interface TerminalData extends Model<'terminal'> {
+  /**
+   * The identifier used for referring to the profile the terminal was created on. For example, `pfl_QkEhN94Ba`.
+   *
+   * @see https://docs.mollie.com/reference/v2/terminals-api/get-terminal?path=profileId#response
+   */
+  profileId: string;
+  /**
+   * The status of the terminal.
+   *
+   * Possible values:
+   *
+   * -   `pending` The device has been linked to your account, but has not yet been activated.
+   * -   `active` The terminal is fully configured and ready to accept payments.
+   * -   `inactive` The terminal has been deactivated, which is a final state.
+   *
+   * @see https://docs.mollie.com/reference/v2/terminals-api/get-terminal?path=status#response
+   */
+  status: TerminalStatus;
+  /**
+   * The brand of the terminal, such as `'PAX'`.
+   *
+   * @see https://docs.mollie.com/reference/v2/terminals-api/get-terminal?path=brand#response
+   */
+  brand: string;
+  /**
+   * The model of the terminal, such as `'A920'`.
+   *
+   * @see https://docs.mollie.com/reference/v2/terminals-api/get-terminal?path=model#response
+   */
+  model: string;
+  /**
+   * The serial number of the terminal. The serial number is provided at the back of the device.
+   *
+   * @see https://docs.mollie.com/reference/v2/terminals-api/get-terminal?path=serialNumber#response
+   */
+  serialNumber: string;
+  /**
+   * The currency which is set for the terminal, in [ISO 4217](https://en.wikipedia.org/wiki/ISO_4217) format. Please take into consideration that currently our terminals are bound to a specific
+   * currency, chosen during setup.
+   *
+   * @see https://docs.mollie.com/reference/v2/terminals-api/get-terminal?path=currency#response
+   */
+  currency?: string;
+  /**
+   * A short description of the terminal. The description will be visible in the Dashboard, but also on the device itself for identification purposes.
+   *
+   * @see https://docs.mollie.com/reference/v2/terminals-api/get-terminal?path=description#response
+   */
+  description: string;
+  /**
+   * The terminal's date and time of creation, in [ISO 8601](https://en.wikipedia.org/wiki/ISO_8601) format.
+   *
+   * @see https://docs.mollie.com/reference/v2/terminals-api/get-terminal?path=createdAt#response
+   */
+  createdAt: string;
+  /**
+   * The date and time the terminal was last updated, in [ISO 8601](https://en.wikipedia.org/wiki/ISO_8601) format.
+   *
+   * @see https://docs.mollie.com/reference/v2/terminals-api/get-terminal?path=updatedAt#response
+   */
+  updatedAt: string;
+  /**
+   * An object with several URL objects relevant to the terminal. Every URL object will contain an `href` and a `type` field.
+   *
+   * @see https://docs.mollie.com/reference/v2/terminals-api/get-terminal?path=_links#response
+   */
+  _links: Links;
+}
+
+export enum TerminalStatus {
+  pending = 'pending',
+  active = 'active',
+  inactive = 'inactive',
+}
@@ -0,0 +1,29 @@
+import TransformingNetworkClient from '../../communication/TransformingNetworkClient';
+import Chargeback from '../chargebacks/Chargeback';
+import Customer from '../customers/Customer';
+import Mandate from '../customers/mandates/Mandate';
+import Order from '../orders/Order';
+import Shipment from '../orders/shipments/Shipment';
+import PaymentLink from '../paymentLinks/PaymentLink';
+import Capture from '../payments/captures/Capture';
+import Payment from '../payments/Payment';
+import Profile from '../profiles/Profile';
+import Refund from '../refunds/Refund';
+import Subscription from '../subscriptions/Subscription';
+import { WebhookPayloadData } from './data';
+
+type WebhookPayload = Omit<WebhookPayloadData, '_embedded'> & {
+  /**
+   * The resource the event is about ‒ as it was when the event occurred ‒ with its helper methods, or `undefined` if
+   * the payload does not include it.
+   */
+  entity?: Payment | Order | Subscription | PaymentLink | Refund | Chargeback | Capture | Shipment | Customer | Mandate | Profile;
+};
+
+export default WebhookPayload;
+
+export function transform(networkClient: TransformingNetworkClient, input: WebhookPayloadData): WebhookPayload {
+  const { _embedded: embedded, ...rest } = input;
+  const entity = embedded?.entity;
+  return { ...rest, entity: entity == undefined ? undefined : networkClient.transform(entity) };
+}
@@ -0,0 +1,31 @@
+import { Links, Url } from '../global';
+import Model from '../Model';
+
+export interface WebhookPayloadData extends Model<'event'> {
+  /**
+   * The type of the event, such as `'payment-link.paid'`.
+   */
+  type: string;
+  /**
+   * The ID of the resource the event is about, such as `'pl_4Y0eZitmBnQ6IDoMqZQKh'`.
+   */
+  entityId: string;
+  /**
+   * The date and time the event occurred, in ISO 8601 format.
+   */
+  createdAt: string;
+  _embedded?: {
+    /**
+     * The resource the event is about, as it was when the event occurred.
+     */
+    entity?: Model<string>;
+  };
+  _links: WebhookPayloadLinks;
+}
+
+interface WebhookPayloadLinks extends Links {
+  /**
+   * The API resource URL of the resource the event is about.
+   */
+  entity?: Url;
+}
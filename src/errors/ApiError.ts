@@ -1,15 +1,86 @@
-import { AxiosResponse } from 'axios';
-
+import resolveUrl from '../communication/resolveUrl';
 import { MollieApiErrorLinks, Url } from '../data/global';
 import Maybe from '../types/Maybe';
 
+/**
+ * Describes the request which caused an error and the response to it (if any). Request headers ‒ which include the API
+ * key or access token ‒ are never part of this context.
+ */
+export interface ApiErrorContext {
+  /**
+   * The HTTP method of the request, such as `'POST'`.
+   */
+  method?: string;
+  /**
+   * The (absolute) URL of the request.
+   */
+  url?: string;
+  /**
+   * The headers of the response.
+   */
+  headers?: Record<string, string>;
+}
+
+/**
+ * A response to a failed request. This is compatible with axios responses.
+ */
+export interface ErrorResponse {
+  status: number;
+  headers?: Record<string, string>;
+  data: any;
+  config?: {
+    method?: string;
+    url?: string;
+    baseURL?: string;
+  };
+}
+
+/**
+ * The names of the response headers which may hold the ID the Mollie API assigned to the request, in order of
+ * preference.
+ */
+const requestIdHeaderNames = ['request-id', 'x-request-id'];
+
 export default class ApiError extends Error {
-  public constructor(message: string, protected title?: string, public readonly statusCode?: number, public readonly field?: string, protected links?: MollieApiErrorLinks) {
+  /**
+   * The HTTP method of the request which caused this error, such as `'POST'`.
+   */
+  public readonly method?: string;
+  /**
+   * The (absolute) URL of the request which caused this error.
+   */
+  public readonly url?: string;
+  /**
+   * The headers of the response which caused this error.
+   */
+  public readonly headers?: Record<string, string>;
+  /**
+   * The ID of the request which caused this error, as provided by the Mollie API in a response header. Include this ID
+   * when contacting Mollie support.
+   */
+  public readonly requestId?: string;
+  public constructor(
+    message: string,
+    public readonly title?: string,
+    public readonly statusCode?: number,
+    public readonly field?: string,
+    public readonly links?: MollieApiErrorLinks,
+    context?: ApiErrorContext,
+  ) {
     super(message);
     // Set the name to ApiError.
     this.name = 'ApiError';
     // Ensure the message is enumerable, making it more likely to survive serialisation.
     Object.defineProperty(this, 'message', { enumerable: true });
+    if (context != undefined) {
+      const { method, url, headers } = context;
+      this.method = method;
+      this.url = url;
+      this.headers = headers;
+      if (headers != undefined) {
+        this.requestId = requestIdHeaderNames.map(name => headers[name]).find(value => value != undefined);
+      }
+    }
   }
 
   /**
@@ -86,15 +157,213 @@ export default class ApiError extends Error {
   }
 
   public toString(): string {
-    return `ApiError: ${this.message}`;
+    return `${this.name}: ${this.message}`;
   }
 
   /**
-   * Creates and returns an `ApiError` from the passed response.
+   * Returns a plain object describing this error, which is used by `JSON.stringify` (and therefore by most structured
+   * loggers).
+   *
+   * @since 3.7.0
+   */
+  public toJSON() {
+    const { name, message, title, statusCode, field, method, url, requestId, headers, links } = this;
+    return { name, message, title, statusCode, field, method, url, requestId, headers, links };
+  }
+
+  /**
+   * Creates and returns an `ApiError` from the passed response. The returned error is an instance of the subclass which
+   * matches the status code of the response, such as `NotFoundError` for `404 Not Found`.
    *
    * @since 3.0.0
    */
-  public static createFromResponse(response: AxiosResponse): ApiError {
-    return new ApiError(response.data.detail ?? 'Received an error without a message', response.data.title, response.data.status, response.data.field, response.data._links);
+  public static createFromResponse(response: ErrorResponse): ApiError {
+    const { detail = 'Received an error without a message', title, status = response.status, field, _links: links } = response.data ?? {};
+    const context = composeContext(response.config, response.headers);
+    switch (response.status) {
+      case 401:
+        return new AuthenticationError(detail, title, status, field, links, context);
+      case 403:
+        return new ForbiddenError(detail, title, status, field, links, context);
+      case 404:
+        return new NotFoundError(detail, title, status, field, links, context);
+      case 422:
+        return new ValidationError(detail, title, status, field, links, context);
+      case 429:
+        return new RateLimitError(detail, title, status, field, links, context, parseRetryAfter(response.headers?.['retry-after']));
+    }
+    if (response.status >= 500) {
+      return new ServerError(detail, title, status, field, links, context);
+    }
+    return new ApiError(detail, title, status, field, links, context);
+  }
+}
+
+/**
+ * Composes the context of an error from the passed request config and response headers.
+ */
+function composeContext(config: ErrorResponse['config'], headers: Maybe<Record<string, string>>): ApiErrorContext {
+  return {
+    method: config?.method?.toUpperCase(),
+    url: config == undefined ? undefined : resolveUrl(config.baseURL, config.url),
+    headers,
+  };
+}
+
+/**
+ * Returns the number of seconds described by the passed `Retry-After` header value, which is either a number of seconds
+ * or an HTTP date. Returns `undefined` if the value is missing or cannot be parsed.
+ */
+function parseRetryAfter(value: Maybe<string>): Maybe<number> {
+  if (value == undefined) {
+    return undefined;
+  }
+  if (/^\s*\d+\s*$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  const date = Date.parse(value);
+  if (isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, Math.ceil((date - Date.now()) / 1e3));
+}
+
+/**
+ * The error thrown when the Mollie API responds with `401 Unauthorized`, which means the API key or access token is
+ * missing or invalid.
+ */
+export class AuthenticationError extends ApiError {
+  public constructor(message: string, title?: string, statusCode?: number, field?: string, links?: MollieApiErrorLinks, context?: ApiErrorContext) {
+    super(message, title, statusCode, field, links, context);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The error thrown when the Mollie API responds with `403 Forbidden`, which means the API key or access token lacks
+ * the permission to perform the request.
+ */
+export class ForbiddenError extends ApiError {
+  public constructor(message: string, title?: string, statusCode?: number, field?: string, links?: MollieApiErrorLinks, context?: ApiErrorContext) {
+    super(message, title, statusCode, field, links, context);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * The error thrown when the Mollie API responds with `404 Not Found`, which means the requested resource does not
+ * exist.
+ */
+export class NotFoundError extends ApiError {
+  public constructor(message: string, title?: string, statusCode?: number, field?: string, links?: MollieApiErrorLinks, context?: ApiErrorContext) {
+    super(message, title, statusCode, field, links, context);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The error thrown when the Mollie API responds with `422 Unprocessable Entity`, which means the request contains
+ * invalid data. The `field` property holds the name of the offending field (if known).
+ */
+export class ValidationError extends ApiError {
+  public constructor(message: string, title?: string, statusCode?: number, field?: string, links?: MollieApiErrorLinks, context?: ApiErrorContext) {
+    super(message, title, statusCode, field, links, context);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * The error thrown when the Mollie API responds with `429 Too Many Requests`, which means too many requests have been
+ * sent in too short a time.
+ */
+export class RateLimitError extends ApiError {
+  public constructor(
+    message: string,
+    title?: string,
+    statusCode?: number,
+    field?: string,
+    links?: MollieApiErrorLinks,
+    context?: ApiErrorContext,
+    /**
+     * The number of seconds to wait before sending another request, as dictated by the `Retry-After` header of the
+     * response (if any).
+     */
+    public readonly retryAfter?: number,
+  ) {
+    super(message, title, statusCode, field, links, context);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * The error thrown when the Mollie API responds with a status code of `500` or higher, which means the Mollie API
+ * failed to handle the request.
+ */
+export class ServerError extends ApiError {
+  public constructor(message: string, title?: string, statusCode?: number, field?: string, links?: MollieApiErrorLinks, context?: ApiErrorContext) {
+    super(message, title, statusCode, field, links, context);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The error thrown when a request fails without a response from the Mollie API, such as when the connection is reset
+ * or the request times out. The `code` property holds the error code of the underlying failure (if any), such as
+ * `'ECONNRESET'`.
+ */
+export class NetworkError extends ApiError {
+  public constructor(message: string, public readonly code?: string, context?: ApiErrorContext) {
+    super(message, undefined, undefined, undefined, undefined, context);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The error thrown when a request is aborted through the signal passed to the method which sent it.
+ */
+export class AbortError extends NetworkError {
+  public constructor(message: string, context?: ApiErrorContext) {
+    super(message, 'ABORT_ERR', context);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * The error thrown ‒ without the request being sent ‒ when the circuit breaker is open, which means too many requests
+ * have failed in a row recently.
+ */
+export class CircuitOpenError extends ApiError {
+  public constructor(
+    message: string,
+    context?: ApiErrorContext,
+    /**
+     * The number of seconds until the circuit breaker lets a trial request through.
+     */
+    public readonly retryAfter?: number,
+  ) {
+    super(message, undefined, undefined, undefined, undefined, context);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * The error thrown ‒ before any request is sent ‒ when an ID passed to this library is invalid, such as a payment ID
+ * which does not start with `'tr_'`.
+ */
+export class InvalidIdError extends ApiError {
+  public constructor(message: string) {
+    super(message);
+    this.name = 'InvalidIdError';
+  }
+}
+
+/**
+ * The error thrown when the signature of a webhook payload is missing or invalid, which means the payload may not have
+ * been sent by Mollie.
+ */
+export class InvalidSignatureError extends ApiError {
+  public constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSignatureError';
   }
 }
@@ -0,0 +1,68 @@
+import { Amount } from '../data/global';
+
+/**
+ * The number of decimals of the currencies whose amounts do not have two decimals, per
+ * [ISO 4217](https://en.wikipedia.org/wiki/ISO_4217).
+ */
+const exceptionalDecimals = new Map<string, number>([
+  ['BHD', 3],
+  ['BIF', 0],
+  ['CLP', 0],
+  ['DJF', 0],
+  ['GNF', 0],
+  ['IQD', 3],
+  ['ISK', 0],
+  ['JOD', 3],
+  ['JPY', 0],
+  ['KMF', 0],
+  ['KRW', 0],
+  ['KWD', 3],
+  ['LYD', 3],
+  ['OMR', 3],
+  ['PYG', 0],
+  ['RWF', 0],
+  ['TND', 3],
+  ['UGX', 0],
+  ['VND', 0],
+  ['VUV', 0],
+  ['XAF', 0],
+  ['XOF', 0],
+  ['XPF', 0],
+]);
+
+/**
+ * Returns the number of decimals of amounts in the passed currency, such as `2` for `'EUR'` or `0` for `'JPY'`.
+ */
+export function getDecimals(currency: string) {
+  return exceptionalDecimals.get(currency) ?? 2;
+}
+
+/**
+ * Returns the value of the passed amount in cents (or the equivalent minor unit for other currencies). For example:
+ * `{ currency: 'EUR', value: '10.25' }` is converted to `1025`, and `{ currency: 'JPY', value: '1025' }` to `1025`.
+ */
+export function toCents({ currency, value }: Amount) {
+  return Math.round(parseFloat(value) * Math.pow(10, getDecimals(currency)));
+}
+
+/**
+ * Returns an amount of the passed number of cents (or the equivalent minor unit for other currencies) in the passed
+ * currency. For example: `1025` and `'EUR'` is converted to `{ currency: 'EUR', value: '10.25' }`, and `1025` and
+ * `'JPY'` to `{ currency: 'JPY', value: '1025' }`.
+ */
+export function fromCents(cents: number, currency: string): Amount {
+  const decimals = getDecimals(currency);
+  return { currency, value: (cents / Math.pow(10, decimals)).toFixed(decimals) };
+}
+
+/**
+ * Returns whether the passed input is a well-formed amount with the number of decimals of its currency, such as
+ * `{ currency: 'EUR', value: '10.00' }` or `{ currency: 'JPY', value: '1000' }`.
+ */
+export function isAmount(input: any): input is Amount {
+  if (typeof input != 'object' || input == null || typeof input.currency != 'string' || typeof input.value != 'string') {
+    return false;
+  }
+  const decimals = getDecimals(input.currency);
+  return new RegExp(decimals == 0 ? '^\\d+$' : `^\\d+\\.\\d{${decimals}}$`).test(input.value);
+}
@@ -1,11 +1,30 @@
 import Maybe from '../types/Maybe';
 
-type ResourceKind = 'capture' | 'chargeback' | 'customer' | 'mandate' | 'order' | 'orderline' | 'organization' | 'payment' | 'payment-link' | 'profile' | 'refund' | 'shipment' | 'subscription';
+export type ResourceKind =
+  | 'balance'
+  | 'capture'
+  | 'chargeback'
+  | 'customer'
+  | 'invoice'
+  | 'mandate'
+  | 'order'
+  | 'orderline'
+  | 'organization'
+  | 'payment'
+  | 'payment-link'
+  | 'profile'
+  | 'refund'
+  | 'settlement'
+  | 'shipment'
+  | 'subscription'
+  | 'terminal';
 
 const prefixes = new Map<ResourceKind, string>([
+  ['balance', 'bal_'],
   ['capture', 'cpt_'],
   ['chargeback', 'chb_'],
   ['customer', 'cst_'],
+  ['invoice', 'inv_'],
   ['mandate', 'mdt_'],
   ['order', 'ord_'],
   ['orderline', 'odl_'],
@@ -14,9 +33,19 @@ const prefixes = new Map<ResourceKind, string>([
   ['payment-link', 'pl_'],
   ['profile', 'pfl_'],
   ['refund', 're_'],
+  ['settlement', 'stl_'],
   ['shipment', 'shp_'],
   ['subscription', 'sub_'],
+  ['terminal', 'term_'],
 ]);
+/**
+ * Returns the prefix of the identifiers of the passed kind of resource, such as `'tr_'` for payments.
+ */
+export function getIdPrefix(resource: ResourceKind) {
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  return prefixes.get(resource)!;
+}
+
 /**
  * Returns whether the passed identifier seems plausible (`true`); or is definitely invalid (`false`).
  */
@@ -24,6 +53,5 @@ export default function checkId(value: Maybe<string>, resource: ResourceKind): v
   if (typeof value != 'string') {
     return false;
   }
-  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-  return value.startsWith(prefixes.get(resource)!);
+  return value.startsWith(getIdPrefix(resource));
 }
@@ -0,0 +1,6 @@
+/**
+ * Returns whether the passed value is an object with a property with the passed name (`true`) or not (`false`).
+ */
+export default function findProperty<K extends string>(value: unknown, name: K): value is Record<K, unknown> {
+  return typeof value == 'object' && value != null && name in value;
+}
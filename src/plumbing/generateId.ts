@@ -0,0 +1,10 @@
+import { randomBytes } from 'crypto';
+
+const alphabet = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+/**
+ * Generates a random identifier with the passed prefix, such as `'tr_'`. For example: `'tr_7UhSN1zuXS'`.
+ */
+export default function generateId(prefix: string) {
+  return `${prefix}${Array.from(randomBytes(10), byte => alphabet[byte % alphabet.length]).join('')}`;
+}
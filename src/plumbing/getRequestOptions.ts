@@ -0,0 +1,16 @@
+import Callback from '../types/Callback';
+import Maybe from '../types/Maybe';
+import { RequestOptions } from '../types/parameters';
+
+/**
+ * Returns the passed request options, or `undefined` if a callback was passed in their place.
+ *
+ * Methods which accept either request options or a callback as their last argument call `renege` first, which takes
+ * care of the callback. This function narrows the type of that argument for the remainder of such a method.
+ */
+export default function getRequestOptions<R>(options: Maybe<RequestOptions | Callback<R>>): Maybe<RequestOptions> {
+  if (typeof options == 'function') {
+    return undefined;
+  }
+  return options;
+}
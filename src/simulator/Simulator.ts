@@ -0,0 +1,365 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+// If support for Node.js < 10.0.0 is ever dropped, this import can be removed.
+import { URL, URLSearchParams } from 'url';
+
+import Transport, { TransportResponse } from '../communication/Transport';
+import { ChargebackData } from '../data/chargebacks/Chargeback';
+import { Amount, ApiMode } from '../data/global';
+import { OrderStatus } from '../data/orders/data';
+import { PaymentStatus } from '../data/payments/data';
+import { RefundStatus } from '../data/refunds/data';
+import buildFromEntries from '../plumbing/buildFromEntries';
+import findProperty from '../plumbing/findProperty';
+import Maybe from '../types/Maybe';
+import { composeErrorBody, SimulatorError } from './hal';
+import postForm from './postForm';
+import findRoute, { apiRoutes, presentChargeback, presentOrder, presentPayment, presentPaymentLink, presentRefund, Route } from './routes';
+import SimulatorState from './SimulatorState';
+
+export interface SimulatorOptions {
+  /**
+   * The mode of the simulated resources. Default: `'test'`.
+   */
+  mode?: ApiMode;
+  /**
+   * The URL webhooks are delivered to. If set, this URL is used instead of the `webhookUrl` of the resources.
+   */
+  webhookUrl?: string;
+  /**
+   * The number of milliseconds after which a webhook delivery is considered failed if no response has been received.
+   * Default: `10000`.
+   */
+  webhookTimeout?: number;
+}
+
+export interface WebhookDelivery {
+  /**
+   * The ID of the resource the webhook was called for, such as `'tr_7UhSN1zuXS'`.
+   */
+  id: string;
+  url: string;
+  /**
+   * The status code of the response, or `undefined` if no response was received.
+   */
+  status?: number;
+  /**
+   * The message of the error which occurred if no response was received.
+   */
+  error?: string;
+  deliveredAt: string;
+}
+
+/**
+ * Parses the passed request body as JSON. Returns `undefined` if the body is empty.
+ */
+function parseBody(body: string): any {
+  if (body.length == 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch (error) {
+    throw new SimulatorError(400, 'The request body is not valid JSON');
+  }
+}
+
+/**
+ * Reads the body of the passed request, and parses it as JSON. Returns `undefined` if the body is empty.
+ */
+function readBody(request: IncomingMessage) {
+  return new Promise<any>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('error', reject);
+    request.on('end', () => {
+      try {
+        resolve(parseBody(Buffer.concat(chunks).toString('utf8')));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
+
+function send(response: ServerResponse, status: number, body?: unknown) {
+  if (body == undefined) {
+    response.writeHead(status == 200 ? 204 : status);
+    response.end();
+    return;
+  }
+  response.writeHead(status, { 'Content-Type': 'application/hal+json' });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * A local, in-memory imitation of the Mollie API. Point a client at it by passing the URL returned by `listen` as the
+ * `apiEndpoint` option, or by passing `transport` as the `transport` option.
+ *
+ * Payments, refunds, chargebacks, customers, mandates, subscriptions, orders (with their lines, shipments, and
+ * captures), payment links, methods, and profiles are supported. The lifecycles of these resources are simulated, but
+ * resources do not change status on their own: transitions which Mollie would make in reaction to a consumer or a bank
+ * (such as a payment being paid) are forced through the admin API. Both an HTTP admin API (under `/_admin/`) and
+ * equivalent methods on this class are available. Forcing a transition calls the webhook of the resource.
+ *
+ * The HTTP admin API consists of:
+ *  * `POST /_admin/payments/:id/status` with `{ status }`, which transitions a payment;
+ *  * `POST /_admin/orders/:id/status` with `{ status }`, which transitions an order;
+ *  * `POST /_admin/refunds/:id/status` with `{ status }`, which transitions a refund;
+ *  * `POST /_admin/payments/:id/chargebacks` with `{ amount?, reason? }`, which charges a payment back;
+ *  * `POST /_admin/subscriptions/:id/charge`, which creates the next payment of a subscription;
+ *  * `POST /_admin/payment-links/:id/pay`, which pays a payment link;
+ *  * `POST /_admin/webhooks` with `{ id }`, which calls the webhook of a resource; and
+ *  * `GET /_admin/webhooks`, which lists the webhook deliveries.
+ */
+export default class Simulator {
+  readonly state: SimulatorState;
+  /**
+   * The webhook deliveries, from oldest to newest.
+   */
+  readonly deliveries: WebhookDelivery[];
+  protected readonly webhookUrl?: string;
+  protected readonly webhookTimeout: number;
+  /**
+   * A transport which sends requests to this simulator directly, without an HTTP server. Pass it as the `transport`
+   * option to use the simulator in-process. The links in the responses use the origin of the requested URLs (which is
+   * `https://api.mollie.com/v2/` unless the `apiEndpoint` option is passed).
+   */
+  readonly transport: Transport;
+  protected readonly adminRoutes: Route[];
+  protected server?: Server;
+  protected origin?: string;
+  constructor({ mode, webhookUrl, webhookTimeout = 10e3 }: SimulatorOptions = {}) {
+    this.state = new SimulatorState(mode);
+    this.deliveries = [];
+    this.webhookUrl = webhookUrl;
+    this.webhookTimeout = webhookTimeout;
+    this.transport = {
+      send: async ({ method, url, headers, body }) => {
+        const parsedUrl = new URL(url);
+        const [status, responseBody] = await this.dispatch(method, parsedUrl, `${parsedUrl.origin}/v2/`, headers['Authorization'] ?? headers['authorization'], async () => parseBody(body ?? ''));
+        if (responseBody == undefined) {
+          return { status: status == 200 ? 204 : status, headers: {}, body: undefined } as TransportResponse;
+        }
+        return { status, headers: { 'content-type': 'application/hal+json' }, body: responseBody } as TransportResponse;
+      },
+    };
+    this.adminRoutes = [
+      {
+        method: 'POST',
+        pattern: 'payments/:id/status',
+        handle: async context => presentPayment(context, await this.transitionPayment(context.parameters.id, context.body?.status)),
+      },
+      {
+        method: 'POST',
+        pattern: 'orders/:id/status',
+        handle: async context => presentOrder(context, await this.transitionOrder(context.parameters.id, context.body?.status)),
+      },
+      {
+        method: 'POST',
+        pattern: 'refunds/:id/status',
+        handle: async ({ origin, parameters, body }) => presentRefund(origin, await this.transitionRefund(parameters.id, body?.status)),
+      },
+      {
+        method: 'POST',
+        pattern: 'payments/:id/chargebacks',
+        status: 201,
+        handle: async ({ origin, parameters, body }) => presentChargeback(origin, await this.createChargeback(parameters.id, body ?? {})),
+      },
+      {
+        method: 'POST',
+        pattern: 'subscriptions/:id/charge',
+        status: 201,
+        handle: async context => presentPayment(context, await this.chargeSubscription(context.parameters.id)),
+      },
+      {
+        method: 'POST',
+        pattern: 'payment-links/:id/pay',
+        handle: async ({ origin, parameters, state }) => {
+          await this.payPaymentLink(parameters.id);
+          return presentPaymentLink(origin, state.getPaymentLink(parameters.id));
+        },
+      },
+      {
+        method: 'POST',
+        pattern: 'webhooks',
+        handle: async ({ body }) => (await this.fireWebhook(body?.id)) ?? { id: body?.id, url: null },
+      },
+      { method: 'GET', pattern: 'webhooks', handle: () => ({ count: this.deliveries.length, deliveries: this.deliveries }) },
+    ];
+  }
+
+  /**
+   * The URL to pass as the `apiEndpoint` option, such as `'http://127.0.0.1:4000/v2/'`. Only available while the
+   * simulator is listening.
+   */
+  get apiEndpoint(): Maybe<string> {
+    return this.origin;
+  }
+
+  /**
+   * Starts the HTTP server, and returns a promise which resolves with the URL to pass as the `apiEndpoint` option. If
+   * no port is passed, a random available port is used.
+   */
+  listen(port = 0, hostname = '127.0.0.1') {
+    return new Promise<string>((resolve, reject) => {
+      const server = createServer((request, response) => void this.handle(request, response));
+      server.once('error', reject);
+      server.listen(port, hostname, () => {
+        const { port } = server.address() as AddressInfo;
+        this.server = server;
+        this.origin = `http://${hostname}:${port}/v2/`;
+        resolve(this.origin);
+      });
+    });
+  }
+
+  /**
+   * Stops the HTTP server.
+   */
+  close() {
+    return new Promise<void>((resolve, reject) => {
+      const { server } = this;
+      if (server == undefined) {
+        resolve();
+        return;
+      }
+      server.close(error => {
+        if (error != undefined) {
+          reject(error);
+          return;
+        }
+        this.server = undefined;
+        this.origin = undefined;
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Transitions the payment to the passed status (such as `'paid'`), and calls the webhook.
+   */
+  async transitionPayment(id: string, status: PaymentStatus) {
+    const payment = this.state.transitionPayment(id, status);
+    await this.fireWebhook(payment.orderId ?? id);
+    return payment;
+  }
+
+  /**
+   * Transitions the order to the passed status (such as `'paid'` or `'authorized'`), and calls the webhook.
+   */
+  async transitionOrder(id: string, status: OrderStatus) {
+    const order = this.state.transitionOrder(id, status);
+    await this.fireWebhook(id);
+    return order;
+  }
+
+  /**
+   * Transitions the refund to the passed status (such as `'refunded'`), and calls the webhook of the payment or order.
+   */
+  async transitionRefund(id: string, status: RefundStatus) {
+    const refund = this.state.transitionRefund(id, status);
+    await this.fireWebhook(refund.orderId ?? refund.paymentId);
+    return refund;
+  }
+
+  /**
+   * Charges the payment back (by default: the full amount), and calls the webhook of the payment or order.
+   */
+  async createChargeback(paymentId: string, parameters: { amount?: Amount; reason?: ChargebackData['reason'] } = {}) {
+    const chargeback = this.state.createChargeback(paymentId, parameters);
+    await this.fireWebhook(this.state.getPayment(paymentId).orderId ?? paymentId);
+    return chargeback;
+  }
+
+  /**
+   * Creates the next payment of the subscription, and calls the webhook.
+   */
+  async chargeSubscription(id: string) {
+    const payment = this.state.chargeSubscription(id);
+    await this.fireWebhook(payment.id);
+    return payment;
+  }
+
+  /**
+   * Pays the payment link, and calls the webhook.
+   */
+  async payPaymentLink(id: string) {
+    const payment = this.state.payPaymentLink(id);
+    await this.fireWebhook(id);
+    return payment;
+  }
+
+  /**
+   * Calls the webhook of the resource with the passed ID, by sending a form-encoded `id=…` body to its `webhookUrl` (or
+   * to the `webhookUrl` passed to the simulator). Returns the delivery, or `undefined` if there is no URL to deliver to.
+   */
+  async fireWebhook(id: string): Promise<Maybe<WebhookDelivery>> {
+    const url = this.webhookUrl ?? this.getWebhookUrl(id);
+    if (url == undefined) {
+      return undefined;
+    }
+    const delivery: WebhookDelivery = { id, url, deliveredAt: new Date().toISOString() };
+    try {
+      delivery.status = (await postForm(url, new URLSearchParams({ id }).toString(), this.webhookTimeout)).status;
+    } catch (error) {
+      delivery.error = findProperty(error, 'message') ? String(error.message) : 'An unknown error has occurred';
+    }
+    this.deliveries.push(delivery);
+    return delivery;
+  }
+
+  protected getWebhookUrl(id: string): Maybe<string> {
+    const { state } = this;
+    switch (id.substring(0, id.indexOf('_') + 1)) {
+      case 'tr_':
+        return state.getPayment(id).webhookUrl;
+      case 'ord_':
+        return state.getOrder(id).webhookUrl;
+      case 'sub_':
+        return state.getSubscription(id).webhookUrl ?? undefined;
+      case 'pl_':
+        return state.getPaymentLink(id).webhookUrl;
+    }
+    throw new SimulatorError(422, `The resource ${id} does not have a webhook`, 'id');
+  }
+
+  protected async handle(request: IncomingMessage, response: ServerResponse) {
+    const [status, body] = await this.dispatch(request.method as string, new URL(request.url as string, 'http://localhost'), this.origin as string, request.headers.authorization, () =>
+      readBody(request),
+    );
+    send(response, status, body);
+  }
+
+  /**
+   * Routes the request to the API or the admin API, and returns a promise which resolves with the status code and the
+   * body of the response. The passed origin is used in the links in the response.
+   */
+  protected async dispatch(method: string, url: URL, origin: string, authorization: Maybe<string>, receiveBody: () => Promise<any>): Promise<[number, unknown]> {
+    try {
+      const { pathname, searchParams } = url;
+      let routes: Route[];
+      let relativePathname: string;
+      if (pathname.startsWith('/v2/')) {
+        if (!/^Bearer \S+$/.test(authorization ?? '')) {
+          throw new SimulatorError(401, 'Missing authentication, or failed to authenticate');
+        }
+        routes = apiRoutes;
+        relativePathname = pathname.substring(4);
+      } else if (pathname.startsWith('/_admin/')) {
+        routes = this.adminRoutes;
+        relativePathname = pathname.substring(8);
+      } /* if (pathname.startsWith('/v2/') == false && pathname.startsWith('/_admin/') == false) */ else {
+        throw new SimulatorError(404, 'The resource does not exist');
+      }
+      const [route, parameters] = findRoute(routes, method, relativePathname);
+      const body = await receiveBody();
+      return [route.status ?? 200, await route.handle({ state: this.state, origin, parameters, query: buildFromEntries(searchParams), body })];
+    } catch (error) {
+      if (error instanceof SimulatorError) {
+        return [error.status, composeErrorBody(error)];
+      }
+      return [500, composeErrorBody(new SimulatorError(500, findProperty(error, 'message') ? String(error.message) : 'An unknown error has occurred'))];
+    }
+  }
+}
@@ -0,0 +1,1062 @@
+import { CreateParameters as OrderCreateParameters } from '../binders/orders/parameters';
+import { ChargebackData } from '../data/chargebacks/Chargeback';
+import { CustomerData } from '../data/customers/Customer';
+import { MandateData, MandateMethod, MandateStatus } from '../data/customers/mandates/data';
+import { Amount, ApiMode, Locale, PaymentMethod, SequenceType } from '../data/global';
+import { MethodData } from '../data/methods/data';
+import { OrderData, OrderStatus } from '../data/orders/data';
+import { OrderLineData, OrderLineType } from '../data/orders/orderlines/OrderLine';
+import { ShipmentData } from '../data/orders/shipments/Shipment';
+import { PaymentLinkData } from '../data/paymentLinks/data';
+import { CaptureData } from '../data/payments/captures/data';
+import { PaymentData, PaymentStatus } from '../data/payments/data';
+import { ProfileData, ProfileStatus } from '../data/profiles/data';
+import { RefundData, RefundStatus } from '../data/refunds/data';
+import { SubscriptionData, SubscriptionStatus } from '../data/subscriptions/data';
+import { fromCents, isAmount, toCents } from '../plumbing/amounts';
+import generateId from '../plumbing/generateId';
+import Maybe from '../types/Maybe';
+import { SimulatorError } from './hal';
+
+/**
+ * A resource as stored by the simulator: without the links (which are composed whenever the resource is sent) and
+ * without embedded resources.
+ */
+export type Stored<T> = Omit<T, '_links' | '_embedded'>;
+
+type StoredOrderLine = Omit<OrderLineData, '_links'>;
+type StoredOrder = Omit<Stored<OrderData>, 'lines'> & { lines: StoredOrderLine[] };
+type StoredShipment = Omit<Stored<ShipmentData>, 'lines'> & { lines: StoredOrderLine[] };
+type StoredRefund = Omit<Stored<RefundData>, 'lines'> & { lines?: StoredOrderLine[] };
+
+/**
+ * The statuses a payment may transition to, per status. Payments in any other status are final.
+ */
+const paymentTransitions: Partial<Record<PaymentStatus, PaymentStatus[]>> = {
+  open: [PaymentStatus.pending, PaymentStatus.authorized, PaymentStatus.paid, PaymentStatus.failed, PaymentStatus.expired, PaymentStatus.canceled],
+  pending: [PaymentStatus.authorized, PaymentStatus.paid, PaymentStatus.failed, PaymentStatus.expired, PaymentStatus.canceled],
+  authorized: [PaymentStatus.paid, PaymentStatus.expired, PaymentStatus.canceled],
+};
+
+/**
+ * The names of the timestamps set when a payment transitions to a status.
+ */
+const paymentTimestamps: Partial<Record<PaymentStatus, 'authorizedAt' | 'paidAt' | 'canceledAt' | 'expiredAt' | 'failedAt'>> = {
+  authorized: 'authorizedAt',
+  paid: 'paidAt',
+  canceled: 'canceledAt',
+  expired: 'expiredAt',
+  failed: 'failedAt',
+};
+
+/**
+ * The payment methods offered by the simulator.
+ */
+const methods: Array<{ id: PaymentMethod; description: string; minimum: number; maximum: Maybe<number> }> = [
+  { id: PaymentMethod.ideal, description: 'iDEAL', minimum: 1, maximum: 5000000 },
+  { id: PaymentMethod.creditcard, description: 'Credit card', minimum: 1, maximum: 500000 },
+  { id: PaymentMethod.bancontact, description: 'Bancontact', minimum: 2, maximum: 5000000 },
+  { id: PaymentMethod.banktransfer, description: 'Bank transfer', minimum: 1, maximum: 100000000 },
+  { id: PaymentMethod.directdebit, description: 'SEPA Direct Debit', minimum: 1, maximum: 100000 },
+  { id: PaymentMethod.paypal, description: 'PayPal', minimum: 1, maximum: undefined },
+  { id: PaymentMethod.klarnapaylater, description: 'Pay later.', minimum: 1, maximum: 200000 },
+];
+
+/**
+ * Returns the current moment, in ISO 8601 format.
+ */
+function now() {
+  return new Date().toISOString();
+}
+
+/**
+ * Returns the values of the passed map ordered from newest to oldest, optionally filtered by the passed predicate.
+ */
+function listValues<T>(map: Map<string, T>, predicate: (value: T) => boolean = () => true) {
+  return Array.from(map.values()).filter(predicate).reverse();
+}
+
+/**
+ * Returns the value stored under the passed ID in the passed map, or throws a `404` error if there is none.
+ */
+function find<T>(map: Map<string, T>, id: string, description: string) {
+  const value = map.get(id);
+  if (value == undefined) {
+    throw new SimulatorError(404, `No ${description} exists with token ${id}.`);
+  }
+  return value;
+}
+
+/**
+ * Throws a `422` error for the passed field if it is not a well-formed amount.
+ */
+function requireAmount(input: unknown, field: string): Amount {
+  if (!isAmount(input)) {
+    throw new SimulatorError(422, `The ${field} is invalid`, field);
+  }
+  return input;
+}
+
+/**
+ * Throws a `422` error for the passed field if it is not a non-empty string.
+ */
+function requireString(input: unknown, field: string): string {
+  if (typeof input != 'string' || input.length == 0) {
+    throw new SimulatorError(422, `The ${field} is missing`, field);
+  }
+  return input;
+}
+
+/**
+ * Returns the date which lies the passed interval (such as `'1 month'` or `'14 days'`) after the passed date, in the
+ * `YYYY-MM-DD` format.
+ */
+function addInterval(date: string, interval: string) {
+  const matches = /^(\d+) (day|week|month)s?$/.exec(interval);
+  if (matches == null) {
+    throw new SimulatorError(422, 'The interval is invalid', 'interval');
+  }
+  const result = new Date(`${date}T00:00:00Z`);
+  const count = parseInt(matches[1], 10);
+  switch (matches[2]) {
+    case 'day':
+      result.setUTCDate(result.getUTCDate() + count);
+      break;
+    case 'week':
+      result.setUTCDate(result.getUTCDate() + count * 7);
+      break;
+    default:
+      result.setUTCMonth(result.getUTCMonth() + count);
+  }
+  return result.toISOString().substring(0, 10);
+}
+
+/**
+ * Holds the resources of the simulator, and implements their lifecycles.
+ */
+export default class SimulatorState {
+  readonly payments = new Map<string, Stored<PaymentData>>();
+  readonly refunds = new Map<string, StoredRefund>();
+  readonly chargebacks = new Map<string, Stored<ChargebackData>>();
+  readonly captures = new Map<string, Stored<CaptureData>>();
+  readonly customers = new Map<string, Stored<CustomerData>>();
+  readonly mandates = new Map<string, Stored<MandateData> & { customerId: string }>();
+  readonly subscriptions = new Map<string, Stored<SubscriptionData> & { customerId: string }>();
+  readonly orders = new Map<string, StoredOrder>();
+  readonly shipments = new Map<string, StoredShipment>();
+  readonly paymentLinks = new Map<string, Stored<PaymentLinkData>>();
+  readonly profiles = new Map<string, Stored<ProfileData>>();
+  readonly currentProfileId: string;
+  constructor(protected readonly mode: ApiMode = ApiMode.test) {
+    this.currentProfileId = this.createProfile({ name: 'Simulated shop', website: 'https://shop.example.org', email: 'info@shop.example.org', phone: '+31208202070' }).id;
+  }
+
+  // Payments.
+
+  createPayment(parameters: any, context: Partial<Pick<PaymentData, 'customerId' | 'mandateId' | 'subscriptionId' | 'orderId'>> = {}) {
+    const amount = requireAmount(parameters.amount, 'amount');
+    const description = requireString(parameters.description, 'description');
+    const customerId = context.customerId ?? parameters.customerId;
+    if (customerId != undefined) {
+      find(this.customers, customerId, 'customer');
+    }
+    const sequenceType: SequenceType = parameters.sequenceType ?? SequenceType.oneoff;
+    let mandateId: Maybe<string> = context.mandateId ?? parameters.mandateId;
+    if (sequenceType == SequenceType.recurring) {
+      if (customerId == undefined) {
+        throw new SimulatorError(422, 'A customer is required for recurring payments', 'customerId');
+      }
+      mandateId = mandateId ?? listValues(this.mandates, mandate => mandate.customerId == customerId && mandate.status == MandateStatus.valid)[0]?.id;
+      if (mandateId == undefined) {
+        throw new SimulatorError(422, 'The customer does not have a valid mandate', 'mandateId');
+      }
+    }
+    const createdAt = now();
+    const payment: Stored<PaymentData> = {
+      resource: 'payment',
+      id: generateId('tr_'),
+      mode: this.mode,
+      createdAt,
+      status: sequenceType == SequenceType.recurring ? PaymentStatus.pending : PaymentStatus.open,
+      isCancelable: sequenceType != SequenceType.recurring,
+      expiresAt: new Date(Date.parse(createdAt) + 15 * 60e3).toISOString(),
+      amount,
+      description,
+      redirectUrl: parameters.redirectUrl,
+      webhookUrl: parameters.webhookUrl,
+      method: parameters.method,
+      metadata: parameters.metadata ?? null,
+      locale: parameters.locale ?? Locale.en_US,
+      profileId: this.currentProfileId,
+      customerId,
+      sequenceType,
+      mandateId,
+      subscriptionId: context.subscriptionId,
+      orderId: context.orderId,
+    };
+    this.payments.set(payment.id, payment);
+    return payment;
+  }
+
+  getPayment(id: string) {
+    return find(this.payments, id, 'payment');
+  }
+
+  listPayments(predicate?: (payment: Stored<PaymentData>) => boolean) {
+    return listValues(this.payments, predicate);
+  }
+
+  updatePayment(id: string, { description, redirectUrl, webhookUrl, metadata }: any) {
+    const payment = this.getPayment(id);
+    return Object.assign(payment, {
+      description: description ?? payment.description,
+      redirectUrl: redirectUrl ?? payment.redirectUrl,
+      webhookUrl: webhookUrl ?? payment.webhookUrl,
+      metadata: metadata ?? payment.metadata,
+    });
+  }
+
+  cancelPayment(id: string) {
+    const payment = this.getPayment(id);
+    if (!payment.isCancelable) {
+      throw new SimulatorError(422, `The payment ${id} cannot be canceled`);
+    }
+    return this.transitionPayment(id, PaymentStatus.canceled);
+  }
+
+  /**
+   * Transitions the payment to the passed status, and applies the effects of that transition to the related resources:
+   * a paid first payment results in a mandate, and the order or payment link (if any) follows the payment.
+   */
+  transitionPayment(id: string, status: PaymentStatus) {
+    const payment = this.getPayment(id);
+    if (!(paymentTransitions[payment.status] ?? []).includes(status)) {
+      throw new SimulatorError(422, `The payment ${id} cannot transition from ${payment.status} to ${status}`, 'status');
+    }
+    payment.status = status;
+    payment.isCancelable = status == PaymentStatus.open || status == PaymentStatus.authorized;
+    const timestamp = paymentTimestamps[status];
+    if (timestamp != undefined) {
+      payment[timestamp] = now();
+    }
+    if (status == PaymentStatus.paid) {
+      payment.method = payment.method ?? PaymentMethod.ideal;
+      payment.amountRefunded = fromCents(0, payment.amount.currency);
+      payment.amountRemaining = payment.amount;
+      payment.amountChargedBack = undefined;
+      if (payment.sequenceType == SequenceType.first && payment.customerId != undefined && payment.mandateId == undefined) {
+        payment.mandateId = this.createMandate(payment.customerId, {
+          method: MandateMethod.directdebit,
+          consumerName: 'T. TEST',
+          consumerAccount: 'NL55INGB0000000000',
+        }).id;
+      }
+    }
+    if (payment.orderId != undefined) {
+      this.followPayment(payment.orderId, status);
+    }
+    this.paymentLinks.forEach(paymentLink => {
+      if (status == PaymentStatus.paid && (payment.metadata as Maybe<{ paymentLinkId?: string }>)?.paymentLinkId == paymentLink.id) {
+        paymentLink.paidAt = payment.paidAt;
+      }
+    });
+    return payment;
+  }
+
+  // Refunds.
+
+  createRefund(paymentId: string, parameters: any, lines?: StoredOrderLine[]) {
+    const payment = this.getPayment(paymentId);
+    if (payment.status != PaymentStatus.paid) {
+      throw new SimulatorError(422, `The payment ${paymentId} has not been paid`);
+    }
+    const remaining = toCents(payment.amountRemaining ?? payment.amount);
+    const amount = parameters.amount == undefined ? fromCents(remaining, payment.amount.currency) : requireAmount(parameters.amount, 'amount');
+    if (toCents(amount) <= 0 || toCents(amount) > remaining) {
+      throw new SimulatorError(422, `The amount exceeds the remaining amount of the payment ${paymentId}`, 'amount');
+    }
+    this.adjustRefunded(payment, toCents(amount));
+    const refund: StoredRefund = {
+      resource: 'refund',
+      id: generateId('re_'),
+      amount,
+      description: parameters.description ?? '',
+      metadata: parameters.metadata,
+      status: RefundStatus.pending,
+      lines,
+      paymentId,
+      orderId: payment.orderId,
+      createdAt: now(),
+    };
+    this.refunds.set(refund.id, refund);
+    return refund;
+  }
+
+  getRefund(id: string, paymentId?: string) {
+    const refund = find(this.refunds, id, 'refund');
+    if (paymentId != undefined && refund.paymentId != paymentId) {
+      throw new SimulatorError(404, `No refund exists with token ${id}.`);
+    }
+    return refund;
+  }
+
+  listRefunds(predicate?: (refund: StoredRefund) => boolean) {
+    return listValues(this.refunds, predicate);
+  }
+
+  cancelRefund(id: string, paymentId: string) {
+    const refund = this.getRefund(id, paymentId);
+    if (refund.status != RefundStatus.queued && refund.status != RefundStatus.pending) {
+      throw new SimulatorError(422, `The refund ${id} cannot be canceled`);
+    }
+    this.adjustRefunded(this.getPayment(paymentId), -toCents(refund.amount));
+    this.refunds.delete(id);
+  }
+
+  transitionRefund(id: string, status: RefundStatus) {
+    const refund = this.getRefund(id);
+    if (refund.status == RefundStatus.refunded || refund.status == RefundStatus.failed) {
+      throw new SimulatorError(422, `The refund ${id} cannot transition from ${refund.status} to ${status}`, 'status');
+    }
+    // A failed refund returns the amount to the payment.
+    if (status == RefundStatus.failed) {
+      this.adjustRefunded(this.getPayment(refund.paymentId), -toCents(refund.amount));
+    }
+    refund.status = status;
+    return refund;
+  }
+
+  protected adjustRefunded(payment: Stored<PaymentData>, cents: number) {
+    const { currency } = payment.amount;
+    payment.amountRefunded = fromCents(toCents(payment.amountRefunded ?? fromCents(0, currency)) + cents, currency);
+    payment.amountRemaining = fromCents(toCents(payment.amountRemaining ?? payment.amount) - cents, currency);
+  }
+
+  // Chargebacks.
+
+  createChargeback(paymentId: string, { amount, reason }: { amount?: Amount; reason?: ChargebackData['reason'] } = {}) {
+    const payment = this.getPayment(paymentId);
+    if (payment.status != PaymentStatus.paid) {
+      throw new SimulatorError(422, `The payment ${paymentId} has not been paid`);
+    }
+    amount = amount ?? payment.amount;
+    const { currency } = payment.amount;
+    payment.amountChargedBack = fromCents(toCents(payment.amountChargedBack ?? fromCents(0, currency)) + toCents(amount), currency);
+    const chargeback: Stored<ChargebackData> = {
+      resource: 'chargeback',
+      id: generateId('chb_'),
+      amount,
+      settlementAmount: fromCents(-toCents(amount), currency),
+      createdAt: now(),
+      reason: reason ?? { code: 'AC01', description: 'Account identifier incorrect (i.e. invalid IBAN)' },
+      reversedAt: null,
+      paymentId,
+    };
+    this.chargebacks.set(chargeback.id, chargeback);
+    return chargeback;
+  }
+
+  getChargeback(id: string, paymentId?: string) {
+    const chargeback = find(this.chargebacks, id, 'chargeback');
+    if (paymentId != undefined && chargeback.paymentId != paymentId) {
+      throw new SimulatorError(404, `No chargeback exists with token ${id}.`);
+    }
+    return chargeback;
+  }
+
+  listChargebacks(predicate?: (chargeback: Stored<ChargebackData>) => boolean) {
+    return listValues(this.chargebacks, predicate);
+  }
+
+  // Captures.
+
+  createCapture(paymentId: string, amount: Amount, shipmentId?: string) {
+    const payment = this.getPayment(paymentId);
+    const { currency } = payment.amount;
+    payment.amountCaptured = fromCents(toCents(payment.amountCaptured ?? fromCents(0, currency)) + toCents(amount), currency);
+    const capture: Stored<CaptureData> = {
+      resource: 'capture',
+      id: generateId('cpt_'),
+      mode: this.mode,
+      amount,
+      settlementAmount: amount,
+      paymentId,
+      shipmentId,
+      createdAt: now(),
+    };
+    this.captures.set(capture.id, capture);
+    // The first capture of an authorized payment makes it paid.
+    if (payment.status == PaymentStatus.authorized) {
+      this.transitionPayment(paymentId, PaymentStatus.paid);
+    }
+    return capture;
+  }
+
+  getCapture(id: string, paymentId: string) {
+    const capture = find(this.captures, id, 'capture');
+    if (capture.paymentId != paymentId) {
+      throw new SimulatorError(404, `No capture exists with token ${id}.`);
+    }
+    return capture;
+  }
+
+  listCaptures(paymentId: string) {
+    return listValues(this.captures, capture => capture.paymentId == paymentId);
+  }
+
+  // Customers.
+
+  createCustomer({ name, email, locale, metadata }: any) {
+    const customer: Stored<CustomerData> = {
+      resource: 'customer',
+      id: generateId('cst_'),
+      mode: this.mode,
+      name: name ?? null,
+      email: email ?? null,
+      locale: locale ?? null,
+      recentlyUsedMethods: [],
+      metadata: metadata ?? null,
+      createdAt: now(),
+    };
+    this.customers.set(customer.id, customer);
+    return customer;
+  }
+
+  getCustomer(id: string) {
+    return find(this.customers, id, 'customer');
+  }
+
+  listCustomers() {
+    return listValues(this.customers);
+  }
+
+  updateCustomer(id: string, { name, email, locale, metadata }: any) {
+    const customer = this.getCustomer(id);
+    return Object.assign(customer, {
+      name: name ?? customer.name,
+      email: email ?? customer.email,
+      locale: locale ?? customer.locale,
+      metadata: metadata ?? customer.metadata,
+    });
+  }
+
+  deleteCustomer(id: string) {
+    this.getCustomer(id);
+    this.customers.delete(id);
+  }
+
+  // Mandates.
+
+  createMandate(customerId: string, { method, consumerName, consumerAccount, consumerBic, signatureDate, mandateReference }: any) {
+    this.getCustomer(customerId);
+    if (method != MandateMethod.directdebit && method != MandateMethod.paypal) {
+      throw new SimulatorError(422, 'The method is invalid', 'method');
+    }
+    const mandate: Stored<MandateData> & { customerId: string } = {
+      resource: 'mandate',
+      id: generateId('mdt_'),
+      mode: this.mode,
+      status: MandateStatus.valid,
+      method,
+      details: { consumerName: requireString(consumerName, 'consumerName'), consumerAccount: requireString(consumerAccount, 'consumerAccount'), consumerBic: consumerBic ?? 'INGBNL2A' },
+      mandateReference: mandateReference ?? null,
+      signatureDate: signatureDate ?? now().substring(0, 10),
+      createdAt: now(),
+      customerId,
+    };
+    this.mandates.set(mandate.id, mandate);
+    return mandate;
+  }
+
+  getMandate(id: string, customerId: string) {
+    const mandate = find(this.mandates, id, 'mandate');
+    if (mandate.customerId != customerId) {
+      throw new SimulatorError(404, `No mandate exists with token ${id}.`);
+    }
+    return mandate;
+  }
+
+  listMandates(customerId: string) {
+    this.getCustomer(customerId);
+    return listValues(this.mandates, mandate => mandate.customerId == customerId);
+  }
+
+  revokeMandate(id: string, customerId: string) {
+    this.getMandate(id, customerId);
+    this.mandates.delete(id);
+  }
+
+  // Subscriptions.
+
+  createSubscription(customerId: string, parameters: any) {
+    this.getCustomer(customerId);
+    const amount = requireAmount(parameters.amount, 'amount');
+    const interval = requireString(parameters.interval, 'interval');
+    const mandateId: Maybe<string> = parameters.mandateId ?? listValues(this.mandates, mandate => mandate.customerId == customerId && mandate.status == MandateStatus.valid)[0]?.id;
+    if (mandateId == undefined) {
+      throw new SimulatorError(422, 'The customer does not have a valid mandate', 'mandateId');
+    }
+    const startDate: string = parameters.startDate ?? now().substring(0, 10);
+    // Validate the interval.
+    addInterval(startDate, interval);
+    const subscription: Stored<SubscriptionData> & { customerId: string } = {
+      resource: 'subscription',
+      id: generateId('sub_'),
+      mode: this.mode,
+      status: SubscriptionStatus.active,
+      amount,
+      times: parameters.times ?? null,
+      timesRemaining: parameters.times ?? null,
+      interval,
+      startDate,
+      nextPaymentDate: startDate,
+      description: requireString(parameters.description, 'description'),
+      method: parameters.method ?? null,
+      mandateId,
+      createdAt: now(),
+      webhookUrl: parameters.webhookUrl ?? null,
+      metadata: parameters.metadata ?? null,
+      customerId,
+    };
+    this.subscriptions.set(subscription.id, subscription);
+    return subscription;
+  }
+
+  getSubscription(id: string, customerId?: string) {
+    const subscription = find(this.subscriptions, id, 'subscription');
+    if (customerId != undefined && subscription.customerId != customerId) {
+      throw new SimulatorError(404, `No subscription exists with token ${id}.`);
+    }
+    return subscription;
+  }
+
+  listSubscriptions(predicate?: (subscription: Stored<SubscriptionData> & { customerId: string }) => boolean) {
+    return listValues(this.subscriptions, predicate);
+  }
+
+  updateSubscription(id: string, customerId: string, { amount, times, startDate, description, mandateId, webhookUrl, metadata }: any) {
+    const subscription = this.getSubscription(id, customerId);
+    if (subscription.status == SubscriptionStatus.canceled || subscription.status == SubscriptionStatus.completed) {
+      throw new SimulatorError(422, `The subscription ${id} cannot be updated`);
+    }
+    return Object.assign(subscription, {
+      amount: amount == undefined ? subscription.amount : requireAmount(amount, 'amount'),
+      times: times ?? subscription.times,
+      timesRemaining: times == undefined ? subscription.timesRemaining : times - (subscription.times - subscription.timesRemaining),
+      startDate: startDate ?? subscription.startDate,
+      nextPaymentDate: startDate ?? subscription.nextPaymentDate,
+      description: description ?? subscription.description,
+      mandateId: mandateId ?? subscription.mandateId,
+      webhookUrl: webhookUrl ?? subscription.webhookUrl,
+      metadata: metadata ?? subscription.metadata,
+    });
+  }
+
+  cancelSubscription(id: string, customerId: string) {
+    const subscription = this.getSubscription(id, customerId);
+    if (subscription.status == SubscriptionStatus.canceled) {
+      throw new SimulatorError(422, `The subscription ${id} has already been canceled`);
+    }
+    return Object.assign(subscription, { status: SubscriptionStatus.canceled, canceledAt: now(), nextPaymentDate: undefined });
+  }
+
+  /**
+   * Creates the next payment of the subscription, as Mollie would on its next payment date.
+   */
+  chargeSubscription(id: string) {
+    const subscription = this.getSubscription(id);
+    if (subscription.status != SubscriptionStatus.active) {
+      throw new SimulatorError(422, `The subscription ${id} is not active`);
+    }
+    const payment = this.createPayment(
+      { amount: subscription.amount, description: subscription.description, webhookUrl: subscription.webhookUrl, sequenceType: SequenceType.recurring, method: subscription.method ?? undefined },
+      { customerId: subscription.customerId, mandateId: subscription.mandateId, subscriptionId: id },
+    );
+    if (subscription.timesRemaining != null) {
+      --subscription.timesRemaining;
+      if (subscription.timesRemaining == 0) {
+        subscription.status = SubscriptionStatus.completed;
+      }
+    }
+    subscription.nextPaymentDate = subscription.status == SubscriptionStatus.active ? addInterval(subscription.nextPaymentDate as string, subscription.interval) : undefined;
+    return payment;
+  }
+
+  // Orders.
+
+  createOrder(parameters: any) {
+    const amount = requireAmount(parameters.amount, 'amount');
+    if (!Array.isArray(parameters.lines) || parameters.lines.length == 0) {
+      throw new SimulatorError(422, 'The lines are missing', 'lines');
+    }
+    const createdAt = now();
+    const orderId = generateId('ord_');
+    const lines = (parameters.lines as OrderCreateParameters['lines']).map<StoredOrderLine>((line, index) => {
+      const totalAmount = requireAmount(line.totalAmount, `lines.${index}.totalAmount`);
+      const { currency } = totalAmount;
+      const zero = fromCents(0, currency);
+      return {
+        resource: 'orderline',
+        id: generateId('odl_'),
+        orderId,
+        type: line.type ?? OrderLineType.physical,
+        name: requireString(line.name, `lines.${index}.name`),
+        status: OrderStatus.created,
+        isCancelable: true,
+        quantity: line.quantity,
+        quantityShipped: 0,
+        amountShipped: zero,
+        quantityRefunded: 0,
+        amountRefunded: zero,
+        quantityCanceled: 0,
+        amountCanceled: zero,
+        shippableQuantity: 0,
+        refundableQuantity: 0,
+        cancelableQuantity: line.quantity,
+        unitPrice: requireAmount(line.unitPrice, `lines.${index}.unitPrice`),
+        discountAmount: line.discountAmount,
+        totalAmount,
+        vatRate: line.vatRate ?? '0.00',
+        vatAmount: line.vatAmount ?? zero,
+        sku: line.sku,
+        createdAt,
+        metadata: line.metadata ?? null,
+      };
+    });
+    if (lines.reduce((sum, { totalAmount }) => sum + toCents(totalAmount), 0) != toCents(amount)) {
+      throw new SimulatorError(422, 'The amount of the order does not match the total amount of the lines', 'amount');
+    }
+    const order: StoredOrder = {
+      resource: 'order',
+      id: orderId,
+      mode: this.mode,
+      profileId: this.currentProfileId,
+      method: parameters.method ?? null,
+      amount,
+      status: OrderStatus.created,
+      isCancelable: true,
+      billingAddress: parameters.billingAddress,
+      consumerDateOfBirth: parameters.consumerDateOfBirth,
+      orderNumber: requireString(parameters.orderNumber, 'orderNumber'),
+      shippingAddress: parameters.shippingAddress ?? parameters.billingAddress,
+      locale: parameters.locale ?? Locale.en_US,
+      metadata: parameters.metadata ?? null,
+      redirectUrl: parameters.redirectUrl ?? null,
+      lines,
+      webhookUrl: parameters.webhookUrl,
+      createdAt,
+      expiresAt: new Date(Date.parse(createdAt) + 28 * 86400e3).toISOString(),
+    };
+    this.orders.set(order.id, order);
+    this.createOrderPayment(order.id, { method: parameters.method });
+    return order;
+  }
+
+  getOrder(id: string) {
+    return find(this.orders, id, 'order');
+  }
+
+  listOrders() {
+    return listValues(this.orders);
+  }
+
+  updateOrder(id: string, { billingAddress, shippingAddress, orderNumber, redirectUrl, webhookUrl }: any) {
+    const order = this.getOrder(id);
+    return Object.assign(order, {
+      billingAddress: billingAddress ?? order.billingAddress,
+      shippingAddress: shippingAddress ?? order.shippingAddress,
+      orderNumber: orderNumber ?? order.orderNumber,
+      redirectUrl: redirectUrl ?? order.redirectUrl,
+      webhookUrl: webhookUrl ?? order.webhookUrl,
+    });
+  }
+
+  cancelOrder(id: string) {
+    const order = this.getOrder(id);
+    if (!order.isCancelable) {
+      throw new SimulatorError(422, `The order ${id} cannot be canceled`);
+    }
+    this.listPayments(payment => payment.orderId == id && payment.isCancelable).forEach(payment => this.transitionPayment(payment.id, PaymentStatus.canceled));
+    return this.setOrderStatus(order, OrderStatus.canceled);
+  }
+
+  /**
+   * Transitions the order to the passed status by transitioning its (most recent) payment, as a consumer completing
+   * (or abandoning) the checkout would.
+   */
+  transitionOrder(id: string, status: OrderStatus) {
+    const order = this.getOrder(id);
+    const [payment] = this.listPayments(payment => payment.orderId == id);
+    switch (status) {
+      case OrderStatus.paid:
+      case OrderStatus.authorized:
+      case OrderStatus.expired:
+        this.transitionPayment(payment.id, status as string as PaymentStatus);
+        break;
+      case OrderStatus.canceled:
+        this.cancelOrder(id);
+        break;
+      default:
+        throw new SimulatorError(422, `The order ${id} cannot be transitioned to ${status} directly`, 'status');
+    }
+    return order;
+  }
+
+  createOrderPayment(orderId: string, { method }: any) {
+    const order = this.getOrder(orderId);
+    if (order.status != OrderStatus.created || this.listPayments(payment => payment.orderId == orderId && payment.status == PaymentStatus.open).length != 0) {
+      throw new SimulatorError(422, `A new payment cannot be created for the order ${orderId}`);
+    }
+    return this.createPayment(
+      {
+        amount: order.amount,
+        description: `Order ${order.orderNumber}`,
+        redirectUrl: order.redirectUrl ?? undefined,
+        webhookUrl: order.webhookUrl,
+        method: method ?? order.method ?? undefined,
+        locale: order.locale,
+      },
+      { orderId },
+    );
+  }
+
+  updateOrderLine(orderId: string, id: string, { name, quantity, unitPrice, discountAmount, totalAmount, vatAmount, vatRate, sku, metadata }: any) {
+    const order = this.getOrder(orderId);
+    const line = this.findLine(order, id);
+    if (order.status != OrderStatus.created) {
+      throw new SimulatorError(422, `The lines of the order ${orderId} cannot be updated anymore`);
+    }
+    Object.assign(line, {
+      name: name ?? line.name,
+      quantity: quantity ?? line.quantity,
+      cancelableQuantity: quantity ?? line.quantity,
+      unitPrice: unitPrice ?? line.unitPrice,
+      discountAmount: discountAmount ?? line.discountAmount,
+      totalAmount: totalAmount ?? line.totalAmount,
+      vatAmount: vatAmount ?? line.vatAmount,
+      vatRate: vatRate ?? line.vatRate,
+      sku: sku ?? line.sku,
+      metadata: metadata ?? line.metadata,
+    });
+    order.amount = fromCents(
+      order.lines.reduce((sum, { totalAmount }) => sum + toCents(totalAmount), 0),
+      order.amount.currency,
+    );
+    return order;
+  }
+
+  cancelOrderLines(orderId: string, { lines }: any) {
+    const order = this.getOrder(orderId);
+    this.selectLines(order, lines, line => line.cancelableQuantity, 'cancelable').forEach(([line, quantity]) => {
+      line.quantityCanceled += quantity;
+      line.amountCanceled = this.addLineAmount(line, line.amountCanceled, quantity);
+    });
+    this.refreshOrder(order);
+  }
+
+  createShipment(orderId: string, { lines, tracking }: any) {
+    const order = this.getOrder(orderId);
+    const [payment] = this.listPayments(payment => payment.orderId == orderId && (payment.status == PaymentStatus.paid || payment.status == PaymentStatus.authorized));
+    if (payment == undefined) {
+      throw new SimulatorError(422, `The order ${orderId} has not been paid or authorized`);
+    }
+    const shipmentId = generateId('shp_');
+    let shippedCents = 0;
+    const shippedLines = this.selectLines(order, lines, line => line.shippableQuantity, 'shippable').map(([line, quantity]) => {
+      line.quantityShipped += quantity;
+      line.amountShipped = this.addLineAmount(line, line.amountShipped, quantity);
+      shippedCents += toCents(this.addLineAmount(line, fromCents(0, line.totalAmount.currency), quantity));
+      return { ...line, quantity };
+    });
+    const shipment: StoredShipment = { resource: 'shipment', id: shipmentId, orderId, createdAt: now(), tracking, lines: shippedLines };
+    this.shipments.set(shipmentId, shipment);
+    // Shipping the lines of an authorized order captures the amount of those lines.
+    if (payment.status == PaymentStatus.authorized || payment.method == PaymentMethod.klarnapaylater) {
+      this.createCapture(payment.id, fromCents(shippedCents, order.amount.currency), shipmentId);
+    }
+    this.refreshOrder(order);
+    return shipment;
+  }
+
+  getShipment(id: string, orderId: string) {
+    const shipment = find(this.shipments, id, 'shipment');
+    if (shipment.orderId != orderId) {
+      throw new SimulatorError(404, `No shipment exists with token ${id}.`);
+    }
+    return shipment;
+  }
+
+  listShipments(orderId: string) {
+    this.getOrder(orderId);
+    return listValues(this.shipments, shipment => shipment.orderId == orderId);
+  }
+
+  updateShipment(id: string, orderId: string, { tracking }: any) {
+    return Object.assign(this.getShipment(id, orderId), { tracking });
+  }
+
+  createOrderRefund(orderId: string, { lines, description, metadata }: any) {
+    const order = this.getOrder(orderId);
+    const [payment] = this.listPayments(payment => payment.orderId == orderId && payment.status == PaymentStatus.paid);
+    if (payment == undefined) {
+      throw new SimulatorError(422, `The order ${orderId} has not been paid`);
+    }
+    let refundedCents = 0;
+    const refundedLines = this.selectLines(order, lines, line => line.refundableQuantity, 'refundable').map(([line, quantity]) => {
+      line.quantityRefunded += quantity;
+      line.amountRefunded = this.addLineAmount(line, line.amountRefunded, quantity);
+      refundedCents += toCents(this.addLineAmount(line, fromCents(0, line.totalAmount.currency), quantity));
+      return { ...line, quantity };
+    });
+    this.refreshOrder(order);
+    return this.createRefund(payment.id, { amount: fromCents(refundedCents, order.amount.currency), description, metadata }, refundedLines);
+  }
+
+  protected findLine(order: StoredOrder, id: string) {
+    const line = order.lines.find(line => line.id == id);
+    if (line == undefined) {
+      throw new SimulatorError(404, `No order line exists with token ${id}.`);
+    }
+    return line;
+  }
+
+  /**
+   * Returns pairs of the lines of the passed order referred to by the passed input (`[{ id, quantity }]`), and the
+   * quantities. If no input is passed, all lines are selected with their available quantity.
+   */
+  protected selectLines(order: StoredOrder, input: Maybe<Array<{ id: string; quantity?: number }>>, getAvailable: (line: StoredOrderLine) => number, description: string) {
+    const selected: Array<[StoredOrderLine, number]> =
+      input == undefined || input.length == 0
+        ? order.lines.filter(line => getAvailable(line) > 0).map(line => [line, getAvailable(line)])
+        : input.map(({ id, quantity }) => {
+            const line = this.findLine(order, id);
+            return [line, quantity ?? getAvailable(line)];
+          });
+    selected.forEach(([line, quantity]) => {
+      if (quantity < 1 || quantity > getAvailable(line)) {
+        throw new SimulatorError(422, `The quantity of the line ${line.id} exceeds the ${description} quantity`, 'lines');
+      }
+    });
+    if (selected.length == 0) {
+      throw new SimulatorError(422, `The order ${order.id} has no ${description} lines`, 'lines');
+    }
+    return selected;
+  }
+
+  protected addLineAmount(line: StoredOrderLine, amount: Amount, quantity: number) {
+    return fromCents(toCents(amount) + Math.round((toCents(line.totalAmount) * quantity) / line.quantity), amount.currency);
+  }
+
+  /**
+   * Makes the order (and its lines) follow the status its payment transitioned to.
+   */
+  protected followPayment(orderId: string, status: PaymentStatus) {
+    const order = this.getOrder(orderId);
+    switch (status) {
+      case PaymentStatus.paid:
+        if (order.status == OrderStatus.created || order.status == OrderStatus.pending) {
+          order.paidAt = now();
+          this.setOrderStatus(order, OrderStatus.paid);
+        }
+        break;
+      case PaymentStatus.authorized:
+        order.authorizedAt = now();
+        this.setOrderStatus(order, OrderStatus.authorized);
+        break;
+      case PaymentStatus.pending:
+        this.setOrderStatus(order, OrderStatus.pending);
+        break;
+      case PaymentStatus.expired:
+        this.setOrderStatus(order, OrderStatus.expired);
+        break;
+    }
+    this.refreshOrder(order);
+  }
+
+  protected setOrderStatus(order: StoredOrder, status: OrderStatus) {
+    order.status = status;
+    if (status == OrderStatus.canceled) {
+      order.canceledAt = now();
+    } else if (status == OrderStatus.completed) {
+      order.completedAt = now();
+    }
+    order.lines.forEach(line => (line.status = status));
+    this.refreshOrder(order);
+    return order;
+  }
+
+  /**
+   * Recalculates the available quantities of the lines of the passed order, and derives the statuses of the lines and
+   * the order from them.
+   */
+  protected refreshOrder(order: StoredOrder) {
+    const settled = order.status == OrderStatus.paid || order.status == OrderStatus.authorized || order.status == OrderStatus.shipping || order.status == OrderStatus.completed;
+    order.lines.forEach(line => {
+      const open = line.quantity - line.quantityShipped - line.quantityCanceled;
+      line.shippableQuantity = settled ? open : 0;
+      line.cancelableQuantity = order.status == OrderStatus.created || order.status == OrderStatus.authorized || order.status == OrderStatus.shipping ? open : 0;
+      line.refundableQuantity = order.status == OrderStatus.authorized ? 0 : settled ? line.quantity - line.quantityRefunded - line.quantityCanceled : 0;
+      line.isCancelable = line.cancelableQuantity > 0;
+      if (settled) {
+        if (open == 0) {
+          line.status = line.quantityShipped == 0 ? OrderStatus.canceled : OrderStatus.completed;
+        } else if (line.quantityShipped != 0) {
+          line.status = OrderStatus.shipping;
+        }
+      }
+    });
+    if (settled && order.lines.some(line => line.quantityShipped != 0)) {
+      const status = order.lines.every(line => line.status == OrderStatus.completed || line.status == OrderStatus.canceled) ? OrderStatus.completed : OrderStatus.shipping;
+      if (status != order.status) {
+        order.status = status;
+        if (status == OrderStatus.completed) {
+          order.completedAt = now();
+        }
+      }
+    } else if (order.lines.every(line => line.quantityCanceled == line.quantity) && order.status != OrderStatus.canceled) {
+      order.status = OrderStatus.canceled;
+      order.canceledAt = now();
+    }
+    order.isCancelable = order.status == OrderStatus.created || order.status == OrderStatus.authorized;
+    const { currency } = order.amount;
+    order.amountRefunded = fromCents(
+      order.lines.reduce((sum, { amountRefunded }) => sum + toCents(amountRefunded), 0),
+      currency,
+    );
+    order.amountCaptured = fromCents(
+      this.listPayments(payment => payment.orderId == order.id).reduce((sum, { amountCaptured }) => sum + (amountCaptured == undefined ? 0 : toCents(amountCaptured)), 0),
+      currency,
+    );
+  }
+
+  // Payment links.
+
+  createPaymentLink({ amount, description, redirectUrl, webhookUrl, expiresAt }: any) {
+    const paymentLink: Stored<PaymentLinkData> = {
+      resource: 'payment-link',
+      id: generateId('pl_'),
+      mode: this.mode,
+      profileId: this.currentProfileId,
+      amount: requireAmount(amount, 'amount'),
+      description: requireString(description, 'description'),
+      redirectUrl,
+      webhookUrl,
+      createdAt: now(),
+      expiresAt,
+    };
+    this.paymentLinks.set(paymentLink.id, paymentLink);
+    return paymentLink;
+  }
+
+  getPaymentLink(id: string) {
+    return find(this.paymentLinks, id, 'payment link');
+  }
+
+  listPaymentLinks() {
+    return listValues(this.paymentLinks);
+  }
+
+  /**
+   * Pays the payment link, as a consumer would: a payment is created and paid.
+   */
+  payPaymentLink(id: string) {
+    const paymentLink = this.getPaymentLink(id);
+    if (paymentLink.paidAt != undefined) {
+      throw new SimulatorError(422, `The payment link ${id} has already been paid`);
+    }
+    const payment = this.createPayment({
+      amount: paymentLink.amount,
+      description: paymentLink.description,
+      redirectUrl: paymentLink.redirectUrl,
+      webhookUrl: paymentLink.webhookUrl,
+      metadata: { paymentLinkId: id },
+    });
+    return this.transitionPayment(payment.id, PaymentStatus.paid);
+  }
+
+  // Methods.
+
+  listMethods({ amount, sequenceType }: { amount?: Amount; sequenceType?: string }): Array<Omit<MethodData, '_links'>> {
+    return methods
+      .filter(({ id, minimum, maximum }) => {
+        if (sequenceType == SequenceType.recurring && id != PaymentMethod.directdebit && id != PaymentMethod.creditcard && id != PaymentMethod.paypal) {
+          return false;
+        }
+        if (amount != undefined) {
+          const cents = toCents(amount);
+          return cents >= minimum && (maximum == undefined || cents <= maximum);
+        }
+        return true;
+      })
+      .map(({ id }) => this.getMethod(id, amount?.currency));
+  }
+
+  getMethod(id: string, currency = 'EUR'): Omit<MethodData, '_links'> {
+    const method = methods.find(method => method.id == id);
+    if (method == undefined) {
+      throw new SimulatorError(404, `No method exists with token ${id}.`);
+    }
+    return {
+      resource: 'method',
+      id: method.id,
+      description: method.description,
+      minimumAmount: fromCents(method.minimum, currency),
+      maximumAmount: method.maximum == undefined ? null : fromCents(method.maximum, currency),
+      image: {
+        size1x: `https://www.mollie.com/external/icons/payment-methods/${id}.png`,
+        size2x: `https://www.mollie.com/external/icons/payment-methods/${id}%402x.png`,
+        svg: `https://www.mollie.com/external/icons/payment-methods/${id}.svg`,
+      },
+      pricing: { description: method.description, fixed: fromCents(0, currency), variable: '0', feeRegion: 'other' },
+    };
+  }
+
+  // Profiles.
+
+  createProfile({ name, website, email, phone, businessCategory, categoryCode }: any) {
+    const profile: Stored<ProfileData> = {
+      resource: 'profile',
+      id: generateId('pfl_'),
+      mode: this.mode,
+      name: requireString(name, 'name'),
+      website: requireString(website, 'website'),
+      email: requireString(email, 'email'),
+      phone: requireString(phone, 'phone'),
+      businessCategory: businessCategory ?? 'OTHER_MERCHANDISE',
+      categoryCode: categoryCode ?? 5399,
+      status: ProfileStatus.verified,
+      review: null,
+      createdAt: now(),
+    };
+    this.profiles.set(profile.id, profile);
+    return profile;
+  }
+
+  getProfile(id: string) {
+    return find(this.profiles, id == 'me' ? this.currentProfileId : id, 'profile');
+  }
+
+  listProfiles() {
+    return listValues(this.profiles);
+  }
+
+  updateProfile(id: string, { name, website, email, phone, businessCategory, categoryCode }: any) {
+    const profile = this.getProfile(id);
+    return Object.assign(profile, {
+      name: name ?? profile.name,
+      website: website ?? profile.website,
+      email: email ?? profile.email,
+      phone: phone ?? profile.phone,
+      businessCategory: businessCategory ?? profile.businessCategory,
+      categoryCode: categoryCode ?? profile.categoryCode,
+    });
+  }
+
+  deleteProfile(id: string) {
+    const profile = this.getProfile(id);
+    if (profile.id == this.currentProfileId) {
+      throw new SimulatorError(422, 'The current profile cannot be deleted');
+    }
+    this.profiles.delete(profile.id);
+  }
+}
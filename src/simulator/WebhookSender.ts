@@ -0,0 +1,165 @@
+// If support for Node.js < 10.0.0 is ever dropped, this import can be removed.
+import { URLSearchParams } from 'url';
+
+import findProperty from '../plumbing/findProperty';
+import postForm from './postForm';
+
+/**
+ * The number of milliseconds between the attempts to deliver a webhook call, approximating the schedule Mollie uses:
+ * ten attempts in total, spread over roughly 26 hours.
+ */
+export const mollieRetryDelays = [1, 5, 15, 30, 60, 120, 240, 480, 600].map(minutes => minutes * 60e3);
+
+export interface WebhookSenderOptions {
+  /**
+   * The URL of the webhook, such as `'http://localhost:3000/webhook'`.
+   */
+  url: string;
+  /**
+   * The number of milliseconds to wait before each retry. If the webhook does not respond with a `2xx` status code, the
+   * call is retried once for every element. Default: `mollieRetryDelays` (Mollie's schedule). Pass shorter delays
+   * ‒ such as `[1000, 5000]` ‒ to test retries without waiting for hours, or `[]` to disable retries.
+   */
+  retryDelays?: number[];
+  /**
+   * The number of milliseconds after which an attempt is considered failed if no response has been received. Default:
+   * `15000`.
+   */
+  timeout?: number;
+  /**
+   * Called with a line describing every attempt and its outcome. Default: `console.log`.
+   */
+  log?: (message: string) => void;
+}
+
+export interface WebhookAttempt {
+  /**
+   * The ID which was sent, such as `'tr_7UhSN1zuXS'`.
+   */
+  id: string;
+  /**
+   * The number of this attempt, starting at `1`.
+   */
+  attempt: number;
+  /**
+   * The status code of the response, or `undefined` if no response was received.
+   */
+  status?: number;
+  /**
+   * The body of the response, or `undefined` if no response was received.
+   */
+  body?: string;
+  /**
+   * The message of the error which occurred if no response was received.
+   */
+  error?: string;
+  sentAt: string;
+  /**
+   * The number of milliseconds it took to receive the response (or the error).
+   */
+  duration: number;
+}
+
+/**
+ * A step in a sequence of webhook calls. A string is the ID to send. An object can specify a function to call before
+ * the ID is sent ‒ to bring the resource into the next state, for instance through a `Simulator` ‒ and a number of
+ * milliseconds to wait before the step.
+ */
+export type WebhookStep = string | { id: string; delay?: number; before?: () => unknown };
+
+function wait(milliseconds: number) {
+  return new Promise<void>(resolve => setTimeout(resolve, milliseconds));
+}
+
+/**
+ * Sends Mollie-style webhook calls ‒ `POST` requests with a form-encoded `id=…` body ‒ to a (local) URL, for testing a
+ * webhook without a public URL. Calls which do not receive a `2xx` response are retried following Mollie's schedule (or
+ * the passed one), and every attempt is logged:
+ *
+ * ```ts
+ * const sender = new WebhookSender({ url: 'http://localhost:3000/webhook', retryDelays: [1000, 5000] });
+ * await sender.send('tr_7UhSN1zuXS');
+ * // Paid, then refunded, then charged back:
+ * await sender.play([
+ *   { id: payment.id, before: () => simulator.transitionPayment(payment.id, PaymentStatus.paid) },
+ *   { id: payment.id, delay: 1000, before: () => simulator.transitionRefund(refund.id, RefundStatus.refunded) },
+ *   { id: payment.id, delay: 1000, before: () => simulator.createChargeback(payment.id) },
+ * ]);
+ * ```
+ */
+export default class WebhookSender {
+  protected readonly url: string;
+  protected readonly retryDelays: number[];
+  protected readonly timeout: number;
+  protected readonly log: (message: string) => void;
+  // eslint-disable-next-line no-console
+  constructor({ url, retryDelays = mollieRetryDelays, timeout = 15e3, log = console.log }: WebhookSenderOptions) {
+    this.url = url;
+    this.retryDelays = retryDelays;
+    this.timeout = timeout;
+    this.log = log;
+  }
+
+  /**
+   * Sends the passed ID to the webhook, retrying until a `2xx` response is received or the retries are exhausted.
+   * Returns a promise which resolves with the attempts.
+   */
+  async send(id: string): Promise<WebhookAttempt[]> {
+    const attempts: WebhookAttempt[] = [];
+    for (let index = 0; ; ++index) {
+      const attempt = await this.attempt(id, index + 1);
+      attempts.push(attempt);
+      if ((attempt.status != undefined && attempt.status >= 200 && attempt.status < 300) || index == this.retryDelays.length) {
+        return attempts;
+      }
+      this.log(`Retrying ${id} in ${this.retryDelays[index]} ms`);
+      await wait(this.retryDelays[index]);
+    }
+  }
+
+  /**
+   * Sends the passed steps to the webhook, one after the other. Every step is retried (see `send`) before the next one
+   * is started. Returns a promise which resolves with the attempts of every step.
+   */
+  async play(steps: WebhookStep[]): Promise<WebhookAttempt[][]> {
+    const result: WebhookAttempt[][] = [];
+    for (const step of steps) {
+      if (typeof step == 'string') {
+        result.push(await this.send(step));
+        continue;
+      }
+      const { id, delay, before } = step;
+      if (delay != undefined) {
+        await wait(delay);
+      }
+      if (before != undefined) {
+        await before();
+      }
+      result.push(await this.send(id));
+    }
+    return result;
+  }
+
+  protected async attempt(id: string, attempt: number): Promise<WebhookAttempt> {
+    const sentAt = new Date();
+    const result: WebhookAttempt = { id, attempt, sentAt: sentAt.toISOString(), duration: 0 };
+    try {
+      const { status, body } = await postForm(this.url, new URLSearchParams({ id }).toString(), this.timeout);
+      result.status = status;
+      result.body = body;
+    } catch (error) {
+      result.error = findProperty(error, 'message') ? String(error.message) : 'An unknown error has occurred';
+    }
+    result.duration = Date.now() - sentAt.getTime();
+    let outcome: string;
+    if (result.status == undefined) {
+      outcome = `failed: ${result.error}`;
+    } else {
+      // (Long bodies ‒ such as error pages ‒ are truncated in the log.)
+      const { body = '' } = result;
+      outcome = body.length == 0 ? String(result.status) : `${result.status} ${body.length > 200 ? `${body.substring(0, 200)}…` : body}`;
+    }
+    this.log(`POST ${this.url} id=${id} (attempt ${attempt}) → ${outcome} (${result.duration} ms)`);
+    return result;
+  }
+}
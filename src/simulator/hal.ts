@@ -0,0 +1,85 @@
+import { Links, Url } from '../data/global';
+import buildUrl, { SearchParameters } from '../communication/buildUrl';
+
+/**
+ * The error thrown by the simulator when a request cannot be handled. It is sent to the client as a Mollie API error
+ * response.
+ */
+export class SimulatorError extends Error {
+  constructor(public readonly status: number, message: string, public readonly field?: string) {
+    super(message);
+  }
+}
+
+const titles: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized Request',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  409: 'Conflict',
+  422: 'Unprocessable Entity',
+  500: 'Internal Server Error',
+};
+
+/**
+ * Composes the body of an error response, in the format of the Mollie API.
+ */
+export function composeErrorBody({ status, message, field }: SimulatorError) {
+  return {
+    status,
+    title: titles[status] ?? 'Error',
+    detail: message,
+    field,
+    _links: {
+      documentation: composeLink('https://docs.mollie.com/overview/handling-errors', 'text/html'),
+    },
+  };
+}
+
+/**
+ * Composes a link object, such as `{ href: 'https://…', type: 'application/hal+json' }`.
+ */
+export function composeLink(href: string, type = 'application/hal+json'): Url {
+  return { href, type };
+}
+
+/**
+ * Composes the `self` and `documentation` links of a resource.
+ */
+export function composeLinks(origin: string, pathname: string, documentation: string): Links {
+  return {
+    self: composeLink(`${origin}${pathname}`),
+    documentation: composeLink(`https://docs.mollie.com/reference/v2/${documentation}`, 'text/html'),
+  };
+}
+
+/**
+ * Composes a page of the passed values (which are expected to be ordered from newest to oldest), starting at the value
+ * with the ID in the `from` search parameter. The `previous` and `next` links carry the cursors of the adjacent pages.
+ */
+export function paginate<T extends { id: string }>(origin: string, pathname: string, binderName: string, values: T[], query: SearchParameters, documentation: string) {
+  const { from, limit: limitParameter, ...rest } = query;
+  const limit = limitParameter == undefined ? 50 : parseInt(limitParameter, 10);
+  if (isNaN(limit) || limit < 1 || limit > 250) {
+    throw new SimulatorError(400, 'The limit must be between 1 and 250', 'limit');
+  }
+  let start = 0;
+  if (from != undefined) {
+    start = values.findIndex(({ id }) => id == from);
+    if (start == -1) {
+      throw new SimulatorError(400, `The value ${from} for the from parameter does not exist`, 'from');
+    }
+  }
+  const page = values.slice(start, start + limit);
+  const composePageLink = (cursor: string) => composeLink(buildUrl(`${origin}${pathname}`, { ...rest, from: cursor, limit }));
+  return {
+    count: page.length,
+    _embedded: { [binderName]: page },
+    _links: {
+      self: composeLink(buildUrl(`${origin}${pathname}`, { ...rest, from, limit })),
+      previous: start == 0 ? null : composePageLink(values[Math.max(0, start - limit)].id),
+      next: start + limit < values.length ? composePageLink(values[start + limit].id) : null,
+      documentation: composeLink(`https://docs.mollie.com/reference/v2/${documentation}`, 'text/html'),
+    },
+  };
+}
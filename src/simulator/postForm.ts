@@ -0,0 +1,33 @@
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+// If support for Node.js < 10.0.0 is ever dropped, this import can be removed.
+import { URL } from 'url';
+
+/**
+ * Sends the passed form-encoded body to the passed URL, and returns a promise which resolves with the status code and
+ * the body of the response. The promise rejects if no response has been received within the passed number of
+ * milliseconds.
+ */
+export default function postForm(url: string, body: string, timeout: number) {
+  const { protocol, hostname, port, pathname, search } = new URL(url);
+  return new Promise<{ status: number; body: string }>((resolve, reject) => {
+    const request = (protocol == 'https:' ? httpsRequest : httpRequest)(
+      {
+        hostname,
+        port,
+        path: `${pathname}${search}`,
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Content-Length': Buffer.byteLength(body) },
+        timeout,
+      },
+      response => {
+        const chunks: Buffer[] = [];
+        response.on('data', chunk => chunks.push(chunk));
+        response.on('end', () => resolve({ status: response.statusCode as number, body: Buffer.concat(chunks).toString('utf8') }));
+      },
+    );
+    request.on('timeout', () => request.destroy(new Error(`The webhook did not respond within ${timeout} milliseconds`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
@@ -0,0 +1,547 @@
+import { SearchParameters } from '../communication/buildUrl';
+import Maybe from '../types/Maybe';
+import SimulatorState from './SimulatorState';
+import { composeLink, composeLinks, paginate, SimulatorError } from './hal';
+
+export interface RouteContext {
+  state: SimulatorState;
+  /**
+   * The URL of the API of the simulator, such as `'http://127.0.0.1:4000/v2/'`.
+   */
+  origin: string;
+  parameters: Record<string, string>;
+  query: SearchParameters;
+  body: any;
+}
+
+/**
+ * A route handler returns the body of the response (or a promise of it), or `undefined` for a `204 No Content`
+ * response.
+ */
+export type RouteHandler = (context: RouteContext) => unknown;
+
+export interface Route {
+  method: string;
+  pattern: string;
+  status?: number;
+  handle: RouteHandler;
+}
+
+/**
+ * Returns the values of the passed `embed` or `include` search parameter, which may be a comma-separated list.
+ */
+function parseList(input: Maybe<string>) {
+  return input == undefined ? [] : input.split(',');
+}
+
+type Resource = { id: string } & Record<string, any>;
+
+// Presenters: these compose the resources as they are sent by the Mollie API, with their links.
+
+export function presentPayment({ state, origin, query }: Pick<RouteContext, 'state' | 'origin' | 'query'>, payment: Resource) {
+  const { id, status, customerId, mandateId, subscriptionId, orderId } = payment;
+  const root = origin.replace(/v2\/$/, '');
+  const links: Record<string, any> = composeLinks(origin, `payments/${id}`, 'payments-api/get-payment');
+  if (status == 'open') {
+    links.checkout = composeLink(`${root}checkout/${id}`, 'text/html');
+  }
+  const refunds = state.listRefunds(refund => refund.paymentId == id);
+  if (refunds.length != 0) {
+    links.refunds = composeLink(`${origin}payments/${id}/refunds`);
+  }
+  const chargebacks = state.listChargebacks(chargeback => chargeback.paymentId == id);
+  if (chargebacks.length != 0) {
+    links.chargebacks = composeLink(`${origin}payments/${id}/chargebacks`);
+  }
+  const captures = state.listCaptures(id);
+  if (captures.length != 0) {
+    links.captures = composeLink(`${origin}payments/${id}/captures`);
+  }
+  if (customerId != undefined) {
+    links.customer = composeLink(`${origin}customers/${customerId}`);
+  }
+  if (customerId != undefined && mandateId != undefined) {
+    links.mandate = composeLink(`${origin}customers/${customerId}/mandates/${mandateId}`);
+  }
+  if (customerId != undefined && subscriptionId != undefined) {
+    links.subscription = composeLink(`${origin}customers/${customerId}/subscriptions/${subscriptionId}`);
+  }
+  if (orderId != undefined) {
+    links.order = composeLink(`${origin}orders/${orderId}`);
+  }
+  const embed = parseList(query.embed);
+  const embedded: Record<string, unknown[]> = {};
+  if (embed.includes('refunds')) {
+    embedded.refunds = refunds.map(refund => presentRefund(origin, refund));
+  }
+  if (embed.includes('chargebacks')) {
+    embedded.chargebacks = chargebacks.map(chargeback => presentChargeback(origin, chargeback));
+  }
+  if (embed.includes('captures')) {
+    embedded.captures = captures.map(capture => presentCapture({ state, origin }, capture));
+  }
+  return { ...payment, _embedded: embed.length == 0 ? undefined : embedded, _links: links };
+}
+
+export function presentRefund(origin: string, refund: Resource) {
+  const links: Record<string, any> = {
+    ...composeLinks(origin, `payments/${refund.paymentId}/refunds/${refund.id}`, 'refunds-api/get-payment-refund'),
+    payment: composeLink(`${origin}payments/${refund.paymentId}`),
+  };
+  if (refund.orderId != undefined) {
+    links.order = composeLink(`${origin}orders/${refund.orderId}`);
+  }
+  return { ...refund, _links: links };
+}
+
+export function presentChargeback(origin: string, chargeback: Resource) {
+  return {
+    ...chargeback,
+    _links: {
+      ...composeLinks(origin, `payments/${chargeback.paymentId}/chargebacks/${chargeback.id}`, 'chargebacks-api/get-payment-chargeback'),
+      payment: composeLink(`${origin}payments/${chargeback.paymentId}`),
+    },
+  };
+}
+
+function presentCapture({ state, origin }: Pick<RouteContext, 'state' | 'origin'>, capture: Resource) {
+  const links: Record<string, any> = {
+    ...composeLinks(origin, `payments/${capture.paymentId}/captures/${capture.id}`, 'captures-api/get-capture'),
+    payment: composeLink(`${origin}payments/${capture.paymentId}`),
+  };
+  if (capture.shipmentId != undefined) {
+    const { orderId } = state.getPayment(capture.paymentId);
+    links.shipment = composeLink(`${origin}orders/${orderId}/shipments/${capture.shipmentId}`);
+  }
+  return { ...capture, _links: links };
+}
+
+function presentCustomer(origin: string, customer: Resource) {
+  return {
+    ...customer,
+    _links: {
+      ...composeLinks(origin, `customers/${customer.id}`, 'customers-api/get-customer'),
+      payments: composeLink(`${origin}customers/${customer.id}/payments`),
+      mandates: composeLink(`${origin}customers/${customer.id}/mandates`),
+      subscriptions: composeLink(`${origin}customers/${customer.id}/subscriptions`),
+    },
+  };
+}
+
+function presentMandate(origin: string, { customerId, ...mandate }: Resource) {
+  return {
+    ...mandate,
+    _links: {
+      ...composeLinks(origin, `customers/${customerId}/mandates/${mandate.id}`, 'mandates-api/get-mandate'),
+      customer: composeLink(`${origin}customers/${customerId}`),
+    },
+  };
+}
+
+export function presentSubscription(origin: string, subscription: Resource) {
+  const { id, customerId, mandateId } = subscription;
+  return {
+    ...subscription,
+    _links: {
+      ...composeLinks(origin, `customers/${customerId}/subscriptions/${id}`, 'subscriptions-api/get-subscription'),
+      customer: composeLink(`${origin}customers/${customerId}`),
+      mandate: composeLink(`${origin}customers/${customerId}/mandates/${mandateId}`),
+      payments: composeLink(`${origin}customers/${customerId}/subscriptions/${id}/payments`),
+    },
+  };
+}
+
+export function presentOrder(context: Pick<RouteContext, 'state' | 'origin' | 'query'>, order: Resource) {
+  const { state, origin, query } = context;
+  const { id } = order;
+  const root = origin.replace(/v2\/$/, '');
+  const payments = state.listPayments(payment => payment.orderId == id);
+  const links: Record<string, any> = composeLinks(origin, `orders/${id}`, 'orders-api/get-order');
+  if (payments.some(payment => payment.status == 'open')) {
+    links.checkout = composeLink(`${root}checkout/${id}`, 'text/html');
+  }
+  const embed = parseList(query.embed);
+  const embedded: Record<string, unknown[]> = {};
+  if (embed.includes('payments')) {
+    embedded.payments = payments.map(payment => presentPayment({ ...context, query: {} }, payment));
+  }
+  if (embed.includes('refunds')) {
+    embedded.refunds = state.listRefunds(refund => refund.orderId == id).map(refund => presentRefund(origin, refund));
+  }
+  if (embed.includes('shipments')) {
+    embedded.shipments = state.listShipments(id).map(shipment => presentShipment(origin, shipment));
+  }
+  return { ...order, _embedded: embed.length == 0 ? undefined : embedded, _links: links };
+}
+
+function presentShipment(origin: string, shipment: Resource) {
+  return {
+    ...shipment,
+    _links: {
+      ...composeLinks(origin, `orders/${shipment.orderId}/shipments/${shipment.id}`, 'shipments-api/get-shipment'),
+      order: composeLink(`${origin}orders/${shipment.orderId}`),
+    },
+  };
+}
+
+export function presentPaymentLink(origin: string, paymentLink: Resource) {
+  const root = origin.replace(/v2\/$/, '');
+  return {
+    ...paymentLink,
+    _links: {
+      ...composeLinks(origin, `payment-links/${paymentLink.id}`, 'payment-links-api/get-payment-link'),
+      paymentLink: composeLink(`${root}p/${paymentLink.id}`, 'text/html'),
+    },
+  };
+}
+
+function presentMethod(origin: string, method: Resource) {
+  return { ...method, _links: composeLinks(origin, `methods/${method.id}`, 'methods-api/get-method') };
+}
+
+function presentProfile(origin: string, profile: Resource) {
+  return { ...profile, _links: composeLinks(origin, `profiles/${profile.id}`, 'profiles-api/get-profile') };
+}
+
+/**
+ * The routes of the simulated Mollie API. The patterns are matched against the pathname of the request (relative to
+ * the API, so without the leading `/v2/`). Segments starting with a colon are parameters.
+ */
+export const apiRoutes: Route[] = [
+  // Payments.
+  { method: 'POST', pattern: 'payments', status: 201, handle: context => presentPayment(context, context.state.createPayment(context.body)) },
+  {
+    method: 'GET',
+    pattern: 'payments',
+    handle: context =>
+      paginate(
+        context.origin,
+        'payments',
+        'payments',
+        context.state.listPayments().map(payment => presentPayment(context, payment)),
+        context.query,
+        'payments-api/list-payments',
+      ),
+  },
+  { method: 'GET', pattern: 'payments/:id', handle: context => presentPayment(context, context.state.getPayment(context.parameters.id)) },
+  { method: 'PATCH', pattern: 'payments/:id', handle: context => presentPayment(context, context.state.updatePayment(context.parameters.id, context.body)) },
+  { method: 'DELETE', pattern: 'payments/:id', handle: context => presentPayment(context, context.state.cancelPayment(context.parameters.id)) },
+  // Refunds.
+  {
+    method: 'POST',
+    pattern: 'payments/:paymentId/refunds',
+    status: 201,
+    handle: ({ state, origin, parameters, body }) => presentRefund(origin, state.createRefund(parameters.paymentId, body)),
+  },
+  {
+    method: 'GET',
+    pattern: 'payments/:paymentId/refunds',
+    handle: ({ state, origin, parameters: { paymentId }, query }) => {
+      state.getPayment(paymentId);
+      const refunds = state.listRefunds(refund => refund.paymentId == paymentId).map(refund => presentRefund(origin, refund));
+      return paginate(origin, `payments/${paymentId}/refunds`, 'refunds', refunds, query, 'refunds-api/list-refunds');
+    },
+  },
+  { method: 'GET', pattern: 'payments/:paymentId/refunds/:id', handle: ({ state, origin, parameters }) => presentRefund(origin, state.getRefund(parameters.id, parameters.paymentId)) },
+  { method: 'DELETE', pattern: 'payments/:paymentId/refunds/:id', handle: ({ state, parameters }) => void state.cancelRefund(parameters.id, parameters.paymentId) },
+  {
+    method: 'GET',
+    pattern: 'refunds',
+    handle: ({ state, origin, query }) =>
+      paginate(
+        origin,
+        'refunds',
+        'refunds',
+        state.listRefunds().map(refund => presentRefund(origin, refund)),
+        query,
+        'refunds-api/list-refunds',
+      ),
+  },
+  // Chargebacks.
+  {
+    method: 'GET',
+    pattern: 'payments/:paymentId/chargebacks',
+    handle: ({ state, origin, parameters: { paymentId }, query }) => {
+      state.getPayment(paymentId);
+      const chargebacks = state.listChargebacks(chargeback => chargeback.paymentId == paymentId).map(chargeback => presentChargeback(origin, chargeback));
+      return paginate(origin, `payments/${paymentId}/chargebacks`, 'chargebacks', chargebacks, query, 'chargebacks-api/list-chargebacks');
+    },
+  },
+  { method: 'GET', pattern: 'payments/:paymentId/chargebacks/:id', handle: ({ state, origin, parameters }) => presentChargeback(origin, state.getChargeback(parameters.id, parameters.paymentId)) },
+  {
+    method: 'GET',
+    pattern: 'chargebacks',
+    handle: ({ state, origin, query }) =>
+      paginate(
+        origin,
+        'chargebacks',
+        'chargebacks',
+        state.listChargebacks().map(chargeback => presentChargeback(origin, chargeback)),
+        query,
+        'chargebacks-api/list-chargebacks',
+      ),
+  },
+  // Captures.
+  {
+    method: 'GET',
+    pattern: 'payments/:paymentId/captures',
+    handle: ({ state, origin, parameters: { paymentId }, query }) => {
+      state.getPayment(paymentId);
+      const captures = state.listCaptures(paymentId).map(capture => presentCapture({ state, origin }, capture));
+      return paginate(origin, `payments/${paymentId}/captures`, 'captures', captures, query, 'captures-api/list-captures');
+    },
+  },
+  { method: 'GET', pattern: 'payments/:paymentId/captures/:id', handle: ({ state, origin, parameters }) => presentCapture({ state, origin }, state.getCapture(parameters.id, parameters.paymentId)) },
+  // Customers.
+  { method: 'POST', pattern: 'customers', status: 201, handle: ({ state, origin, body }) => presentCustomer(origin, state.createCustomer(body)) },
+  {
+    method: 'GET',
+    pattern: 'customers',
+    handle: ({ state, origin, query }) =>
+      paginate(
+        origin,
+        'customers',
+        'customers',
+        state.listCustomers().map(customer => presentCustomer(origin, customer)),
+        query,
+        'customers-api/list-customers',
+      ),
+  },
+  { method: 'GET', pattern: 'customers/:id', handle: ({ state, origin, parameters }) => presentCustomer(origin, state.getCustomer(parameters.id)) },
+  { method: 'PATCH', pattern: 'customers/:id', handle: ({ state, origin, parameters, body }) => presentCustomer(origin, state.updateCustomer(parameters.id, body)) },
+  { method: 'DELETE', pattern: 'customers/:id', handle: ({ state, parameters }) => void state.deleteCustomer(parameters.id) },
+  // Customer payments.
+  {
+    method: 'POST',
+    pattern: 'customers/:customerId/payments',
+    status: 201,
+    handle: context => presentPayment(context, context.state.createPayment(context.body, { customerId: context.parameters.customerId })),
+  },
+  {
+    method: 'GET',
+    pattern: 'customers/:customerId/payments',
+    handle: context => {
+      const {
+        state,
+        origin,
+        parameters: { customerId },
+        query,
+      } = context;
+      state.getCustomer(customerId);
+      const payments = state.listPayments(payment => payment.customerId == customerId).map(payment => presentPayment(context, payment));
+      return paginate(origin, `customers/${customerId}/payments`, 'payments', payments, query, 'customers-api/list-customer-payments');
+    },
+  },
+  // Mandates.
+  { method: 'POST', pattern: 'customers/:customerId/mandates', status: 201, handle: ({ state, origin, parameters, body }) => presentMandate(origin, state.createMandate(parameters.customerId, body)) },
+  {
+    method: 'GET',
+    pattern: 'customers/:customerId/mandates',
+    handle: ({ state, origin, parameters: { customerId }, query }) =>
+      paginate(
+        origin,
+        `customers/${customerId}/mandates`,
+        'mandates',
+        state.listMandates(customerId).map(mandate => presentMandate(origin, mandate)),
+        query,
+        'mandates-api/list-mandates',
+      ),
+  },
+  { method: 'GET', pattern: 'customers/:customerId/mandates/:id', handle: ({ state, origin, parameters }) => presentMandate(origin, state.getMandate(parameters.id, parameters.customerId)) },
+  { method: 'DELETE', pattern: 'customers/:customerId/mandates/:id', handle: ({ state, parameters }) => void state.revokeMandate(parameters.id, parameters.customerId) },
+  // Subscriptions.
+  {
+    method: 'POST',
+    pattern: 'customers/:customerId/subscriptions',
+    status: 201,
+    handle: ({ state, origin, parameters, body }) => presentSubscription(origin, state.createSubscription(parameters.customerId, body)),
+  },
+  {
+    method: 'GET',
+    pattern: 'customers/:customerId/subscriptions',
+    handle: ({ state, origin, parameters: { customerId }, query }) => {
+      state.getCustomer(customerId);
+      const subscriptions = state.listSubscriptions(subscription => subscription.customerId == customerId).map(subscription => presentSubscription(origin, subscription));
+      return paginate(origin, `customers/${customerId}/subscriptions`, 'subscriptions', subscriptions, query, 'subscriptions-api/list-subscriptions');
+    },
+  },
+  {
+    method: 'GET',
+    pattern: 'customers/:customerId/subscriptions/:id',
+    handle: ({ state, origin, parameters }) => presentSubscription(origin, state.getSubscription(parameters.id, parameters.customerId)),
+  },
+  {
+    method: 'PATCH',
+    pattern: 'customers/:customerId/subscriptions/:id',
+    handle: ({ state, origin, parameters, body }) => presentSubscription(origin, state.updateSubscription(parameters.id, parameters.customerId, body)),
+  },
+  {
+    method: 'DELETE',
+    pattern: 'customers/:customerId/subscriptions/:id',
+    handle: ({ state, origin, parameters }) => presentSubscription(origin, state.cancelSubscription(parameters.id, parameters.customerId)),
+  },
+  {
+    method: 'GET',
+    pattern: 'customers/:customerId/subscriptions/:id/payments',
+    handle: context => {
+      const {
+        state,
+        origin,
+        parameters: { customerId, id },
+        query,
+      } = context;
+      state.getSubscription(id, customerId);
+      const payments = state.listPayments(payment => payment.subscriptionId == id).map(payment => presentPayment(context, payment));
+      return paginate(origin, `customers/${customerId}/subscriptions/${id}/payments`, 'payments', payments, query, 'subscriptions-api/list-subscription-payments');
+    },
+  },
+  {
+    method: 'GET',
+    pattern: 'subscriptions',
+    handle: ({ state, origin, query }) =>
+      paginate(
+        origin,
+        'subscriptions',
+        'subscriptions',
+        state.listSubscriptions().map(subscription => presentSubscription(origin, subscription)),
+        query,
+        'subscriptions-api/list-all-subscriptions',
+      ),
+  },
+  // Orders.
+  { method: 'POST', pattern: 'orders', status: 201, handle: context => presentOrder(context, context.state.createOrder(context.body)) },
+  {
+    method: 'GET',
+    pattern: 'orders',
+    handle: context =>
+      paginate(
+        context.origin,
+        'orders',
+        'orders',
+        context.state.listOrders().map(order => presentOrder(context, order)),
+        context.query,
+        'orders-api/list-orders',
+      ),
+  },
+  { method: 'GET', pattern: 'orders/:id', handle: context => presentOrder(context, context.state.getOrder(context.parameters.id)) },
+  { method: 'PATCH', pattern: 'orders/:id', handle: context => presentOrder(context, context.state.updateOrder(context.parameters.id, context.body)) },
+  { method: 'DELETE', pattern: 'orders/:id', handle: context => presentOrder(context, context.state.cancelOrder(context.parameters.id)) },
+  { method: 'PATCH', pattern: 'orders/:orderId/lines/:id', handle: context => presentOrder(context, context.state.updateOrderLine(context.parameters.orderId, context.parameters.id, context.body)) },
+  { method: 'DELETE', pattern: 'orders/:orderId/lines', handle: ({ state, parameters, body }) => void state.cancelOrderLines(parameters.orderId, body ?? {}) },
+  {
+    method: 'POST',
+    pattern: 'orders/:orderId/payments',
+    status: 201,
+    handle: context => presentPayment(context, context.state.createOrderPayment(context.parameters.orderId, context.body ?? {})),
+  },
+  { method: 'POST', pattern: 'orders/:orderId/shipments', status: 201, handle: ({ state, origin, parameters, body }) => presentShipment(origin, state.createShipment(parameters.orderId, body ?? {})) },
+  {
+    method: 'GET',
+    pattern: 'orders/:orderId/shipments',
+    handle: ({ state, origin, parameters: { orderId }, query }) =>
+      paginate(
+        origin,
+        `orders/${orderId}/shipments`,
+        'shipments',
+        state.listShipments(orderId).map(shipment => presentShipment(origin, shipment)),
+        query,
+        'shipments-api/list-shipments',
+      ),
+  },
+  { method: 'GET', pattern: 'orders/:orderId/shipments/:id', handle: ({ state, origin, parameters }) => presentShipment(origin, state.getShipment(parameters.id, parameters.orderId)) },
+  {
+    method: 'PATCH',
+    pattern: 'orders/:orderId/shipments/:id',
+    handle: ({ state, origin, parameters, body }) => presentShipment(origin, state.updateShipment(parameters.id, parameters.orderId, body)),
+  },
+  { method: 'POST', pattern: 'orders/:orderId/refunds', status: 201, handle: ({ state, origin, parameters, body }) => presentRefund(origin, state.createOrderRefund(parameters.orderId, body ?? {})) },
+  {
+    method: 'GET',
+    pattern: 'orders/:orderId/refunds',
+    handle: ({ state, origin, parameters: { orderId }, query }) => {
+      state.getOrder(orderId);
+      const refunds = state.listRefunds(refund => refund.orderId == orderId).map(refund => presentRefund(origin, refund));
+      return paginate(origin, `orders/${orderId}/refunds`, 'refunds', refunds, query, 'orders-api/list-order-refunds');
+    },
+  },
+  // Payment links.
+  { method: 'POST', pattern: 'payment-links', status: 201, handle: ({ state, origin, body }) => presentPaymentLink(origin, state.createPaymentLink(body)) },
+  {
+    method: 'GET',
+    pattern: 'payment-links',
+    handle: ({ state, origin, query }) =>
+      paginate(
+        origin,
+        'payment-links',
+        'payment_links',
+        state.listPaymentLinks().map(paymentLink => presentPaymentLink(origin, paymentLink)),
+        query,
+        'payment-links-api/list-payment-links',
+      ),
+  },
+  { method: 'GET', pattern: 'payment-links/:id', handle: ({ state, origin, parameters }) => presentPaymentLink(origin, state.getPaymentLink(parameters.id)) },
+  // Methods.
+  {
+    method: 'GET',
+    pattern: 'methods',
+    handle: ({ state, origin, query }) => {
+      const amount = query['amount[value]'] == undefined ? undefined : { value: query['amount[value]'], currency: query['amount[currency]'] ?? 'EUR' };
+      const methods = state.listMethods({ amount, sequenceType: query.sequenceType }).map(method => presentMethod(origin, method));
+      return { count: methods.length, _embedded: { methods }, _links: composeLinks(origin, 'methods', 'methods-api/list-methods') };
+    },
+  },
+  { method: 'GET', pattern: 'methods/:id', handle: ({ state, origin, parameters, query }) => presentMethod(origin, state.getMethod(parameters.id, query.currency)) },
+  // Profiles.
+  { method: 'POST', pattern: 'profiles', status: 201, handle: ({ state, origin, body }) => presentProfile(origin, state.createProfile(body)) },
+  {
+    method: 'GET',
+    pattern: 'profiles',
+    handle: ({ state, origin, query }) =>
+      paginate(
+        origin,
+        'profiles',
+        'profiles',
+        state.listProfiles().map(profile => presentProfile(origin, profile)),
+        query,
+        'profiles-api/list-profiles',
+      ),
+  },
+  { method: 'GET', pattern: 'profiles/:id', handle: ({ state, origin, parameters }) => presentProfile(origin, state.getProfile(parameters.id)) },
+  { method: 'PATCH', pattern: 'profiles/:id', handle: ({ state, origin, parameters, body }) => presentProfile(origin, state.updateProfile(parameters.id, body)) },
+  { method: 'DELETE', pattern: 'profiles/:id', handle: ({ state, parameters }) => void state.deleteProfile(parameters.id) },
+];
+
+/**
+ * Finds the route for the passed method and pathname in the passed routes, and returns it with the parameters
+ * extracted from the pathname. Throws a `404` error if no route has a matching pattern, or a `405` error if a route has
+ * a matching pattern but not a matching method.
+ */
+export default function findRoute(routes: Route[], method: string, pathname: string): [Route, Record<string, string>] {
+  const segments = pathname.split('/').filter(segment => segment.length != 0);
+  let patternMatched = false;
+  for (const route of routes) {
+    const patternSegments = route.pattern.split('/');
+    if (patternSegments.length != segments.length) {
+      continue;
+    }
+    const parameters: Record<string, string> = {};
+    const matches = patternSegments.every((patternSegment, index) => {
+      if (patternSegment.startsWith(':')) {
+        parameters[patternSegment.substring(1)] = decodeURIComponent(segments[index]);
+        return true;
+      }
+      return patternSegment == segments[index];
+    });
+    if (!matches) {
+      continue;
+    }
+    patternMatched = true;
+    if (route.method == method) {
+      return [route, parameters];
+    }
+  }
+  if (patternMatched) {
+    throw new SimulatorError(405, `The method ${method} is not allowed for this resource`);
+  }
+  throw new SimulatorError(404, 'The resource does not exist');
+}
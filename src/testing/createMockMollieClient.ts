@@ -0,0 +1,156 @@
+import createMollieClient from '../createMollieClient';
+import Simulator from '../simulator/Simulator';
+
+type MollieClient = ReturnType<typeof createMollieClient>;
+
+/**
+ * A method of a mock client. The stub records its calls, and delegates to an in-memory implementation unless another
+ * implementation has been set through `implement`.
+ */
+export type Stub<F extends (...args: any[]) => any> = F & {
+  /**
+   * The arguments of the calls to this stub, from oldest to newest.
+   */
+  readonly calls: any[][];
+  /**
+   * Replaces the implementation of this stub by the passed function. If no function is passed, the in-memory
+   * implementation is restored.
+   */
+  implement(implementation?: F): void;
+  /**
+   * Forgets the recorded calls, and restores the in-memory implementation.
+   */
+  reset(): void;
+};
+
+type StubbedBinder<B> = { [K in keyof B]: B[K] extends (...args: any[]) => any ? Stub<B[K]> : B[K] };
+
+export type MockMollieClient = { [K in keyof MollieClient]: StubbedBinder<MollieClient[K]> };
+
+export interface MockMollieClientOptions {
+  /**
+   * The simulator which holds the data of the mock client. Pass a simulator to force transitions which Mollie would make
+   * in reaction to a consumer or a bank, such as a payment being paid. Default: a new simulator.
+   */
+  simulator?: Simulator;
+}
+
+/**
+ * Returns the names of the methods of the passed object, including the inherited ones.
+ */
+function getMethodNames(input: Record<string, unknown>) {
+  const result = new Set<string>();
+  for (let prototype: object = input; prototype != Object.prototype; prototype = Object.getPrototypeOf(prototype)) {
+    Object.getOwnPropertyNames(prototype).forEach(name => {
+      if (name != 'constructor' && typeof input[name] == 'function') {
+        result.add(name);
+      }
+    });
+  }
+  return Array.from(result);
+}
+
+function createStub<F extends (...args: any[]) => any>(fallback: F, replaceResult: (result: unknown) => unknown): Stub<F> {
+  const calls: any[][] = [];
+  let implementation: F = fallback;
+  const stub = function stub(...args: any[]) {
+    calls.push(args);
+    return replaceResult(implementation(...args));
+  };
+  return Object.assign(stub, {
+    calls,
+    implement(replacement: F = fallback) {
+      implementation = replacement;
+    },
+    reset() {
+      calls.length = 0;
+      implementation = fallback;
+    },
+  }) as Stub<F>;
+}
+
+/**
+ * Replaces every method of the passed binder by a stub. If a description is passed, the binder is not simulated, and the
+ * stubs throw an error until they are given an implementation.
+ */
+function stubBinder<B extends object>(binder: B, unsimulatedDescription?: string): StubbedBinder<B> {
+  const methods = binder as Record<string, unknown>;
+  const result = {} as Record<string, unknown>;
+  getMethodNames(methods).forEach(name => {
+    const method = methods[name];
+    if (typeof method != 'function') {
+      return;
+    }
+    const fallback =
+      unsimulatedDescription == undefined
+        ? method.bind(binder)
+        : () => {
+            throw new Error(`${name} is not simulated, as the simulator does not hold ${unsimulatedDescription}. Call implement on the stub to provide an implementation.`);
+          };
+    // Methods such as withParent return the binder itself. Return the stubbed binder instead, so calls made through the
+    // returned binder are recorded as well.
+    result[name] = createStub(fallback, value => (value === binder ? result : value));
+  });
+  return result as StubbedBinder<B>;
+}
+
+/**
+ * The binders for resources the simulator does not hold, mapped to a description used in the error thrown by their
+ * stubs.
+ */
+const unsimulatedBinders: Partial<Record<keyof MollieClient, string>> = {
+  permissions: 'permissions',
+  organizations: 'organizations',
+  onboarding: 'onboarding',
+  applePay: 'Apple Pay',
+  settlements: 'settlements',
+  settlementPayments: 'settlements',
+  settlements_payments: 'settlements',
+  settlementRefunds: 'settlements',
+  settlements_refunds: 'settlements',
+  settlementChargebacks: 'settlements',
+  settlements_chargebacks: 'settlements',
+  settlementCaptures: 'settlements',
+  settlements_captures: 'settlements',
+  balances: 'balances',
+  balanceTransactions: 'balances',
+  balances_transactions: 'balances',
+  invoices: 'invoices',
+  clients: 'clients',
+  clientLinks: 'client links',
+  terminals: 'terminals',
+  webhooks: 'webhooks',
+};
+
+/**
+ * Creates a client for unit testing application code. The client has the same binders as the one returned by
+ * `createMollieClient` (including the snake_case aliases such as `payments_refunds`), but every method is a stub.
+ *
+ * By default, the stubs store and retrieve data in memory ‒ through a `Simulator` ‒ so that a payment created with
+ * `payments.create` can be retrieved with `payments.get`, and `iterate` returns an iterator over the stored data. The
+ * simulator does not hold every resource: the stubs of the permissions, organizations, onboarding, Apple Pay,
+ * settlements, balances, invoices, clients, client links, terminals, and webhooks binders throw a "not simulated" error
+ * until they are given an implementation. Use `implement` to replace the behaviour of a method, and `calls` to inspect
+ * how it has been called:
+ *
+ * ```ts
+ * const mollieClient = createMockMollieClient();
+ * mollieClient.payments.get.implement(async () => transformData(buildPayment({ status: PaymentStatus.paid })));
+ * await handlePaymentWebhook(mollieClient, 'tr_WDqYK6vllg');
+ * expect(mollieClient.payments.get.calls[0][0]).toBe('tr_WDqYK6vllg');
+ * ```
+ */
+export default function createMockMollieClient({ simulator = new Simulator() }: MockMollieClientOptions = {}): MockMollieClient {
+  const client = createMollieClient({ apiKey: 'test_mock', transport: simulator.transport });
+  // Aliases (such as paymentRefunds and payments_refunds) share a binder, and should thus share the stubs as well.
+  const stubbedBinders = new Map<object, unknown>();
+  const result = {} as Record<string, unknown>;
+  Object.keys(client).forEach(key => {
+    const binder = client[key as keyof MollieClient];
+    if (stubbedBinders.has(binder) == false) {
+      stubbedBinders.set(binder, stubBinder(binder, unsimulatedBinders[key as keyof MollieClient]));
+    }
+    result[key] = stubbedBinders.get(binder);
+  });
+  return result as MockMollieClient;
+}
@@ -0,0 +1,571 @@
+import { ChargebackData } from '../data/chargebacks/Chargeback';
+import { CustomerData } from '../data/customers/Customer';
+import { MandateData, MandateMethod, MandateStatus } from '../data/customers/mandates/data';
+import { Amount, ApiMode, Locale, PaymentMethod, SequenceType } from '../data/global';
+import { MethodData } from '../data/methods/data';
+import { OnboardingData, OnboardingStatus } from '../data/onboarding/data';
+import { OrderAddress, OrderData, OrderStatus } from '../data/orders/data';
+import { OrderLineData, OrderLineType } from '../data/orders/orderlines/OrderLine';
+import { ShipmentData } from '../data/orders/shipments/Shipment';
+import { OrganizationData } from '../data/organizations/Organizations';
+import { PaymentLinkData } from '../data/paymentLinks/data';
+import { CaptureData } from '../data/payments/captures/data';
+import { PaymentData, PaymentStatus } from '../data/payments/data';
+import { PermissionData } from '../data/permissions/Permission';
+import { ProfileData, ProfileStatus } from '../data/profiles/data';
+import { RefundData, RefundStatus } from '../data/refunds/data';
+import { SubscriptionData, SubscriptionStatus } from '../data/subscriptions/data';
+import { fromCents, toCents } from '../plumbing/amounts';
+import { getIdPrefix, ResourceKind } from '../plumbing/checkId';
+import generateId from '../plumbing/generateId';
+import { composeLink, composeLinks } from '../simulator/hal';
+
+const apiEndpoint = 'https://api.mollie.com/v2/';
+
+/**
+ * Returns the passed ID, or a newly generated ID for the passed kind of resource if none was passed.
+ */
+function pickId(id: string | undefined, resource: ResourceKind) {
+  return id ?? generateId(getIdPrefix(resource));
+}
+
+/**
+ * Returns the moment which lies the passed number of milliseconds after now, in ISO 8601 format.
+ */
+function fromNow(offset = 0) {
+  return new Date(Date.now() + offset).toISOString();
+}
+
+function euros(value: string): Amount {
+  return { currency: 'EUR', value };
+}
+
+/**
+ * The timestamps a payment carries once it has reached a status.
+ */
+const paymentTimestamps: Partial<Record<PaymentStatus, 'authorizedAt' | 'paidAt' | 'canceledAt' | 'expiredAt' | 'failedAt'>> = {
+  authorized: 'authorizedAt',
+  paid: 'paidAt',
+  canceled: 'canceledAt',
+  expired: 'expiredAt',
+  failed: 'failedAt',
+};
+
+/**
+ * Builds the data of a payment, as returned by the Mollie API. The values which depend on the status ‒ such as the
+ * timestamps, `isCancelable`, and the checkout link ‒ are derived from the passed status (default: `'open'`). A paid
+ * payment carries `amountRefunded` and `amountRemaining` which add up to the amount.
+ *
+ * For example: `buildPayment({ status: PaymentStatus.paid })`.
+ */
+export function buildPayment(overrides: Partial<PaymentData> = {}): PaymentData {
+  const { status = PaymentStatus.open, amount = euros('10.00'), _links: linkOverrides, ...rest } = overrides;
+  const id = pickId(overrides.id, 'payment');
+  const createdAt = overrides.createdAt ?? fromNow();
+  const payment: PaymentData = {
+    resource: 'payment',
+    id,
+    mode: ApiMode.test,
+    createdAt,
+    status,
+    isCancelable: status == PaymentStatus.authorized,
+    amount,
+    description: `Payment ${id}`,
+    method: status == PaymentStatus.open ? undefined : PaymentMethod.ideal,
+    metadata: null,
+    locale: Locale.en_US,
+    profileId: generateId(getIdPrefix('profile')),
+    sequenceType: SequenceType.oneoff,
+    redirectUrl: 'https://example.org/redirect',
+    webhookUrl: 'https://example.org/webhook',
+    _links: composeLinks(apiEndpoint, `payments/${id}`, 'payments-api/get-payment'),
+  };
+  if (status == PaymentStatus.open || status == PaymentStatus.pending || status == PaymentStatus.authorized) {
+    payment.expiresAt = fromNow(15 * 60e3);
+  }
+  const timestamp = paymentTimestamps[status];
+  if (timestamp != undefined) {
+    payment[timestamp] = createdAt;
+  }
+  if (status == PaymentStatus.paid) {
+    const amountRefunded = overrides.amountRefunded ?? fromCents(0, amount.currency);
+    payment.amountRefunded = amountRefunded;
+    payment.amountRemaining = fromCents(toCents(amount) - toCents(amountRefunded), amount.currency);
+    payment.settlementAmount = amount;
+  }
+  Object.assign(payment, rest);
+  // Compose the links which depend on the (possibly overridden) values.
+  const { _links: links } = payment;
+  if (status == PaymentStatus.open) {
+    links.checkout = composeLink(`https://www.mollie.com/checkout/select-method/${id}`, 'text/html');
+  }
+  if (payment.amountRefunded != undefined && toCents(payment.amountRefunded) != 0) {
+    links.refunds = composeLink(`${apiEndpoint}payments/${id}/refunds`);
+  }
+  if (payment.amountChargedBack != undefined) {
+    links.chargebacks = composeLink(`${apiEndpoint}payments/${id}/chargebacks`);
+  }
+  if (payment.amountCaptured != undefined) {
+    links.captures = composeLink(`${apiEndpoint}payments/${id}/captures`);
+  }
+  if (payment.customerId != undefined) {
+    links.customer = composeLink(`${apiEndpoint}customers/${payment.customerId}`);
+    if (payment.mandateId != undefined) {
+      links.mandate = composeLink(`${apiEndpoint}customers/${payment.customerId}/mandates/${payment.mandateId}`);
+    }
+    if (payment.subscriptionId != undefined) {
+      links.subscription = composeLink(`${apiEndpoint}customers/${payment.customerId}/subscriptions/${payment.subscriptionId}`);
+    }
+  }
+  if (payment.orderId != undefined) {
+    links.order = composeLink(`${apiEndpoint}orders/${payment.orderId}`);
+  }
+  Object.assign(links, linkOverrides);
+  return payment;
+}
+
+/**
+ * Builds the data of a refund of a payment, as returned by the Mollie API. The refund refers to a newly generated
+ * payment, unless a `paymentId` is passed.
+ */
+export function buildRefund(overrides: Partial<RefundData> = {}): RefundData {
+  const id = pickId(overrides.id, 'refund');
+  const paymentId = overrides.paymentId ?? generateId(getIdPrefix('payment'));
+  const refund: RefundData = {
+    resource: 'refund',
+    id,
+    amount: euros('5.00'),
+    description: `Refund ${id}`,
+    metadata: null,
+    status: RefundStatus.pending,
+    paymentId,
+    createdAt: fromNow(),
+    ...overrides,
+    _links: {
+      ...composeLinks(apiEndpoint, `payments/${paymentId}/refunds/${id}`, 'refunds-api/get-payment-refund'),
+      payment: composeLink(`${apiEndpoint}payments/${paymentId}`),
+    },
+  };
+  if (refund.orderId != undefined) {
+    refund._links.order = composeLink(`${apiEndpoint}orders/${refund.orderId}`);
+  }
+  Object.assign(refund._links, overrides._links);
+  return refund;
+}
+
+/**
+ * Builds the data of a chargeback of a payment, as returned by the Mollie API. The settlement amount is the negated
+ * amount.
+ */
+export function buildChargeback(overrides: Partial<ChargebackData> = {}): ChargebackData {
+  const id = pickId(overrides.id, 'chargeback');
+  const paymentId = overrides.paymentId ?? generateId(getIdPrefix('payment'));
+  const amount = overrides.amount ?? euros('10.00');
+  return {
+    resource: 'chargeback',
+    id,
+    amount,
+    settlementAmount: fromCents(-toCents(amount), amount.currency),
+    createdAt: fromNow(),
+    reason: { code: 'AC01', description: 'Account identifier incorrect (i.e. invalid IBAN)' },
+    reversedAt: null,
+    paymentId,
+    ...overrides,
+    _links: {
+      ...composeLinks(apiEndpoint, `payments/${paymentId}/chargebacks/${id}`, 'chargebacks-api/get-payment-chargeback'),
+      payment: composeLink(`${apiEndpoint}payments/${paymentId}`),
+      ...overrides._links,
+    },
+  };
+}
+
+/**
+ * Builds the data of a capture of a payment, as returned by the Mollie API.
+ */
+export function buildCapture(overrides: Partial<CaptureData> = {}): CaptureData {
+  const id = pickId(overrides.id, 'capture');
+  const paymentId = overrides.paymentId ?? generateId(getIdPrefix('payment'));
+  const amount = overrides.amount ?? euros('10.00');
+  return {
+    resource: 'capture',
+    id,
+    mode: ApiMode.test,
+    amount,
+    settlementAmount: amount,
+    paymentId,
+    createdAt: fromNow(),
+    ...overrides,
+    _links: {
+      ...composeLinks(apiEndpoint, `payments/${paymentId}/captures/${id}`, 'captures-api/get-capture'),
+      payment: composeLink(`${apiEndpoint}payments/${paymentId}`),
+      ...overrides._links,
+    },
+  };
+}
+
+/**
+ * Builds the data of a customer, as returned by the Mollie API.
+ */
+export function buildCustomer(overrides: Partial<CustomerData> = {}): CustomerData {
+  const id = pickId(overrides.id, 'customer');
+  return {
+    resource: 'customer',
+    id,
+    mode: ApiMode.test,
+    name: 'Customer A',
+    email: 'customer@example.org',
+    locale: Locale.en_US,
+    recentlyUsedMethods: [],
+    metadata: {},
+    createdAt: fromNow(),
+    ...overrides,
+    _links: {
+      ...composeLinks(apiEndpoint, `customers/${id}`, 'customers-api/get-customer'),
+      mandates: composeLink(`${apiEndpoint}customers/${id}/mandates`),
+      subscriptions: composeLink(`${apiEndpoint}customers/${id}/subscriptions`),
+      payments: composeLink(`${apiEndpoint}customers/${id}/payments`),
+      ...overrides._links,
+    },
+  };
+}
+
+/**
+ * Builds the data of a (direct debit) mandate of a customer, as returned by the Mollie API. The mandate refers to a
+ * newly generated customer, unless a `customerId` is passed.
+ */
+export function buildMandate({ customerId = generateId(getIdPrefix('customer')), ...overrides }: Partial<MandateData> & { customerId?: string } = {}): MandateData {
+  const id = pickId(overrides.id, 'mandate');
+  const createdAt = fromNow();
+  return {
+    resource: 'mandate',
+    id,
+    mode: ApiMode.test,
+    status: MandateStatus.valid,
+    method: MandateMethod.directdebit,
+    details: { consumerName: 'John Doe', consumerAccount: 'NL55INGB0000000000', consumerBic: 'INGBNL2A' },
+    mandateReference: 'YOUR-COMPANY-MD13804',
+    signatureDate: createdAt.substring(0, 10),
+    createdAt,
+    ...overrides,
+    _links: {
+      ...composeLinks(apiEndpoint, `customers/${customerId}/mandates/${id}`, 'mandates-api/get-mandate'),
+      customer: composeLink(`${apiEndpoint}customers/${customerId}`),
+      ...overrides._links,
+    },
+  };
+}
+
+/**
+ * Builds the data of a subscription of a customer, as returned by the Mollie API. The subscription refers to a newly
+ * generated customer and mandate, unless a `customerId` and `mandateId` are passed. `timesRemaining` is derived from
+ * `times` (default: `4`).
+ */
+export function buildSubscription({ customerId = generateId(getIdPrefix('customer')), ...overrides }: Partial<SubscriptionData> & { customerId?: string } = {}): SubscriptionData {
+  const id = pickId(overrides.id, 'subscription');
+  const { status = SubscriptionStatus.active, times = 4 } = overrides;
+  const createdAt = fromNow();
+  return {
+    resource: 'subscription',
+    id,
+    mode: ApiMode.test,
+    status,
+    amount: euros('25.00'),
+    times,
+    timesRemaining: status == SubscriptionStatus.completed ? 0 : times,
+    interval: '1 month',
+    startDate: createdAt.substring(0, 10),
+    nextPaymentDate: status == SubscriptionStatus.active ? createdAt.substring(0, 10) : undefined,
+    description: `Subscription ${id}`,
+    method: MandateMethod.directdebit,
+    mandateId: generateId(getIdPrefix('mandate')),
+    createdAt,
+    canceledAt: status == SubscriptionStatus.canceled ? createdAt : undefined,
+    webhookUrl: 'https://example.org/webhook',
+    metadata: null,
+    ...overrides,
+    _links: {
+      ...composeLinks(apiEndpoint, `customers/${customerId}/subscriptions/${id}`, 'subscriptions-api/get-subscription'),
+      customer: composeLink(`${apiEndpoint}customers/${customerId}`),
+      payments: composeLink(`${apiEndpoint}customers/${customerId}/subscriptions/${id}/payments`),
+      ...overrides._links,
+    },
+  };
+}
+
+/**
+ * Builds the data of an order line, as returned by the Mollie API. The total amount is the unit price times the
+ * quantity minus the discount, and the VAT amount is derived from the total amount and the VAT rate. The quantities
+ * (shipped, shippable, refundable, and so forth) are derived from the status of the line.
+ */
+export function buildOrderLine(overrides: Partial<OrderLineData> = {}): OrderLineData {
+  const { status = OrderStatus.created, quantity = 1, unitPrice = euros('10.00'), discountAmount, vatRate = '21.00' } = overrides;
+  const { currency } = unitPrice;
+  const zero = fromCents(0, currency);
+  const totalAmount = overrides.totalAmount ?? fromCents(toCents(unitPrice) * quantity - (discountAmount == undefined ? 0 : toCents(discountAmount)), currency);
+  const vatRateValue = parseFloat(vatRate);
+  const shipped = status == OrderStatus.completed ? quantity : 0;
+  const canceled = status == OrderStatus.canceled ? quantity : 0;
+  const settled = status == OrderStatus.paid || status == OrderStatus.authorized || status == OrderStatus.shipping || status == OrderStatus.completed;
+  const cancelable = status == OrderStatus.created || status == OrderStatus.authorized ? quantity : 0;
+  return {
+    resource: 'orderline',
+    id: pickId(overrides.id, 'orderline'),
+    type: OrderLineType.physical,
+    name: 'Product',
+    status,
+    isCancelable: cancelable != 0,
+    quantity,
+    quantityShipped: shipped,
+    amountShipped: shipped == 0 ? zero : totalAmount,
+    quantityRefunded: 0,
+    amountRefunded: zero,
+    quantityCanceled: canceled,
+    amountCanceled: canceled == 0 ? zero : totalAmount,
+    shippableQuantity: settled ? quantity - shipped : 0,
+    refundableQuantity: settled && status != OrderStatus.authorized ? quantity : 0,
+    cancelableQuantity: cancelable,
+    unitPrice,
+    discountAmount,
+    totalAmount,
+    vatRate,
+    vatAmount: fromCents(Math.round((toCents(totalAmount) * vatRateValue) / (100 + vatRateValue)), currency),
+    sku: undefined,
+    createdAt: fromNow(),
+    metadata: null,
+    ...overrides,
+    _links: {
+      productUrl: composeLink('https://example.org/product', 'text/html'),
+      imageUrl: composeLink('https://example.org/product.png', 'text/html'),
+      ...overrides._links,
+    },
+  };
+}
+
+const address: OrderAddress = {
+  givenName: 'Piet',
+  familyName: 'Mondriaan',
+  email: 'piet@example.org',
+  streetAndNumber: 'Keizersgracht 126',
+  postalCode: '1015 CW',
+  city: 'Amsterdam',
+  country: 'NL',
+};
+
+/**
+ * Builds the data of an order, as returned by the Mollie API. Pass a number as `lines` to have that many lines
+ * generated (default: `1`), or pass an array of (partial) lines. The amount of the order is the sum of the total
+ * amounts of the lines, and the lines share the status of the order (default: `'created'`).
+ *
+ * For example: `buildOrder({ lines: 3 })`.
+ */
+export function buildOrder({ lines: linesInput = 1, ...overrides }: Omit<Partial<OrderData>, 'lines'> & { lines?: number | Array<Partial<OrderLineData>> } = {}): OrderData {
+  const id = pickId(overrides.id, 'order');
+  const { status = OrderStatus.created } = overrides;
+  const createdAt = overrides.createdAt ?? fromNow();
+  const lines = (typeof linesInput == 'number' ? Array.from({ length: linesInput }, (_, index) => ({ name: `Product ${index + 1}`, unitPrice: euros(`${(index + 1) * 10}.00`) })) : linesInput).map(
+    line => buildOrderLine({ status, orderId: id, createdAt, ...line }),
+  );
+  const currency = lines.length == 0 ? 'EUR' : lines[0].totalAmount.currency;
+  const order: OrderData = {
+    resource: 'order',
+    id,
+    mode: ApiMode.test,
+    profileId: generateId(getIdPrefix('profile')),
+    method: status == OrderStatus.created ? null : PaymentMethod.klarnapaylater,
+    amount: fromCents(
+      lines.reduce((sum, { totalAmount }) => sum + toCents(totalAmount), 0),
+      currency,
+    ),
+    status,
+    isCancelable: status == OrderStatus.created || status == OrderStatus.authorized,
+    billingAddress: address,
+    orderNumber: '1337',
+    shippingAddress: address,
+    locale: Locale.en_US,
+    metadata: null,
+    redirectUrl: 'https://example.org/redirect',
+    lines,
+    webhookUrl: 'https://example.org/webhook',
+    createdAt,
+    expiresAt: fromNow(28 * 86400e3),
+    ...overrides,
+    _links: composeLinks(apiEndpoint, `orders/${id}`, 'orders-api/get-order'),
+  };
+  switch (status) {
+    case OrderStatus.paid:
+    case OrderStatus.shipping:
+    case OrderStatus.completed:
+      order.paidAt = order.paidAt ?? createdAt;
+      break;
+    case OrderStatus.authorized:
+      order.authorizedAt = order.authorizedAt ?? createdAt;
+      break;
+    case OrderStatus.canceled:
+      order.canceledAt = order.canceledAt ?? createdAt;
+      break;
+  }
+  if (status == OrderStatus.completed) {
+    order.completedAt = order.completedAt ?? createdAt;
+  }
+  if (status == OrderStatus.created) {
+    order._links.checkout = composeLink(`https://www.mollie.com/checkout/order/${id}`, 'text/html');
+  }
+  Object.assign(order._links, overrides._links);
+  return order;
+}
+
+/**
+ * Builds the data of a shipment of an order, as returned by the Mollie API. Unless lines are passed, the shipment holds
+ * a single line.
+ */
+export function buildShipment(overrides: Partial<ShipmentData> = {}): ShipmentData {
+  const id = pickId(overrides.id, 'shipment');
+  const orderId = overrides.orderId ?? generateId(getIdPrefix('order'));
+  return {
+    resource: 'shipment',
+    id,
+    orderId,
+    createdAt: fromNow(),
+    lines: [buildOrderLine({ orderId, status: OrderStatus.completed })],
+    ...overrides,
+    _links: {
+      ...composeLinks(apiEndpoint, `orders/${orderId}/shipments/${id}`, 'shipments-api/get-shipment'),
+      order: composeLink(`${apiEndpoint}orders/${orderId}`),
+      ...overrides._links,
+    },
+  };
+}
+
+/**
+ * Builds the data of a payment link, as returned by the Mollie API.
+ */
+export function buildPaymentLink(overrides: Partial<PaymentLinkData> = {}): PaymentLinkData {
+  const id = pickId(overrides.id, 'payment-link');
+  return {
+    resource: 'payment-link',
+    id,
+    mode: ApiMode.test,
+    profileId: generateId(getIdPrefix('profile')),
+    amount: euros('10.00'),
+    description: `Payment link ${id}`,
+    redirectUrl: 'https://example.org/redirect',
+    webhookUrl: 'https://example.org/webhook',
+    createdAt: fromNow(),
+    ...overrides,
+    _links: {
+      ...composeLinks(apiEndpoint, `payment-links/${id}`, 'payment-links-api/get-payment-link'),
+      paymentLink: composeLink(`https://paymentlink.mollie.com/payment/${id.substring(3)}/`, 'text/html'),
+      ...overrides._links,
+    },
+  };
+}
+
+/**
+ * Builds the data of a profile, as returned by the Mollie API.
+ */
+export function buildProfile(overrides: Partial<ProfileData> = {}): ProfileData {
+  const id = pickId(overrides.id, 'profile');
+  return {
+    resource: 'profile',
+    id,
+    mode: ApiMode.test,
+    name: 'My website name',
+    website: 'https://shop.example.org',
+    email: 'info@example.org',
+    phone: '+31208202070',
+    businessCategory: 'OTHER_MERCHANDISE',
+    categoryCode: 5399,
+    status: ProfileStatus.verified,
+    review: null,
+    createdAt: fromNow(),
+    ...overrides,
+    _links: {
+      ...composeLinks(apiEndpoint, `profiles/${id}`, 'profiles-api/get-profile'),
+      chargebacks: composeLink(`${apiEndpoint}chargebacks?profileId=${id}`),
+      methods: composeLink(`${apiEndpoint}methods?profileId=${id}`),
+      payments: composeLink(`${apiEndpoint}payments?profileId=${id}`),
+      refunds: composeLink(`${apiEndpoint}refunds?profileId=${id}`),
+      checkoutPreviewUrl: composeLink(`https://www.mollie.com/payscreen/preview/${id}`, 'text/html'),
+      ...overrides._links,
+    },
+  };
+}
+
+/**
+ * Builds the data of a payment method, as returned by the Mollie API. Default: iDEAL.
+ */
+export function buildMethod(overrides: Partial<MethodData> = {}): MethodData {
+  const { id = PaymentMethod.ideal } = overrides;
+  return {
+    resource: 'method',
+    id,
+    description: id,
+    minimumAmount: euros('0.01'),
+    maximumAmount: euros('50000.00'),
+    image: {
+      size1x: `https://www.mollie.com/external/icons/payment-methods/${id}.png`,
+      size2x: `https://www.mollie.com/external/icons/payment-methods/${id}%402x.png`,
+      svg: `https://www.mollie.com/external/icons/payment-methods/${id}.svg`,
+    },
+    pricing: { description: 'The Netherlands', fixed: euros('0.29'), variable: '0', feeRegion: 'domestic' },
+    ...overrides,
+    _links: { ...composeLinks(apiEndpoint, `methods/${id}`, 'methods-api/get-method'), ...overrides._links },
+  };
+}
+
+/**
+ * Builds the data of a permission, as returned by the Mollie API. Default: `'payments.read'`, granted.
+ */
+export function buildPermission(overrides: Partial<PermissionData> = {}): PermissionData {
+  const { id = 'payments.read' } = overrides;
+  return {
+    resource: 'permission',
+    id,
+    description: 'View your payments',
+    granted: true,
+    ...overrides,
+    _links: { ...composeLinks(apiEndpoint, `permissions/${id}`, 'permissions-api/get-permission'), ...overrides._links },
+  };
+}
+
+/**
+ * Builds the data of an organization, as returned by the Mollie API.
+ */
+export function buildOrganization(overrides: Partial<OrganizationData> = {}): OrganizationData {
+  const id = pickId(overrides.id, 'organization');
+  return {
+    resource: 'organization',
+    id,
+    name: 'Mollie B.V.',
+    locale: Locale.nl_NL,
+    address: { streetAndNumber: 'Keizersgracht 126', postalCode: '1015 CW', city: 'Amsterdam', country: 'NL' },
+    registrationNumber: '30204462',
+    vatNumber: 'NL815839091B01',
+    vatRegulation: 'dutch',
+    ...overrides,
+    _links: { ...composeLinks(apiEndpoint, `organizations/${id}`, 'organizations-api/get-organization'), ...overrides._links },
+  };
+}
+
+/**
+ * Builds the data of the onboarding status, as returned by the Mollie API. Default: completed.
+ */
+export function buildOnboarding(overrides: Partial<OnboardingData> = {}): OnboardingData {
+  const { status = OnboardingStatus.completed } = overrides;
+  return {
+    resource: 'onboarding',
+    id: undefined,
+    name: 'Mollie B.V.',
+    signedUpAt: fromNow(),
+    status,
+    canReceivePayments: status != OnboardingStatus.needsData,
+    canReceiveSettlements: status == OnboardingStatus.completed,
+    ...overrides,
+    _links: {
+      ...composeLinks(apiEndpoint, 'onboarding/me', 'onboarding-api/get-onboarding-status'),
+      dashboard: composeLink('https://www.mollie.com/dashboard/onboarding', 'text/html'),
+      organization: composeLink(`${apiEndpoint}organizations/me`),
+      ...overrides._links,
+    },
+  };
+}
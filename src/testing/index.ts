@@ -0,0 +1,24 @@
+// The testing utilities are published as a separate entry point (@mollie/api-client/testing), so production bundles
+// which only import the client do not include them.
+export { default as Simulator } from '../simulator/Simulator';
+export { default as WebhookSender, mollieRetryDelays } from '../simulator/WebhookSender';
+export { default as createMockMollieClient } from './createMockMollieClient';
+export {
+  buildCapture,
+  buildChargeback,
+  buildCustomer,
+  buildMandate,
+  buildMethod,
+  buildOnboarding,
+  buildOrder,
+  buildOrderLine,
+  buildOrganization,
+  buildPayment,
+  buildPaymentLink,
+  buildPermission,
+  buildProfile,
+  buildRefund,
+  buildShipment,
+  buildSubscription,
+} from './factories';
+export { default as transformData } from './transformData';
@@ -0,0 +1,112 @@
+import { version as libraryVersion } from '../../package.json';
+import NetworkClient from '../communication/NetworkClient';
+import TransformingNetworkClient, { Transformers } from '../communication/TransformingNetworkClient';
+import Balance from '../data/balances/Balance';
+import { BalanceData } from '../data/balances/data';
+import BalanceReport from '../data/balances/report/BalanceReport';
+import { BalanceReportData } from '../data/balances/report/data';
+import BalanceTransaction from '../data/balances/transactions/BalanceTransaction';
+import { BalanceTransactionData } from '../data/balances/transactions/data';
+import Chargeback, { ChargebackData } from '../data/chargebacks/Chargeback';
+import ClientLink from '../data/clientLinks/ClientLink';
+import { ClientLinkData } from '../data/clientLinks/data';
+import Client from '../data/clients/Client';
+import { ClientData } from '../data/clients/data';
+import createTransformers from '../data/createTransformers';
+import Customer, { CustomerData } from '../data/customers/Customer';
+import { InvoiceData } from '../data/invoices/data';
+import Invoice from '../data/invoices/Invoice';
+import { MandateData } from '../data/customers/mandates/data';
+import Mandate from '../data/customers/mandates/Mandate';
+import { MethodData } from '../data/methods/data';
+import Method from '../data/methods/Method';
+import { OnboardingData } from '../data/onboarding/data';
+import Onboarding from '../data/onboarding/Onboarding';
+import { OrderData } from '../data/orders/data';
+import Order from '../data/orders/Order';
+import Shipment, { ShipmentData } from '../data/orders/shipments/Shipment';
+import Organization, { OrganizationData } from '../data/organizations/Organizations';
+import { PaymentLinkData } from '../data/paymentLinks/data';
+import PaymentLink from '../data/paymentLinks/PaymentLink';
+import Capture from '../data/payments/captures/Capture';
+import { CaptureData } from '../data/payments/captures/data';
+import { PaymentData } from '../data/payments/data';
+import Payment from '../data/payments/Payment';
+import Permission, { PermissionData } from '../data/permissions/Permission';
+import { ProfileData } from '../data/profiles/data';
+import Profile from '../data/profiles/Profile';
+import { RefundData } from '../data/refunds/data';
+import Refund from '../data/refunds/Refund';
+import { SettlementData } from '../data/settlements/data';
+import Settlement from '../data/settlements/Settlement';
+import { SubscriptionData } from '../data/subscriptions/data';
+import Subscription from '../data/subscriptions/Subscription';
+import { TerminalData } from '../data/terminals/data';
+import Terminal from '../data/terminals/Terminal';
+import Maybe from '../types/Maybe';
+
+/**
+ * The data shapes and the corresponding helper-equipped objects, per resource.
+ */
+interface Models {
+  balance: [BalanceData, Balance];
+  'balance-report': [BalanceReportData, BalanceReport];
+  balance_transaction: [BalanceTransactionData, BalanceTransaction];
+  capture: [CaptureData, Capture];
+  chargeback: [ChargebackData, Chargeback];
+  client: [ClientData, Client];
+  'client-link': [ClientLinkData, ClientLink];
+  customer: [CustomerData, Customer];
+  invoice: [InvoiceData, Invoice];
+  mandate: [MandateData, Mandate];
+  method: [MethodData, Method];
+  onboarding: [OnboardingData, Onboarding];
+  order: [OrderData, Order];
+  organization: [OrganizationData, Organization];
+  payment: [PaymentData, Payment];
+  'payment-link': [PaymentLinkData, PaymentLink];
+  permission: [PermissionData, Permission];
+  profile: [ProfileData, Profile];
+  refund: [RefundData, Refund];
+  settlement: [SettlementData, Settlement];
+  shipment: [ShipmentData, Shipment];
+  subscription: [SubscriptionData, Subscription];
+  terminal: [TerminalData, Terminal];
+}
+
+let transformers: Maybe<Transformers>;
+let networkClient: Maybe<TransformingNetworkClient>;
+
+/**
+ * Returns the transformers, and the network client used by the transformed objects. The network client never reaches
+ * the network: any request made through a helper fails.
+ */
+function setUp(): [Transformers, TransformingNetworkClient] {
+  if (transformers == undefined || networkClient == undefined) {
+    transformers = createTransformers();
+    networkClient = new TransformingNetworkClient(
+      new NetworkClient({
+        apiKey: 'test_transformData',
+        transport: {
+          send: () => Promise.reject(new Error('Objects created by transformData cannot send requests to the Mollie API')),
+        },
+        libraryVersion,
+        nodeVersion: process.version,
+      }),
+      transformers,
+    );
+  }
+  return [transformers, networkClient];
+}
+
+/**
+ * Passes the passed data (as returned by the Mollie API, or built by one of the `build…` functions) through the same
+ * transformation the client applies to responses, and returns the resulting object with its helper methods. For
+ * example: `transformData(buildPayment({ status: PaymentStatus.paid })).isPaid()` is `true`.
+ *
+ * No network is involved. Helper methods which would send a request to the Mollie API (such as `getRefunds`) fail.
+ */
+export default function transformData<R extends keyof Models>(input: Models[R][0] & { resource: R }): Models[R][1] {
+  const [transformers, networkClient] = setUp();
+  return transformers.get(input.resource)(networkClient, input);
+}
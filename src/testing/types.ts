@@ -0,0 +1,7 @@
+export * from './index';
+import { SimulatorOptions, WebhookDelivery } from '../simulator/Simulator';
+export { SimulatorOptions, WebhookDelivery };
+import { WebhookAttempt, WebhookSenderOptions, WebhookStep } from '../simulator/WebhookSender';
+export { WebhookAttempt, WebhookSenderOptions, WebhookStep };
+import { MockMollieClient, MockMollieClientOptions, Stub } from './createMockMollieClient';
+export { MockMollieClient, MockMollieClientOptions, Stub };
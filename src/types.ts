@@ -4,8 +4,45 @@ export default createMollieClient;
 export * from './createMollieClient';
 export type MollieClient = ReturnType<typeof createMollieClient>;
 export { default as MollieOptions } from './Options';
+import { RetryOptions } from './communication/RetryPolicy';
+export { RetryOptions };
+import { Limiter, RateLimiterOptions } from './communication/RateLimiter';
+export { Limiter, RateLimiterOptions };
+import { CacheStore, MemoryCacheStoreOptions, ResponseCacheOptions } from './communication/ResponseCache';
+export { CacheStore, MemoryCacheStoreOptions, ResponseCacheOptions };
+import { CircuitBreakerOptions, CircuitState } from './communication/CircuitBreaker';
+export { CircuitBreakerOptions, CircuitState };
+import { Cassette, Interaction, RecorderMatch, RecorderMode, RecorderOptions } from './communication/RecordingTransport';
+export { Cassette, Interaction, RecorderMatch, RecorderMode, RecorderOptions };
+import { WebhookClient, WebhookEvent, WebhookEvents, WebhookHandlerOptions, WebhookListener, WebhookResource } from './webhooks/WebhookHandler';
+export { WebhookClient, WebhookEvent, WebhookEvents, WebhookHandlerOptions, WebhookListener, WebhookResource };
+import WebhookStateStore, { WebhookState } from './webhooks/WebhookStateStore';
+export { WebhookStateStore, WebhookState };
+import { WebhookAdapterOptions } from './webhooks/adapters';
+export { WebhookAdapterOptions };
+export { default as WebhookPayload } from './data/webhooks/WebhookPayload';
+import { WebhookPayloadData } from './data/webhooks/data';
+export { WebhookPayloadData };
+import Transport, { TransportRequest, TransportResponse } from './communication/Transport';
+import { AxiosTransportOptions } from './communication/AxiosTransport';
+import { FetchTransportOptions } from './communication/FetchTransport';
+export { Transport, TransportRequest, TransportResponse, AxiosTransportOptions, FetchTransportOptions };
+
+import Hooks, { RequestContext, ShortCircuitResponse, ResponseContext, RetryContext, ErrorContext } from './communication/Hooks';
+export { Hooks, RequestContext, ShortCircuitResponse, ResponseContext, RetryContext, ErrorContext };
 
 export { default as List } from './data/list/List';
+import { RequestOptions } from './types/parameters';
+export { RequestOptions };
+
+export { default as Balance } from './data/balances/Balance';
+export { default as BalanceReport } from './data/balances/report/BalanceReport';
+export { default as BalanceTransaction } from './data/balances/transactions/BalanceTransaction';
+import { BalanceReportSubtotal, BalanceReportTotal } from './data/balances/report/data';
+import { GetReportParameters as BalanceReportGetParams, ListParameters as BalancesListParams } from './binders/balances/parameters';
+import { ListParameters as BalanceTransactionsListParams } from './binders/balances/transactions/parameters';
+export { BalanceReportSubtotal, BalanceReportTotal };
+export { BalancesListParams, BalanceReportGetParams, BalanceTransactionsListParams };
 
 export { default as Capture } from './data/payments/captures/Capture';
 import { GetParameters as CapturesGetParameters, ListParameters as CapturesListParameters } from './binders/payments/captures/parameters';
@@ -15,6 +52,16 @@ export { default as Chargeback } from './data/chargebacks/Chargeback';
 import { ListParameters as ChargebacksListParameters } from './binders/chargebacks/parameters';
 export { ChargebacksListParameters };
 
+export { default as Client } from './data/clients/Client';
+import { ClientCapability } from './data/clients/data';
+import { GetParameters as ClientGetParams, ListParameters as ClientsListParams } from './binders/clients/parameters';
+export { ClientCapability, ClientGetParams, ClientsListParams };
+
+export { default as ClientLink } from './data/clientLinks/ClientLink';
+import { AuthorizeParameters as ClientLinkAuthorizeParams } from './data/clientLinks/ClientLinkHelper';
+import { CreateParameters as ClientLinkCreateParams } from './binders/clientLinks/parameters';
+export { ClientLinkAuthorizeParams, ClientLinkCreateParams };
+
 export { default as Customer } from './data/customers/Customer';
 import {
   CreateParameters as CustomerCreateParams,
@@ -25,6 +72,11 @@ import {
 } from './binders/customers/parameters';
 export { CustomerCreateParams, CustomerGetParams, CustomersListParams, CustomerUpdateParams, CustomerDeleteParams };
 
+export { default as Invoice } from './data/invoices/Invoice';
+import { InvoiceLine } from './data/invoices/data';
+import { ListParameters as InvoicesListParams } from './binders/invoices/parameters';
+export { InvoiceLine, InvoicesListParams };
+
 export { default as Mandate } from './data/customers/mandates/Mandate';
 import {
   CreateParameters as MandateCreateParams,
@@ -85,6 +137,16 @@ import {
 import { ListParameters as RefundsListParams } from './binders/refunds/parameters';
 export { RefundsListParams, PaymentRefundCreateParams, PaymentRefundGetParams, PaymentRefundsListParams, PaymentRefundCancelParams };
 
+export { default as Settlement } from './data/settlements/Settlement';
+import { SettlementCost, SettlementPeriod, SettlementRevenue } from './data/settlements/data';
+import { ListParameters as SettlementsListParams } from './binders/settlements/parameters';
+import { ListParameters as SettlementPaymentsListParams } from './binders/settlements/payments/parameters';
+import { ListParameters as SettlementRefundsListParams } from './binders/settlements/refunds/parameters';
+import { ListParameters as SettlementChargebacksListParams } from './binders/settlements/chargebacks/parameters';
+import { ListParameters as SettlementCapturesListParams } from './binders/settlements/captures/parameters';
+export { SettlementCost, SettlementPeriod, SettlementRevenue };
+export { SettlementsListParams, SettlementPaymentsListParams, SettlementRefundsListParams, SettlementChargebacksListParams, SettlementCapturesListParams };
+
 export { default as Shipment } from './data/orders/shipments/Shipment';
 import {
   CreateParameters as ShipmentCreateParams,
@@ -104,8 +166,14 @@ import {
 } from './binders/customers/subscriptions/parameters';
 export { SubscriptionCreateParams, SubscriptionGetParams, SubscriptionsListParams, SubscriptionUpdateParams, SubscriptionCancelParams };
 
+export { default as Terminal } from './data/terminals/Terminal';
+import { ListParameters as TerminalsListParams } from './binders/terminals/parameters';
+export { TerminalsListParams };
+
 export { CardAudience, CardFailureReason, CardLabel, FeeRegion } from './data/global';
 export { Issuer } from './data/Issuer';
 export { PaymentInclude } from './data/payments/data';
 
 export { default as ApiError } from './errors/ApiError';
+import { ApiErrorContext, ErrorResponse } from './errors/ApiError';
+export { ApiErrorContext, ErrorResponse };
@@ -10,3 +10,25 @@ export interface ThrottlingParameters {
    */
   valuesPerMinute?: number;
 }
+
+export interface IdempotencyParameter {
+  /**
+   * A unique key which allows the request to be sent again ‒ for instance after a time-out ‒ without the risk of the
+   * operation being performed twice. It is sent to the Mollie API as the `Idempotency-Key` header.
+   *
+   * @see https://docs.mollie.com/overview/api-idempotency
+   */
+  idempotencyKey?: string;
+}
+
+export interface RequestOptions {
+  /**
+   * A signal which ‒ when aborted ‒ aborts the request. The returned promise is then rejected with an `AbortError`.
+   */
+  signal?: AbortSignal;
+  /**
+   * The number of milliseconds after which an attempt of the request is aborted. This overrides the `timeout` option of
+   * the client.
+   */
+  timeout?: number;
+}
@@ -0,0 +1,385 @@
+import createMollieClient from '../createMollieClient';
+import { Amount } from '../data/global';
+import Order from '../data/orders/Order';
+import PaymentLink from '../data/paymentLinks/PaymentLink';
+import Payment from '../data/payments/Payment';
+import Subscription from '../data/subscriptions/Subscription';
+import WebhookPayload from '../data/webhooks/WebhookPayload';
+import { InvalidIdError, NotFoundError } from '../errors/ApiError';
+import { toCents } from '../plumbing/amounts';
+import checkId from '../plumbing/checkId';
+import Maybe from '../types/Maybe';
+import parseWebhookBody from './parseWebhookBody';
+import WebhookStateStore, { WebhookState } from './WebhookStateStore';
+
+type MollieClient = ReturnType<typeof createMollieClient>;
+
+/**
+ * The methods the webhook handler uses to fetch the resources. A client returned by `createMollieClient` (or by
+ * `createMockMollieClient`) can be passed as is.
+ */
+export interface WebhookClient {
+  payments: Pick<MollieClient['payments'], 'get'>;
+  orders: Pick<MollieClient['orders'], 'get'>;
+  subscription: Pick<MollieClient['subscription'], 'iterate'>;
+  customerSubscriptions: Pick<MollieClient['customerSubscriptions'], 'get'>;
+  paymentLinks: Pick<MollieClient['paymentLinks'], 'get'>;
+  webhooks: Pick<MollieClient['webhooks'], 'parsePayload'>;
+}
+
+export type WebhookResource = Payment | Order | Subscription | PaymentLink;
+
+/**
+ * The events emitted by the webhook handler, and the resources passed to their listeners.
+ */
+export interface WebhookEvents {
+  /**
+   * Emitted for every webhook call for a payment, regardless of its status. If a state store has been passed, only
+   * emitted for the first call and for calls in which something changed.
+   */
+  payment: Payment;
+  'payment.open': Payment;
+  'payment.canceled': Payment;
+  'payment.pending': Payment;
+  'payment.authorized': Payment;
+  'payment.expired': Payment;
+  'payment.failed': Payment;
+  'payment.paid': Payment;
+  /**
+   * Emitted when (part of) the amount of the payment has been refunded.
+   */
+  'payment.refunded': Payment;
+  /**
+   * Emitted when (part of) the amount of the payment has been charged back.
+   */
+  'payment.chargedback': Payment;
+  /**
+   * Emitted for every webhook call for an order, regardless of its status. If a state store has been passed, only
+   * emitted for the first call and for calls in which something changed.
+   */
+  order: Order;
+  'order.created': Order;
+  'order.paid': Order;
+  'order.authorized': Order;
+  'order.canceled': Order;
+  'order.shipping': Order;
+  'order.completed': Order;
+  'order.expired': Order;
+  'order.pending': Order;
+  /**
+   * Emitted when (part of) the amount of the order has been refunded.
+   */
+  'order.refunded': Order;
+  /**
+   * Emitted for every webhook call for a subscription, regardless of its status. If a state store has been passed, only
+   * emitted for the first call and for calls in which something changed.
+   */
+  subscription: Subscription;
+  'subscription.pending': Subscription;
+  'subscription.active': Subscription;
+  'subscription.canceled': Subscription;
+  'subscription.suspended': Subscription;
+  'subscription.completed': Subscription;
+  /**
+   * Emitted for every webhook call for a payment link. If a state store has been passed, only emitted for the first
+   * call and for calls in which something changed.
+   */
+  paymentLink: PaymentLink;
+  'paymentLink.paid': PaymentLink;
+}
+
+export type WebhookEvent = keyof WebhookEvents;
+
+export type WebhookListener<E extends WebhookEvent> = (resource: WebhookEvents[E], event: E) => void | Promise<void>;
+
+export interface WebhookHandlerOptions {
+  /**
+   * The store in which the state of the resources is kept. If a store is passed, events are only emitted when something
+   * changed since the last processed webhook call for the resource (for instance: `'payment.paid'` is only emitted the
+   * first time the payment is found to be paid). If no store is passed, the events are emitted on every call.
+   */
+  stateStore?: WebhookStateStore;
+  /**
+   * The signing secret of the webhook, or multiple secrets during a rotation. Required for `handlePayload`.
+   */
+  secret?: string | string[];
+  /**
+   * Returns the id of the customer of the subscription with the passed id, or `undefined` if it is unknown. As Mollie
+   * only allows a subscription to be fetched through its customer, this is required to handle calls for subscriptions
+   * (unless `scanSubscriptions` is set). Typically, the customer is looked up in your own database.
+   */
+  resolveSubscriptionCustomer?: (subscriptionId: string) => Maybe<string> | Promise<Maybe<string>>;
+  /**
+   * Whether to find subscriptions whose customer is unknown by iterating over all subscriptions of the organization.
+   * This sends a request for every page of subscriptions, for every call for such a subscription, so only enable this if
+   * there are few subscriptions. Default: `false`.
+   */
+  scanSubscriptions?: boolean;
+}
+
+/**
+ * Returns whether the passed amount is set, greater than zero, and different from the passed previous value.
+ */
+function hasChanged(amount: Maybe<Amount | null>, previousValue: Maybe<string>) {
+  return amount != undefined && toCents(amount) > 0 && amount.value != previousValue;
+}
+
+/**
+ * Returns whether the passed resource is one for which the webhook handler emits events.
+ */
+function isWebhookResource(resource: NonNullable<WebhookPayload['entity']>): resource is WebhookResource {
+  return ['payment', 'order', 'subscription', 'payment-link'].includes(resource.resource);
+}
+
+/**
+ * Returns the state of the passed resource, as kept in the state store.
+ */
+function captureState(resource: WebhookResource): WebhookState {
+  switch (resource.resource) {
+    case 'payment':
+      return { status: resource.status, amountRefunded: resource.amountRefunded?.value, amountChargedBack: resource.amountChargedBack?.value };
+    case 'order':
+      return { status: resource.status, amountRefunded: resource.amountRefunded?.value };
+    case 'subscription':
+      return { status: resource.status };
+    case 'payment-link':
+      return { paidAt: resource.paidAt };
+  }
+}
+
+/**
+ * Handles the calls Mollie makes to a webhook. Mollie calls a webhook with only the id of the resource which changed;
+ * the handler fetches the resource, and emits events based on its state:
+ *
+ * ```ts
+ * const webhookHandler = new WebhookHandler(mollieClient)
+ *   .on('payment.paid', payment => shipOrder(payment.metadata.orderId))
+ *   .on('payment.refunded', payment => updateBalance(payment));
+ * // In the route which handles POST /webhook:
+ * await webhookHandler.handle(request.body, request.headers['content-type']);
+ * ```
+ *
+ * The ids of payments (`tr_…`), orders (`ord_…`), subscriptions (`sub_…`), and payment links (`pl_…`) are supported.
+ * For a payment, the generic `'payment'` event is emitted first, followed by the event for its status (such as
+ * `'payment.paid'`), followed by `'payment.refunded'` and `'payment.chargedback'` if applicable. The same holds for the
+ * other resources. If a state store has been passed, the generic event is only emitted along with at least one other
+ * event (or for the first call for the resource).
+ *
+ * Listeners are called one after the other, and awaited. If a listener throws (or returns a promise which rejects), the
+ * remaining listeners are skipped and `handle` rejects. Respond to Mollie with an error status code in that case, so
+ * the webhook is called again later.
+ *
+ * Mollie may call the webhook several times for the same resource. Pass a `stateStore` to only emit events when
+ * something changed. Calls for the same resource are handled one after the other (within this process), so concurrent
+ * calls do not cause the same event to be emitted twice.
+ */
+export default class WebhookHandler {
+  protected readonly listeners: Map<WebhookEvent, Array<WebhookListener<any>>>;
+  protected readonly stateStore?: WebhookStateStore;
+  protected readonly secret?: string | string[];
+  protected readonly resolveSubscriptionCustomer?: (subscriptionId: string) => Maybe<string> | Promise<Maybe<string>>;
+  protected readonly scanSubscriptions: boolean;
+  // The promises of the calls which are being handled, per resource id.
+  protected readonly queues: Map<string, Promise<void>>;
+  constructor(protected readonly client: WebhookClient, { stateStore, secret, resolveSubscriptionCustomer, scanSubscriptions = false }: WebhookHandlerOptions = {}) {
+    this.listeners = new Map();
+    this.stateStore = stateStore;
+    this.secret = secret;
+    this.resolveSubscriptionCustomer = resolveSubscriptionCustomer;
+    this.scanSubscriptions = scanSubscriptions;
+    this.queues = new Map();
+  }
+
+  /**
+   * Registers the passed listener for the passed event.
+   */
+  on<E extends WebhookEvent>(event: E, listener: WebhookListener<E>) {
+    const listeners = this.listeners.get(event);
+    if (listeners == undefined) {
+      this.listeners.set(event, [listener]);
+    } else {
+      listeners.push(listener);
+    }
+    return this;
+  }
+
+  /**
+   * Unregisters the passed listener for the passed event.
+   */
+  off<E extends WebhookEvent>(event: E, listener: WebhookListener<E>) {
+    const listeners = this.listeners.get(event);
+    if (listeners != undefined) {
+      const index = listeners.indexOf(listener);
+      if (index != -1) {
+        listeners.splice(index, 1);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Parses the passed webhook request body, fetches the resource, and emits the events. Returns a promise which resolves
+   * with the resource once all listeners have completed.
+   *
+   * The body may be passed as a string or a buffer, or as an object if it has already been parsed. See
+   * `parseWebhookBody`.
+   */
+  async handle(body: unknown, contentType?: string): Promise<WebhookResource> {
+    const id = parseWebhookBody(body, contentType);
+    if (id == undefined) {
+      throw new InvalidIdError('The webhook body does not contain an id');
+    }
+    return this.enqueue(id, async () => {
+      const resource = await this.resolve(id);
+      await this.dispatch(resource);
+      return resource;
+    });
+  }
+
+  /**
+   * Verifies the signature of the passed signed webhook payload, parses it, and emits the events for the resource it
+   * includes (if that is a payment, order, subscription, or payment link). No request is sent: the events are based on
+   * the resource as included in the payload. Returns a promise which resolves with the payload once all listeners have
+   * completed.
+   *
+   * Pass the body exactly as received, and the value of the `X-Mollie-Signature` header. The promise rejects with an
+   * `InvalidSignatureError` if the signature is missing or invalid.
+   */
+  async handlePayload(rawBody: string | Buffer, signatureHeader: Maybe<string>): Promise<WebhookPayload> {
+    if (this.secret == undefined) {
+      throw new TypeError('Pass the secret option to the webhook handler to handle signed payloads');
+    }
+    const payload = this.client.webhooks.parsePayload(rawBody, signatureHeader, this.secret);
+    const { entity } = payload;
+    if (entity != undefined && isWebhookResource(entity)) {
+      await this.enqueue(entity.id, () => this.dispatch(entity));
+    }
+    return payload;
+  }
+
+  /**
+   * Fetches the resource with the passed id through the matching binder.
+   */
+  resolve(id: string): Promise<WebhookResource> {
+    if (checkId(id, 'payment')) {
+      return this.client.payments.get(id);
+    }
+    if (checkId(id, 'order')) {
+      return this.client.orders.get(id);
+    }
+    if (checkId(id, 'subscription')) {
+      return this.findSubscription(id);
+    }
+    if (checkId(id, 'payment-link')) {
+      return this.client.paymentLinks.get(id);
+    }
+    return Promise.reject(new InvalidIdError(`The id ${id} is not the id of a payment, order, subscription, or payment link`));
+  }
+
+  /**
+   * Emits the events for the passed resource. If a state store has been passed, the state of the resource is stored
+   * once all listeners have completed.
+   */
+  async dispatch(resource: WebhookResource) {
+    const previous = await this.stateStore?.get(resource.id);
+    const events = this.getEvents(resource, previous);
+    for (const event of events) {
+      // Copy the listeners, so listeners which unregister themselves do not cause others to be skipped.
+      for (const listener of (this.listeners.get(event) ?? []).slice()) {
+        await listener(resource, event);
+      }
+    }
+    if (this.stateStore != undefined && events.length != 0) {
+      await this.stateStore.set(resource.id, captureState(resource));
+    }
+  }
+
+  /**
+   * Returns the events for the passed resource, in the order in which they are to be emitted. If the previous state of
+   * the resource is passed, only the events for what changed since are returned.
+   */
+  protected getEvents(resource: WebhookResource, previous?: WebhookState): WebhookEvent[] {
+    const result: WebhookEvent[] = [];
+    let genericEvent: WebhookEvent;
+    switch (resource.resource) {
+      case 'payment':
+        genericEvent = 'payment';
+        if (resource.status != previous?.status) {
+          result.push(`payment.${resource.status}` as WebhookEvent);
+        }
+        if (hasChanged(resource.amountRefunded, previous?.amountRefunded)) {
+          result.push('payment.refunded');
+        }
+        if (hasChanged(resource.amountChargedBack, previous?.amountChargedBack)) {
+          result.push('payment.chargedback');
+        }
+        break;
+      case 'order':
+        genericEvent = 'order';
+        if (resource.status != previous?.status) {
+          result.push(`order.${resource.status}` as WebhookEvent);
+        }
+        if (hasChanged(resource.amountRefunded, previous?.amountRefunded)) {
+          result.push('order.refunded');
+        }
+        break;
+      case 'subscription':
+        genericEvent = 'subscription';
+        if (resource.status != previous?.status) {
+          result.push(`subscription.${resource.status}` as WebhookEvent);
+        }
+        break;
+      case 'payment-link':
+        genericEvent = 'paymentLink';
+        if (resource.paidAt != undefined && previous?.paidAt == undefined) {
+          result.push('paymentLink.paid');
+        }
+        break;
+    }
+    if (previous == undefined || result.length != 0) {
+      result.unshift(genericEvent);
+    }
+    return result;
+  }
+
+  /**
+   * Calls the passed function once the calls which are being handled for the resource with the passed id have completed.
+   */
+  protected enqueue<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const result = (this.queues.get(id) ?? Promise.resolve()).then(task);
+    const queue = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    this.queues.set(id, queue);
+    queue.then(() => {
+      if (this.queues.get(id) == queue) {
+        this.queues.delete(id);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Finds the subscription with the passed id. As subscriptions can only be fetched directly through their customer, the
+   * customer is looked up through the `resolveSubscriptionCustomer` option. If the customer is unknown and the
+   * `scanSubscriptions` option is set, this iterates over all subscriptions (newest first) until the one with the
+   * passed id is found.
+   */
+  protected async findSubscription(id: string) {
+    if (this.resolveSubscriptionCustomer == undefined && this.scanSubscriptions == false) {
+      throw new TypeError('Pass the resolveSubscriptionCustomer option to the webhook handler to handle calls for subscriptions');
+    }
+    const customerId = await this.resolveSubscriptionCustomer?.(id);
+    if (customerId != undefined) {
+      return this.client.customerSubscriptions.get(id, { customerId });
+    }
+    if (this.scanSubscriptions == false) {
+      throw new NotFoundError(`The customer of subscription ${id} is unknown`);
+    }
+    for await (const subscription of this.client.subscription.iterate().filter(subscription => subscription.id == id)) {
+      return subscription;
+    }
+    throw new NotFoundError(`No subscription exists with id ${id}`);
+  }
+}
@@ -0,0 +1,87 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+import Maybe from '../types/Maybe';
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * The state of a resource as last processed by the webhook handler.
+ */
+export interface WebhookState {
+  /**
+   * The status of the payment, order, or subscription (such as `'paid'`).
+   */
+  status?: string;
+  /**
+   * The value of the `amountRefunded` of the payment or order (such as `'5.00'`).
+   */
+  amountRefunded?: string;
+  /**
+   * The value of the `amountChargedBack` of the payment (such as `'5.00'`).
+   */
+  amountChargedBack?: string;
+  /**
+   * The `paidAt` of the payment link.
+   */
+  paidAt?: string;
+}
+
+/**
+ * Stores the state of resources as last processed by the webhook handler, so it only emits events when something
+ * changed. Implement this interface to plug in a custom store, for instance one backed by a database.
+ */
+export default interface WebhookStateStore {
+  /**
+   * Returns the state stored for the resource with the passed id, or `undefined` if no state is stored for it.
+   */
+  get(id: string): MaybePromise<Maybe<WebhookState>>;
+  /**
+   * Stores the passed state for the resource with the passed id.
+   */
+  set(id: string, state: WebhookState): MaybePromise<void>;
+}
+
+/**
+ * Stores the state of resources in memory. The state is lost when the process exits.
+ */
+export class MemoryWebhookStateStore implements WebhookStateStore {
+  protected readonly states: Map<string, WebhookState>;
+  constructor() {
+    this.states = new Map();
+  }
+
+  get(id: string) {
+    return this.states.get(id);
+  }
+
+  set(id: string, state: WebhookState) {
+    this.states.set(id, state);
+  }
+}
+
+/**
+ * Stores the state of resources in a JSON file, which is read when the first state is requested and rewritten whenever a
+ * state is stored. This store is meant for development and for applications which receive few webhook calls; use a
+ * store backed by a database otherwise.
+ */
+export class FileWebhookStateStore implements WebhookStateStore {
+  protected states?: Record<string, WebhookState>;
+  constructor(protected readonly path: string) {}
+
+  get(id: string): Maybe<WebhookState> {
+    return this.load()[id];
+  }
+
+  set(id: string, state: WebhookState) {
+    const states = this.load();
+    states[id] = state;
+    writeFileSync(this.path, JSON.stringify(states, undefined, 2));
+  }
+
+  protected load() {
+    if (this.states == undefined) {
+      this.states = existsSync(this.path) ? (JSON.parse(readFileSync(this.path, 'utf8')) as Record<string, WebhookState>) : {};
+    }
+    return this.states;
+  }
+}
@@ -0,0 +1,162 @@
+import { IncomingMessage, ServerResponse } from 'http';
+
+import { InvalidIdError } from '../errors/ApiError';
+import WebhookHandler from './WebhookHandler';
+
+export interface WebhookAdapterOptions {
+  /**
+   * Called with the error if the webhook call could not be handled, for instance because one of the listeners threw.
+   * Use this to log the error. The adapter responds with an error status code regardless.
+   */
+  onError?: (error: unknown) => void;
+}
+
+// The frameworks are not dependencies of this library. These are the parts of their interfaces which the adapters use.
+
+interface ExpressRequest extends IncomingMessage {
+  body?: unknown;
+}
+
+interface ExpressResponse {
+  sendStatus(status: number): unknown;
+}
+
+interface KoaContext {
+  req: IncomingMessage;
+  request: { body?: unknown };
+  status: number;
+  body: unknown;
+}
+
+interface FastifyInstance {
+  addContentTypeParser(contentType: string, options: { parseAs: 'string' }, parser: (request: unknown, body: string, done: (error: Error | null, body?: string) => void) => void): unknown;
+  post(path: string, handler: (request: { body?: unknown; headers: IncomingMessage['headers'] }, reply: { code(status: number): { send(): unknown } }) => Promise<void>): unknown;
+}
+
+/**
+ * Reads the body of the passed request as a string.
+ */
+function readBody(request: IncomingMessage) {
+  return new Promise<string>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('error', reject);
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  });
+}
+
+/**
+ * Handles the webhook call, and returns a promise which resolves with the status code to respond with: `200` if the
+ * listeners succeeded, `400` if the body does not contain a valid id, and `500` otherwise (so Mollie calls the webhook
+ * again later).
+ */
+async function processWebhook(webhookHandler: WebhookHandler, body: unknown, contentType: string | undefined, { onError }: WebhookAdapterOptions) {
+  try {
+    await webhookHandler.handle(body, contentType);
+    return 200;
+  } catch (error) {
+    onError?.(error);
+    return error instanceof InvalidIdError ? 400 : 500;
+  }
+}
+
+/**
+ * Returns an Express route handler for webhook calls:
+ *
+ * ```js
+ * app.post('/webhook', createExpressWebhookHandler(webhookHandler));
+ * ```
+ *
+ * The body may have been read by a body parser (such as `express.urlencoded()`), but this is not required.
+ */
+export function createExpressWebhookHandler(webhookHandler: WebhookHandler, options: WebhookAdapterOptions = {}) {
+  return async (request: ExpressRequest, response: ExpressResponse) => {
+    let body = request.body;
+    // If the body has not been read by a body parser, read it now.
+    if (request.readable) {
+      try {
+        body = await readBody(request);
+      } catch (error) {
+        options.onError?.(error);
+        response.sendStatus(400);
+        return;
+      }
+    }
+    response.sendStatus(await processWebhook(webhookHandler, body, request.headers['content-type'], options));
+  };
+}
+
+/**
+ * Returns a Koa middleware which handles webhook calls. Mount it on the route of the webhook, for instance with
+ * `@koa/router`:
+ *
+ * ```js
+ * router.post('/webhook', createKoaWebhookMiddleware(webhookHandler));
+ * ```
+ *
+ * The body may have been read by a body parser (such as `koa-bodyparser`), but this is not required.
+ */
+export function createKoaWebhookMiddleware(webhookHandler: WebhookHandler, options: WebhookAdapterOptions = {}) {
+  return async (context: KoaContext) => {
+    let body = context.request.body;
+    // If the body has not been read by a body parser, read it now.
+    if (context.req.readable) {
+      try {
+        body = await readBody(context.req);
+      } catch (error) {
+        options.onError?.(error);
+        context.status = 400;
+        return;
+      }
+    }
+    context.status = await processWebhook(webhookHandler, body, context.req.headers['content-type'], options);
+    context.body = '';
+  };
+}
+
+/**
+ * Returns a Fastify plugin which adds a route for webhook calls to the passed path:
+ *
+ * ```js
+ * fastify.register(createFastifyWebhookPlugin(webhookHandler, '/webhook'));
+ * ```
+ *
+ * As Fastify does not parse form-encoded bodies by default, the plugin adds a parser for those (which is only used for
+ * the routes in the plugin).
+ */
+export function createFastifyWebhookPlugin(webhookHandler: WebhookHandler, path: string, options: WebhookAdapterOptions = {}) {
+  return (fastify: FastifyInstance, _: unknown, done: () => void) => {
+    fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (__, body, done) => done(null, body));
+    fastify.post(path, async (request, reply) => {
+      reply.code(await processWebhook(webhookHandler, request.body, request.headers['content-type'], options)).send();
+    });
+    done();
+  };
+}
+
+/**
+ * Returns a request listener for a `node:http` server which handles webhook calls. The listener handles every request
+ * it receives, so either create a dedicated server or only pass the requests for the webhook to it:
+ *
+ * ```js
+ * createServer(createNodeWebhookListener(webhookHandler)).listen(8000);
+ * ```
+ */
+export function createNodeWebhookListener(webhookHandler: WebhookHandler, options: WebhookAdapterOptions = {}) {
+  return async (request: IncomingMessage, response: ServerResponse) => {
+    if (request.method != 'POST') {
+      response.writeHead(405, { Allow: 'POST' });
+      response.end();
+      return;
+    }
+    let status: number;
+    try {
+      status = await processWebhook(webhookHandler, await readBody(request), request.headers['content-type'], options);
+    } catch (error) {
+      options.onError?.(error);
+      status = 400;
+    }
+    response.writeHead(status);
+    response.end();
+  };
+}
@@ -0,0 +1,33 @@
+// If support for Node.js < 10.0.0 is ever dropped, this import can be removed.
+import { URLSearchParams } from 'url';
+
+import findProperty from '../plumbing/findProperty';
+import Maybe from '../types/Maybe';
+
+/**
+ * Returns the `id` from the passed webhook request body, or `undefined` if the body does not contain one.
+ *
+ * Mollie sends a form-encoded body (`id=tr_7UhSN1zuXS`), but JSON bodies are supported as well. The body may be passed
+ * as a string or a buffer (as received), or as an object (as already parsed by a framework such as Express). The type of
+ * a string or buffer body is derived from the passed `Content-Type`, or from the body itself if no type is passed.
+ */
+export default function parseWebhookBody(body: unknown, contentType?: string): Maybe<string> {
+  if (Buffer.isBuffer(body)) {
+    body = body.toString('utf8');
+  }
+  if (typeof body == 'string') {
+    const isJson = contentType == undefined ? /^\s*\{/.test(body) : contentType.includes('json');
+    if (isJson == false) {
+      return new URLSearchParams(body).get('id') ?? undefined;
+    }
+    try {
+      body = JSON.parse(body);
+    } catch (error) {
+      return undefined;
+    }
+  }
+  if (findProperty(body, 'id') && typeof body.id == 'string') {
+    return body.id;
+  }
+  return undefined;
+}
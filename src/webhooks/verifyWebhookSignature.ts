@@ -0,0 +1,27 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import Maybe from '../types/Maybe';
+
+/**
+ * Returns whether the passed signature header (the `X-Mollie-Signature` header, such as `'sha256=…'`) is a valid
+ * signature of the passed raw request body (`true`) or not (`false`).
+ *
+ * The signature is the hex-encoded SHA-256 HMAC of the body. Pass the body exactly as received: a body which has been
+ * parsed and serialised again will generally not match. Multiple secrets can be passed to support rotation; the
+ * signature is valid if it matches any of them. The signatures are compared in constant time.
+ */
+export default function verifyWebhookSignature(rawBody: string | Buffer, signatureHeader: Maybe<string>, secret: string | string[]): boolean {
+  if (signatureHeader == undefined) {
+    return false;
+  }
+  const separatorIndex = signatureHeader.indexOf('=');
+  if (separatorIndex != -1 && signatureHeader.substring(0, separatorIndex).trim().toLowerCase() != 'sha256') {
+    return false;
+  }
+  const signature = Buffer.from(signatureHeader.substring(separatorIndex + 1).trim(), 'hex');
+  // (Every secret is checked ‒ even after a match ‒ so the time taken does not reveal which secret matched.)
+  return (Array.isArray(secret) ? secret : [secret]).reduce<boolean>((result, candidate) => {
+    const expected = createHmac('sha256', candidate).update(rawBody).digest();
+    return (expected.length == signature.length && timingSafeEqual(expected, signature)) || result;
+  }, false);
+}
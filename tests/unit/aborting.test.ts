@@ -0,0 +1,90 @@
+import { AbortError } from '../..';
+import wireMockClient from '../wireMockClient';
+
+function composeCustomer(id: string) {
+  return {
+    resource: 'customer',
+    id,
+    mode: 'test',
+    name: 'Customer A',
+    email: 'customer@example.org',
+    locale: 'nl_NL',
+    metadata: null,
+    createdAt: '2018-04-06T13:23:21.0Z',
+    _links: {
+      self: {
+        href: `https://api.mollie.com/v2/customers/${id}`,
+        type: 'application/hal+json',
+      },
+    },
+  };
+}
+
+function composeList(ids: string[], next?: string) {
+  return {
+    _embedded: { customers: ids.map(composeCustomer) },
+    count: ids.length,
+    _links: {
+      next: next != undefined ? { href: `https://api.mollie.com/v2/customers?from=${next}&limit=2`, type: 'application/hal+json' } : null,
+      previous: null,
+    },
+  };
+}
+
+/**
+ * Creates an object which looks like an `AbortSignal` to the client. (The test environment has no `AbortController`.)
+ */
+function createSignal(aborted = false) {
+  return { aborted, addEventListener() {}, removeEventListener() {} } as unknown as AbortSignal & { aborted: boolean };
+}
+
+test('abortedSignal', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/customers/cst_kEn1PlbGa').reply(200, composeCustomer('cst_kEn1PlbGa'));
+
+  const error = await client.customers.get('cst_kEn1PlbGa', undefined, { signal: createSignal(true) }).catch(error => error);
+
+  expect(error).toBeInstanceOf(AbortError);
+  expect(error.code).toBe('ABORT_ERR');
+  expect(error.method).toBe('GET');
+  expect(adapter.history.get.length).toBe(0);
+});
+
+test('timeoutPerCall', async () => {
+  const { adapter, client } = wireMockClient({ timeout: 5000 });
+
+  adapter
+    .onGet('/customers?limit=2')
+    .reply(200, composeList(['cst_kEn1PlbGa', 'cst_l4J9zsdzO'], 'cst_3ZRQBZpVV'))
+    .onGet(/from=cst_3ZRQBZpVV/)
+    .reply(200, composeList(['cst_3ZRQBZpVV']));
+
+  const page = await client.customers.page({ limit: 2 }, { timeout: 1234 });
+  await page.nextPage?.();
+  await client.customers.get('cst_kEn1PlbGa').catch(() => undefined);
+
+  expect(adapter.history.get.length).toBe(3);
+  expect(adapter.history.get[0].timeout).toBe(1234);
+  expect(adapter.history.get[1].timeout).toBe(1234);
+  expect(adapter.history.get[2].timeout).toBe(5000);
+});
+
+test('abortIteration', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet(/customers/).reply(200, composeList(['cst_kEn1PlbGa', 'cst_l4J9zsdzO'], 'cst_3ZRQBZpVV'));
+
+  const signal = createSignal();
+  const ids: string[] = [];
+  const error = await (async () => {
+    for await (const customer of client.customers.iterate(undefined, { signal })) {
+      ids.push(customer.id);
+      signal.aborted = true;
+    }
+  })().catch(error => error);
+
+  expect(error).toBeInstanceOf(AbortError);
+  expect(ids).toEqual(['cst_kEn1PlbGa']);
+  expect(adapter.history.get.length).toBe(1);
+});
@@ -0,0 +1,94 @@
+import { Locale, MemoryCacheStore, ResponseCache } from '../..';
+import wireMockClient from '../wireMockClient';
+
+import methods from './__stubs__/methods.json';
+
+const customer = {
+  resource: 'customer',
+  id: 'cst_kEn1PlbGa',
+  mode: 'test',
+  name: 'Customer A',
+  email: 'customer@example.org',
+  locale: 'nl_NL',
+  metadata: null,
+  createdAt: '2018-04-06T13:23:21.0Z',
+  _links: {
+    self: {
+      href: 'https://api.mollie.com/v2/customers/cst_kEn1PlbGa',
+      type: 'application/hal+json',
+    },
+  },
+};
+
+test('cacheList', async () => {
+  const { adapter, client } = wireMockClient({ cache: { ttl: { methods: 60e3 } } });
+
+  adapter.onGet(/methods/).reply(200, methods);
+
+  const first = await client.methods.list({ amount: { value: '10.00', currency: 'EUR' }, locale: Locale.nl_NL });
+  const second = await client.methods.list({ locale: Locale.nl_NL, amount: { currency: 'EUR', value: '10.00' } });
+
+  expect(adapter.history.get.length).toBe(1);
+  expect(second.count).toBe(first.count);
+  expect(second.links).toEqual(first.links);
+  expect(second.map(({ id }) => id)).toEqual(first.map(({ id }) => id));
+  // The cached data is transformed again, so the helpers are intact.
+  expect(second[0].getImage()).toBe(first[0].getImage());
+  expect(second[0]).not.toBe(first[0]);
+
+  await client.methods.list({ locale: Locale.de_DE });
+
+  expect(adapter.history.get.length).toBe(2);
+});
+
+test('cacheUnconfiguredPathname', async () => {
+  const { adapter, client } = wireMockClient({ cache: { ttl: { methods: 60e3 } } });
+
+  adapter.onGet('/customers/cst_kEn1PlbGa').reply(200, customer);
+
+  await client.customers.get('cst_kEn1PlbGa');
+  await client.customers.get('cst_kEn1PlbGa');
+
+  expect(adapter.history.get.length).toBe(2);
+});
+
+test('cacheInvalidate', async () => {
+  const cache = new ResponseCache({ ttl: { customers: 60e3 } });
+  const { adapter, client } = wireMockClient({ cache });
+
+  adapter.onGet('/customers/cst_kEn1PlbGa').reply(200, customer);
+
+  await client.customers.get('cst_kEn1PlbGa');
+  await client.customers.get('cst_kEn1PlbGa');
+
+  expect(adapter.history.get.length).toBe(1);
+
+  await cache.invalidate('customers');
+  const result = await client.customers.get('cst_kEn1PlbGa');
+
+  expect(result.id).toBe('cst_kEn1PlbGa');
+  expect(adapter.history.get.length).toBe(2);
+});
+
+test('memoryCacheStore', () => {
+  const store = new MemoryCacheStore({ maxEntries: 2 });
+
+  store.set('a', '1', 60e3);
+  store.set('b', '2', 60e3);
+  // (Use a, which makes b the least recently used value.)
+  expect(store.get('a')).toBe('1');
+  store.set('c', '3', 60e3);
+
+  expect(store.get('a')).toBe('1');
+  expect(store.get('b')).toBeUndefined();
+  expect(store.get('c')).toBe('3');
+
+  store.clear('c');
+
+  expect(store.get('a')).toBe('1');
+  expect(store.get('c')).toBeUndefined();
+
+  store.set('d', '4', -1);
+
+  expect(store.get('d')).toBeUndefined();
+});
@@ -0,0 +1,93 @@
+import { CircuitBreaker, CircuitOpenError, CircuitState, NotFoundError, ServerError } from '../..';
+import wireMockClient from '../wireMockClient';
+
+const customer = {
+  resource: 'customer',
+  id: 'cst_kEn1PlbGa',
+  mode: 'test',
+  name: 'Customer A',
+  email: 'customer@example.org',
+  locale: 'nl_NL',
+  metadata: null,
+  createdAt: '2018-04-06T13:23:21.0Z',
+  _links: {
+    self: {
+      href: 'https://api.mollie.com/v2/customers/cst_kEn1PlbGa',
+      type: 'application/hal+json',
+    },
+  },
+};
+
+const serverError = { status: 503, title: 'Service Unavailable', detail: 'The service is unavailable' };
+
+test('circuitOpens', async () => {
+  const transitions: Array<[CircuitState, CircuitState]> = [];
+  const { adapter, client } = wireMockClient({ circuitBreaker: { failureThreshold: 2, onStateChange: (state, previousState) => transitions.push([state, previousState]) } });
+
+  adapter.onGet('/customers/cst_kEn1PlbGa').reply(503, serverError);
+
+  await expect(client.customers.get('cst_kEn1PlbGa')).rejects.toBeInstanceOf(ServerError);
+  await expect(client.customers.get('cst_kEn1PlbGa')).rejects.toBeInstanceOf(ServerError);
+  const error = await client.customers.get('cst_kEn1PlbGa').catch(error => error);
+
+  expect(error).toBeInstanceOf(CircuitOpenError);
+  expect(error.retryAfter).toBe(30);
+  expect(error.url).toBe('https://api.mollie.com:443/v2/customers/cst_kEn1PlbGa');
+  // The third request was not sent.
+  expect(adapter.history.get.length).toBe(2);
+  expect(transitions).toEqual([['open', 'closed']]);
+});
+
+test('circuitIgnoresClientErrors', async () => {
+  const { adapter, client } = wireMockClient({ circuitBreaker: { failureThreshold: 2 } });
+
+  adapter
+    .onGet('/customers/cst_kEn1PlbGa')
+    .replyOnce(503, serverError)
+    .onGet('/customers/cst_kEn1PlbGa')
+    .replyOnce(404, { status: 404, title: 'Not Found', detail: 'No customer exists with token cst_kEn1PlbGa.' })
+    .onGet('/customers/cst_kEn1PlbGa')
+    .replyOnce(503, serverError)
+    .onGet('/customers/cst_kEn1PlbGa')
+    .reply(200, customer);
+
+  await expect(client.customers.get('cst_kEn1PlbGa')).rejects.toBeInstanceOf(ServerError);
+  await expect(client.customers.get('cst_kEn1PlbGa')).rejects.toBeInstanceOf(NotFoundError);
+  await expect(client.customers.get('cst_kEn1PlbGa')).rejects.toBeInstanceOf(ServerError);
+  // The 404 response reset the count, so the circuit is still closed.
+  const result = await client.customers.get('cst_kEn1PlbGa');
+
+  expect(result.id).toBe('cst_kEn1PlbGa');
+});
+
+test('circuitHalfOpen', async () => {
+  const transitions: CircuitState[] = [];
+  const circuitBreaker = new CircuitBreaker({ failureThreshold: 1, coolDown: 20, onStateChange: state => transitions.push(state) });
+  const { adapter, client } = wireMockClient({ circuitBreaker, deduplicateRequests: false });
+
+  adapter
+    .onGet('/customers/cst_kEn1PlbGa')
+    .replyOnce(503, serverError)
+    .onGet('/customers/cst_kEn1PlbGa')
+    .replyOnce(503, serverError)
+    .onGet('/customers/cst_kEn1PlbGa')
+    .reply(() => new Promise(resolve => setTimeout(() => resolve([200, customer]), 10)));
+
+  await expect(client.customers.get('cst_kEn1PlbGa')).rejects.toBeInstanceOf(ServerError);
+  expect(circuitBreaker.state).toBe('open');
+
+  // After the cool-down, the trial request fails, which opens the circuit again.
+  await new Promise(resolve => setTimeout(resolve, 25));
+  await expect(client.customers.get('cst_kEn1PlbGa')).rejects.toBeInstanceOf(ServerError);
+  expect(circuitBreaker.state).toBe('open');
+
+  // After another cool-down, only a single trial request is let through.
+  await new Promise(resolve => setTimeout(resolve, 25));
+  const [trial, other] = await Promise.all([client.customers.get('cst_kEn1PlbGa'), client.customers.get('cst_kEn1PlbGa').catch(error => error)]);
+
+  expect(trial.id).toBe('cst_kEn1PlbGa');
+  expect(other).toBeInstanceOf(CircuitOpenError);
+  expect(circuitBreaker.state).toBe('closed');
+  expect(adapter.history.get.length).toBe(3);
+  expect(transitions).toEqual(['open', 'half-open', 'open', 'half-open', 'closed']);
+});
@@ -0,0 +1,84 @@
+import wireMockClient from '../wireMockClient';
+
+const customer = {
+  resource: 'customer',
+  id: 'cst_kEn1PlbGa',
+  mode: 'test',
+  name: 'Customer A',
+  email: 'customer@example.org',
+  locale: 'nl_NL',
+  metadata: null,
+  createdAt: '2018-04-06T13:23:21.0Z',
+  _links: {
+    self: {
+      href: 'https://api.mollie.com/v2/customers/cst_kEn1PlbGa',
+      type: 'application/hal+json',
+    },
+  },
+};
+
+test('deduplicateGet', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/customers/cst_kEn1PlbGa').reply(200, customer);
+
+  const results = await Promise.all([client.customers.get('cst_kEn1PlbGa'), client.customers.get('cst_kEn1PlbGa'), client.customers.get('cst_kEn1PlbGa')]);
+
+  expect(results.map(({ id }) => id)).toEqual(['cst_kEn1PlbGa', 'cst_kEn1PlbGa', 'cst_kEn1PlbGa']);
+  expect(adapter.history.get.length).toBe(1);
+
+  // Once the request has completed, a new one is sent.
+  await client.customers.get('cst_kEn1PlbGa');
+
+  expect(adapter.history.get.length).toBe(2);
+});
+
+test('deduplicateList', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/customers?limit=5').reply(200, { _embedded: { customers: [customer] }, count: 1, _links: { next: null, previous: null } });
+  adapter.onGet('/customers?limit=10').reply(200, { _embedded: { customers: [] }, count: 0, _links: { next: null, previous: null } });
+
+  const [first, second, third] = await Promise.all([client.customers.page({ limit: 5 }), client.customers.page({ limit: 5 }), client.customers.page({ limit: 10 })]);
+
+  expect(first.count).toBe(1);
+  expect(second.count).toBe(1);
+  expect(third.count).toBe(0);
+  expect(adapter.history.get.length).toBe(2);
+});
+
+test('deduplicateError', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/customers/cst_kEn1PlbGa').reply(404, { status: 404, title: 'Not Found', detail: 'No customer exists with token cst_kEn1PlbGa.' });
+
+  const errors = await Promise.all([client.customers.get('cst_kEn1PlbGa').catch(error => error), client.customers.get('cst_kEn1PlbGa').catch(error => error)]);
+
+  expect(errors[0].message).toBe('No customer exists with token cst_kEn1PlbGa.');
+  expect(errors[1]).toBe(errors[0]);
+  expect(adapter.history.get.length).toBe(1);
+});
+
+test('noDeduplication', async () => {
+  const { adapter, client } = wireMockClient({ deduplicateRequests: false });
+
+  adapter.onGet('/customers/cst_kEn1PlbGa').reply(200, customer);
+
+  await Promise.all([client.customers.get('cst_kEn1PlbGa'), client.customers.get('cst_kEn1PlbGa')]);
+
+  expect(adapter.history.get.length).toBe(2);
+});
+
+test('noDeduplicationForWrites', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onPost('/customers').reply(201, customer);
+  adapter.onGet('/customers/cst_kEn1PlbGa').reply(200, customer);
+
+  await Promise.all([client.customers.create({ name: 'Customer A' }), client.customers.create({ name: 'Customer A' })]);
+  // Requests with a time-out are not shared either.
+  await Promise.all([client.customers.get('cst_kEn1PlbGa', undefined, { timeout: 1000 }), client.customers.get('cst_kEn1PlbGa', undefined, { timeout: 1000 })]);
+
+  expect(adapter.history.post.length).toBe(2);
+  expect(adapter.history.get.length).toBe(2);
+});
@@ -1,4 +1,4 @@
-import { PaymentCreateParams } from '../..';
+import { ApiError, AuthenticationError, InvalidIdError, NetworkError, NotFoundError, PaymentCreateParams, RateLimitError, ServerError, ValidationError } from '../..';
 import wireMockClient from '../wireMockClient';
 
 test('errorHandling', async () => {
@@ -40,3 +40,87 @@ test('errorHandling', async () => {
     expect(error.message).toBe('The amount is required for payments');
   }
 });
+
+test('errorSubclasses', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/customers/cst_kEn1PlbGa').reply(401, { status: 401, title: 'Unauthorized Request', detail: 'Missing authentication, or failed to authenticate' });
+  adapter.onGet('/customers/cst_chinchilla').reply(404, { status: 404, title: 'Not Found', detail: 'No customer exists with token cst_chinchilla.' });
+  adapter.onPost('/payments').reply(422, { status: 422, title: 'Unprocessable Entity', detail: 'The amount is required for payments', field: 'amount' });
+  adapter.onGet('/payments/tr_WDqYK6vllg').reply(429, { status: 429, title: 'Too Many Requests', detail: 'You have sent too many requests' }, { 'retry-after': '30' });
+  adapter.onGet('/orders/ord_pbjz8x').reply(502, { status: 502, title: 'Bad Gateway', detail: 'The server is unreachable' });
+
+  await expect(client.customers.get('cst_kEn1PlbGa')).rejects.toBeInstanceOf(AuthenticationError);
+  await expect(client.customers.get('cst_chinchilla')).rejects.toBeInstanceOf(NotFoundError);
+
+  const validationError = await client.payments.create({} as PaymentCreateParams).catch(error => error);
+  expect(validationError).toBeInstanceOf(ValidationError);
+  expect(validationError).toBeInstanceOf(ApiError);
+  expect(validationError.field).toBe('amount');
+  expect(validationError.name).toBe('ValidationError');
+
+  const rateLimitError = await client.payments.get('tr_WDqYK6vllg').catch(error => error);
+  expect(rateLimitError).toBeInstanceOf(RateLimitError);
+  expect(rateLimitError.retryAfter).toBe(30);
+
+  await expect(client.orders.get('ord_pbjz8x')).rejects.toBeInstanceOf(ServerError);
+});
+
+test('networkError', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/customers/cst_chinchilla').timeout();
+
+  const error = await client.customers.get('cst_chinchilla').catch(error => error);
+  expect(error).toBeInstanceOf(NetworkError);
+  expect(error.code).toBe('ECONNABORTED');
+  expect(error.method).toBe('GET');
+  expect(error.url).toBe('https://api.mollie.com:443/v2/customers/cst_chinchilla');
+});
+
+test('invalidIdError', () => {
+  const { client } = wireMockClient();
+
+  expect(() => client.payments.get('invalid')).toThrow(InvalidIdError);
+  expect(() => client.payments.get('invalid')).toThrow('The payment id is invalid');
+});
+
+test('errorContext', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onPost('/payments').reply(
+    422,
+    {
+      status: 422,
+      title: 'Unprocessable Entity',
+      detail: 'The amount is higher than the maximum',
+      field: 'amount',
+      _links: { documentation: { href: 'https://docs.mollie.com/guides/handling-errors', type: 'text/html' } },
+    },
+    { 'request-id': 'req_8vSrNcFz3s' },
+  );
+
+  const error = await client.payments.create({} as PaymentCreateParams).catch(error => error);
+
+  expect(error.method).toBe('POST');
+  expect(error.url).toBe('https://api.mollie.com:443/v2/payments');
+  expect(error.statusCode).toBe(422);
+  expect(error.title).toBe('Unprocessable Entity');
+  expect(error.headers['request-id']).toBe('req_8vSrNcFz3s');
+  expect(error.requestId).toBe('req_8vSrNcFz3s');
+  expect(error.links.documentation.href).toBe('https://docs.mollie.com/guides/handling-errors');
+
+  const serialised = JSON.parse(JSON.stringify(error));
+  expect(serialised).toMatchObject({
+    name: 'ValidationError',
+    message: 'The amount is higher than the maximum',
+    title: 'Unprocessable Entity',
+    statusCode: 422,
+    field: 'amount',
+    method: 'POST',
+    url: 'https://api.mollie.com:443/v2/payments',
+    requestId: 'req_8vSrNcFz3s',
+  });
+  // The API key should never end up in the error.
+  expect(JSON.stringify(error)).not.toContain('mock-api-key');
+});
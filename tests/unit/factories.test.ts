@@ -0,0 +1,69 @@
+import { NetworkError, OrderStatus, PaymentStatus } from '../..';
+import { buildOrder, buildPayment, buildRefund, buildSubscription, transformData } from '../../testing';
+
+test('buildPayment', () => {
+  const payment = buildPayment({ status: PaymentStatus.paid, amount: { currency: 'EUR', value: '25.00' }, amountRefunded: { currency: 'EUR', value: '5.00' } });
+
+  expect(payment.id).toMatch(/^tr_/);
+  expect(payment._links.self.href).toBe(`https://api.mollie.com/v2/payments/${payment.id}`);
+  expect(payment.paidAt).toBeDefined();
+  expect(payment.amountRemaining).toEqual({ currency: 'EUR', value: '20.00' });
+  expect(payment._links.checkout).toBeUndefined();
+  expect(payment._links.refunds).toBeDefined();
+
+  const helpful = transformData(payment);
+
+  expect(helpful.isPaid()).toBe(true);
+  expect(helpful.hasRefunds()).toBe(true);
+  expect(helpful.getCheckoutUrl()).toBeNull();
+
+  const openPayment = transformData(buildPayment());
+
+  expect(openPayment.isOpen()).toBe(true);
+  expect(openPayment.getCheckoutUrl()).toContain(openPayment.id);
+
+  // Amounts in currencies without decimals are calculated in whole units.
+  const yenPayment = buildPayment({ status: PaymentStatus.paid, amount: { currency: 'JPY', value: '2500' }, amountRefunded: { currency: 'JPY', value: '500' } });
+
+  expect(yenPayment.amountRemaining).toEqual({ currency: 'JPY', value: '2000' });
+});
+
+test('buildOrder', () => {
+  const order = buildOrder({ lines: 3 });
+
+  expect(order.id).toMatch(/^ord_/);
+  expect(order.lines.length).toBe(3);
+  expect(order.lines.every(({ id, orderId }) => id.startsWith('odl_') && orderId == order.id)).toBe(true);
+  expect(order.amount).toEqual({ currency: 'EUR', value: '60.00' });
+
+  const paidOrder = transformData(
+    buildOrder({ status: OrderStatus.paid, lines: [{ quantity: 2, unitPrice: { currency: 'EUR', value: '12.50' }, discountAmount: { currency: 'EUR', value: '5.00' } }] }),
+  );
+
+  expect(paidOrder.amount).toEqual({ currency: 'EUR', value: '20.00' });
+  expect(paidOrder.lines[0].vatAmount).toEqual({ currency: 'EUR', value: '3.47' });
+  expect(paidOrder.lines[0].shippableQuantity).toBe(2);
+  expect(paidOrder.isPaid()).toBe(true);
+  expect(paidOrder.getCheckoutUrl()).toBeNull();
+});
+
+test('buildSubscription', async () => {
+  const subscription = transformData(buildSubscription({ customerId: 'cst_kEn1PlbGa' }));
+
+  expect(subscription.id).toMatch(/^sub_/);
+  expect(subscription.mandateId).toMatch(/^mdt_/);
+  expect(subscription.isActive()).toBe(true);
+  expect(subscription._links.customer.href).toBe('https://api.mollie.com/v2/customers/cst_kEn1PlbGa');
+
+  // Helpers which would send a request fail, as there is no network.
+  await expect(subscription.getCustomer()).rejects.toThrow(NetworkError);
+});
+
+test('buildRefund', () => {
+  const payment = buildPayment({ status: PaymentStatus.paid });
+  const refund = transformData(buildRefund({ paymentId: payment.id }));
+
+  expect(refund.id).toMatch(/^re_/);
+  expect(refund._links.payment.href).toBe(payment._links.self.href);
+  expect(refund.isPending()).toBe(true);
+});
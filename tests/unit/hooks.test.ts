@@ -0,0 +1,141 @@
+import { ErrorContext, RequestContext, ResponseContext, RetryContext } from '../..';
+import wireMockClient from '../wireMockClient';
+
+const customer = {
+  resource: 'customer',
+  id: 'cst_FhQJRw4s2n',
+  mode: 'test',
+  name: 'John Doe',
+  email: 'johndoe@example.org',
+  locale: null,
+  metadata: null,
+  createdAt: '2018-04-19T08:49:01+00:00',
+  _links: {
+    self: {
+      href: 'https://api.mollie.com/v2/customers/cst_FhQJRw4s2n',
+      type: 'application/hal+json',
+    },
+  },
+};
+
+test('onRequestAndOnResponse', async () => {
+  const requests: RequestContext[] = [];
+  const responses: ResponseContext[] = [];
+  const { adapter, client } = wireMockClient({
+    hooks: {
+      onRequest: request => void requests.push(request),
+      onResponse: context => void responses.push(context),
+    },
+  });
+
+  adapter.onPost('/customers').reply(201, customer, { 'request-id': 'abc' });
+
+  await client.customers.create({ name: 'John Doe', email: 'johndoe@example.org' });
+
+  expect(requests.length).toBe(1);
+  expect(requests[0].method).toBe('POST');
+  expect(requests[0].url).toBe('https://api.mollie.com:443/v2/customers');
+  expect(requests[0].body).toEqual({ name: 'John Doe', email: 'johndoe@example.org' });
+  // Headers set for all requests (including the API key) should not be passed to the hooks.
+  expect(requests[0].headers).not.toHaveProperty('Authorization');
+
+  expect(responses.length).toBe(1);
+  expect(responses[0].request).toBe(requests[0]);
+  expect(responses[0].status).toBe(201);
+  expect(responses[0].headers['request-id']).toBe('abc');
+  expect(responses[0].body).toEqual(customer);
+  expect(responses[0].duration).toBeGreaterThanOrEqual(0);
+});
+
+test('onRequestAlter', async () => {
+  const { adapter, client } = wireMockClient({
+    hooks: {
+      onRequest: request => {
+        request.headers['X-Correlation-Id'] = 'correlation-1';
+        request.body = { ...request.body, locale: 'nl_NL' };
+      },
+    },
+  });
+
+  adapter.onPost('/customers').reply(201, customer);
+
+  await client.customers.create({ name: 'John Doe', email: 'johndoe@example.org' });
+
+  const { headers, data } = adapter.history.post[0];
+
+  expect(headers?.['X-Correlation-Id']).toBe('correlation-1');
+  expect(JSON.parse(data).locale).toBe('nl_NL');
+});
+
+test('onRequestShortCircuit', async () => {
+  const seen: string[] = [];
+  const { adapter, client } = wireMockClient({
+    hooks: [
+      {
+        onRequest: () => ({ status: 200, body: customer }),
+        onResponse: () => void seen.push('onResponse'),
+      },
+      {
+        onRequest: () => void seen.push('second onRequest'),
+      },
+    ],
+  });
+
+  const result = await client.customers.get('cst_FhQJRw4s2n');
+
+  expect(result.id).toBe('cst_FhQJRw4s2n');
+  expect(adapter.history.get.length).toBe(0);
+  // Hooks after the one which short-circuited the request should not be called.
+  expect(seen).toEqual([]);
+});
+
+test('onRequestShortCircuitError', async () => {
+  const { adapter, client } = wireMockClient({
+    hooks: {
+      onRequest: () => ({ status: 404, body: { status: 404, title: 'Not Found', detail: 'No customer exists with token cst_FhQJRw4s2n.' } }),
+    },
+  });
+
+  await expect(client.customers.get('cst_FhQJRw4s2n')).rejects.toThrow('No customer exists with token cst_FhQJRw4s2n.');
+  expect(adapter.history.get.length).toBe(0);
+});
+
+test('onRetryAndOnError', async () => {
+  const retries: RetryContext[] = [];
+  const errors: ErrorContext[] = [];
+  const { adapter, client } = wireMockClient({
+    retry: { maxAttempts: 2, initialDelay: 0 },
+    hooks: {
+      onRetry: context => void retries.push(context),
+      onError: context => void errors.push(context),
+    },
+  });
+
+  adapter.onGet('/customers/cst_FhQJRw4s2n').reply(503, { status: 503, title: 'Service Unavailable', detail: 'Try again later.' });
+
+  await expect(client.customers.get('cst_FhQJRw4s2n')).rejects.toThrow('Try again later.');
+
+  expect(retries.length).toBe(1);
+  expect(retries[0].attempt).toBe(1);
+  expect(retries[0].error.message).toBe('Try again later.');
+  expect(errors.length).toBe(1);
+  expect(errors[0].request.method).toBe('GET');
+  expect(errors[0].error.message).toBe('Try again later.');
+});
+
+test('hooksApplePay', async () => {
+  const requests: RequestContext[] = [];
+  const { adapter, client } = wireMockClient({
+    hooks: { onRequest: request => void requests.push(request) },
+  });
+
+  adapter.onPost('/wallets/applepay/sessions').reply(201, {});
+
+  await client.applePay.requestPaymentSession({
+    domain: 'pay.mywebshop.com',
+    validationUrl: 'https://apple-pay-gateway-cert.apple.com/paymentservices/paymentSession',
+  });
+
+  expect(requests.length).toBe(1);
+  expect(requests[0].url).toBe('https://api.mollie.com:443/v2/wallets/applepay/sessions');
+});
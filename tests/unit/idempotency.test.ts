@@ -0,0 +1,91 @@
+import wireMockClient from '../wireMockClient';
+
+const payment = {
+  resource: 'payment',
+  id: 'tr_44aKxzEbr8',
+  mode: 'test',
+  createdAt: '2018-03-13T14:02:29+00:00',
+  amount: {
+    value: '20.00',
+    currency: 'EUR',
+  },
+  description: 'My first API payment',
+  method: null,
+  metadata: null,
+  status: 'open',
+  isCancelable: false,
+  expiresAt: '2018-03-13T14:17:29+00:00',
+  details: null,
+  profileId: 'pfl_2A1gacu42V',
+  sequenceType: 'oneoff',
+  redirectUrl: 'https://example.org/redirect',
+  webhookUrl: 'https://example.org/webhook',
+  _links: {
+    self: {
+      href: 'https://api.mollie.com/v2/payments/tr_44aKxzEbr8',
+      type: 'application/hal+json',
+    },
+    documentation: {
+      href: 'https://docs.mollie.com/reference/v2/payments-api/create-payment',
+      type: 'text/html',
+    },
+  },
+};
+
+const createParameters = {
+  amount: {
+    currency: 'EUR',
+    value: '20.00',
+  },
+  description: 'My first API payment',
+  redirectUrl: 'https://example.org/redirect',
+  webhookUrl: 'https://example.org/webhook',
+};
+
+test('idempotencyKey', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onPost('/payments').reply(201, payment);
+
+  await client.payments.create({ ...createParameters, idempotencyKey: 'c4b1e8a0-checkout-1234' });
+
+  const { headers, data } = adapter.history.post[0];
+
+  expect(headers?.['Idempotency-Key']).toBe('c4b1e8a0-checkout-1234');
+  // The idempotency key should not be sent as part of the body.
+  expect(JSON.parse(data)).not.toHaveProperty('idempotencyKey');
+});
+
+test('idempotencyKeyOmitted', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onPost('/payments').reply(201, payment);
+
+  await client.payments.create(createParameters);
+
+  expect(adapter.history.post[0].headers?.['Idempotency-Key']).toBeUndefined();
+});
+
+test('idempotencyKeyRetry', async () => {
+  const { adapter, client } = wireMockClient({ retry: { initialDelay: 0 } });
+
+  adapter.onPost('/payments').replyOnce(503, {}).onPost('/payments').replyOnce(201, payment);
+
+  await client.payments.create({ ...createParameters, idempotencyKey: 'c4b1e8a0-checkout-1234' });
+
+  expect(adapter.history.post.length).toBe(2);
+});
+
+test('generateIdempotencyKeys', async () => {
+  const { adapter, client } = wireMockClient({ retry: { initialDelay: 0 }, generateIdempotencyKeys: true });
+
+  adapter.onPost('/payments').replyOnce(503, {}).onPost('/payments').replyOnce(201, payment);
+
+  await client.payments.create(createParameters);
+
+  const [first, second] = adapter.history.post;
+
+  expect(first.headers?.['Idempotency-Key']).toMatch(/^[\da-f]{8}-[\da-f]{4}-4[\da-f]{3}-[89ab][\da-f]{3}-[\da-f]{12}$/);
+  // The retry should carry the same idempotency key as the original attempt.
+  expect(second.headers?.['Idempotency-Key']).toBe(first.headers?.['Idempotency-Key']);
+});
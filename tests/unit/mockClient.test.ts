@@ -0,0 +1,87 @@
+import { PaymentStatus } from '../..';
+import { buildPayment, createMockMollieClient, Simulator, transformData } from '../../testing';
+
+test('roundTrip', async () => {
+  const client = createMockMollieClient();
+
+  const payment = await client.payments.create({ amount: { currency: 'EUR', value: '10.00' }, description: 'Order #12345' });
+  const retrievedPayment = await client.payments.get(payment.id);
+
+  expect(retrievedPayment.id).toBe(payment.id);
+  expect(retrievedPayment.isOpen()).toBe(true);
+  expect(client.payments.create.calls).toEqual([[{ amount: { currency: 'EUR', value: '10.00' }, description: 'Order #12345' }]]);
+  expect(client.payments.get.calls).toEqual([[payment.id]]);
+
+  await expect(client.payments.get('tr_doesnotexist')).rejects.toThrow('No payment exists with token tr_doesnotexist.');
+});
+
+test('aliases', async () => {
+  const client = createMockMollieClient();
+
+  expect(client.payments_refunds).toBe(client.paymentRefunds);
+
+  const customer = await client.customers.create({ name: 'Customer A' });
+  const customerPayments = client.customerPayments.withParent(customer);
+
+  expect(customerPayments).toBe(client.customers_payments);
+
+  await client.customerPayments.create({ customerId: customer.id, amount: { currency: 'EUR', value: '10.00' }, description: 'Order #12345' });
+
+  expect((await customerPayments.page({ customerId: customer.id })).length).toBe(1);
+  expect(client.customers_payments.page.calls).toEqual([[{ customerId: customer.id }]]);
+});
+
+test('iterate', async () => {
+  const client = createMockMollieClient();
+
+  for (let index = 0; index < 3; ++index) {
+    await client.customers.create({ name: `Customer ${index}` });
+  }
+
+  const names: string[] = [];
+  for await (const name of client.customers
+    .iterate()
+    .map(({ name }) => name)
+    .take(2)) {
+    names.push(name);
+  }
+
+  expect(names).toEqual(['Customer 2', 'Customer 1']);
+});
+
+test('implement', async () => {
+  const client = createMockMollieClient();
+
+  client.payments.get.implement(async id => transformData(buildPayment({ id, status: PaymentStatus.paid })));
+
+  expect((await client.payments.get('tr_WDqYK6vllg')).isPaid()).toBe(true);
+
+  client.payments.get.reset();
+
+  expect(client.payments.get.calls.length).toBe(0);
+  await expect(client.payments.get('tr_WDqYK6vllg')).rejects.toThrow('No payment exists');
+});
+
+test('notSimulated', async () => {
+  const client = createMockMollieClient();
+
+  expect(() => client.settlements.get('stl_jDk30akdN')).toThrow('get is not simulated, as the simulator does not hold settlements.');
+  expect(() => client.balances_transactions.iterate({ balanceId: 'bal_gVMhHKqSSRYJyPsuoPNFH' })).toThrow('iterate is not simulated');
+  expect(client.settlements.get.calls).toEqual([['stl_jDk30akdN']]);
+
+  client.invoices.get.implement(async () => {
+    throw new Error('Not found');
+  });
+
+  await expect(client.invoices.get('inv_xBEbP9rvAq')).rejects.toThrow('Not found');
+});
+
+test('simulator', async () => {
+  const simulator = new Simulator();
+  const client = createMockMollieClient({ simulator });
+
+  const payment = await client.payments.create({ amount: { currency: 'EUR', value: '10.00' }, description: 'Order #12345' });
+  await simulator.transitionPayment(payment.id, PaymentStatus.paid);
+
+  expect((await client.payments.get(payment.id)).isPaid()).toBe(true);
+});
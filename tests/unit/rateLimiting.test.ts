@@ -0,0 +1,130 @@
+import { AbortError, RateLimiter, RateLimitError } from '../..';
+import wireMockClient from '../wireMockClient';
+
+const customer = {
+  resource: 'customer',
+  id: 'cst_FhQJRw4s2n',
+  mode: 'test',
+  name: 'John Doe',
+  email: 'johndoe@example.org',
+  locale: null,
+  metadata: null,
+  createdAt: '2018-04-19T08:49:01+00:00',
+  _links: {
+    self: {
+      href: 'https://api.mollie.com/v2/customers/cst_FhQJRw4s2n',
+      type: 'application/hal+json',
+    },
+  },
+};
+
+/**
+ * Returns a reply function for axios-mock-adapter which responds after the passed delay, and keeps track of the
+ * maximum number of requests in flight at the same time.
+ */
+function createDelayedReply(delay: number) {
+  const state = { active: 0, maxActive: 0 };
+  const reply = () => {
+    state.maxActive = Math.max(state.maxActive, ++state.active);
+    return new Promise<[number, any]>(resolve =>
+      setTimeout(() => {
+        --state.active;
+        resolve([200, customer]);
+      }, delay),
+    );
+  };
+  return { state, reply };
+}
+
+test('rateLimiterConcurrency', async () => {
+  const { adapter, client } = wireMockClient({ rateLimiter: { maxConcurrency: 2 }, deduplicateRequests: false });
+  const { state, reply } = createDelayedReply(20);
+
+  adapter.onGet('/customers/cst_FhQJRw4s2n').reply(reply);
+
+  await Promise.all(new Array(5).fill(undefined).map(() => client.customers.get('cst_FhQJRw4s2n')));
+
+  expect(adapter.history.get.length).toBe(5);
+  expect(state.maxActive).toBe(2);
+});
+
+test('rateLimiterRequestsPerSecond', async () => {
+  const { adapter, client } = wireMockClient({ rateLimiter: { requestsPerSecond: 20 }, deduplicateRequests: false });
+
+  adapter.onGet('/customers/cst_FhQJRw4s2n').reply(200, customer);
+
+  const start = Date.now();
+  await Promise.all(new Array(5).fill(undefined).map(() => client.customers.get('cst_FhQJRw4s2n')));
+
+  // Five requests at twenty per second should take at least four times 50 milliseconds.
+  expect(Date.now() - start).toBeGreaterThanOrEqual(190);
+});
+
+test('rateLimiterRetryAfter', async () => {
+  const { adapter, client } = wireMockClient({ rateLimiter: {} });
+  const replyTimes: number[] = [];
+
+  adapter
+    .onGet('/customers/cst_FhQJRw4s2n')
+    .replyOnce(() => (replyTimes.push(Date.now()), [429, { status: 429, title: 'Too Many Requests', detail: 'You have sent too many requests' }, { 'retry-after': '1' }]))
+    .onGet('/customers/cst_FhQJRw4s2n')
+    .reply(() => (replyTimes.push(Date.now()), [200, customer]));
+
+  const result = await client.customers.get('cst_FhQJRw4s2n');
+
+  expect(result.id).toBe('cst_FhQJRw4s2n');
+  expect(adapter.history.get.length).toBe(2);
+  // The request should have been sent again after the second dictated by the Retry-After header.
+  expect(replyTimes[1] - replyTimes[0]).toBeGreaterThanOrEqual(900);
+});
+
+test('rateLimiterMaxRetries', async () => {
+  const errors: unknown[] = [];
+  const { adapter, client } = wireMockClient({ rateLimiter: { initialBackOff: 10 }, retry: { maxRateLimitRetries: 2 }, hooks: { onError: ({ error }) => void errors.push(error) } });
+
+  adapter.onGet('/customers/cst_FhQJRw4s2n').reply(429, { status: 429, title: 'Too Many Requests', detail: 'You have sent too many requests' }, { 'retry-after': '0' });
+
+  const error = await client.customers.get('cst_FhQJRw4s2n').catch(error => error);
+
+  expect(error).toBeInstanceOf(RateLimitError);
+  // The initial request, and two retries.
+  expect(adapter.history.get.length).toBe(3);
+  expect(errors).toEqual([error]);
+});
+
+test('rateLimiterAbort', async () => {
+  const { adapter, client } = wireMockClient({ rateLimiter: { maxConcurrency: 1 }, deduplicateRequests: false });
+  const { reply } = createDelayedReply(20);
+  const listeners: Array<() => void> = [];
+  const signal = {
+    aborted: false,
+    addEventListener: (_: string, listener: () => void) => listeners.push(listener),
+    removeEventListener: (_: string, listener: () => void) => listeners.splice(listeners.indexOf(listener) >>> 0, 1),
+  } as unknown as AbortSignal & { aborted: boolean };
+
+  adapter.onGet('/customers/cst_FhQJRw4s2n').reply(reply);
+
+  const first = client.customers.get('cst_FhQJRw4s2n');
+  const second = client.customers.get('cst_FhQJRw4s2n', undefined, { signal }).catch(error => error);
+  const third = client.customers.get('cst_FhQJRw4s2n');
+
+  // Abort the second request while it is queued behind the first.
+  signal.aborted = true;
+  listeners.slice().forEach(listener => listener());
+
+  expect(await second).toBeInstanceOf(AbortError);
+  await Promise.all([first, third]);
+  expect(adapter.history.get.length).toBe(2);
+});
+
+test('rateLimiterShared', async () => {
+  const rateLimiter = new RateLimiter({ maxConcurrency: 1 });
+  const { state, reply } = createDelayedReply(20);
+  const clients = [wireMockClient({ rateLimiter }), wireMockClient({ rateLimiter })];
+
+  clients.forEach(({ adapter }) => adapter.onGet('/customers/cst_FhQJRw4s2n').reply(reply));
+
+  await Promise.all(clients.flatMap(({ client }) => [client.customers.get('cst_FhQJRw4s2n'), client.customers.get('cst_FhQJRw4s2n')]));
+
+  expect(state.maxActive).toBe(1);
+});
@@ -0,0 +1,107 @@
+import { readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import createMollieClient, { Cassette, NetworkError } from '../..';
+import wireMockClient from '../wireMockClient';
+
+const customer = {
+  resource: 'customer',
+  id: 'cst_kEn1PlbGa',
+  mode: 'test',
+  name: 'Customer A',
+  email: 'customer@example.org',
+  locale: 'nl_NL',
+  metadata: null,
+  createdAt: '2018-04-06T13:23:21.0Z',
+  _links: {
+    self: {
+      href: 'https://api.mollie.com/v2/customers/cst_kEn1PlbGa',
+      type: 'application/hal+json',
+    },
+  },
+};
+
+/**
+ * Creates a client which replays from the passed cassette, and which fails any request which would reach the network.
+ */
+function createReplayingClient(cassette: string, match?: Array<'method' | 'path' | 'query' | 'body'>) {
+  return createMollieClient({
+    apiKey: 'mock-api-key',
+    recorder: { mode: 'replay', cassette, match },
+    transport: {
+      send: () => Promise.reject(new Error('The request reached the network')),
+    },
+  });
+}
+
+test('recordAndReplay', async () => {
+  const cassette = join(tmpdir(), `mollie-cassette-${Date.now()}.json`);
+  const { adapter, client } = wireMockClient({ recorder: { mode: 'record', cassette } });
+
+  adapter.onPost('/customers').reply(201, customer);
+  adapter
+    .onGet('/customers/cst_kEn1PlbGa')
+    .replyOnce(200, customer)
+    .onGet('/customers/cst_kEn1PlbGa')
+    .replyOnce(200, { ...customer, name: 'Customer B' });
+
+  await client.customers.create({ name: 'Customer A', email: 'customer@example.org' });
+  await client.customers.get('cst_kEn1PlbGa');
+  await client.customers.get('cst_kEn1PlbGa');
+
+  const { interactions } = JSON.parse(readFileSync(cassette, 'utf8')) as Cassette;
+
+  expect(interactions.length).toBe(3);
+  expect(interactions[0].request.method).toBe('POST');
+  expect(interactions[0].request.url).toBe('https://api.mollie.com:443/v2/customers');
+  expect(interactions[0].request.headers['Authorization']).toBe('REDACTED');
+  expect(interactions[0].response.status).toBe(201);
+  expect(readFileSync(cassette, 'utf8')).not.toContain('mock-api-key');
+
+  const replayingClient = createReplayingClient(cassette);
+
+  // (The keys in the body are in a different order than in the recording.)
+  const created = await replayingClient.customers.create({ email: 'customer@example.org', name: 'Customer A' });
+  // The recorded responses are replayed in turn.
+  const first = await replayingClient.customers.get('cst_kEn1PlbGa');
+  const second = await replayingClient.customers.get('cst_kEn1PlbGa');
+
+  expect(created.id).toBe('cst_kEn1PlbGa');
+  expect(first.name).toBe('Customer A');
+  expect(second.name).toBe('Customer B');
+
+  // A request which was not recorded (or has already been replayed) fails.
+  const error = await replayingClient.customers.get('cst_kEn1PlbGa').catch(error => error);
+
+  expect(error).toBeInstanceOf(NetworkError);
+  expect(error.code).toBe('ERR_NO_RECORDED_INTERACTION');
+  expect(error.message).toContain('GET https://api.mollie.com:443/v2/customers/cst_kEn1PlbGa');
+});
+
+test('replayMatching', async () => {
+  const cassette = join(tmpdir(), `mollie-cassette-${Date.now()}.json`);
+  const { adapter, client } = wireMockClient({ recorder: { mode: 'record', cassette } });
+
+  adapter.onPost('/customers').reply(201, customer);
+
+  await client.customers.create({ name: 'Customer A', email: 'customer@example.org' });
+
+  await expect(createReplayingClient(cassette).customers.create({ name: 'Customer B' })).rejects.toBeInstanceOf(NetworkError);
+
+  const created = await createReplayingClient(cassette, ['method', 'path']).customers.create({ name: 'Customer B' });
+
+  expect(created.id).toBe('cst_kEn1PlbGa');
+});
+
+test('passthrough', async () => {
+  const cassette = join(tmpdir(), `mollie-cassette-${Date.now()}-passthrough.json`);
+  const { adapter, client } = wireMockClient({ recorder: { mode: 'passthrough', cassette } });
+
+  adapter.onGet('/customers/cst_kEn1PlbGa').reply(200, customer);
+
+  await client.customers.get('cst_kEn1PlbGa');
+
+  expect(adapter.history.get.length).toBe(1);
+  expect(() => readFileSync(cassette)).toThrow();
+});
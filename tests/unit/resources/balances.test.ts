@@ -0,0 +1,193 @@
+import { BalanceReportGrouping, BalanceStatus, BalanceTransactionType } from '../../..';
+import wireMockClient from '../../wireMockClient';
+
+function composeBalanceResponse(balanceId = 'bal_gVMhHKqSSRYJyPsuoPNFH') {
+  return {
+    resource: 'balance',
+    id: balanceId,
+    mode: 'live',
+    createdAt: '2019-01-10T10:23:41+00:00',
+    currency: 'EUR',
+    description: 'Primary balance',
+    status: 'active',
+    availableAmount: { value: '905.25', currency: 'EUR' },
+    pendingAmount: { value: '0.00', currency: 'EUR' },
+    transferFrequency: 'twice-a-month',
+    transferThreshold: { value: '5.00', currency: 'EUR' },
+    transferReference: 'Mollie payout',
+    transferDestination: {
+      type: 'bank-account',
+      beneficiaryName: 'Jack Bauer',
+      bankAccount: 'NL53INGB0654422370',
+    },
+    _links: {
+      self: { href: `https://api.mollie.com/v2/balances/${balanceId}`, type: 'application/hal+json' },
+      documentation: { href: 'https://docs.mollie.com/reference/v2/balances-api/get-balance', type: 'text/html' },
+    },
+  };
+}
+
+test('getBalance', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/balances/bal_gVMhHKqSSRYJyPsuoPNFH').reply(200, composeBalanceResponse());
+  adapter.onGet('/balances/primary').reply(200, composeBalanceResponse());
+
+  const balance = await bluster(client.balances.get.bind(client.balances))('bal_gVMhHKqSSRYJyPsuoPNFH');
+
+  expect(balance.resource).toBe('balance');
+  expect(balance.status).toBe(BalanceStatus.active);
+  expect(balance.availableAmount).toEqual({ value: '905.25', currency: 'EUR' });
+  expect(balance.transferDestination.bankAccount).toBe('NL53INGB0654422370');
+
+  const primary = await bluster(client.balances.getPrimary.bind(client.balances))();
+
+  expect(primary.id).toBe('bal_gVMhHKqSSRYJyPsuoPNFH');
+
+  expect(() => client.balances.get('primary')).toThrow('The balance id is invalid');
+});
+
+test('listBalances', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/balances?currency=EUR').reply(200, {
+    _embedded: {
+      balances: [composeBalanceResponse(), composeBalanceResponse('bal_CKjKwQdjCwCSArXFAJNFH')],
+    },
+    count: 2,
+    _links: {
+      documentation: { href: 'https://docs.mollie.com/reference/v2/balances-api/list-balances', type: 'text/html' },
+      self: { href: 'https://api.mollie.com/v2/balances?currency=EUR', type: 'application/hal+json' },
+      previous: null,
+      next: null,
+    },
+  });
+
+  const balances = await bluster(client.balances.page.bind(client.balances))({ currency: 'EUR' });
+
+  expect(balances.map(({ id }) => id)).toEqual(['bal_gVMhHKqSSRYJyPsuoPNFH', 'bal_CKjKwQdjCwCSArXFAJNFH']);
+});
+
+test('getBalanceReport', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/balances/bal_gVMhHKqSSRYJyPsuoPNFH/report?from=2021-01-01&until=2021-02-01&grouping=transaction-categories').reply(200, {
+    resource: 'balance-report',
+    balanceId: 'bal_gVMhHKqSSRYJyPsuoPNFH',
+    timeZone: 'Europe/Amsterdam',
+    from: '2021-01-01',
+    until: '2021-02-01',
+    grouping: 'transaction-categories',
+    totals: {
+      open: {
+        available: { amount: { currency: 'EUR', value: '0.00' } },
+        pending: { amount: { currency: 'EUR', value: '0.00' } },
+      },
+      payments: {
+        immediatelyAvailable: { amount: { currency: 'EUR', value: '0.00' } },
+        pending: {
+          amount: { currency: 'EUR', value: '4.98' },
+          subtotals: [{ transactionType: 'payment', count: 1, amount: { currency: 'EUR', value: '4.98' }, subtotals: [{ method: 'ideal', count: 1, amount: { currency: 'EUR', value: '4.98' } }] }],
+        },
+        movedToAvailable: { amount: { currency: 'EUR', value: '0.00' } },
+      },
+      close: {
+        available: { amount: { currency: 'EUR', value: '0.00' } },
+        pending: { amount: { currency: 'EUR', value: '4.98' } },
+      },
+    },
+    _links: {
+      self: {
+        href: 'https://api.mollie.com/v2/balances/bal_gVMhHKqSSRYJyPsuoPNFH/report?from=2021-01-01&until=2021-02-01&grouping=transaction-categories',
+        type: 'application/hal+json',
+      },
+      documentation: { href: 'https://docs.mollie.com/reference/v2/balances-api/get-balance-report', type: 'text/html' },
+    },
+  });
+
+  const report = await bluster(client.balances.getReport.bind(client.balances))('bal_gVMhHKqSSRYJyPsuoPNFH', {
+    from: '2021-01-01',
+    until: '2021-02-01',
+    grouping: BalanceReportGrouping.transactionCategories,
+  });
+
+  expect(report.resource).toBe('balance-report');
+  expect(report.grouping).toBe(BalanceReportGrouping.transactionCategories);
+  expect(report.totals.close.pending.amount.value).toBe('4.98');
+  expect(report.totals.payments.pending.subtotals?.[0].subtotals?.[0].method).toBe('ideal');
+
+  expect(() => client.balances.getReport('tr_WDqYK6vllg', { from: '2021-01-01', until: '2021-02-01' })).toThrow('The balance id is invalid');
+});
+
+test('listBalanceTransactions', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/balances/primary/transactions?limit=2').reply(200, {
+    _embedded: {
+      balance_transactions: [
+        {
+          resource: 'balance_transaction',
+          id: 'baltr_QM24QwzUWR4ev4Xfgyt29A',
+          type: 'refund',
+          resultAmount: { value: '-10.25', currency: 'EUR' },
+          initiatedAmount: { value: '-10.00', currency: 'EUR' },
+          deductions: { value: '-0.25', currency: 'EUR' },
+          createdAt: '2021-01-10T12:06:28+00:00',
+          context: { paymentId: 'tr_7UhSN1zuXS', refundId: 're_4qqhO89gsT' },
+        },
+        {
+          resource: 'balance_transaction',
+          id: 'baltr_WhmDwNYR87FPDbiwBhUXCh',
+          type: 'outgoing-transfer',
+          resultAmount: { value: '-905.25', currency: 'EUR' },
+          initiatedAmount: { value: '-905.25', currency: 'EUR' },
+          deductions: null,
+          createdAt: '2021-01-10T12:00:00+00:00',
+          context: { settlementId: 'stl_ma2vu8', transferId: 'trf_ma2vu8' },
+        },
+        {
+          resource: 'balance_transaction',
+          id: 'baltr_rXeW2yPqqDUyfAqq8fS5Bg',
+          type: 'unknown-type',
+          resultAmount: { value: '1.00', currency: 'EUR' },
+          initiatedAmount: { value: '1.00', currency: 'EUR' },
+          deductions: null,
+          createdAt: '2021-01-10T11:00:00+00:00',
+          context: null,
+        },
+      ],
+    },
+    count: 3,
+    _links: {
+      documentation: { href: 'https://docs.mollie.com/reference/v2/balances-api/list-balance-transactions', type: 'text/html' },
+      self: { href: 'https://api.mollie.com/v2/balances/primary/transactions?limit=2', type: 'application/hal+json' },
+      previous: null,
+      next: null,
+    },
+  });
+  adapter.onGet('/payments/tr_7UhSN1zuXS').reply(200, {
+    resource: 'payment',
+    id: 'tr_7UhSN1zuXS',
+    status: 'paid',
+    amount: { value: '10.00', currency: 'EUR' },
+    _links: {
+      self: { href: 'https://api.mollie.com/v2/payments/tr_7UhSN1zuXS', type: 'application/hal+json' },
+      documentation: { href: 'https://docs.mollie.com/reference/v2/payments-api/get-payment', type: 'text/html' },
+    },
+  });
+
+  const [refund, transfer, unknown] = await bluster(client.balanceTransactions.page.bind(client.balanceTransactions))({ balanceId: 'primary', limit: 2 });
+
+  expect(refund.type).toBe(BalanceTransactionType.refund);
+  if (refund.type == BalanceTransactionType.refund) {
+    expect(refund.context.refundId).toBe('re_4qqhO89gsT');
+  }
+  expect((await refund.getPayment()).id).toBe('tr_7UhSN1zuXS');
+
+  expect(transfer.type).toBe(BalanceTransactionType.outgoingTransfer);
+  await expect(transfer.getPayment()).rejects.toThrow('This balance transaction does not relate to a payment');
+  await expect(unknown.getPayment()).rejects.toThrow('This balance transaction does not relate to a payment');
+  expect(transfer.toPlainObject().context).toEqual({ settlementId: 'stl_ma2vu8', transferId: 'trf_ma2vu8' });
+
+  expect(client.balances_transactions).toBe(client.balanceTransactions);
+});
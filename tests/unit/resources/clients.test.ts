@@ -0,0 +1,140 @@
+import { ApprovalPrompt, ClientEmbed } from '../../..';
+import wireMockClient from '../../wireMockClient';
+
+function composeClientResponse(clientId = 'org_1337') {
+  return {
+    resource: 'client',
+    id: clientId,
+    organizationCreatedAt: '2018-03-21T13:13:37+00:00',
+    commission: { count: 200, totalAmount: { currency: 'EUR', value: '10.00' } },
+    _links: {
+      self: { href: `https://api.mollie.com/v2/clients/${clientId}`, type: 'application/hal+json' },
+      organization: { href: `https://api.mollie.com/v2/organizations/${clientId}`, type: 'application/hal+json' },
+      onboarding: { href: `https://api.mollie.com/v2/onboarding/${clientId}`, type: 'application/hal+json' },
+      documentation: { href: 'https://docs.mollie.com/reference/v2/partners-api/get-client', type: 'text/html' },
+    },
+  };
+}
+
+test('getClient', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/clients/org_1337?embed=organization%2Conboarding').reply(200, {
+    ...composeClientResponse(),
+    _embedded: {
+      organization: {
+        resource: 'organization',
+        id: 'org_1337',
+        name: 'Mollie B.V.',
+        email: 'info@mollie.com',
+        locale: 'nl_NL',
+        address: { streetAndNumber: 'Keizersgracht 126', postalCode: '1015 CW', city: 'Amsterdam', country: 'NL' },
+        registrationNumber: '30204462',
+        vatNumber: 'NL815839091B01',
+        _links: {
+          self: { href: 'https://api.mollie.com/v2/organizations/org_1337', type: 'application/hal+json' },
+          documentation: { href: 'https://docs.mollie.com/reference/v2/organizations-api/get-organization', type: 'text/html' },
+        },
+      },
+      onboarding: {
+        resource: 'onboarding',
+        name: 'Mollie B.V.',
+        signedUpAt: '2018-12-20T10:49:08+00:00',
+        status: 'completed',
+        canReceivePayments: true,
+        canReceiveSettlements: true,
+        _links: {
+          self: { href: 'https://api.mollie.com/v2/onboarding/org_1337', type: 'application/hal+json' },
+          dashboard: { href: 'https://www.mollie.com/dashboard/onboarding', type: 'text/html' },
+          organization: { href: 'https://api.mollie.com/v2/organization/org_1337', type: 'application/hal+json' },
+          documentation: { href: 'https://docs.mollie.com/reference/v2/onboarding-api/get-onboarding-status', type: 'text/html' },
+        },
+      },
+    },
+  });
+
+  const result = await bluster(client.clients.get.bind(client.clients))('org_1337', { embed: [ClientEmbed.organization, ClientEmbed.onboarding] });
+
+  expect(result.resource).toBe('client');
+  expect(result.organizationCreatedAt).toBe('2018-03-21T13:13:37+00:00');
+  expect(result.commission?.totalAmount).toEqual({ currency: 'EUR', value: '10.00' });
+
+  const organization = await bluster(result.getOrganization.bind(result))();
+
+  expect(organization.name).toBe('Mollie B.V.');
+  expect(organization.vatNumber).toBe('NL815839091B01');
+
+  const onboarding = await result.getOnboarding();
+
+  expect(onboarding.canReceivePayments).toBe(true);
+
+  expect(() => client.clients.get('cl_vZCnNQsV2UtfXxYifWKWH')).toThrow('The client id is invalid');
+});
+
+test('listClients', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/clients?limit=2').reply(200, {
+    _embedded: {
+      clients: [composeClientResponse(), composeClientResponse('org_1338')],
+    },
+    count: 2,
+    _links: {
+      documentation: { href: 'https://docs.mollie.com/reference/v2/partners-api/list-clients', type: 'text/html' },
+      self: { href: 'https://api.mollie.com/v2/clients?limit=2', type: 'application/hal+json' },
+      previous: null,
+      next: null,
+    },
+  });
+
+  const clients = await bluster(client.clients.page.bind(client.clients))({ limit: 2 });
+
+  expect(clients.map(({ id }) => id)).toEqual(['org_1337', 'org_1338']);
+});
+
+test('createClientLink', async () => {
+  const { adapter, client } = wireMockClient();
+  const requests: any[] = [];
+
+  adapter.onPost('/client-links').reply(config => {
+    requests.push(config);
+    return [
+      201,
+      {
+        resource: 'client-link',
+        id: 'cl_vZCnNQsV2UtfXxYifWKWH',
+        _links: {
+          self: { href: 'https://api.mollie.com/v2/client-links/cl_vZCnNQsV2UtfXxYifWKWH', type: 'application/hal+json' },
+          clientLink: { href: 'https://my.mollie.com/dashboard/client-link/finalize/cl_vZCnNQsV2UtfXxYifWKWH', type: 'text/html' },
+          documentation: { href: 'https://docs.mollie.com/reference/v2/client-links-api/create-client-link', type: 'text/html' },
+        },
+      },
+    ];
+  });
+
+  const clientLink = await bluster(client.clientLinks.create.bind(client.clientLinks))({
+    owner: { email: 'norris@chucknorrisfacts.net', givenName: 'Chuck', familyName: 'Norris' },
+    name: 'Mollie B.V.',
+    address: { streetAndNumber: 'Keizersgracht 126', postalCode: '1015 CW', city: 'Amsterdam', country: 'NL' },
+    registrationNumber: '30204462',
+    vatNumber: 'NL815839091B01',
+    idempotencyKey: 'mock-idempotency-key',
+  });
+
+  expect(JSON.parse(requests[0].data)).toEqual({
+    owner: { email: 'norris@chucknorrisfacts.net', givenName: 'Chuck', familyName: 'Norris' },
+    name: 'Mollie B.V.',
+    address: { streetAndNumber: 'Keizersgracht 126', postalCode: '1015 CW', city: 'Amsterdam', country: 'NL' },
+    registrationNumber: '30204462',
+    vatNumber: 'NL815839091B01',
+  });
+  expect(requests[0].headers['Idempotency-Key']).toBe('mock-idempotency-key');
+
+  expect(clientLink.id).toBe('cl_vZCnNQsV2UtfXxYifWKWH');
+  expect(clientLink.getClientLink({ clientId: 'app_j9Pakf56Ajta6Y65AkdTtAv', state: 'decafbad', scope: ['onboarding.read', 'onboarding.write'] })).toBe(
+    'https://my.mollie.com/dashboard/client-link/finalize/cl_vZCnNQsV2UtfXxYifWKWH?client_id=app_j9Pakf56Ajta6Y65AkdTtAv&state=decafbad&scope=onboarding.read+onboarding.write',
+  );
+  expect(clientLink.getClientLink({ clientId: 'app_j9Pakf56Ajta6Y65AkdTtAv', state: 'decafbad', scope: ['onboarding.read'], approvalPrompt: ApprovalPrompt.force })).toBe(
+    'https://my.mollie.com/dashboard/client-link/finalize/cl_vZCnNQsV2UtfXxYifWKWH?client_id=app_j9Pakf56Ajta6Y65AkdTtAv&state=decafbad&scope=onboarding.read&approval_prompt=force',
+  );
+});
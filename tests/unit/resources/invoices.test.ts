@@ -0,0 +1,132 @@
+import { InvoiceStatus, NotFoundError } from '../../..';
+import wireMockClient from '../../wireMockClient';
+
+function composeInvoiceResponse(invoiceId = 'inv_xBEbP9rvAq') {
+  return {
+    resource: 'invoice',
+    id: invoiceId,
+    reference: '2016.10000',
+    vatNumber: 'NL001234567B01',
+    status: 'paid',
+    issuedAt: '2016-08-31',
+    paidAt: '2016-09-01',
+    netAmount: { value: '45.00', currency: 'EUR' },
+    vatAmount: { value: '9.45', currency: 'EUR' },
+    grossAmount: { value: '54.45', currency: 'EUR' },
+    lines: [
+      {
+        period: '2016-08',
+        description: 'iDEAL transactiekosten',
+        count: 100,
+        vatPercentage: 21,
+        amount: { value: '45.00', currency: 'EUR' },
+      },
+    ],
+    _links: {
+      self: { href: `https://api.mollie.com/v2/invoices/${invoiceId}`, type: 'application/hal+json' },
+      pdf: { href: 'https://www.mollie.com/merchant/download/invoice/xBEbP9rvAq/2ab44d60b35b1d06090bba955fa2c602', type: 'application/pdf' },
+      documentation: { href: 'https://docs.mollie.com/reference/v2/invoices-api/get-invoice', type: 'text/html' },
+    },
+  };
+}
+
+test('getInvoice', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/invoices/inv_xBEbP9rvAq').reply(200, composeInvoiceResponse());
+
+  const invoice = await bluster(client.invoices.get.bind(client.invoices))('inv_xBEbP9rvAq');
+
+  expect(invoice.resource).toBe('invoice');
+  expect(invoice.reference).toBe('2016.10000');
+  expect(invoice.status).toBe(InvoiceStatus.paid);
+  expect(invoice.grossAmount).toEqual({ value: '54.45', currency: 'EUR' });
+  expect(invoice.lines[0].count).toBe(100);
+  expect(invoice.getPdfUrl()).toBe('https://www.mollie.com/merchant/download/invoice/xBEbP9rvAq/2ab44d60b35b1d06090bba955fa2c602');
+
+  expect(() => client.invoices.get('stl_jDk30akdN')).toThrow('The invoice id is invalid');
+});
+
+test('listInvoices', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/invoices?reference=2016.10000&year=2016').reply(200, {
+    _embedded: {
+      invoices: [composeInvoiceResponse()],
+    },
+    count: 1,
+    _links: {
+      documentation: { href: 'https://docs.mollie.com/reference/v2/invoices-api/list-invoices', type: 'text/html' },
+      self: { href: 'https://api.mollie.com/v2/invoices?reference=2016.10000&year=2016', type: 'application/hal+json' },
+      previous: null,
+      next: null,
+    },
+  });
+
+  const invoices = await bluster(client.invoices.page.bind(client.invoices))({ reference: '2016.10000', year: '2016' });
+
+  expect(invoices.length).toBe(1);
+  expect(invoices[0].id).toBe('inv_xBEbP9rvAq');
+});
+
+test('downloadInvoicePdf', async () => {
+  const { adapter, client } = wireMockClient();
+  const pdf = Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'binary');
+  const requests: any[] = [];
+
+  adapter.onGet('/invoices/inv_xBEbP9rvAq').reply(200, composeInvoiceResponse());
+  adapter.onGet('https://www.mollie.com/merchant/download/invoice/xBEbP9rvAq/2ab44d60b35b1d06090bba955fa2c602').reply(config => {
+    requests.push(config);
+    return [200, pdf, { 'content-type': 'application/pdf' }];
+  });
+
+  const invoice = await client.invoices.get('inv_xBEbP9rvAq');
+  const result = await bluster(invoice.downloadPdf.bind(invoice))();
+
+  expect(Buffer.isBuffer(result)).toBe(true);
+  expect(result.equals(pdf)).toBe(true);
+  // (The link lies outside the API, so the request does not carry the API key.)
+  expect(requests[0].headers['Authorization']).toBeUndefined();
+  expect(requests[0].headers['Accept']).toBe('application/pdf');
+  expect(requests[0].responseType).toBe('arraybuffer');
+
+  // Error responses are decoded from JSON, as usual.
+  adapter
+    .onGet('https://www.mollie.com/merchant/download/invoice/xBEbP9rvAq/2ab44d60b35b1d06090bba955fa2c602')
+    .reply(404, Buffer.from(JSON.stringify({ status: 404, title: 'Not Found', detail: 'The invoice has expired' })));
+
+  const error = await invoice.downloadPdf().catch(error => error);
+
+  expect(error).toBeInstanceOf(NotFoundError);
+  expect(error.message).toBe('The invoice has expired');
+});
+
+test('downloadInvoicePdfCredentials', async () => {
+  const { adapter, client } = wireMockClient();
+  const requests: any[] = [];
+
+  const response = composeInvoiceResponse();
+  response._links.pdf.href = 'https://api.mollie.com/v2/invoices/inv_xBEbP9rvAq/pdf';
+  adapter.onGet('/invoices/inv_xBEbP9rvAq').reply(200, response);
+  adapter.onGet('https://api.mollie.com/v2/invoices/inv_xBEbP9rvAq/pdf').reply(config => {
+    requests.push(config);
+    return [200, Buffer.from('%PDF-1.4\n', 'binary'), { 'content-type': 'application/pdf' }];
+  });
+
+  const invoice = await client.invoices.get('inv_xBEbP9rvAq');
+  await invoice.downloadPdf();
+
+  expect(requests[0].headers['Authorization']).toBe('Bearer mock-api-key');
+});
+
+test('downloadOpenInvoicePdf', async () => {
+  const { adapter, client } = wireMockClient();
+
+  const { _links, ...response } = composeInvoiceResponse();
+  adapter.onGet('/invoices/inv_xBEbP9rvAq').reply(200, { ...response, status: 'open', paidAt: undefined, _links: { self: _links.self, documentation: _links.documentation } });
+
+  const invoice = await client.invoices.get('inv_xBEbP9rvAq');
+
+  expect(invoice.getPdfUrl()).toBeUndefined();
+  await expect(invoice.downloadPdf()).rejects.toThrow('This invoice has no PDF, as it is still open');
+});
@@ -0,0 +1,209 @@
+import { SettlementStatus } from '../../..';
+import wireMockClient from '../../wireMockClient';
+
+function composeSettlementResponse(settlementId = 'stl_jDk30akdN', status = 'paidout') {
+  return {
+    resource: 'settlement',
+    id: settlementId,
+    reference: '1234567.1804.03',
+    createdAt: '2018-04-06T06:00:01.0Z',
+    settledAt: status == 'paidout' ? '2018-04-06T09:41:44.0Z' : null,
+    status,
+    amount: {
+      value: '39.75',
+      currency: 'EUR',
+    },
+    periods: {
+      '2018': {
+        '04': {
+          revenue: [
+            {
+              description: 'iDEAL',
+              method: 'ideal',
+              count: 6,
+              amountNet: { value: '86.1000', currency: 'EUR' },
+              amountVat: null,
+              amountGross: { value: '86.1000', currency: 'EUR' },
+            },
+          ],
+          costs: [
+            {
+              description: 'iDEAL',
+              method: 'ideal',
+              count: 6,
+              rate: { fixed: { value: '0.3500', currency: 'EUR' }, percentage: null },
+              amountNet: { value: '2.1000', currency: 'EUR' },
+              amountVat: { value: '0.4410', currency: 'EUR' },
+              amountGross: { value: '2.5410', currency: 'EUR' },
+            },
+          ],
+          invoiceId: 'inv_FrvewDA3Pr',
+        },
+      },
+    },
+    invoiceId: 'inv_FrvewDA3Pr',
+    _links: {
+      self: {
+        href: `https://api.mollie.com/v2/settlements/${settlementId}`,
+        type: 'application/hal+json',
+      },
+      payments: {
+        href: `https://api.mollie.com/v2/settlements/${settlementId}/payments`,
+        type: 'application/hal+json',
+      },
+      refunds: {
+        href: `https://api.mollie.com/v2/settlements/${settlementId}/refunds`,
+        type: 'application/hal+json',
+      },
+      chargebacks: {
+        href: `https://api.mollie.com/v2/settlements/${settlementId}/chargebacks`,
+        type: 'application/hal+json',
+      },
+      captures: {
+        href: `https://api.mollie.com/v2/settlements/${settlementId}/captures`,
+        type: 'application/hal+json',
+      },
+      invoice: {
+        href: 'https://api.mollie.com/v2/invoices/inv_FrvewDA3Pr',
+        type: 'application/hal+json',
+      },
+      documentation: {
+        href: 'https://docs.mollie.com/reference/v2/settlements-api/get-settlement',
+        type: 'text/html',
+      },
+    },
+  };
+}
+
+function composePaymentResponse(paymentId: string, settlementId: string) {
+  return {
+    resource: 'payment',
+    id: paymentId,
+    mode: 'live',
+    createdAt: '2018-03-20T09:13:37+00:00',
+    amount: { value: '10.00', currency: 'EUR' },
+    description: 'Order #12345',
+    method: 'ideal',
+    status: 'paid',
+    paidAt: '2018-03-20T09:14:37+00:00',
+    settlementId,
+    _links: {
+      self: { href: `https://api.mollie.com/v2/payments/${paymentId}`, type: 'application/hal+json' },
+      settlement: { href: `https://api.mollie.com/v2/settlements/${settlementId}`, type: 'application/hal+json' },
+      documentation: { href: 'https://docs.mollie.com/reference/v2/payments-api/get-payment', type: 'text/html' },
+    },
+  };
+}
+
+test('getSettlement', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/settlements/stl_jDk30akdN').reply(200, composeSettlementResponse());
+
+  const settlement = await bluster(client.settlements.get.bind(client.settlements))('stl_jDk30akdN');
+
+  expect(settlement.resource).toBe('settlement');
+  expect(settlement.id).toBe('stl_jDk30akdN');
+  expect(settlement.reference).toBe('1234567.1804.03');
+  expect(settlement.status).toBe(SettlementStatus.paidout);
+  expect(settlement.isPaidout()).toBe(true);
+  expect(settlement.isOpen()).toBe(false);
+  expect(settlement.amount).toEqual({ value: '39.75', currency: 'EUR' });
+  expect(settlement.periods['2018']['04'].revenue[0].count).toBe(6);
+  expect(settlement.periods['2018']['04'].invoiceId).toBe('inv_FrvewDA3Pr');
+
+  expect(() => client.settlements.get('tr_WDqYK6vllg')).toThrow('The settlement id is invalid');
+
+  // Settlements can be retrieved by their bank reference as well.
+  adapter.onGet('/settlements/1234567.1804.03').reply(200, composeSettlementResponse());
+
+  expect((await client.settlements.get('1234567.1804.03')).id).toBe('stl_jDk30akdN');
+});
+
+test('getNextAndOpenSettlement', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/settlements/next').reply(200, composeSettlementResponse('stl_5B8cwPMGnU', 'pending'));
+  adapter.onGet('/settlements/open').reply(200, composeSettlementResponse('stl_xLhB4E9Ex6', 'open'));
+
+  const next = await bluster(client.settlements.next.bind(client.settlements))();
+
+  expect(next.id).toBe('stl_5B8cwPMGnU');
+  expect(next.isPending()).toBe(true);
+  expect(next.settledAt).toBeNull();
+
+  const open = await client.settlements.open();
+
+  expect(open.id).toBe('stl_xLhB4E9Ex6');
+  expect(open.isOpen()).toBe(true);
+});
+
+test('listSettlements', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/settlements?reference=1234567.1804.03&limit=5').reply(200, {
+    _embedded: {
+      settlements: [composeSettlementResponse()],
+    },
+    count: 1,
+    _links: {
+      documentation: { href: 'https://docs.mollie.com/reference/v2/settlements-api/list-settlements', type: 'text/html' },
+      self: { href: 'https://api.mollie.com/v2/settlements?reference=1234567.1804.03&limit=5', type: 'application/hal+json' },
+      previous: null,
+      next: null,
+    },
+  });
+
+  const settlements = await bluster(client.settlements.page.bind(client.settlements))({ reference: '1234567.1804.03', limit: 5 });
+
+  expect(settlements.length).toBe(1);
+  expect(settlements[0].id).toBe('stl_jDk30akdN');
+});
+
+test('listSettlementPayments', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/settlements/stl_jDk30akdN/payments').reply(200, {
+    _embedded: {
+      payments: [composePaymentResponse('tr_WDqYK6vllg', 'stl_jDk30akdN'), composePaymentResponse('tr_nQKWJbDj7j', 'stl_jDk30akdN')],
+    },
+    count: 2,
+    _links: {
+      documentation: { href: 'https://docs.mollie.com/reference/v2/settlements-api/list-settlement-payments', type: 'text/html' },
+      self: { href: 'https://api.mollie.com/v2/settlements/stl_jDk30akdN/payments', type: 'application/hal+json' },
+      previous: null,
+      next: null,
+    },
+  });
+
+  const payments = await bluster(client.settlementPayments.page.bind(client.settlementPayments))({ settlementId: 'stl_jDk30akdN' });
+
+  expect(payments.map(({ id }) => id)).toEqual(['tr_WDqYK6vllg', 'tr_nQKWJbDj7j']);
+  expect(client.settlements_payments).toBe(client.settlementPayments);
+
+  // The same payments are returned by the helper of the settlement.
+  adapter.onGet('/settlements/stl_jDk30akdN').reply(200, composeSettlementResponse());
+  adapter.onGet('https://api.mollie.com/v2/settlements/stl_jDk30akdN/payments').reply(200, {
+    _embedded: {
+      payments: [composePaymentResponse('tr_WDqYK6vllg', 'stl_jDk30akdN'), composePaymentResponse('tr_nQKWJbDj7j', 'stl_jDk30akdN')],
+    },
+    count: 2,
+  });
+  const settlement = await client.settlements.get('stl_jDk30akdN');
+
+  expect((await settlement.getPayments()).map(({ id }) => id)).toEqual(['tr_WDqYK6vllg', 'tr_nQKWJbDj7j']);
+
+  expect(() => client.settlementRefunds.iterate({ settlementId: 'tr_WDqYK6vllg' })).toThrow('The settlement id is invalid');
+});
+
+test('getPaymentSettlement', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/payments/tr_WDqYK6vllg').reply(200, composePaymentResponse('tr_WDqYK6vllg', 'stl_jDk30akdN'));
+  adapter.onGet('https://api.mollie.com/v2/settlements/stl_jDk30akdN').reply(200, composeSettlementResponse());
+
+  const payment = await client.payments.get('tr_WDqYK6vllg');
+  const settlement = await bluster(payment.getSettlement.bind(payment))();
+
+  expect(settlement?.id).toBe(payment.settlementId);
+});
@@ -0,0 +1,124 @@
+import { PaymentMethod, TerminalStatus } from '../../..';
+import wireMockClient from '../../wireMockClient';
+
+function composeTerminalResponse(terminalId = 'term_7MgL4wea46qkRcoTZjWEH', status = 'active') {
+  return {
+    resource: 'terminal',
+    id: terminalId,
+    profileId: 'pfl_QkEhN94Ba',
+    status,
+    brand: 'PAX',
+    model: 'A920',
+    serialNumber: '1234567890',
+    currency: 'EUR',
+    description: 'Terminal #12345',
+    createdAt: '2022-02-12T11:58:35.0Z',
+    updatedAt: '2022-11-15T13:32:11.0Z',
+    _links: {
+      self: { href: `https://api.mollie.com/v2/terminals/${terminalId}`, type: 'application/hal+json' },
+      documentation: { href: 'https://docs.mollie.com/reference/v2/terminals-api/get-terminal', type: 'text/html' },
+    },
+  };
+}
+
+test('getTerminal', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/terminals/term_7MgL4wea46qkRcoTZjWEH').reply(200, composeTerminalResponse());
+
+  const terminal = await bluster(client.terminals.get.bind(client.terminals))('term_7MgL4wea46qkRcoTZjWEH');
+
+  expect(terminal.resource).toBe('terminal');
+  expect(terminal.status).toBe(TerminalStatus.active);
+  expect(terminal.brand).toBe('PAX');
+  expect(terminal.serialNumber).toBe('1234567890');
+  expect(terminal.isActive()).toBe(true);
+  expect(terminal.isPending()).toBe(false);
+  expect(terminal.isInactive()).toBe(false);
+
+  expect(() => client.terminals.get('tr_7UhSN1zuXS')).toThrow('The terminal id is invalid');
+});
+
+test('listTerminals', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/terminals?limit=2').reply(200, {
+    _embedded: {
+      terminals: [composeTerminalResponse(), composeTerminalResponse('term_8NhM5xfb57rlSdpUAkXFI', 'pending')],
+    },
+    count: 2,
+    _links: {
+      documentation: { href: 'https://docs.mollie.com/reference/v2/terminals-api/list-terminals', type: 'text/html' },
+      self: { href: 'https://api.mollie.com/v2/terminals?limit=2', type: 'application/hal+json' },
+      previous: null,
+      next: null,
+    },
+  });
+
+  const terminals = await bluster(client.terminals.page.bind(client.terminals))({ limit: 2 });
+
+  expect(terminals.map(({ id }) => id)).toEqual(['term_7MgL4wea46qkRcoTZjWEH', 'term_8NhM5xfb57rlSdpUAkXFI']);
+  expect(terminals[1].isPending()).toBe(true);
+});
+
+test('createPointOfSalePayment', async () => {
+  const { adapter, client } = wireMockClient();
+  const requests: any[] = [];
+
+  adapter.onPost('/payments').reply(config => {
+    requests.push(config);
+    return [
+      201,
+      {
+        resource: 'payment',
+        id: 'tr_7UhSN1zuXS',
+        mode: 'live',
+        createdAt: '2022-11-15T13:32:11+00:00',
+        amount: { value: '10.00', currency: 'EUR' },
+        description: 'Order #12345',
+        method: 'pointofsale',
+        metadata: null,
+        status: 'paid',
+        paidAt: '2022-11-15T13:33:02+00:00',
+        profileId: 'pfl_QkEhN94Ba',
+        sequenceType: 'oneoff',
+        details: {
+          terminalId: 'term_7MgL4wea46qkRcoTZjWEH',
+          cardNumber: '1234',
+          maskedNumber: '**** **** **** 1234',
+          cardFingerprint: 'd3e4a2a9f59d3a8f',
+          cardLabel: 'Maestro',
+          cardCountryCode: 'NL',
+        },
+        _links: {
+          self: { href: 'https://api.mollie.com/v2/payments/tr_7UhSN1zuXS', type: 'application/hal+json' },
+          documentation: { href: 'https://docs.mollie.com/reference/v2/payments-api/create-payment', type: 'text/html' },
+        },
+      },
+    ];
+  });
+
+  const payment = await client.payments.create({
+    amount: { value: '10.00', currency: 'EUR' },
+    description: 'Order #12345',
+    method: PaymentMethod.pointofsale,
+    terminalId: 'term_7MgL4wea46qkRcoTZjWEH',
+  });
+
+  expect(JSON.parse(requests[0].data)).toEqual({
+    amount: { value: '10.00', currency: 'EUR' },
+    description: 'Order #12345',
+    method: 'pointofsale',
+    terminalId: 'term_7MgL4wea46qkRcoTZjWEH',
+  });
+
+  expect(payment.method).toBe(PaymentMethod.pointofsale);
+  expect(payment.details).toEqual({
+    terminalId: 'term_7MgL4wea46qkRcoTZjWEH',
+    cardNumber: '1234',
+    maskedNumber: '**** **** **** 1234',
+    cardFingerprint: 'd3e4a2a9f59d3a8f',
+    cardLabel: 'Maestro',
+    cardCountryCode: 'NL',
+  });
+});
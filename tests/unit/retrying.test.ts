@@ -0,0 +1,74 @@
+import { PaymentCreateParams } from '../..';
+import wireMockClient from '../wireMockClient';
+
+const customer = {
+  resource: 'customer',
+  id: 'cst_kEn1PlbGa',
+  mode: 'test',
+  name: 'Customer A',
+  email: 'customer@example.org',
+  locale: 'nl_NL',
+  metadata: null,
+  createdAt: '2018-04-06T13:23:21.0Z',
+  _links: {
+    self: {
+      href: 'https://api.mollie.com/v2/customers/cst_kEn1PlbGa',
+      type: 'application/hal+json',
+    },
+    documentation: {
+      href: 'https://docs.mollie.com/reference/v2/customers-api/get-customer',
+      type: 'text/html',
+    },
+  },
+};
+
+test('retryGet', async () => {
+  const { adapter, client } = wireMockClient({ retry: { initialDelay: 0 } });
+
+  adapter.onGet('/customers/cst_kEn1PlbGa').replyOnce(503, {}).onGet('/customers/cst_kEn1PlbGa').timeoutOnce().onGet('/customers/cst_kEn1PlbGa').replyOnce(200, customer);
+
+  const result = await client.customers.get('cst_kEn1PlbGa');
+
+  expect(result.id).toBe('cst_kEn1PlbGa');
+  expect(adapter.history.get.length).toBe(3);
+});
+
+test('retryGiveUp', async () => {
+  const { adapter, client } = wireMockClient({ retry: { initialDelay: 0, maxAttempts: 2 } });
+
+  adapter.onGet('/customers/cst_kEn1PlbGa').reply(502, { status: 502, title: 'Bad Gateway', detail: 'The server is unavailable' });
+
+  await expect(client.customers.get('cst_kEn1PlbGa')).rejects.toThrow('The server is unavailable');
+
+  expect(adapter.history.get.length).toBe(2);
+});
+
+test('retryNonRetryableStatus', async () => {
+  const { adapter, client } = wireMockClient({ retry: { initialDelay: 0 } });
+
+  adapter.onGet('/customers/cst_kEn1PlbGa').reply(404, { status: 404, title: 'Not Found', detail: 'No customer exists with token cst_kEn1PlbGa.' });
+
+  await client.customers.get('cst_kEn1PlbGa').catch(() => {});
+
+  expect(adapter.history.get.length).toBe(1);
+});
+
+test('retryPostWithoutIdempotencyKey', async () => {
+  const { adapter, client } = wireMockClient({ retry: { initialDelay: 0 } });
+
+  adapter.onPost('/payments').reply(503, {});
+
+  await client.payments.create({} as PaymentCreateParams).catch(() => {});
+
+  expect(adapter.history.post.length).toBe(1);
+});
+
+test('retryDisabled', async () => {
+  const { adapter, client } = wireMockClient();
+
+  adapter.onGet('/customers/cst_kEn1PlbGa').reply(503, {});
+
+  await client.customers.get('cst_kEn1PlbGa').catch(() => {});
+
+  expect(adapter.history.get.length).toBe(1);
+});
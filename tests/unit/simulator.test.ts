@@ -0,0 +1,193 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+
+import createMollieClient, { Locale, OrderEmbed, OrderStatus, PaymentStatus, RefundStatus, SequenceType } from '../..';
+import { Simulator } from '../../testing';
+
+let simulator: Simulator;
+let client: ReturnType<typeof createMollieClient>;
+
+beforeEach(async () => {
+  simulator = new Simulator();
+  client = createMollieClient({ apiKey: 'test_simulator', apiEndpoint: await simulator.listen() });
+});
+
+afterEach(() => simulator.close());
+
+/**
+ * Starts a server which records the bodies of the requests it receives, and responds with the passed status code.
+ */
+function startWebhookServer(status = 200) {
+  const bodies: string[] = [];
+  return new Promise<{ server: Server; url: string; bodies: string[] }>(resolve => {
+    const server = createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        bodies.push(body);
+        response.writeHead(status);
+        response.end();
+      });
+    });
+    server.listen(0, '127.0.0.1', () => resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook`, bodies }));
+  });
+}
+
+test('paymentLifecycle', async () => {
+  const { server, url, bodies } = await startWebhookServer();
+
+  const payment = await client.payments.create({ amount: { currency: 'EUR', value: '10.00' }, description: 'Order #12345', redirectUrl: 'https://example.org/return', webhookUrl: url });
+
+  expect(payment.id).toMatch(/^tr_/);
+  expect(payment.isOpen()).toBe(true);
+  expect(payment.getCheckoutUrl()).toContain(`/checkout/${payment.id}`);
+
+  await simulator.transitionPayment(payment.id, PaymentStatus.paid);
+
+  expect(bodies).toEqual([`id=${payment.id}`]);
+  expect(simulator.deliveries[0].status).toBe(200);
+
+  const paidPayment = await client.payments.get(payment.id);
+
+  expect(paidPayment.isPaid()).toBe(true);
+  expect(paidPayment.getCheckoutUrl()).toBeNull();
+
+  const refund = await client.paymentRefunds.create({ paymentId: payment.id, amount: { currency: 'EUR', value: '4.00' } });
+
+  expect(refund.id).toMatch(/^re_/);
+  expect(refund.status).toBe('pending');
+
+  await expect(client.paymentRefunds.create({ paymentId: payment.id, amount: { currency: 'EUR', value: '7.00' } })).rejects.toThrow('exceeds the remaining amount');
+
+  await simulator.transitionRefund(refund.id, RefundStatus.refunded);
+
+  const refundedPayment = await client.payments.get(payment.id);
+
+  expect(refundedPayment.amountRefunded).toEqual({ currency: 'EUR', value: '4.00' });
+  expect(refundedPayment.amountRemaining).toEqual({ currency: 'EUR', value: '6.00' });
+  expect(refundedPayment.hasRefunds()).toBe(true);
+  expect(bodies.length).toBe(2);
+
+  server.close();
+});
+
+test('paymentTransitions', async () => {
+  const payment = await client.payments.create({ amount: { currency: 'EUR', value: '10.00' }, description: 'Order #12345' });
+
+  await client.payments.cancel(payment.id);
+
+  expect((await client.payments.get(payment.id)).isCanceled()).toBe(true);
+  await expect(simulator.transitionPayment(payment.id, PaymentStatus.paid)).rejects.toThrow('cannot transition from canceled to paid');
+});
+
+test('errors', async () => {
+  await expect(client.payments.get('tr_doesnotexist')).rejects.toThrow('No payment exists with token tr_doesnotexist.');
+  await expect(client.payments.create({ amount: { currency: 'EUR', value: '10' }, description: 'Order #12345' })).rejects.toMatchObject({ field: 'amount', statusCode: 422 });
+});
+
+test('pagination', async () => {
+  for (let index = 0; index < 5; ++index) {
+    await client.customers.create({ name: `Customer ${index}` });
+  }
+
+  const page = await client.customers.page({ limit: 2 });
+
+  expect(page.map(({ name }) => name)).toEqual(['Customer 4', 'Customer 3']);
+  expect(page.links.previous).toBeNull();
+
+  const nextPage = await page.nextPage!();
+
+  expect(nextPage.map(({ name }) => name)).toEqual(['Customer 2', 'Customer 1']);
+
+  const names: string[] = [];
+  for await (const { name } of client.customers.iterate()) {
+    names.push(name);
+  }
+
+  expect(names).toEqual(['Customer 4', 'Customer 3', 'Customer 2', 'Customer 1', 'Customer 0']);
+});
+
+test('subscriptions', async () => {
+  const customer = await client.customers.create({ name: 'Customer A' });
+
+  await expect(client.customerSubscriptions.create({ customerId: customer.id, amount: { currency: 'EUR', value: '25.00' }, interval: '1 month', description: 'Monthly' })).rejects.toThrow(
+    'does not have a valid mandate',
+  );
+
+  const firstPayment = await client.customerPayments.create({ customerId: customer.id, amount: { currency: 'EUR', value: '0.01' }, description: 'First payment', sequenceType: SequenceType.first });
+  await simulator.transitionPayment(firstPayment.id, PaymentStatus.paid);
+
+  const [mandate] = await client.customerMandates.page({ customerId: customer.id });
+
+  expect(mandate.status).toBe('valid');
+
+  const subscription = await client.customerSubscriptions.create({ customerId: customer.id, amount: { currency: 'EUR', value: '25.00' }, times: 2, interval: '1 month', description: 'Monthly' });
+
+  expect(subscription.mandateId).toBe(mandate.id);
+
+  const payment = await simulator.chargeSubscription(subscription.id);
+  await simulator.chargeSubscription(subscription.id);
+
+  expect(payment.sequenceType).toBe('recurring');
+  expect((await client.customerSubscriptions.get(subscription.id, { customerId: customer.id })).status).toBe('completed');
+  expect((await client.subscriptionPayments.page({ customerId: customer.id, subscriptionId: subscription.id })).length).toBe(2);
+});
+
+test('orders', async () => {
+  const order = await client.orders.create({
+    amount: { currency: 'EUR', value: '30.00' },
+    orderNumber: '1337',
+    lines: [
+      { name: 'Item A', quantity: 2, unitPrice: { currency: 'EUR', value: '10.00' }, totalAmount: { currency: 'EUR', value: '20.00' }, vatRate: '0.00', vatAmount: { currency: 'EUR', value: '0.00' } },
+      { name: 'Item B', quantity: 1, unitPrice: { currency: 'EUR', value: '10.00' }, totalAmount: { currency: 'EUR', value: '10.00' }, vatRate: '0.00', vatAmount: { currency: 'EUR', value: '0.00' } },
+    ],
+    billingAddress: { givenName: 'Piet', familyName: 'Mondriaan', email: 'piet@example.org', streetAndNumber: 'Keizersgracht 126', city: 'Amsterdam', postalCode: '1234AB', country: 'NL' },
+    redirectUrl: 'https://example.org/redirect',
+    locale: Locale.nl_NL,
+  });
+
+  expect(order.id).toMatch(/^ord_/);
+  expect(order.lines[0].id).toMatch(/^odl_/);
+  expect(order.getCheckoutUrl()).toContain('/checkout/');
+
+  await simulator.transitionOrder(order.id, OrderStatus.authorized);
+
+  const shipment = await client.orderShipments.create({ orderId: order.id, lines: [{ id: order.lines[0].id, quantity: 1 }] });
+
+  expect(shipment.id).toMatch(/^shp_/);
+
+  const shippingOrder = await client.orders.get(order.id, { embed: [OrderEmbed.payments] });
+
+  expect(shippingOrder.status).toBe('shipping');
+  expect(shippingOrder._embedded!.payments![0].status).toBe('paid');
+
+  const [capture] = await client.paymentCaptures.page({ paymentId: shippingOrder._embedded!.payments![0].id });
+
+  expect(capture.amount).toEqual({ currency: 'EUR', value: '10.00' });
+
+  await client.orderShipments.create({ orderId: order.id });
+
+  expect((await client.orders.get(order.id)).status).toBe('completed');
+});
+
+test('admin', async () => {
+  const paymentLink = await client.paymentLinks.create({ amount: { currency: 'EUR', value: '5.00' }, description: 'Donation' });
+  const origin = simulator.apiEndpoint!.replace(/v2\/$/, '');
+
+  const { data } = await axios.post(`${origin}_admin/payment-links/${paymentLink.id}/pay`);
+
+  expect(data.paidAt).toBeDefined();
+  expect((await client.paymentLinks.get(paymentLink.id)).paidAt).toBe(data.paidAt);
+
+  const response = await axios.post(`${origin}_admin/payment-links/${paymentLink.id}/pay`, undefined, { validateStatus: () => true });
+
+  expect(response.status).toBe(422);
+  expect(response.data.detail).toBe(`The payment link ${paymentLink.id} has already been paid`);
+});
+
+test('authentication', async () => {
+  const response = await axios.get(`${simulator.apiEndpoint}payments`, { validateStatus: () => true });
+
+  expect(response.status).toBe(401);
+});
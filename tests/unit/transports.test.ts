@@ -0,0 +1,111 @@
+import createMollieClient, { FetchTransport, NetworkError, NotFoundError, Transport, TransportRequest } from '../..';
+
+const customer = {
+  resource: 'customer',
+  id: 'cst_FhQJRw4s2n',
+  mode: 'test',
+  name: 'John Doe',
+  email: 'johndoe@example.org',
+  locale: null,
+  metadata: null,
+  createdAt: '2018-04-19T08:49:01+00:00',
+  _links: {
+    self: {
+      href: 'https://api.mollie.com/v2/customers/cst_FhQJRw4s2n',
+      type: 'application/hal+json',
+    },
+  },
+};
+
+test('customTransport', async () => {
+  const requests: TransportRequest[] = [];
+  const transport: Transport = {
+    send: async request => {
+      requests.push(request);
+      return { status: 201, headers: {}, body: customer };
+    },
+  };
+  const client = createMollieClient({ apiKey: 'mock-api-key', transport });
+
+  const result = await client.customers.create({ name: 'John Doe', email: 'johndoe@example.org' });
+
+  expect(result.id).toBe('cst_FhQJRw4s2n');
+  expect(requests.length).toBe(1);
+  expect(requests[0].method).toBe('POST');
+  expect(requests[0].url).toBe('https://api.mollie.com:443/v2/customers');
+  expect(requests[0].headers['Authorization']).toBe('Bearer mock-api-key');
+  expect(JSON.parse(requests[0].body as string)).toEqual({ name: 'John Doe', email: 'johndoe@example.org' });
+});
+
+test('customTransportErrorResponse', async () => {
+  const client = createMollieClient({
+    apiKey: 'mock-api-key',
+    transport: {
+      send: async () => ({ status: 404, headers: {}, body: { status: 404, title: 'Not Found', detail: 'No customer exists with token cst_FhQJRw4s2n.' } }),
+    },
+  });
+
+  await expect(client.customers.get('cst_FhQJRw4s2n')).rejects.toBeInstanceOf(NotFoundError);
+});
+
+test('fetchTransport', async () => {
+  const calls: Array<[string, any]> = [];
+  const fetch = async (url: string, init: any) => {
+    calls.push([url, init]);
+    return {
+      status: 201,
+      headers: new Map([['Request-Id', 'req_8vSrNcFz3s']]),
+      text: async () => JSON.stringify(customer),
+    };
+  };
+  const client = createMollieClient({ apiKey: 'mock-api-key', transport: new FetchTransport({ fetch, init: { keepalive: true } }) });
+
+  const result = await client.customers.create({ name: 'John Doe', email: 'johndoe@example.org' });
+
+  expect(result.id).toBe('cst_FhQJRw4s2n');
+  const [url, { method, headers, body, keepalive }] = calls[0];
+  expect(url).toBe('https://api.mollie.com:443/v2/customers');
+  expect(method).toBe('POST');
+  expect(headers['Authorization']).toBe('Bearer mock-api-key');
+  expect(JSON.parse(body)).toEqual({ name: 'John Doe', email: 'johndoe@example.org' });
+  expect(keepalive).toBe(true);
+});
+
+test('fetchTransportNetworkError', async () => {
+  const fetch = async () => {
+    throw Object.assign(new TypeError('fetch failed'), { cause: Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' }) });
+  };
+  const client = createMollieClient({ apiKey: 'mock-api-key', transport: new FetchTransport({ fetch }) });
+
+  const error = await client.customers.get('cst_FhQJRw4s2n').catch(error => error);
+
+  expect(error).toBeInstanceOf(NetworkError);
+  expect(error.code).toBe('ECONNRESET');
+});
+
+test('fetchTransportTimeout', async () => {
+  // This fetch function never settles.
+  const fetch = () => new Promise<never>(() => undefined);
+  const client = createMollieClient({ apiKey: 'mock-api-key', transport: new FetchTransport({ fetch, timeout: 10 }) });
+
+  const error = await client.customers.get('cst_FhQJRw4s2n').catch(error => error);
+
+  expect(error).toBeInstanceOf(NetworkError);
+  expect(error.code).toBe('ECONNABORTED');
+});
+
+test('fetchTransportBinary', async () => {
+  const pdf = Buffer.from('%PDF-1.4\n', 'binary');
+  const fetch = async () => ({
+    status: 200,
+    headers: new Map([['Content-Type', 'application/pdf']]),
+    text: async () => pdf.toString('binary'),
+    arrayBuffer: async () => pdf.buffer.slice(pdf.byteOffset, pdf.byteOffset + pdf.byteLength),
+  });
+  const transport = new FetchTransport({ fetch });
+
+  const response = await transport.send({ method: 'GET', url: 'https://www.mollie.com/merchant/download/invoice/xBEbP9rvAq', headers: {}, binary: true });
+
+  expect(Buffer.isBuffer(response.body)).toBe(true);
+  expect(response.body.equals(pdf)).toBe(true);
+});
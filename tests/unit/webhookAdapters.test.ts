@@ -0,0 +1,123 @@
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { PassThrough } from 'stream';
+import axios from 'axios';
+
+import { createExpressWebhookHandler, createFastifyWebhookPlugin, createKoaWebhookMiddleware, createNodeWebhookListener, PaymentStatus, WebhookHandler } from '../..';
+import { createMockMollieClient, Simulator } from '../../testing';
+
+let simulator: Simulator;
+let webhookHandler: WebhookHandler;
+let paymentId: string;
+let paidPayments: string[];
+
+beforeEach(async () => {
+  simulator = new Simulator();
+  const client = createMockMollieClient({ simulator });
+  const payment = await client.payments.create({ amount: { currency: 'EUR', value: '10.00' }, description: 'Order #12345' });
+  await simulator.transitionPayment(payment.id, PaymentStatus.paid);
+  paymentId = payment.id;
+  paidPayments = [];
+  webhookHandler = new WebhookHandler(client).on('payment.paid', payment => {
+    if (payment.metadata == 'fail') {
+      throw new Error('Database unavailable');
+    }
+    paidPayments.push(payment.id);
+  });
+});
+
+/**
+ * Returns a request (as received by the server) with the passed body, which has not been read yet.
+ */
+function createRequest(body: string, contentType = 'application/x-www-form-urlencoded') {
+  const request = Object.assign(new PassThrough(), { method: 'POST', headers: { 'content-type': contentType } });
+  request.end(body);
+  return request as any;
+}
+
+test('node', async () => {
+  const errors: unknown[] = [];
+  const server = createServer(createNodeWebhookListener(webhookHandler, { onError: error => void errors.push(error) }));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook`;
+  const post = (body: string) => axios.post(url, body, { headers: { 'Content-Type': 'application/x-www-form-urlencoded' }, validateStatus: () => true });
+
+  try {
+    expect((await post(`id=${paymentId}`)).status).toBe(200);
+    expect(paidPayments).toEqual([paymentId]);
+
+    expect((await post('id=cst_8wmqcHMN4U')).status).toBe(400);
+    expect((await post('foo=bar')).status).toBe(400);
+    expect(errors.length).toBe(2);
+
+    simulator.state.updatePayment(paymentId, { metadata: 'fail' });
+
+    expect((await post(`id=${paymentId}`)).status).toBe(500);
+    expect((await axios.get(url, { validateStatus: () => true })).status).toBe(405);
+  } finally {
+    server.close();
+  }
+});
+
+test('express', async () => {
+  const handler = createExpressWebhookHandler(webhookHandler);
+  const response = { sendStatus: jest.fn() };
+
+  // The body has not been read.
+  await handler(createRequest(`id=${paymentId}`), response);
+
+  // The body has been read by a body parser.
+  await handler({ readable: false, headers: {}, body: { id: paymentId } } as any, response);
+
+  await handler(createRequest(JSON.stringify({ id: 're_4qqhO89gsT' }), 'application/json'), response);
+
+  expect(response.sendStatus.mock.calls).toEqual([[200], [200], [400]]);
+  expect(paidPayments).toEqual([paymentId, paymentId]);
+});
+
+test('koa', async () => {
+  const middleware = createKoaWebhookMiddleware(webhookHandler);
+
+  const context = { req: createRequest(`id=${paymentId}`), request: {}, status: 404, body: undefined };
+  await middleware(context);
+
+  expect(context.status).toBe(200);
+
+  const parsedContext = { req: { readable: false, headers: {} } as any, request: { body: {} }, status: 404, body: undefined };
+  await middleware(parsedContext);
+
+  expect(parsedContext.status).toBe(400);
+  expect(paidPayments).toEqual([paymentId]);
+});
+
+test('fastify', async () => {
+  let parser: any;
+  let route: any;
+  const plugin = createFastifyWebhookPlugin(webhookHandler, '/webhook');
+  const done = jest.fn();
+  plugin(
+    {
+      addContentTypeParser: (contentType, _, callback) => {
+        expect(contentType).toBe('application/x-www-form-urlencoded');
+        parser = callback;
+      },
+      post: (path, handler) => {
+        expect(path).toBe('/webhook');
+        route = handler;
+      },
+    },
+    {},
+    done,
+  );
+
+  expect(done).toHaveBeenCalled();
+
+  const body = await new Promise(resolve => parser(undefined, `id=${paymentId}`, (_: unknown, body: string) => resolve(body)));
+  const send = jest.fn();
+  const code = jest.fn(() => ({ send }));
+  await route({ body, headers: { 'content-type': 'application/x-www-form-urlencoded' } }, { code });
+
+  expect(code).toHaveBeenCalledWith(200);
+  expect(send).toHaveBeenCalled();
+  expect(paidPayments).toEqual([paymentId]);
+});
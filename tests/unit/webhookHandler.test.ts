@@ -0,0 +1,137 @@
+import { InvalidIdError, Locale, OrderStatus, parseWebhookBody, PaymentStatus, RefundStatus, SequenceType, WebhookEvent, WebhookHandler } from '../..';
+import { createMockMollieClient, Simulator } from '../../testing';
+
+let simulator: Simulator;
+let client: ReturnType<typeof createMockMollieClient>;
+let webhookHandler: WebhookHandler;
+let events: WebhookEvent[];
+
+beforeEach(() => {
+  simulator = new Simulator();
+  client = createMockMollieClient({ simulator });
+  webhookHandler = new WebhookHandler(client);
+  events = [];
+});
+
+/**
+ * Registers a listener which records the emitted events for each of the passed events.
+ */
+function record(...names: WebhookEvent[]) {
+  names.forEach(name => webhookHandler.on(name, (_, event) => void events.push(event)));
+}
+
+test('parseWebhookBody', () => {
+  expect(parseWebhookBody('id=tr_WDqYK6vllg')).toBe('tr_WDqYK6vllg');
+  expect(parseWebhookBody(Buffer.from('id=tr_WDqYK6vllg'), 'application/x-www-form-urlencoded')).toBe('tr_WDqYK6vllg');
+  expect(parseWebhookBody('{"id":"tr_WDqYK6vllg"}')).toBe('tr_WDqYK6vllg');
+  expect(parseWebhookBody('{"id":"tr_WDqYK6vllg"}', 'application/json; charset=utf-8')).toBe('tr_WDqYK6vllg');
+  expect(parseWebhookBody({ id: 'tr_WDqYK6vllg' })).toBe('tr_WDqYK6vllg');
+  expect(parseWebhookBody('{"id":', 'application/json')).toBeUndefined();
+  expect(parseWebhookBody('foo=bar')).toBeUndefined();
+  expect(parseWebhookBody(undefined)).toBeUndefined();
+});
+
+test('payment', async () => {
+  record('payment', 'payment.paid', 'payment.refunded', 'payment.chargedback', 'payment.failed');
+
+  const payment = await client.payments.create({ amount: { currency: 'EUR', value: '10.00' }, description: 'Order #12345' });
+  await simulator.transitionPayment(payment.id, PaymentStatus.paid);
+
+  const resource = await webhookHandler.handle(`id=${payment.id}`);
+
+  expect(resource.id).toBe(payment.id);
+  expect(events).toEqual(['payment', 'payment.paid']);
+
+  const refund = await client.paymentRefunds.create({ paymentId: payment.id, amount: { currency: 'EUR', value: '2.00' } });
+  await simulator.transitionRefund(refund.id, RefundStatus.refunded);
+  await simulator.createChargeback(payment.id, { amount: { currency: 'EUR', value: '8.00' } });
+  events = [];
+
+  await webhookHandler.handle({ id: payment.id });
+
+  expect(events).toEqual(['payment', 'payment.paid', 'payment.refunded', 'payment.chargedback']);
+});
+
+test('order', async () => {
+  record('order.authorized', 'order.shipping', 'order.completed');
+
+  const order = await client.orders.create({
+    amount: { currency: 'EUR', value: '20.00' },
+    orderNumber: '1337',
+    lines: [
+      { name: 'Item', quantity: 2, unitPrice: { currency: 'EUR', value: '10.00' }, totalAmount: { currency: 'EUR', value: '20.00' }, vatRate: '0.00', vatAmount: { currency: 'EUR', value: '0.00' } },
+    ],
+    billingAddress: { givenName: 'Piet', familyName: 'Mondriaan', email: 'piet@example.org', streetAndNumber: 'Keizersgracht 126', city: 'Amsterdam', postalCode: '1234AB', country: 'NL' },
+    redirectUrl: 'https://example.org/redirect',
+    locale: Locale.nl_NL,
+  });
+  await simulator.transitionOrder(order.id, OrderStatus.authorized);
+  await webhookHandler.handle(`{"id":"${order.id}"}`, 'application/json');
+
+  await client.orderShipments.create({ orderId: order.id, lines: [{ id: order.lines[0].id, quantity: 1 }] });
+  await webhookHandler.handle(`id=${order.id}`);
+
+  await client.orderShipments.create({ orderId: order.id });
+  await webhookHandler.handle(`id=${order.id}`);
+
+  expect(events).toEqual(['order.authorized', 'order.shipping', 'order.completed']);
+});
+
+test('subscriptionAndPaymentLink', async () => {
+  const customer = await client.customers.create({ name: 'Customer A' });
+  const firstPayment = await client.customerPayments.create({ customerId: customer.id, amount: { currency: 'EUR', value: '0.01' }, description: 'First', sequenceType: SequenceType.first });
+  await simulator.transitionPayment(firstPayment.id, PaymentStatus.paid);
+  const subscription = await client.customerSubscriptions.create({ customerId: customer.id, amount: { currency: 'EUR', value: '25.00' }, interval: '1 month', description: 'Monthly' });
+
+  webhookHandler = new WebhookHandler(client, { resolveSubscriptionCustomer: id => (id == subscription.id ? customer.id : undefined) });
+  record('subscription.active', 'paymentLink', 'paymentLink.paid');
+
+  await webhookHandler.handle(`id=${subscription.id}`);
+
+  expect(client.customerSubscriptions.get.calls).toEqual([[subscription.id, { customerId: customer.id }]]);
+  expect(client.subscription.iterate.calls.length).toBe(0);
+
+  const paymentLink = await client.paymentLinks.create({ amount: { currency: 'EUR', value: '5.00' }, description: 'Donation' });
+  await webhookHandler.handle(`id=${paymentLink.id}`);
+  await simulator.payPaymentLink(paymentLink.id);
+  await webhookHandler.handle(`id=${paymentLink.id}`);
+
+  expect(events).toEqual(['subscription.active', 'paymentLink', 'paymentLink', 'paymentLink.paid']);
+  await expect(webhookHandler.handle('id=sub_doesnotexist')).rejects.toThrow('The customer of subscription sub_doesnotexist is unknown');
+});
+
+test('scanSubscriptions', async () => {
+  const customer = await client.customers.create({ name: 'Customer A' });
+  const firstPayment = await client.customerPayments.create({ customerId: customer.id, amount: { currency: 'EUR', value: '0.01' }, description: 'First', sequenceType: SequenceType.first });
+  await simulator.transitionPayment(firstPayment.id, PaymentStatus.paid);
+  const subscription = await client.customerSubscriptions.create({ customerId: customer.id, amount: { currency: 'EUR', value: '25.00' }, interval: '1 month', description: 'Monthly' });
+
+  await expect(webhookHandler.handle(`id=${subscription.id}`)).rejects.toThrow('Pass the resolveSubscriptionCustomer option');
+
+  webhookHandler = new WebhookHandler(client, { scanSubscriptions: true });
+  record('subscription');
+
+  await webhookHandler.handle(`id=${subscription.id}`);
+
+  expect(events).toEqual(['subscription']);
+  await expect(webhookHandler.handle('id=sub_doesnotexist')).rejects.toThrow('No subscription exists with id sub_doesnotexist');
+});
+
+test('errors', async () => {
+  await expect(webhookHandler.handle('')).rejects.toBeInstanceOf(InvalidIdError);
+  await expect(webhookHandler.handle('id=cst_8wmqcHMN4U')).rejects.toBeInstanceOf(InvalidIdError);
+  expect(client.payments.get.calls.length).toBe(0);
+
+  const payment = await client.payments.create({ amount: { currency: 'EUR', value: '10.00' }, description: 'Order #12345' });
+  const listener = jest.fn();
+  webhookHandler
+    .on('payment.open', () => {
+      throw new Error('Database unavailable');
+    })
+    .on('payment.open', listener);
+
+  await expect(webhookHandler.handle(`id=${payment.id}`)).rejects.toThrow('Database unavailable');
+  expect(listener).not.toHaveBeenCalled();
+
+  webhookHandler.off('payment.open', listener);
+});
@@ -0,0 +1,89 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+
+import { createNodeWebhookListener, PaymentStatus, RefundStatus, WebhookEvent, WebhookHandler } from '../..';
+import { createMockMollieClient, Simulator, WebhookSender } from '../../testing';
+
+/**
+ * Starts a server which responds to the requests it receives with the passed status codes (one after the other, and
+ * `200` once they are exhausted).
+ */
+function startServer(statuses: number[]) {
+  const bodies: string[] = [];
+  return new Promise<{ server: Server; url: string; bodies: string[] }>(resolve => {
+    const server = createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        bodies.push(body);
+        response.writeHead(statuses.shift() ?? 200);
+        response.end('Received');
+      });
+    });
+    server.listen(0, '127.0.0.1', () => resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook`, bodies }));
+  });
+}
+
+test('retries', async () => {
+  const { server, url, bodies } = await startServer([500, 503]);
+  const messages: string[] = [];
+  const sender = new WebhookSender({ url, retryDelays: [10, 10, 10], log: message => void messages.push(message) });
+
+  try {
+    const attempts = await sender.send('tr_WDqYK6vllg');
+
+    expect(attempts.map(({ attempt, status }) => [attempt, status])).toEqual([
+      [1, 500],
+      [2, 503],
+      [3, 200],
+    ]);
+    expect(attempts[2].body).toBe('Received');
+    expect(bodies).toEqual(['id=tr_WDqYK6vllg', 'id=tr_WDqYK6vllg', 'id=tr_WDqYK6vllg']);
+    expect(messages[0]).toMatch(new RegExp(`^POST ${url} id=tr_WDqYK6vllg \\(attempt 1\\) → 500 Received \\(\\d+ ms\\)$`));
+    expect(messages[1]).toBe('Retrying tr_WDqYK6vllg in 10 ms');
+
+    // Once the retries are exhausted, the call is given up.
+    const exhausted = await new WebhookSender({ url, retryDelays: [], log: () => undefined }).play(['tr_WDqYK6vllg', 'tr_WDqYK6vllg']);
+
+    expect(exhausted.map(attempts => attempts.length)).toEqual([1, 1]);
+  } finally {
+    server.close();
+  }
+
+  const [failed] = await new WebhookSender({ url, retryDelays: [], log: () => undefined }).send('tr_WDqYK6vllg');
+
+  expect(failed.status).toBeUndefined();
+  expect(failed.error).toBeDefined();
+});
+
+test('sequence', async () => {
+  const simulator = new Simulator();
+  const client = createMockMollieClient({ simulator });
+  const events: WebhookEvent[] = [];
+  const webhookHandler = new WebhookHandler(client);
+  (['payment.paid', 'payment.refunded', 'payment.chargedback'] as WebhookEvent[]).forEach(name => webhookHandler.on(name, (_, event) => void events.push(event)));
+  const server = createServer(createNodeWebhookListener(webhookHandler));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const sender = new WebhookSender({ url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook`, retryDelays: [], log: () => undefined });
+
+  try {
+    const payment = await client.payments.create({ amount: { currency: 'EUR', value: '10.00' }, description: 'Order #12345' });
+    let refundId = '';
+
+    await sender.play([
+      { id: payment.id, before: () => simulator.transitionPayment(payment.id, PaymentStatus.paid) },
+      {
+        id: payment.id,
+        before: async () => {
+          refundId = (await client.paymentRefunds.create({ paymentId: payment.id, amount: { currency: 'EUR', value: '2.00' } })).id;
+          await simulator.transitionRefund(refundId, RefundStatus.refunded);
+        },
+      },
+      { id: payment.id, delay: 10, before: () => simulator.createChargeback(payment.id) },
+    ]);
+
+    expect(events).toEqual(['payment.paid', 'payment.paid', 'payment.refunded', 'payment.paid', 'payment.refunded', 'payment.chargedback']);
+  } finally {
+    server.close();
+  }
+});
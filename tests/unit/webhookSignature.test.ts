@@ -0,0 +1,67 @@
+import { createHmac } from 'crypto';
+
+import createMollieClient, { InvalidSignatureError, Payment, PaymentStatus, verifyWebhookSignature, WebhookHandler } from '../..';
+import { buildPayment } from '../../testing';
+
+const secret = 'whsec_Xm3PnCpQ8rvVVzrnUk3e';
+
+function sign(body: string, key = secret) {
+  return `sha256=${createHmac('sha256', key).update(body).digest('hex')}`;
+}
+
+const payment = buildPayment({ status: PaymentStatus.paid });
+const body = JSON.stringify({
+  resource: 'event',
+  id: 'event_GvJ8WHrp5isUdRub9CJyH',
+  type: 'payment.paid',
+  entityId: payment.id,
+  createdAt: '2024-03-20T09:28:37+00:00',
+  _embedded: { entity: payment },
+  _links: {
+    self: { href: 'https://api.mollie.com/v2/events/event_GvJ8WHrp5isUdRub9CJyH', type: 'application/hal+json' },
+    documentation: { href: 'https://docs.mollie.com/reference/webhooks-new#payloads', type: 'text/html' },
+    entity: { href: payment._links.self.href, type: 'application/hal+json' },
+  },
+});
+
+test('verifyWebhookSignature', () => {
+  expect(verifyWebhookSignature(body, sign(body), secret)).toBe(true);
+  expect(verifyWebhookSignature(Buffer.from(body), sign(body).substring(7), secret)).toBe(true);
+  // Secret rotation.
+  expect(verifyWebhookSignature(body, sign(body, 'whsec_old'), [secret, 'whsec_old'])).toBe(true);
+
+  expect(verifyWebhookSignature(body, sign(body, 'whsec_other'), secret)).toBe(false);
+  expect(verifyWebhookSignature(`${body} `, sign(body), secret)).toBe(false);
+  expect(verifyWebhookSignature(body, sign(body).replace('sha256', 'sha1'), secret)).toBe(false);
+  expect(verifyWebhookSignature(body, 'sha256=abc', secret)).toBe(false);
+  expect(verifyWebhookSignature(body, undefined, secret)).toBe(false);
+});
+
+test('parsePayload', () => {
+  const client = createMollieClient({ apiKey: 'test_dHar4XY7LxsDOtmnkVtjNVWXLSlXsM' });
+
+  const payload = client.webhooks.parsePayload(body, sign(body), secret);
+
+  expect(payload.type).toBe('payment.paid');
+  expect(payload.entityId).toBe(payment.id);
+  const entity = payload.entity as Payment;
+  expect(entity.resource).toBe('payment');
+  expect(entity.isPaid()).toBe(true);
+
+  expect(() => client.webhooks.parsePayload(body, sign(body, 'whsec_other'), secret)).toThrow(InvalidSignatureError);
+  expect(() => client.webhooks.parsePayload('{', sign('{'), secret)).toThrow('not valid JSON');
+});
+
+test('handlePayload', async () => {
+  const client = createMollieClient({ apiKey: 'test_dHar4XY7LxsDOtmnkVtjNVWXLSlXsM' });
+  const paidPayments: string[] = [];
+  const webhookHandler = new WebhookHandler(client, { secret: ['whsec_new', secret] }).on('payment.paid', payment => void paidPayments.push(payment.id));
+
+  const payload = await webhookHandler.handlePayload(body, sign(body));
+
+  expect(payload.id).toBe('event_GvJ8WHrp5isUdRub9CJyH');
+  expect(paidPayments).toEqual([payment.id]);
+
+  await expect(webhookHandler.handlePayload(body, undefined)).rejects.toBeInstanceOf(InvalidSignatureError);
+  await expect(new WebhookHandler(client).handlePayload(body, sign(body))).rejects.toThrow('Pass the secret option');
+});
@@ -0,0 +1,98 @@
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { FileWebhookStateStore, MemoryWebhookStateStore, PaymentStatus, RefundStatus, WebhookEvent, WebhookHandler, WebhookStateStore } from '../..';
+import { createMockMollieClient, Simulator } from '../../testing';
+
+let simulator: Simulator;
+let client: ReturnType<typeof createMockMollieClient>;
+let paymentId: string;
+
+beforeEach(async () => {
+  simulator = new Simulator();
+  client = createMockMollieClient({ simulator });
+  paymentId = (await client.payments.create({ amount: { currency: 'EUR', value: '10.00' }, description: 'Order #12345' })).id;
+  await simulator.transitionPayment(paymentId, PaymentStatus.paid);
+});
+
+/**
+ * Creates a webhook handler with the passed store, and a listener which records the events.
+ */
+function createWebhookHandler(stateStore: WebhookStateStore) {
+  const events: WebhookEvent[] = [];
+  const webhookHandler = new WebhookHandler(client, { stateStore });
+  (['payment', 'payment.paid', 'payment.refunded', 'payment.chargedback'] as WebhookEvent[]).forEach(name => webhookHandler.on(name, (_, event) => void events.push(event)));
+  return { webhookHandler, events };
+}
+
+test('deduplication', async () => {
+  const { webhookHandler, events } = createWebhookHandler(new MemoryWebhookStateStore());
+
+  await webhookHandler.handle(`id=${paymentId}`);
+  await webhookHandler.handle(`id=${paymentId}`);
+
+  expect(events).toEqual(['payment', 'payment.paid']);
+
+  const refund = await client.paymentRefunds.create({ paymentId, amount: { currency: 'EUR', value: '2.00' } });
+  await simulator.transitionRefund(refund.id, RefundStatus.refunded);
+  await webhookHandler.handle(`id=${paymentId}`);
+  await webhookHandler.handle(`id=${paymentId}`);
+
+  expect(events).toEqual(['payment', 'payment.paid', 'payment', 'payment.refunded']);
+
+  await simulator.createChargeback(paymentId);
+  await webhookHandler.handle(`id=${paymentId}`);
+
+  expect(events.slice(4)).toEqual(['payment', 'payment.chargedback']);
+});
+
+test('failingListener', async () => {
+  const { webhookHandler, events } = createWebhookHandler(new MemoryWebhookStateStore());
+  let fail = true;
+  webhookHandler.on('payment.paid', () => {
+    if (fail) {
+      throw new Error('Database unavailable');
+    }
+  });
+
+  await expect(webhookHandler.handle(`id=${paymentId}`)).rejects.toThrow('Database unavailable');
+
+  // As the state has not been stored, the next call emits the events again.
+  fail = false;
+  await webhookHandler.handle(`id=${paymentId}`);
+
+  expect(events).toEqual(['payment', 'payment.paid', 'payment', 'payment.paid']);
+});
+
+test('concurrency', async () => {
+  const { webhookHandler, events } = createWebhookHandler(new MemoryWebhookStateStore());
+  let running = 0;
+  let maximumRunning = 0;
+  webhookHandler.on('payment', async () => {
+    maximumRunning = Math.max(maximumRunning, ++running);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    --running;
+  });
+
+  await Promise.all([webhookHandler.handle(`id=${paymentId}`), webhookHandler.handle(`id=${paymentId}`), webhookHandler.handle(`id=${paymentId}`)]);
+
+  expect(events).toEqual(['payment', 'payment.paid']);
+  expect(maximumRunning).toBe(1);
+});
+
+test('fileStore', async () => {
+  const path = join(mkdtempSync(join(tmpdir(), 'mollie-')), 'webhooks.json');
+
+  const first = createWebhookHandler(new FileWebhookStateStore(path));
+  await first.webhookHandler.handle(`id=${paymentId}`);
+
+  expect(JSON.parse(readFileSync(path, 'utf8'))[paymentId]).toEqual({ status: 'paid', amountRefunded: '0.00' });
+
+  // A new store which reads the same file (for instance after a restart) knows the payment has been processed.
+  const second = createWebhookHandler(new FileWebhookStateStore(path));
+  await second.webhookHandler.handle(`id=${paymentId}`);
+
+  expect(first.events).toEqual(['payment', 'payment.paid']);
+  expect(second.events).toEqual([]);
+});